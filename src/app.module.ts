@@ -3,12 +3,14 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
 import { ScheduleModule } from '@nestjs/schedule';
+import { EventEmitterModule } from '@nestjs/event-emitter';
 import { APP_GUARD } from '@nestjs/core';
 
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 
 // Modules
+import { CacheModule } from './cache/cache.module';
 import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
 import { PropertiesModule } from './properties/properties.module';
@@ -38,6 +40,12 @@ import { DigitalLeaseModule } from './digital-lease/digital-lease.module';
 import { RoommateMatchingModule } from './roommate/roommate.module';
 import { NewsletterModule } from './newsletter/newsletter.module';
 import { InsightsModule } from './insights/insights.module';
+import { SyndicationModule } from './syndication/syndication.module';
+import { GeocodingModule } from './geocoding/geocoding.module';
+import { CurrencyModule } from './currency/currency.module';
+import { OpenHousesModule } from './open-houses/open-houses.module';
+import { FinancingModule } from './financing/financing.module';
+import { PricingModule } from './pricing/pricing.module';
 
 @Module({
   imports: [
@@ -65,6 +73,10 @@ import { InsightsModule } from './insights/insights.module';
 
     ScheduleModule.forRoot(),
 
+    EventEmitterModule.forRoot(),
+
+    CacheModule,
+
     ThrottlerModule.forRootAsync({
       imports: [ConfigModule],
       useFactory: (configService: ConfigService) => [
@@ -112,6 +124,12 @@ import { InsightsModule } from './insights/insights.module';
     RoommateMatchingModule,
     NewsletterModule,
     InsightsModule,
+    SyndicationModule,
+    GeocodingModule,
+    CurrencyModule,
+    OpenHousesModule,
+    FinancingModule,
+    PricingModule,
   ],
 
   controllers: [AppController],
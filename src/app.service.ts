@@ -2,10 +2,14 @@ import { Injectable } from '@nestjs/common';
 import { InjectConnection } from '@nestjs/mongoose';
 import { Connection } from 'mongoose';
 import * as os from 'os';
+import { CacheService } from './cache/cache.service';
 
 @Injectable()
 export class AppService {
-  constructor(@InjectConnection() private readonly connection: Connection) { }
+  constructor(
+    @InjectConnection() private readonly connection: Connection,
+    private readonly cacheService: CacheService,
+  ) { }
 
   getHello(): string {
     return 'Hello World!';
@@ -35,6 +39,7 @@ export class AppService {
           host: this.connection.host,
         }
       },
+      cache: await this.cacheService.getStats(),
       system: {
         uptime: os.uptime(),
         platform: os.platform(),
@@ -0,0 +1,264 @@
+import { ConflictException } from '@nestjs/common';
+import { Model, Types } from 'mongoose';
+import sift from 'sift';
+
+import {
+  BookingInventoryService,
+  ReservableBooking,
+} from './booking-inventory.service';
+import {
+  BookingNightClaim,
+  BookingNightDocument,
+} from './schema/booking-night.schema';
+
+/** Deterministic PRNG (mulberry32) so every schedule can be replayed. */
+function seeded(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+interface NightDoc {
+  propertyId: Types.ObjectId;
+  night: Date;
+  claims: BookingNightClaim[];
+}
+
+/**
+ * booking_nights as Mongo treats it: filters are evaluated with Mongo query
+ * semantics, a matched update is atomic, an upsert that matches nothing
+ * inserts after a gap other requests can use, and the unique
+ * (propertyId, night) index rejects the second insert with E11000.
+ */
+class NightCollection {
+  readonly docs: NightDoc[] = [];
+  duplicateKeyErrors = 0;
+
+  constructor(private readonly random: () => number) {}
+
+  async updateOne(
+    filter: Record<string, unknown>,
+    update: { $addToSet: { claims: BookingNightClaim } },
+    options: { upsert?: boolean } = {},
+  ): Promise<void> {
+    await this.yieldTurns();
+    const doc = this.docs.find(sift(filter));
+    if (doc) {
+      this.addToSet(doc, update.$addToSet.claims);
+      return;
+    }
+    if (!options.upsert) return;
+
+    await this.yieldTurns();
+    const { propertyId, night } = filter as Pick<
+      NightDoc,
+      'propertyId' | 'night'
+    >;
+    if (this.docs.some((d) => this.sameNight(d, propertyId, night))) {
+      this.duplicateKeyErrors++;
+      throw Object.assign(new Error('E11000 duplicate key error'), {
+        code: 11000,
+      });
+    }
+    this.docs.push({ propertyId, night, claims: [update.$addToSet.claims] });
+  }
+
+  async updateMany(
+    filter: Record<string, unknown>,
+    update: { $pull: { claims: { bookingId: unknown } } },
+  ): Promise<void> {
+    await this.yieldTurns();
+    const pull = sift(update.$pull.claims);
+    for (const doc of this.docs.filter(sift(filter))) {
+      doc.claims = doc.claims.filter((c) => !pull(c));
+    }
+  }
+
+  async deleteMany(filter: Record<string, unknown>): Promise<void> {
+    await this.yieldTurns();
+    const matches = sift(filter);
+    for (let i = this.docs.length - 1; i >= 0; i--) {
+      if (matches(this.docs[i])) this.docs.splice(i, 1);
+    }
+  }
+
+  private addToSet(doc: NightDoc, claim: BookingNightClaim): void {
+    const same = (c: BookingNightClaim) =>
+      c.bookingId.equals(claim.bookingId) &&
+      String(c.roomId) === String(claim.roomId);
+    if (!doc.claims.some(same)) doc.claims.push(claim);
+  }
+
+  private sameNight(doc: NightDoc, propertyId: Types.ObjectId, night: Date) {
+    return (
+      doc.propertyId.equals(propertyId) &&
+      doc.night.getTime() === night.getTime()
+    );
+  }
+
+  /** Lets up to three other pending requests run first. */
+  private async yieldTurns(): Promise<void> {
+    const turns = Math.floor(this.random() * 4);
+    for (let i = 0; i < turns; i++) {
+      await new Promise<void>((resolve) => setImmediate(resolve));
+    }
+  }
+}
+
+const day = (d: number) => new Date(Date.UTC(2026, 5, d));
+const propertyId = new Types.ObjectId();
+const rooms = [new Types.ObjectId(), new Types.ObjectId()];
+
+function setup(seed: number) {
+  const nights = new NightCollection(seeded(seed));
+  const inventory = new BookingInventoryService(
+    nights as unknown as Model<BookingNightDocument>,
+  );
+  return { nights, inventory };
+}
+
+function booking(
+  checkIn: number,
+  checkOut: number,
+  roomId: Types.ObjectId | null = null,
+): ReservableBooking {
+  return {
+    _id: new Types.ObjectId(),
+    propertyId,
+    roomId,
+    checkIn: day(checkIn),
+    checkOut: day(checkOut),
+  };
+}
+
+async function race(
+  inventory: BookingInventoryService,
+  bookings: ReservableBooking[],
+): Promise<ReservableBooking[]> {
+  const results = await Promise.allSettled(
+    bookings.map((b) => inventory.reserve(b)),
+  );
+  results.forEach((r) => {
+    if (r.status === 'rejected') {
+      expect(r.reason).toBeInstanceOf(ConflictException);
+    }
+  });
+  return bookings.filter((_, i) => results[i].status === 'fulfilled');
+}
+
+function clashes(a: ReservableBooking, b: ReservableBooking): boolean {
+  const overlap = a.checkIn < b.checkOut && b.checkIn < a.checkOut;
+  return (
+    overlap && (!a.roomId || !b.roomId || String(a.roomId) === String(b.roomId))
+  );
+}
+
+function claimedBy(nights: NightCollection): string[] {
+  const ids = nights.docs.flatMap((d) =>
+    d.claims.map((c) => c.bookingId.toString()),
+  );
+  return [...new Set(ids)].sort();
+}
+
+describe('BookingInventoryService', () => {
+  it('gives identical whole-property requests to exactly one guest', async () => {
+    const { nights, inventory } = setup(1);
+    const attempts = Array.from({ length: 20 }, () => booking(10, 14));
+
+    const winners = await race(inventory, attempts);
+
+    expect(winners).toHaveLength(1);
+    expect(nights.docs).toHaveLength(4);
+    for (const doc of nights.docs) {
+      expect(doc.claims.map((c) => c.bookingId)).toEqual([winners[0]._id]);
+    }
+    // Concurrent first claims of a night met on the unique index
+    expect(nights.duplicateKeyErrors).toBeGreaterThan(0);
+  });
+
+  it('lets rooms share nights but gives each room to one guest', async () => {
+    const { nights, inventory } = setup(2);
+    const attempts = rooms.flatMap((roomId) =>
+      Array.from({ length: 8 }, () => booking(3, 6, roomId)),
+    );
+
+    const winners = await race(inventory, attempts);
+
+    expect(winners.map((w) => String(w.roomId)).sort()).toEqual(
+      rooms.map(String).sort(),
+    );
+    for (const doc of nights.docs) expect(doc.claims).toHaveLength(2);
+  });
+
+  it('never lets a whole-property booking share a night with a room', async () => {
+    const { nights, inventory } = setup(3);
+    await inventory.reserve(booking(5, 7, rooms[0]));
+
+    await expect(inventory.reserve(booking(6, 8))).rejects.toThrow(
+      'The property is already booked on the night of 2026-06-06',
+    );
+    // The rejected stay leaves no claim behind
+    expect(nights.docs.map((d) => d.night)).toEqual([day(5), day(6)]);
+  });
+
+  it('is idempotent for a booking that already holds its nights', async () => {
+    const { nights, inventory } = setup(4);
+    const stay = booking(1, 3, rooms[1]);
+
+    await inventory.reserve(stay);
+    await inventory.reserve(stay);
+
+    expect(nights.docs.map((d) => d.claims.length)).toEqual([1, 1]);
+  });
+
+  it('moves a booking, keeping the nights it still covers', async () => {
+    const { nights, inventory } = setup(5);
+    const stay = booking(10, 13);
+    await inventory.reserve(stay);
+    await inventory.reserve(booking(14, 15));
+
+    await expect(inventory.move(stay, day(11), day(15))).rejects.toThrow(
+      ConflictException,
+    );
+    expect(claimedBy(nights)).toHaveLength(2);
+
+    await inventory.move(stay, day(11), day(14));
+    const held = nights.docs
+      .filter((d) => d.claims.some((c) => c.bookingId.equals(stay._id)))
+      .map((d) => d.night);
+    expect(held).toEqual([day(11), day(12), day(13)]);
+  });
+
+  it('never accepts clashing stays in seeded concurrent schedules', async () => {
+    for (let seed = 100; seed < 120; seed++) {
+      const random = seeded(seed);
+      const { nights, inventory } = setup(seed);
+      const attempts = Array.from({ length: 30 }, () => {
+        const start = 1 + Math.floor(random() * 10);
+        const roll = random();
+        return booking(
+          start,
+          start + 1 + Math.floor(random() * 4),
+          roll < 0.3 ? null : roll < 0.65 ? rooms[0] : rooms[1],
+        );
+      });
+
+      const winners = await race(inventory, attempts);
+
+      expect(winners.length).toBeGreaterThan(0);
+      for (const a of winners) {
+        for (const b of winners) {
+          if (a !== b) expect(clashes(a, b)).toBe(false);
+        }
+      }
+      // Losers leave nothing behind
+      expect(claimedBy(nights)).toEqual(
+        winners.map((w) => w._id.toString()).sort(),
+      );
+    }
+  });
+});
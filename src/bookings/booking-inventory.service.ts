@@ -0,0 +1,175 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+
+import {
+  BookingNight,
+  BookingNightDocument,
+} from './schema/booking-night.schema';
+import {
+  NightClaim,
+  NightLedger,
+  nightsBetween,
+  reserveNights,
+} from './utils/booking-nights.util';
+
+/** What the inventory needs to know about a booking. */
+export interface ReservableBooking {
+  _id: Types.ObjectId | string;
+  propertyId: Types.ObjectId | string;
+  roomId?: Types.ObjectId | string | null;
+  checkIn: Date;
+  checkOut: Date;
+}
+
+const DUPLICATE_KEY = 11000;
+
+/**
+ * Per-night inventory of properties and rooms. A booking owns its nights from
+ * creation until it is cancelled, rejected or its checkout hold lapses, so
+ * two guests can never be given the same night.
+ */
+@Injectable()
+export class BookingInventoryService {
+  private readonly logger = new Logger(BookingInventoryService.name);
+
+  constructor(
+    @InjectModel(BookingNight.name)
+    private nightModel: Model<BookingNightDocument>,
+  ) {}
+
+  /**
+   * Claims every night of the booking, or throws ConflictException and
+   * claims none. Safe to call again for a booking that already holds them.
+   */
+  async reserve(booking: ReservableBooking): Promise<void> {
+    const result = await reserveNights(
+      this.ledger(booking.propertyId),
+      nightsBetween(booking.checkIn, booking.checkOut),
+      this.claimOf(booking),
+    );
+    if (!result.reserved) throw this.taken(booking, result.takenNight);
+  }
+
+  /**
+   * Moves the booking to new dates: claims the nights it does not hold yet,
+   * or throws ConflictException and changes nothing, then gives back the
+   * nights the new dates no longer cover.
+   */
+  async move(
+    booking: ReservableBooking,
+    checkIn: Date,
+    checkOut: Date,
+  ): Promise<void> {
+    const held = nightsBetween(booking.checkIn, booking.checkOut);
+    const wanted = nightsBetween(checkIn, checkOut);
+    const heldTimes = new Set(held.map((n) => n.getTime()));
+    const wantedTimes = new Set(wanted.map((n) => n.getTime()));
+    const ledger = this.ledger(booking.propertyId);
+
+    const result = await reserveNights(
+      ledger,
+      wanted.filter((n) => !heldTimes.has(n.getTime())),
+      this.claimOf(booking),
+    );
+    if (!result.reserved) throw this.taken(booking, result.takenNight);
+    await ledger.release(
+      held.filter((n) => !wantedTimes.has(n.getTime())),
+      booking._id.toString(),
+    );
+  }
+
+  /** Gives the booking's nights back. */
+  async release(booking: ReservableBooking): Promise<void> {
+    await this.ledger(booking.propertyId).release(
+      nightsBetween(booking.checkIn, booking.checkOut),
+      booking._id.toString(),
+    );
+  }
+
+  /** Gives back the nights of many bookings, e.g. after a bulk cancel. */
+  async releaseMany(bookingIds: Types.ObjectId[]): Promise<void> {
+    if (!bookingIds.length) return;
+    await this.nightModel.updateMany(
+      { 'claims.bookingId': { $in: bookingIds } },
+      { $pull: { claims: { bookingId: { $in: bookingIds } } } },
+    );
+    await this.nightModel.deleteMany({ claims: { $size: 0 } });
+  }
+
+  // ─── Helpers ────────────────────────────────────────────────────────────────
+
+  private claimOf(booking: ReservableBooking): NightClaim {
+    return {
+      bookingId: booking._id.toString(),
+      roomId: booking.roomId ? booking.roomId.toString() : null,
+    };
+  }
+
+  private taken(booking: ReservableBooking, night: Date): ConflictException {
+    const day = night.toISOString().split('T')[0];
+    return new ConflictException(
+      booking.roomId
+        ? `Room is already booked on the night of ${day}`
+        : `The property is already booked on the night of ${day}`,
+    );
+  }
+
+  private ledger(property: Types.ObjectId | string): NightLedger {
+    const propertyId = new Types.ObjectId(property.toString());
+    return {
+      claim: (night, claim) => this.claimNight(propertyId, night, claim),
+      release: async (nights, bookingId) => {
+        if (!nights.length) return;
+        const id = new Types.ObjectId(bookingId);
+        await this.nightModel.updateMany(
+          { propertyId, night: { $in: nights } },
+          { $pull: { claims: { bookingId: id } } },
+        );
+        await this.nightModel.deleteMany({
+          propertyId,
+          night: { $in: nights },
+          claims: { $size: 0 },
+        });
+      },
+    };
+  }
+
+  /**
+   * One conditional upsert: it only matches the night when the claim fits
+   * (see canClaim), and when it doesn't the upsert tries to insert a second
+   * document for the night and hits the unique index. A first claim racing
+   * another first claim hits the index too, so that case is retried once
+   * against the document that now exists.
+   */
+  private async claimNight(
+    propertyId: Types.ObjectId,
+    night: Date,
+    claim: NightClaim,
+  ): Promise<boolean> {
+    const bookingId = new Types.ObjectId(claim.bookingId);
+    const roomId = claim.roomId ? new Types.ObjectId(claim.roomId) : null;
+    const fits = roomId
+      ? {
+          claims: { $not: { $elemMatch: { roomId: { $in: [null, roomId] } } } },
+        }
+      : { 'claims.0': { $exists: false } };
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        await this.nightModel.updateOne(
+          { propertyId, night, $or: [{ 'claims.bookingId': bookingId }, fits] },
+          { $addToSet: { claims: { bookingId, roomId } } },
+          { upsert: true },
+        );
+        return true;
+      } catch (err) {
+        if ((err as { code?: number }).code !== DUPLICATE_KEY) throw err;
+      }
+    }
+    this.logger.debug(
+      `Night ${night.toISOString()} of ${propertyId.toString()} is taken`,
+    );
+    return false;
+  }
+}
@@ -30,6 +30,7 @@ import {
   UpdatePaymentDto,
   BookingQueryDto,
   AvailabilityQueryDto,
+  RequestModificationDto,
 } from './dto/booking.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
 import { RolesGuard, Roles, Public } from '../auth/guards/roles.guard';
@@ -69,6 +70,7 @@ export class BookingsController {
   @ApiQuery({ name: 'fromDate', required: false, type: String })
   @ApiQuery({ name: 'toDate', required: false, type: String })
   @ApiQuery({ name: 'sortOrder', required: false, enum: ['asc', 'desc'] })
+  @ApiQuery({ name: 'displayCurrency', required: false, type: String, description: 'Adds displayTotal in this currency' })
   @ApiResponse({ status: 200, description: 'Paginated list of guest bookings' })
   async getMyBookings(
     @Req() req: FastifyRequest & { user: User },
@@ -77,6 +79,23 @@ export class BookingsController {
     return this.bookingsService.getGuestBookings(req.user._id.toString(), query);
   }
 
+  @Get(':id/refund-preview')
+  @Roles(UserRole.REGISTERED_USER, UserRole.GUEST, UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'What cancelling now would refund',
+    description: 'Itemized under the policy the booking was made with: the nights, cleaning, service fee and tax refunded, and whether the grace period, a notice tier or the mid-stay rule applies.',
+  })
+  @ApiParam({ name: 'id', description: 'Booking ID' })
+  @ApiResponse({ status: 400, description: 'Booking cannot be cancelled at this stage' })
+  @ApiResponse({ status: 403, description: 'Not a participant in this booking' })
+  async previewRefund(
+    @Param('id') id: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.bookingsService.previewRefund(id, req.user);
+  }
+
   @Patch(':id/cancel')
   @Roles(UserRole.REGISTERED_USER, UserRole.GUEST, UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
   @ApiBearerAuth()
@@ -94,6 +113,40 @@ export class BookingsController {
     return this.bookingsService.cancelBooking(id, dto, req.user);
   }
 
+  @Post(':id/modifications')
+  @Roles(UserRole.REGISTERED_USER, UserRole.GUEST, UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Guest requests new dates or a new guest count',
+    description: 'The new stay is repriced; the difference is shown to the host and charged or refunded once they approve. Past changes are kept in the booking\'s modifications.',
+  })
+  @ApiParam({ name: 'id', description: 'Booking ID' })
+  @ApiResponse({ status: 201, description: 'Change requested; the booking with its modifications' })
+  @ApiResponse({ status: 400, description: 'Stay not allowed, booking already started or ended' })
+  @ApiResponse({ status: 409, description: 'Dates taken, or a change request is already pending' })
+  async requestModification(
+    @Param('id') id: string,
+    @Body() dto: RequestModificationDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.bookingsService.requestModification(id, dto, req.user);
+  }
+
+  @Patch(':id/modifications/:modificationId/withdraw')
+  @Roles(UserRole.REGISTERED_USER, UserRole.GUEST, UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Guest withdraws a pending change request' })
+  @ApiParam({ name: 'id', description: 'Booking ID' })
+  @ApiParam({ name: 'modificationId', description: 'Change request ID' })
+  async withdrawModification(
+    @Param('id') id: string,
+    @Param('modificationId') modificationId: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.bookingsService.withdrawModification(id, modificationId, req.user);
+  }
+
   // ════════════════════════════════════════════════════════════════════════════
   // HOST — MANAGE INCOMING RESERVATIONS
   // ════════════════════════════════════════════════════════════════════════════
@@ -108,6 +161,7 @@ export class BookingsController {
   @ApiQuery({ name: 'fromDate', required: false, type: String })
   @ApiQuery({ name: 'toDate', required: false, type: String })
   @ApiQuery({ name: 'sortOrder', required: false, enum: ['asc', 'desc'] })
+  @ApiQuery({ name: 'displayCurrency', required: false, type: String, description: 'Adds displayTotal in this currency' })
   @ApiResponse({ status: 200, description: 'Paginated list of host bookings' })
   async getHostBookings(
     @Req() req: FastifyRequest & { user: User },
@@ -162,6 +216,44 @@ export class BookingsController {
     return this.bookingsService.completeBooking(id, req.user);
   }
 
+  @Patch(':id/modifications/:modificationId/approve')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Host approves a change request',
+    description: 'Moves the booking to the requested stay and price. On a paid booking a lower price is refunded immediately; a higher one is paid by the guest via POST /payments/bookings/:bookingId/modifications/:modificationId/initiate.',
+  })
+  @ApiParam({ name: 'id', description: 'Booking ID' })
+  @ApiParam({ name: 'modificationId', description: 'Change request ID' })
+  @ApiResponse({ status: 200, description: 'Change applied' })
+  @ApiResponse({ status: 409, description: 'Requested dates are no longer available, or the request was already answered' })
+  async approveModification(
+    @Param('id') id: string,
+    @Param('modificationId') modificationId: string,
+    @Body() dto: RespondToBookingDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.bookingsService.approveModification(id, modificationId, dto, req.user);
+  }
+
+  @Patch(':id/modifications/:modificationId/decline')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Host declines a change request' })
+  @ApiParam({ name: 'id', description: 'Booking ID' })
+  @ApiParam({ name: 'modificationId', description: 'Change request ID' })
+  @ApiResponse({ status: 200, description: 'Change declined, booking unchanged' })
+  async declineModification(
+    @Param('id') id: string,
+    @Param('modificationId') modificationId: string,
+    @Body() dto: RespondToBookingDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.bookingsService.declineModification(id, modificationId, dto, req.user);
+  }
+
   // ════════════════════════════════════════════════════════════════════════════
   // PROPERTY — AVAILABILITY (PUBLIC)
   // ════════════════════════════════════════════════════════════════════════════
@@ -254,14 +346,16 @@ export class BookingsController {
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Get booking details (guest, host, or admin)' })
   @ApiParam({ name: 'id', description: 'Booking ID' })
+  @ApiQuery({ name: 'displayCurrency', required: false, type: String, description: 'Adds displayTotal in this currency' })
   @ApiResponse({ status: 200, description: 'Booking details' })
   @ApiResponse({ status: 403, description: 'Not authorized to view this booking' })
   @ApiResponse({ status: 404, description: 'Booking not found' })
   async getBookingById(
     @Param('id') id: string,
     @Req() req: FastifyRequest & { user: User },
+    @Query('displayCurrency') displayCurrency?: string,
   ) {
-    return this.bookingsService.getBookingById(id, req.user);
+    return this.bookingsService.getBookingById(id, req.user, displayCurrency);
   }
 
   @Get('host-stats')
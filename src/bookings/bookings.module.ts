@@ -2,27 +2,40 @@ import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 
 import { Booking, BookingSchema } from './schema/booking.schema';
+import { BookingNight, BookingNightSchema } from './schema/booking-night.schema';
+import { HostCancellationPolicy, HostCancellationPolicySchema } from './schema/cancellation-policy.schema';
 import { Property, PropertySchema } from '../properties/schemas/property.schema';
 import { User, UserSchema } from '../users/schemas/user.schema';
 import { BookingsService } from './bookings.service';
 import { BookingsController } from './bookings.controller';
 import { BookingsScheduler } from './bookings.scheduler';
+import { BookingInventoryService } from './booking-inventory.service';
+import { CancellationPoliciesService } from './cancellation-policies.service';
+import { CancellationPoliciesController } from './cancellation-policies.controller';
 import { RoomsModule } from '../rooms/rooms.module';
 import { NotificationsModule } from 'src/notifications/notifications.module';
+import { CurrencyModule } from '../currency/currency.module';
+import { PricingModule } from '../pricing/pricing.module';
+import { PaymentsModule } from '../payments/payments.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Booking.name, schema: BookingSchema },
+      { name: BookingNight.name, schema: BookingNightSchema },
+      { name: HostCancellationPolicy.name, schema: HostCancellationPolicySchema },
       // Re-import Property & User so the service can query them directly
       { name: Property.name, schema: PropertySchema },
       { name: User.name, schema: UserSchema },
     ]),
     forwardRef(() => RoomsModule), 
-    NotificationsModule
+    NotificationsModule,
+    CurrencyModule,
+    PricingModule,
+    PaymentsModule,
   ],
-  controllers: [BookingsController],
-  providers: [BookingsService, BookingsScheduler],
-  exports: [BookingsService],
+  controllers: [BookingsController, CancellationPoliciesController],
+  providers: [BookingsService, BookingsScheduler, BookingInventoryService, CancellationPoliciesService],
+  exports: [BookingsService, BookingInventoryService],
 })
 export class BookingsModule { }
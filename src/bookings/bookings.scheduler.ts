@@ -4,8 +4,10 @@ import { Cron, CronExpression } from '@nestjs/schedule';
 import { Model } from 'mongoose';
 
 import { Booking, BookingDocument, BookingStatus, PaymentStatus, CancelledBy } from './schema/booking.schema';
+import { BookingInventoryService } from './booking-inventory.service';
+import { PaymentsService } from '../payments/services/payments.service';
 
-/** Hours after creation that an unpaid PENDING booking is auto-cancelled */
+/** Hours after creation that an unpaid PENDING booking without a hold is auto-cancelled */
 const AUTO_CANCEL_HOURS = 24;
 
 /** Hours after check-in time with no actualCheckIn before marking NO_SHOW */
@@ -17,6 +19,8 @@ export class BookingsScheduler {
 
     constructor(
         @InjectModel(Booking.name) private bookingModel: Model<BookingDocument>,
+        private readonly inventory: BookingInventoryService,
+        private readonly paymentsService: PaymentsService,
     ) { }
 
     // ════════════════════════════════════════════════════════════════════════════
@@ -24,37 +28,65 @@ export class BookingsScheduler {
     // ════════════════════════════════════════════════════════════════════════════
 
     /**
-     * Every hour: find PENDING bookings that have been waiting more than
-     * AUTO_CANCEL_HOURS without payment and cancel them automatically.
-     * This frees up the calendar for other guests.
+     * Every 5 minutes: cancel unpaid bookings whose hold on their nights has
+     * lapsed (see Booking.holdExpiresAt), and PENDING bookings from before
+     * holds existed that have waited more than AUTO_CANCEL_HOURS. Their
+     * nights go back to the inventory for other guests. Bookings whose guest
+     * is in the middle of paying are left for a later run.
      */
-    @Cron(CronExpression.EVERY_HOUR)
+    @Cron(CronExpression.EVERY_5_MINUTES)
     async autoCancelUnpaidBookings(): Promise<void> {
-        const cutoff = new Date(Date.now() - AUTO_CANCEL_HOURS * 3_600_000);
+        const now = new Date();
+        const cutoff = new Date(now.getTime() - AUTO_CANCEL_HOURS * 3_600_000);
 
         try {
+            const lapsed = {
+                paymentStatus: PaymentStatus.UNPAID,
+                $or: [
+                    {
+                        status: { $in: [BookingStatus.PENDING, BookingStatus.CONFIRMED] },
+                        holdExpiresAt: { $lt: now },
+                    },
+                    {
+                        status: BookingStatus.PENDING,
+                        holdExpiresAt: { $exists: false },
+                        createdAt: { $lt: cutoff },
+                    },
+                ],
+            };
+            const candidates = (await this.bookingModel.find(lapsed).select('_id').lean())
+                .map((b) => b._id);
+            const paying = new Set(
+                (await this.paymentsService.bookingsAwaitingPayment(candidates)).map(String),
+            );
+            const ids = candidates.filter((id) => !paying.has(String(id)));
+            if (!ids.length) return;
+
             const result = await this.bookingModel.updateMany(
-                {
-                    status: BookingStatus.PENDING,
-                    paymentStatus: PaymentStatus.UNPAID,
-                    createdAt: { $lt: cutoff },
-                },
+                { _id: { $in: ids }, ...lapsed },
                 {
                     $set: {
                         status: BookingStatus.CANCELLED,
                         'cancellation.cancelledBy': CancelledBy.SYSTEM,
                         'cancellation.cancelledAt': new Date(),
                         'cancellation.reason':
-                            `Automatically cancelled: payment not received within ${AUTO_CANCEL_HOURS} hours`,
+                            'Automatically cancelled: payment not received before the booking hold expired',
                         'cancellation.refundAmount': 0,
                     },
                 },
             );
 
+            // Release only what this run cancelled; a payment may have landed meanwhile
+            const cancelled = await this.bookingModel
+                .find({ _id: { $in: ids }, status: BookingStatus.CANCELLED })
+                .select('_id')
+                .lean();
+            await this.inventory.releaseMany(cancelled.map((b) => b._id));
+
             if (result.modifiedCount > 0) {
                 this.logger.log(
                     `Auto-cancel job: cancelled ${result.modifiedCount} unpaid booking(s) ` +
-                    `(older than ${AUTO_CANCEL_HOURS}h)`,
+                    `whose hold expired`,
                 );
             }
         } catch (err: any) {
@@ -9,17 +9,30 @@ import {
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 
-import { Booking, BookingDocument, BookingStatus, PaymentStatus, CancelledBy } from './schema/booking.schema';
+import { Booking, BookingDocument, BookingStatus, PaymentStatus, CancelledBy, BookingPriceBreakdown, BookingGuest, BookingModification, BookingModificationSettlement, BookingStay, ModificationStatus, BookingCancellationPolicy } from './schema/booking.schema';
 import { Property, PropertyDocument, PropertyStatus, ApprovalStatus } from '../properties/schemas/property.schema';
 import { User, UserDocument, UserRole } from '../users/schemas/user.schema';
 import { RoomsService } from '../rooms/rooms.service';
+import { BookingInventoryService } from './booking-inventory.service';
+import { CancellationPoliciesService } from './cancellation-policies.service';
+import { RefundQuote, computeRefund } from './utils/cancellation-policy.util';
+import { PricingService } from '../pricing/pricing.service';
+import { PaymentsService } from '../payments/services/payments.service';
 import { NotificationsService } from '../notifications/notifications.service';
+import { ExchangeRatesService } from '../currency/exchange-rates.service';
+import {
+  ExchangeRateSnapshot,
+  exchangeRate,
+  normalizeCurrency,
+  roundAmount,
+} from '../currency/utils/currency-conversion.util';
 import {
   CreateBookingDto,
   CancelBookingDto,
   RespondToBookingDto,
   UpdatePaymentDto,
   BookingQueryDto,
+  RequestModificationDto,
 } from './dto/booking.dto';
 import { HostStatsDto } from './dto/host-stats.dto';
 
@@ -31,6 +44,9 @@ const SERVICE_FEE_RATE = 0.10;
 /** How many hours after creation an unpaid PENDING booking is auto-cancelled */
 const AUTO_CANCEL_HOURS = 24;
 
+/** How long an unpaid instant booking holds its nights while the guest pays */
+const CHECKOUT_HOLD_MINUTES = 30;
+
 // ─── Interfaces ───────────────────────────────────────────────────────────────
 
 export interface PaginatedBookings {
@@ -40,6 +56,14 @@ export interface PaginatedBookings {
   totalPages: number;
 }
 
+/** What cancelling now would refund, before the guest commits to it. */
+export interface RefundPreview extends RefundQuote {
+  currency: string;
+  /** What the guest has paid so far; nothing is refunded on unpaid bookings. */
+  paidAmount: number;
+  policy: BookingCancellationPolicy;
+}
+
 export interface AvailabilityResult {
   available: boolean;
   unavailableDates: { from: Date; to: Date }[];  // host-blocked ranges
@@ -58,6 +82,11 @@ export class BookingsService {
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     private readonly roomsService: RoomsService,
     private readonly notificationsService: NotificationsService,
+    private readonly exchangeRatesService: ExchangeRatesService,
+    private readonly inventory: BookingInventoryService,
+    private readonly pricingService: PricingService,
+    private readonly paymentsService: PaymentsService,
+    private readonly cancellationPolicies: CancellationPoliciesService,
   ) { }
 
   // ════════════════════════════════════════════════════════════════════════════
@@ -170,7 +199,14 @@ export class BookingsService {
     }
 
     // ── 5. Build price breakdown ─────────────────────────────────────────────
-    const priceBreakdown = this.computePrice(property, nights);
+    // Priced in the listing currency, then converted if the guest pays in another
+    const listingCurrency = normalizeCurrency((property as any).currency);
+    const currency = normalizeCurrency(dto.currency ?? listingCurrency);
+    const rateSnapshot = await this.exchangeRatesService.snapshot(listingCurrency, currency);
+    const priceBreakdown = this.convertBreakdown(
+      await this.computePrice(property, checkIn, checkOut, nights, dto.roomId),
+      rateSnapshot,
+    );
 
     // ── 6. Determine host ────────────────────────────────────────────────────
     const hostId = (property.agentId ?? property.ownerId) as Types.ObjectId;
@@ -179,6 +215,9 @@ export class BookingsService {
     const isInstantBook = !!(property as any).isInstantBookable;
     const initialStatus = isInstantBook ? BookingStatus.CONFIRMED : BookingStatus.PENDING;
     const confirmedAt = isInstantBook ? new Date() : undefined;
+    const holdExpiresAt = new Date(
+      Date.now() + (isInstantBook ? CHECKOUT_HOLD_MINUTES * 60_000 : AUTO_CANCEL_HOURS * 3_600_000),
+    );
 
     // ── 8. Persist ───────────────────────────────────────────────────────────
     const booking = new this.bookingModel({
@@ -195,16 +234,28 @@ export class BookingsService {
         infants: dto.guests.infants ?? 0,
       },
       priceBreakdown,
-      currency: dto.currency ?? (property as any).currency ?? 'XAF',
+      currency,
       status: initialStatus,
       paymentStatus: PaymentStatus.UNPAID,
       isInstantBook,
       confirmedAt,
+      holdExpiresAt,
       guestNote: dto.guestNote,
+      cancellationPolicy: await this.cancellationPolicies.snapshotFor(property),
     });
 
     const saved = await booking.save();
 
+    // ── 9. Claim the nights ──────────────────────────────────────────────────
+    // The check in step 4 can race a concurrent request for the same dates;
+    // the per-night claim cannot, so the loser's booking is removed again.
+    try {
+      await this.inventory.reserve(saved);
+    } catch (err) {
+      await this.bookingModel.deleteOne({ _id: saved._id }).exec();
+      throw err;
+    }
+
     const fmt = (d: Date) => d.toISOString().split('T')[0];
     const propertyTitle = (property as any).title ?? 'your property';
     const hostIdStr = hostId.toString();
@@ -237,7 +288,7 @@ export class BookingsService {
 
   /**
    * Guest cancels their own booking.
-   * Applies refund logic based on the property's cancellation policy.
+   * Applies refund logic based on the cancellation policy the booking was made under.
    */
   async cancelBooking(
     bookingId: string,
@@ -269,7 +320,7 @@ export class BookingsService {
         : CancelledBy.HOST;
 
     // Compute refund based on cancellation policy
-    const refundAmount = await this.computeRefund(booking);
+    const { refundAmount } = (await this.refundQuote(booking, new Date())).quote;
 
     const updated = await this.bookingModel
       .findByIdAndUpdate(
@@ -288,10 +339,37 @@ export class BookingsService {
       )
       .exec();
 
+    await this.inventory.release(booking);
+
     this.logger.log(`Booking ${bookingId} cancelled by ${cancelledBy}`);
     return updated!;
   }
 
+  /**
+   * What cancelling the booking now would refund, itemized, so the guest
+   * can decide before cancelling.
+   */
+  async previewRefund(bookingId: string, user: User): Promise<RefundPreview> {
+    const booking = await this.findBookingOrThrow(bookingId);
+
+    const isParticipant =
+      booking.guestId.toString() === user._id.toString() ||
+      booking.hostId.toString() === user._id.toString() ||
+      user.role === UserRole.ADMIN;
+    if (!isParticipant) {
+      throw new ForbiddenException('You are not a participant in this booking');
+    }
+
+    if (![BookingStatus.PENDING, BookingStatus.CONFIRMED].includes(booking.status)) {
+      throw new BadRequestException(
+        `Cannot cancel a booking with status "${booking.status}"`,
+      );
+    }
+
+    const { policy, paidAmount, quote } = await this.refundQuote(booking, new Date());
+    return { currency: booking.currency, paidAmount, policy, ...quote };
+  }
+
   /**
    * Guest retrieves their own bookings.
    */
@@ -323,6 +401,8 @@ export class BookingsService {
       booking.checkOut,
       bookingId, // exclude the current booking itself
     );
+    // Bookings made before the night inventory existed claim their nights now
+    await this.inventory.reserve(booking);
 
     const updated = await this.bookingModel
       .findByIdAndUpdate(
@@ -331,6 +411,10 @@ export class BookingsService {
           status: BookingStatus.CONFIRMED,
           confirmedAt: new Date(),
           hostNote: dto.hostNote,
+          // The guest gets a fresh day to pay once the host accepts
+          ...(booking.paymentStatus === PaymentStatus.UNPAID && {
+            holdExpiresAt: new Date(Date.now() + AUTO_CANCEL_HOURS * 3_600_000),
+          }),
         },
         { new: true },
       )
@@ -379,6 +463,8 @@ export class BookingsService {
         { new: true },
       )
       .exec();
+    await this.inventory.release(booking);
+
     const property = await this.propertyModel.findById(booking.propertyId).select('title').lean();
     const fmt = (d: Date) => d.toISOString().split('T')[0];
 
@@ -510,6 +596,205 @@ async getHostStats(hostId: string): Promise<HostStatsDto> {
   };
 }
 
+  // ════════════════════════════════════════════════════════════════════════════
+  // MODIFICATIONS — CHANGE OF DATES OR GUESTS
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Guest asks to change the dates or guest count of an upcoming booking.
+   * The new stay is validated and repriced now so the host sees what it
+   * costs; the booking itself only changes once the host approves.
+   */
+  async requestModification(
+    bookingId: string,
+    dto: RequestModificationDto,
+    guest: User,
+  ): Promise<Booking> {
+    const booking = await this.findBookingOrThrow(bookingId);
+
+    if (booking.guestId.toString() !== guest._id.toString()) {
+      throw new ForbiddenException('Only the guest can request changes to this booking');
+    }
+    this.assertModifiable(booking);
+    if (booking.modifications.some((m) => m.status === ModificationStatus.PENDING)) {
+      throw new ConflictException('This booking already has a pending change request');
+    }
+
+    const checkIn = dto.checkIn ? new Date(dto.checkIn) : booking.checkIn;
+    const checkOut = dto.checkOut ? new Date(dto.checkOut) : booking.checkOut;
+    const guests: BookingGuest = dto.guests
+      ? { adults: dto.guests.adults, children: dto.guests.children ?? 0, infants: dto.guests.infants ?? 0 }
+      : this.stayOf(booking).guests;
+    const current = this.stayOf(booking);
+    if (
+      checkIn.getTime() === current.checkIn.getTime() &&
+      checkOut.getTime() === current.checkOut.getTime() &&
+      guests.adults === current.guests.adults &&
+      guests.children === current.guests.children &&
+      guests.infants === current.guests.infants
+    ) {
+      throw new BadRequestException('The requested stay is the same as the current one');
+    }
+
+    const property = await this.propertyModel.findById(booking.propertyId).exec();
+    if (!property) throw new NotFoundException('Property not found');
+    const nights = this.assertStayAllowed(property, checkIn, checkOut, guests);
+    await this.assertStayAvailable(booking, checkIn, checkOut);
+
+    const priceBreakdown = await this.repriceStay(booking, property, checkIn, checkOut, nights);
+    const modification: BookingModification = {
+      _id: new Types.ObjectId(),
+      status: ModificationStatus.PENDING,
+      requestedBy: guest._id,
+      requestedAt: new Date(),
+      guestNote: dto.guestNote,
+      previous: current,
+      requested: { checkIn, checkOut, nights, guests, totalAmount: priceBreakdown.totalAmount },
+      priceBreakdown,
+      priceDifference: roundAmount(
+        priceBreakdown.totalAmount - booking.priceBreakdown.totalAmount,
+        booking.currency,
+      ),
+    };
+
+    // Conditional, so two requests sent at once can't both end up pending
+    const updated = await this.bookingModel
+      .findOneAndUpdate(
+        { _id: booking._id, 'modifications.status': { $ne: ModificationStatus.PENDING } },
+        { $push: { modifications: modification } },
+        { new: true },
+      )
+      .exec();
+    if (!updated) {
+      throw new ConflictException('This booking already has a pending change request');
+    }
+
+    const fmt = (d: Date) => d.toISOString().split('T')[0];
+    await this.notificationsService.notifyModificationRequested(booking.hostId.toString(), {
+      bookingId,
+      propertyTitle: (property as any).title ?? 'your property',
+      guestName: guest.name,
+      checkIn: fmt(checkIn),
+      checkOut: fmt(checkOut),
+      priceDifference: modification.priceDifference,
+      currency: booking.currency,
+    });
+
+    this.logger.log(`Change ${modification._id} requested on booking ${bookingId}`);
+    return updated;
+  }
+
+  /**
+   * Guest takes back their pending change request.
+   */
+  async withdrawModification(bookingId: string, modificationId: string, guest: User): Promise<Booking> {
+    const booking = await this.findBookingOrThrow(bookingId);
+    if (booking.guestId.toString() !== guest._id.toString()) {
+      throw new ForbiddenException('Only the guest can withdraw this change request');
+    }
+    const modification = this.findPendingModification(booking, modificationId);
+
+    const updated = await this.updatePendingModification(booking, modification._id, {
+      'modifications.$.status': ModificationStatus.WITHDRAWN,
+    });
+    this.logger.log(`Change ${modificationId} on booking ${bookingId} withdrawn by guest`);
+    return updated;
+  }
+
+  /**
+   * Host accepts a change request. The booking moves to the requested nights
+   * and takes the new price; on a paid booking a price drop is refunded right
+   * away and a price increase is owed (PARTIALLY_PAID, balanceDue) until the
+   * guest pays it (PaymentsService.initiateModificationPayment). An unpaid
+   * booking's pending payments for the old price are voided.
+   */
+  async approveModification(
+    bookingId: string,
+    modificationId: string,
+    dto: RespondToBookingDto,
+    host: User,
+  ): Promise<Booking> {
+    const booking = await this.findBookingOrThrow(bookingId);
+    this.assertIsHost(booking, host);
+    this.assertModifiable(booking);
+    const modification = this.findPendingModification(booking, modificationId);
+    const { checkIn, checkOut, nights, guests } = modification.requested;
+
+    // Re-check: the nights may have been taken since the request
+    await this.assertStayAvailable(booking, checkIn, checkOut);
+    await this.inventory.move(booking, checkIn, checkOut);
+
+    const difference = modification.priceDifference;
+    const isPaid = [PaymentStatus.PAID, PaymentStatus.PARTIALLY_PAID].includes(booking.paymentStatus);
+    const settlement: BookingModificationSettlement | undefined =
+      isPaid && difference !== 0
+        ? { type: difference > 0 ? 'charge' : 'refund', amount: Math.abs(difference), status: 'pending' }
+        : undefined;
+    // A price increase on a paid booking is owed until the guest pays it
+    const owed = settlement?.type === 'charge' ? settlement.amount : 0;
+
+    let updated: BookingDocument;
+    try {
+      updated = await this.updatePendingModification(booking, modification._id, {
+        checkIn,
+        checkOut,
+        nights,
+        guests,
+        priceBreakdown: modification.priceBreakdown,
+        'modifications.$.status': ModificationStatus.APPROVED,
+        'modifications.$.respondedBy': host._id,
+        'modifications.$.respondedAt': new Date(),
+        'modifications.$.hostNote': dto.hostNote,
+        ...(settlement && { 'modifications.$.settlement': settlement }),
+        ...(owed > 0 && { paymentStatus: PaymentStatus.PARTIALLY_PAID }),
+      }, owed > 0 ? { balanceDue: owed } : undefined);
+    } catch (err) {
+      // Answered or withdrawn in the meantime: give the old nights back
+      await this.inventory.move(
+        { _id: booking._id, propertyId: booking.propertyId, roomId: booking.roomId, checkIn, checkOut },
+        booking.checkIn,
+        booking.checkOut,
+      );
+      throw err;
+    }
+
+    if (settlement?.type === 'refund') {
+      updated = await this.refundModification(updated, modification._id, settlement.amount);
+    }
+    if (booking.paymentStatus === PaymentStatus.UNPAID && difference !== 0) {
+      await this.paymentsService.voidPendingBookingPayments(booking._id);
+    }
+
+    await this.notifyModificationResponse(updated, true);
+    this.logger.log(`Change ${modificationId} on booking ${bookingId} approved by host ${host._id}`);
+    return updated;
+  }
+
+  /**
+   * Host declines a change request; the booking stays as it is.
+   */
+  async declineModification(
+    bookingId: string,
+    modificationId: string,
+    dto: RespondToBookingDto,
+    host: User,
+  ): Promise<Booking> {
+    const booking = await this.findBookingOrThrow(bookingId);
+    this.assertIsHost(booking, host);
+    const modification = this.findPendingModification(booking, modificationId);
+
+    const updated = await this.updatePendingModification(booking, modification._id, {
+      'modifications.$.status': ModificationStatus.DECLINED,
+      'modifications.$.respondedBy': host._id,
+      'modifications.$.respondedAt': new Date(),
+      'modifications.$.hostNote': dto.reason ?? dto.hostNote,
+    });
+
+    await this.notifyModificationResponse(updated, false);
+    this.logger.log(`Change ${modificationId} on booking ${bookingId} declined by host ${host._id}`);
+    return updated;
+  }
+
   // ════════════════════════════════════════════════════════════════════════════
   // AVAILABILITY
   // ════════════════════════════════════════════════════════════════════════════
@@ -569,7 +854,7 @@ async getHostStats(hostId: string): Promise<HostStatsDto> {
     return this.paginateBookings({}, query);
   }
 
-  async getBookingById(bookingId: string, user: User): Promise<Booking> {
+  async getBookingById(bookingId: string, user: User, displayCurrency?: string): Promise<Booking> {
     const booking = await this.bookingModel
       .findById(bookingId)
       .populate('propertyId', 'title address city images price')
@@ -590,7 +875,8 @@ async getHostStats(hostId: string): Promise<HostStatsDto> {
       throw new ForbiddenException('You do not have access to this booking');
     }
 
-    return booking;
+    const [displayed] = await this.withDisplayTotal([booking], displayCurrency);
+    return displayed;
   }
 
   /**
@@ -695,26 +981,208 @@ async getHostStats(hostId: string): Promise<HostStatsDto> {
   }
 
   /**
-   * Compute the full price breakdown at booking time.
+   * Throws unless the stay fits the property's rules: valid dates from today
+   * on, min/max nights and max guests. Returns the number of nights.
+   */
+  private assertStayAllowed(
+    property: PropertyDocument,
+    checkIn: Date,
+    checkOut: Date,
+    guests: BookingGuest,
+  ): number {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    if (isNaN(checkIn.getTime()) || isNaN(checkOut.getTime())) {
+      throw new BadRequestException('Invalid check-in or check-out date');
+    }
+    if (checkIn < today) {
+      throw new BadRequestException('Check-in date cannot be in the past');
+    }
+    if (checkOut <= checkIn) {
+      throw new BadRequestException('Check-out must be after check-in');
+    }
+
+    const nights = Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24));
+    const minNights = (property as any).minNights ?? 1;
+    const maxNights = (property as any).maxNights ?? 365;
+    if (nights < minNights) {
+      throw new BadRequestException(`Minimum stay for this property is ${minNights} night(s)`);
+    }
+    if (nights > maxNights) {
+      throw new BadRequestException(`Maximum stay for this property is ${maxNights} night(s)`);
+    }
+
+    const maxGuests = (property as any).shortTermAmenities?.maxGuests ?? 99;
+    if (guests.adults + (guests.children ?? 0) > maxGuests) {
+      throw new BadRequestException(
+        `This property accommodates a maximum of ${maxGuests} guest(s)`,
+      );
+    }
+    return nights;
+  }
+
+  /** Availability of new dates for an existing booking, ignoring the booking itself. */
+  private async assertStayAvailable(booking: BookingDocument, checkIn: Date, checkOut: Date): Promise<void> {
+    const bookingId = booking._id.toString();
+    if (booking.roomId) {
+      await this.roomsService.assertRoomDatesAvailable(booking.roomId.toString(), checkIn, checkOut, bookingId);
+    } else {
+      await this.assertDatesAvailable(booking.propertyId.toString(), checkIn, checkOut, bookingId);
+    }
+  }
+
+  /** Only upcoming, live bookings can change. */
+  private assertModifiable(booking: BookingDocument): void {
+    if (![BookingStatus.PENDING, BookingStatus.CONFIRMED].includes(booking.status)) {
+      throw new BadRequestException(`Cannot change a booking with status "${booking.status}"`);
+    }
+    if (booking.checkIn <= new Date()) {
+      throw new BadRequestException('A stay that has already started cannot be changed');
+    }
+  }
+
+  private findPendingModification(booking: BookingDocument, modificationId: string): BookingModification {
+    const modification = booking.modifications.find((m) => m._id.toString() === modificationId);
+    if (!modification) throw new NotFoundException('Change request not found');
+    if (modification.status !== ModificationStatus.PENDING) {
+      throw new BadRequestException(`This change request is already ${modification.status}`);
+    }
+    return modification;
+  }
+
+  /**
+   * Applies `set` (and `inc`) only while the modification is still pending, so
+   * a guest withdrawing and a host answering at the same time can't both win.
+   */
+  private async updatePendingModification(
+    booking: BookingDocument,
+    modificationId: Types.ObjectId,
+    set: Record<string, unknown>,
+    inc?: Record<string, number>,
+  ): Promise<BookingDocument> {
+    const updated = await this.bookingModel
+      .findOneAndUpdate(
+        {
+          _id: booking._id,
+          modifications: { $elemMatch: { _id: modificationId, status: ModificationStatus.PENDING } },
+        },
+        { $set: set, ...(inc && { $inc: inc }) },
+        { new: true },
+      )
+      .exec();
+    if (!updated) throw new ConflictException('This change request has already been answered');
+    return updated;
+  }
+
+  /**
+   * Refunds the price drop of an approved change and records the outcome on
+   * it. A failed refund leaves the change approved, marked for follow-up.
+   */
+  private async refundModification(
+    booking: BookingDocument,
+    modificationId: Types.ObjectId,
+    amount: number,
+  ): Promise<BookingDocument> {
+    let status: 'processed' | 'failed' = 'processed';
+    let reference: string | undefined;
+    try {
+      const refund = await this.paymentsService.refundBookingDifference(booking, amount, 'booking change');
+      reference = refund.flutterwaveReference;
+    } catch (err) {
+      status = 'failed';
+      this.logger.error(
+        `Refund of ${amount} ${booking.currency} for change ${modificationId} on booking ${booking._id} failed`,
+        err,
+      );
+    }
+
+    const updated = await this.bookingModel
+      .findOneAndUpdate(
+        { _id: booking._id, 'modifications._id': modificationId },
+        {
+          $set: {
+            'modifications.$.settlement.status': status,
+            ...(reference && { 'modifications.$.settlement.reference': reference }),
+          },
+        },
+        { new: true },
+      )
+      .exec();
+    return updated ?? booking;
+  }
+
+  private async notifyModificationResponse(booking: BookingDocument, approved: boolean): Promise<void> {
+    const property = await this.propertyModel.findById(booking.propertyId).select('title').lean();
+    const fmt = (d: Date) => d.toISOString().split('T')[0];
+
+    await this.notificationsService.notifyModificationResponded(booking.guestId.toString(), {
+      bookingId: booking._id.toString(),
+      propertyTitle: (property as any)?.title ?? 'your property',
+      approved,
+      checkIn: fmt(booking.checkIn),
+      checkOut: fmt(booking.checkOut),
+    });
+  }
+
+  private stayOf(booking: BookingDocument): BookingStay {
+    return {
+      checkIn: booking.checkIn,
+      checkOut: booking.checkOut,
+      nights: booking.nights,
+      guests: {
+        adults: booking.guests.adults,
+        children: booking.guests.children ?? 0,
+        infants: booking.guests.infants ?? 0,
+      },
+      totalAmount: booking.priceBreakdown.totalAmount,
+    };
+  }
+
+  /**
+   * Prices a changed stay like a new booking, converted at the rate the
+   * booking was made at so only the change itself moves the total.
+   */
+  private async repriceStay(
+    booking: BookingDocument,
+    property: PropertyDocument,
+    checkIn: Date,
+    checkOut: Date,
+    nights: number,
+  ): Promise<BookingPriceBreakdown> {
+    const stored = booking.priceBreakdown.exchangeRate;
+    const rateSnapshot: ExchangeRateSnapshot = stored?.rate
+      ? { from: stored.from, to: stored.to, rate: stored.rate, asOf: stored.asOf }
+      : await this.exchangeRatesService.snapshot(
+        normalizeCurrency((property as any).currency),
+        normalizeCurrency(booking.currency),
+      );
+    return this.convertBreakdown(
+      await this.computePrice(property, checkIn, checkOut, nights, booking.roomId?.toString()),
+      rateSnapshot,
+    );
+  }
+
+  /**
+   * Compute the full price breakdown at booking time, night by night from the
+   * host's pricing rules (room price when a room is booked).
    * Prices are locked in so later edits to the property don't affect existing bookings.
    */
-  private computePrice(property: any, nights: number) {
-    const pricePerNight = property.price ?? 0;
-    const subtotal = pricePerNight * nights;
-    const cleaningFee = property.cleaningFee ?? 0;
+  private async computePrice(
+    property: PropertyDocument,
+    checkIn: Date,
+    checkOut: Date,
+    nights: number,
+    roomId?: string,
+  ): Promise<BookingPriceBreakdown> {
+    const quote = await this.pricingService.quote(property, checkIn, checkOut, roomId);
+    const { subtotal, cleaningFee, discountAmount } = quote;
     const serviceFee = Math.round(subtotal * SERVICE_FEE_RATE);
     const taxAmount = 0; // extend as needed
-    // Use host-configured discount percentages (fall back to platform defaults)
-    const discountAmount = this.computeDiscount(
-      subtotal,
-      nights,
-      property.weeklyDiscountPercent ?? 10,
-      property.monthlyDiscountPercent ?? 15,
-    );
     const totalAmount = subtotal + cleaningFee + serviceFee + taxAmount - discountAmount;
 
     return {
-      pricePerNight,
+      pricePerNight: roundAmount(subtotal / Math.max(quote.nightlyRates.length, 1), quote.currency),
       nights,
       subtotal,
       cleaningFee,
@@ -722,58 +1190,90 @@ async getHostStats(hostId: string): Promise<HostStatsDto> {
       taxAmount,
       discountAmount,
       totalAmount,
+      nightlyRates: quote.nightlyRates.map(({ date, rate, rules }) => ({ date, rate, rules })),
+      discounts: quote.discounts,
     };
   }
 
   /**
-   * Apply weekly (≥7 nights) or monthly (≥28 nights) discount using
-   * the host-configured percentage rates stored on the property.
+   * Converts a breakdown computed in the listing currency into the booking
+   * currency and keeps the rate used, so the amounts can always be traced back.
    */
-  private computeDiscount(
-    subtotal: number,
-    nights: number,
-    weeklyPct: number,
-    monthlyPct: number,
-  ): number {
-    if (nights >= 28) return Math.round(subtotal * (monthlyPct / 100));
-    if (nights >= 7) return Math.round(subtotal * (weeklyPct / 100));
-    return 0;
+  private convertBreakdown(
+    breakdown: BookingPriceBreakdown,
+    rateSnapshot: ExchangeRateSnapshot,
+  ): BookingPriceBreakdown {
+    const convert = (amount: number) => roundAmount(amount * rateSnapshot.rate, rateSnapshot.to);
+    const subtotal = convert(breakdown.subtotal);
+    const cleaningFee = convert(breakdown.cleaningFee);
+    const serviceFee = convert(breakdown.serviceFee);
+    const taxAmount = convert(breakdown.taxAmount);
+    const discounts = breakdown.discounts?.map((d) => ({ ...d, amount: convert(d.amount) }));
+    const discountAmount = discounts
+      ? discounts.reduce((sum, d) => sum + d.amount, 0)
+      : convert(breakdown.discountAmount);
+
+    return {
+      pricePerNight: convert(breakdown.pricePerNight),
+      nights: breakdown.nights,
+      subtotal,
+      cleaningFee,
+      serviceFee,
+      taxAmount,
+      discountAmount,
+      // Summed after rounding so the parts always add up to the total
+      totalAmount: roundAmount(
+        subtotal + cleaningFee + serviceFee + taxAmount - discountAmount,
+        rateSnapshot.to,
+      ),
+      nightlyRates: breakdown.nightlyRates?.map((n) => ({ ...n, rate: convert(n.rate) })),
+      discounts,
+      exchangeRate: rateSnapshot,
+    };
   }
 
   /**
-   * Compute refund amount based on the property's cancellation policy
-   * and how far in advance the guest is cancelling.
+   * What cancelling at `now` refunds under the policy snapshotted on the
+   * booking. Bookings made before snapshots use the listing's current policy.
    */
-  private async computeRefund(booking: BookingDocument): Promise<number> {
-    if (booking.paymentStatus !== PaymentStatus.PAID) return 0;
+  private async refundQuote(
+    booking: BookingDocument,
+    now: Date,
+  ): Promise<{ policy: BookingCancellationPolicy; paidAmount: number; quote: RefundQuote }> {
+    let policy = booking.cancellationPolicy;
+    if (!policy?.key) {
+      const property = await this.propertyModel
+        .findById(booking.propertyId)
+        .select('cancellationPolicy cancellationPolicyId')
+        .lean<Pick<Property, 'cancellationPolicy' | 'cancellationPolicyId'>>()
+        .exec();
+      policy = await this.cancellationPolicies.snapshotFor(property ?? ({} as Pick<Property, 'cancellationPolicy'>));
+    }
 
-    const property = await this.propertyModel
-      .findById(booking.propertyId)
-      .select('cancellationPolicy')
-      .lean()
-      .exec();
+    // What a partly paid booking still owes was never paid, so isn't refunded
+    const breakdown = booking.priceBreakdown;
+    const paidAmount = [PaymentStatus.PAID, PaymentStatus.PARTIALLY_PAID].includes(booking.paymentStatus)
+      ? Math.max(0, breakdown.totalAmount - (booking.balanceDue ?? 0))
+      : 0;
 
-    const policy = (property as any)?.cancellationPolicy ?? 'flexible';
-    const paidAmount = booking.priceBreakdown.totalAmount;
-    const daysUntilCheckin = Math.ceil(
-      (booking.checkIn.getTime() - Date.now()) / (1000 * 60 * 60 * 24),
+    const quote = computeRefund(
+      policy,
+      {
+        checkIn: booking.checkIn,
+        checkOut: booking.checkOut,
+        bookedAt: (booking as any).createdAt ?? now,
+        subtotal: breakdown.subtotal,
+        discountAmount: breakdown.discountAmount ?? 0,
+        cleaningFee: breakdown.cleaningFee ?? 0,
+        serviceFee: breakdown.serviceFee ?? 0,
+        taxAmount: breakdown.taxAmount ?? 0,
+        nightlyRates: breakdown.nightlyRates,
+        paidAmount,
+      },
+      now,
+      booking.currency,
     );
-
-    switch (policy) {
-      case 'flexible':
-        return daysUntilCheckin >= 1 ? paidAmount : 0;
-
-      case 'moderate':
-        return daysUntilCheckin >= 5 ? paidAmount : 0;
-
-      case 'strict':
-        if (daysUntilCheckin >= 7) return Math.round(paidAmount * 0.5);
-        return 0;
-
-      case 'no_refund':
-      default:
-        return 0;
-    }
+    return { policy, paidAmount, quote };
   }
 
   /** Reusable paginated query helper */
@@ -803,7 +1303,39 @@ async getHostStats(hostId: string): Promise<HostStatsDto> {
       this.bookingModel.countDocuments(filter),
     ]);
 
-    return { bookings, total, page, totalPages: Math.ceil(total / limit) };
+    return {
+      bookings: await this.withDisplayTotal(bookings, query.displayCurrency),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Adds `displayTotal` at today's rate when a display currency is requested.
+   * For display only — the amounts charged stay in the booking currency.
+   */
+  private async withDisplayTotal(
+    bookings: BookingDocument[],
+    displayCurrency?: string,
+  ): Promise<Booking[]> {
+    if (!displayCurrency) return bookings;
+    const currency = await this.exchangeRatesService.assertSupported(displayCurrency);
+    const rates = await this.exchangeRatesService.getRates();
+
+    return bookings.map((booking) => {
+      const plain = booking.toObject() as Booking;
+      const rate = exchangeRate(booking.currency, currency, rates);
+      if (rate === null) return plain;
+      return {
+        ...plain,
+        displayTotal: {
+          amount: roundAmount(booking.priceBreakdown.totalAmount * rate, currency),
+          currency,
+          rate,
+        },
+      };
+    });
   }
 
   private async findBookingOrThrow(id: string): Promise<BookingDocument> {
@@ -0,0 +1,131 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Put,
+  Delete,
+  Param,
+  Body,
+  Req,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { FastifyRequest } from 'fastify';
+
+import { CancellationPoliciesService } from './cancellation-policies.service';
+import {
+  AssignCancellationPolicyDto,
+  CreateCancellationPolicyDto,
+  UpdateCancellationPolicyDto,
+} from './dto/cancellation-policy.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { RolesGuard, Roles, Public } from '../auth/guards/roles.guard';
+import { User, UserRole } from '../users/schemas/user.schema';
+
+@ApiTags('Cancellation policies')
+@Controller('cancellation-policies')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class CancellationPoliciesController {
+  constructor(
+    private readonly cancellationPolicies: CancellationPoliciesService,
+  ) {}
+
+  @Get('built-in')
+  @Public()
+  @ApiOperation({
+    summary: 'The flexible, moderate, strict and non-refundable policies',
+  })
+  builtIns() {
+    return this.cancellationPolicies.builtIns();
+  }
+
+  // ─── Host policies ──────────────────────────────────────────────────────────
+
+  @Get()
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Your custom cancellation policies' })
+  async listOwn(@Req() req: FastifyRequest & { user: User }) {
+    return this.cancellationPolicies.listOwn(req.user);
+  }
+
+  @Post()
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Write a custom cancellation policy',
+    description:
+      'Refund tiers by hours before check-in, a grace period after booking, whether cleaning and service fees are refunded, and what share of unused nights is refunded mid-stay.',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Duplicate tiers, or an earlier tier refunding less',
+  })
+  async create(
+    @Body() dto: CreateCancellationPolicyDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.cancellationPolicies.create(dto, req.user);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Edit a custom cancellation policy',
+    description: 'Existing bookings keep the policy they were made under.',
+  })
+  @ApiParam({ name: 'id', description: 'Cancellation policy ID' })
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateCancellationPolicyDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.cancellationPolicies.update(id, dto, req.user);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a custom cancellation policy',
+    description:
+      'Listings using it go back to their built-in policy; existing bookings keep theirs.',
+  })
+  @ApiParam({ name: 'id', description: 'Cancellation policy ID' })
+  async remove(
+    @Param('id') id: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    await this.cancellationPolicies.remove(id, req.user);
+  }
+
+  // ─── Listings ───────────────────────────────────────────────────────────────
+
+  @Put('properties/:propertyId')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Set the cancellation policy of a listing',
+    description:
+      'A built-in policy or one of your custom policies. Applies to bookings made from now on.',
+  })
+  @ApiParam({ name: 'propertyId', description: 'Property ID' })
+  async assign(
+    @Param('propertyId') propertyId: string,
+    @Body() dto: AssignCancellationPolicyDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.cancellationPolicies.assign(propertyId, dto, req.user);
+  }
+}
@@ -0,0 +1,250 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+
+import {
+  HostCancellationPolicy,
+  HostCancellationPolicyDocument,
+} from './schema/cancellation-policy.schema';
+import {
+  BookingCancellationPolicy,
+  CancellationPolicy,
+} from './schema/booking.schema';
+import {
+  AssignCancellationPolicyDto,
+  CreateCancellationPolicyDto,
+  UpdateCancellationPolicyDto,
+} from './dto/cancellation-policy.dto';
+import {
+  BUILT_IN_CANCELLATION_POLICIES,
+  CancellationPolicyRules,
+  assertValidPolicy,
+} from './utils/cancellation-policy.util';
+import {
+  Property,
+  PropertyDocument,
+} from '../properties/schemas/property.schema';
+import { User, UserRole } from '../users/schemas/user.schema';
+
+/** What a snapshot needs from the listing. */
+export type PolicyListing = Pick<
+  Property,
+  'cancellationPolicy' | 'cancellationPolicyId'
+>;
+
+/**
+ * The four built-in cancellation policies, the custom ones hosts write,
+ * and which one a listing uses. Bookings store a snapshot of the listing's
+ * policy when they are made, so later edits never change a refund.
+ */
+@Injectable()
+export class CancellationPoliciesService {
+  private readonly logger = new Logger(CancellationPoliciesService.name);
+
+  constructor(
+    @InjectModel(HostCancellationPolicy.name)
+    private policyModel: Model<HostCancellationPolicyDocument>,
+    @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+  ) {}
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // POLICIES
+  // ════════════════════════════════════════════════════════════════════════════
+
+  builtIns(): (CancellationPolicyRules & { key: CancellationPolicy })[] {
+    return Object.values(CancellationPolicy).map((key) => ({
+      key,
+      ...BUILT_IN_CANCELLATION_POLICIES[key],
+    }));
+  }
+
+  async listOwn(user: User): Promise<HostCancellationPolicy[]> {
+    return this.policyModel
+      .find({ hostId: user._id })
+      .sort({ createdAt: -1 })
+      .lean<HostCancellationPolicy[]>()
+      .exec();
+  }
+
+  async create(
+    dto: CreateCancellationPolicyDto,
+    user: User,
+  ): Promise<HostCancellationPolicy> {
+    assertValidPolicy(dto);
+    const policy = await this.policyModel.create({ ...dto, hostId: user._id });
+    this.logger.log(
+      `Cancellation policy ${policy._id.toString()} created by ${user._id.toString()}`,
+    );
+    return policy.toObject<HostCancellationPolicy>();
+  }
+
+  async update(
+    policyId: string,
+    dto: UpdateCancellationPolicyDto,
+    user: User,
+  ): Promise<HostCancellationPolicy> {
+    const policy = await this.findOwn(policyId, user);
+    assertValidPolicy({ tiers: dto.tiers ?? policy.tiers });
+
+    policy.set(dto);
+    await policy.save();
+    return policy.toObject<HostCancellationPolicy>();
+  }
+
+  /** Listings using the policy go back to their built-in policy. */
+  async remove(policyId: string, user: User): Promise<void> {
+    const policy = await this.findOwn(policyId, user);
+    await this.propertyModel.updateMany(
+      { cancellationPolicyId: policy._id },
+      { $unset: { cancellationPolicyId: 1 } },
+    );
+    await policy.deleteOne();
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // LISTINGS
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Sets the policy new bookings of the listing are made under. A custom
+   * policy must belong to the listing's owner or to whoever assigns it.
+   */
+  async assign(
+    propertyId: string,
+    dto: AssignCancellationPolicyDto,
+    user: User,
+  ): Promise<BookingCancellationPolicy> {
+    if (!dto.policy && !dto.policyId) {
+      throw new BadRequestException('Give a built-in policy or a policyId');
+    }
+    const property = await this.findManagedProperty(propertyId, user);
+
+    const update: Record<string, unknown> = {};
+    if (dto.policy) update.cancellationPolicy = dto.policy;
+    if (dto.policyId) {
+      const policy = await this.findPolicy(dto.policyId);
+      const allowed = [property.ownerId?.toString(), user._id.toString()];
+      if (
+        user.role !== UserRole.ADMIN &&
+        !allowed.includes(policy.hostId.toString())
+      ) {
+        throw new ForbiddenException(
+          'You can only use your own cancellation policies',
+        );
+      }
+      update.cancellationPolicyId = policy._id;
+    }
+
+    const updated = await this.propertyModel
+      .findByIdAndUpdate(
+        propertyId,
+        dto.policyId
+          ? { $set: update }
+          : { $set: update, $unset: { cancellationPolicyId: 1 } },
+        { new: true },
+      )
+      .select('cancellationPolicy cancellationPolicyId')
+      .lean<PolicyListing>()
+      .exec();
+    return this.snapshotFor(updated!);
+  }
+
+  /**
+   * The listing's policy as a booking stores it. A custom policy that no
+   * longer exists falls back to the listing's built-in policy.
+   */
+  async snapshotFor(
+    listing: PolicyListing,
+  ): Promise<BookingCancellationPolicy> {
+    if (listing.cancellationPolicyId) {
+      const custom = await this.policyModel
+        .findById(listing.cancellationPolicyId)
+        .lean<HostCancellationPolicy>()
+        .exec();
+      if (custom) {
+        return {
+          key: 'custom',
+          policyId: custom._id,
+          name: custom.name,
+          tiers: custom.tiers.map(({ hoursBeforeCheckIn, refundPct }) => ({
+            hoursBeforeCheckIn,
+            refundPct,
+          })),
+          graceHours: custom.graceHours,
+          refundCleaningFee: custom.refundCleaningFee,
+          refundServiceFee: custom.refundServiceFee,
+          unusedNightsRefundPct: custom.unusedNightsRefundPct,
+        };
+      }
+    }
+    const key =
+      (listing.cancellationPolicy as string as CancellationPolicy) ??
+      CancellationPolicy.FLEXIBLE;
+    const rules =
+      BUILT_IN_CANCELLATION_POLICIES[key] ??
+      BUILT_IN_CANCELLATION_POLICIES[CancellationPolicy.FLEXIBLE];
+    return { key, ...rules, tiers: rules.tiers.map((t) => ({ ...t })) };
+  }
+
+  // ─── Helpers ────────────────────────────────────────────────────────────────
+
+  private async findPolicy(
+    policyId: string,
+  ): Promise<HostCancellationPolicyDocument> {
+    if (!Types.ObjectId.isValid(policyId)) {
+      throw new BadRequestException('Invalid cancellation policy ID');
+    }
+    const policy = await this.policyModel.findById(policyId).exec();
+    if (!policy) throw new NotFoundException('Cancellation policy not found');
+    return policy;
+  }
+
+  private async findOwn(
+    policyId: string,
+    user: User,
+  ): Promise<HostCancellationPolicyDocument> {
+    const policy = await this.findPolicy(policyId);
+    if (
+      policy.hostId.toString() !== user._id.toString() &&
+      user.role !== UserRole.ADMIN
+    ) {
+      throw new ForbiddenException(
+        'You can only manage your own cancellation policies',
+      );
+    }
+    return policy;
+  }
+
+  private async findManagedProperty(
+    propertyId: string,
+    user: User,
+  ): Promise<Pick<Property, 'ownerId' | 'agentId'>> {
+    if (!Types.ObjectId.isValid(propertyId)) {
+      throw new BadRequestException('Invalid property ID');
+    }
+    const property = await this.propertyModel
+      .findById(propertyId)
+      .select('ownerId agentId')
+      .lean<Pick<Property, 'ownerId' | 'agentId'>>()
+      .exec();
+    if (!property) throw new NotFoundException('Property not found');
+
+    const userId = user._id.toString();
+    const isManager =
+      property.ownerId?.toString() === userId ||
+      property.agentId?.toString() === userId ||
+      user.role === UserRole.ADMIN;
+    if (!isManager) {
+      throw new ForbiddenException(
+        'You can only set the cancellation policy of your own properties',
+      );
+    }
+    return property;
+  }
+}
@@ -60,7 +60,7 @@ export class CreateBookingDto {
 
   @ApiPropertyOptional({
     example: 'XAF',
-    description: 'Currency code (defaults to property currency)',
+    description: 'Currency to be charged in (defaults to property currency). Amounts are converted at the current exchange rate, which is stored on the booking',
   })
   @IsOptional()
   @IsString()
@@ -122,6 +122,37 @@ export class RespondToBookingDto {
   reason?: string;
 }
 
+// ─── Modify Booking (guest) ───────────────────────────────────────────────────
+
+/** Omitted fields keep the booking's current value. */
+export class RequestModificationDto {
+  @ApiPropertyOptional({ example: '2026-04-11', description: 'New check-in date (ISO 8601)' })
+  @IsOptional()
+  @IsDateString()
+  checkIn?: string;
+
+  @ApiPropertyOptional({ example: '2026-04-17', description: 'New check-out date (ISO 8601)' })
+  @IsOptional()
+  @IsDateString()
+  checkOut?: string;
+
+  @ApiPropertyOptional({ type: BookingGuestsDto, description: 'New guest count' })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => BookingGuestsDto)
+  guests?: BookingGuestsDto;
+
+  @ApiPropertyOptional({
+    example: 'Our flight moved by a day, could we stay one more night?',
+    description: 'Optional message to the host',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(0, 1000)
+  guestNote?: string;
+}
+
 // ─── Update Payment (admin / webhook) ────────────────────────────────────────
 
 export class UpdatePaymentDto {
@@ -179,6 +210,15 @@ export class BookingQueryDto {
   @IsOptional()
   @IsString()
   sortOrder?: 'asc' | 'desc';
+
+  @ApiPropertyOptional({
+    example: 'EUR',
+    description: 'Adds displayTotal in this currency (see GET /exchange-rates)',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  displayCurrency?: string;
 }
 
 // ─── Availability query ───────────────────────────────────────────────────────
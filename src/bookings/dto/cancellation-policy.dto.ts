@@ -0,0 +1,119 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { CancellationPolicy } from '../schema/booking.schema';
+import { MAX_REFUND_TIERS } from '../utils/cancellation-policy.util';
+
+// ─── Sub-DTOs ─────────────────────────────────────────────────────────────────
+
+export class RefundTierDto {
+  @ApiProperty({
+    example: 72,
+    description:
+      'Applies when cancelling more than this many hours before check-in',
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(24 * 365)
+  hoursBeforeCheckIn: number;
+
+  @ApiProperty({ example: 50, description: 'Share of the nights refunded' })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  refundPct: number;
+}
+
+// ─── Host policies ────────────────────────────────────────────────────────────
+
+export class CreateCancellationPolicyDto {
+  @ApiProperty({ example: 'Semi-flexible' })
+  @IsString()
+  @MaxLength(80)
+  name: string;
+
+  @ApiProperty({
+    type: [RefundTierDto],
+    description:
+      'The best tier reached applies; cancelling earlier must never refund less',
+  })
+  @IsArray()
+  @ArrayMaxSize(MAX_REFUND_TIERS)
+  @ValidateNested({ each: true })
+  @Type(() => RefundTierDto)
+  tiers: RefundTierDto[];
+
+  @ApiPropertyOptional({
+    example: 48,
+    description:
+      'Full refund when cancelled within this many hours of booking, before check-in',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(24 * 14)
+  graceHours?: number;
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Refund the whole cleaning fee on cancellations before check-in; otherwise it follows the tiers',
+  })
+  @IsOptional()
+  @IsBoolean()
+  refundCleaningFee?: boolean;
+
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Refund the service fee in the same proportion as the nights',
+  })
+  @IsOptional()
+  @IsBoolean()
+  refundServiceFee?: boolean;
+
+  @ApiPropertyOptional({
+    example: 50,
+    description: 'Share of the nights not yet begun refunded mid-stay',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  unusedNightsRefundPct?: number;
+}
+
+export class UpdateCancellationPolicyDto extends PartialType(
+  CreateCancellationPolicyDto,
+) {}
+
+// ─── Assignment ───────────────────────────────────────────────────────────────
+
+export class AssignCancellationPolicyDto {
+  @ApiPropertyOptional({
+    enum: CancellationPolicy,
+    description: 'A built-in policy',
+  })
+  @IsOptional()
+  @IsEnum(CancellationPolicy)
+  policy?: CancellationPolicy;
+
+  @ApiPropertyOptional({
+    description: 'One of your custom policies; takes precedence over policy',
+  })
+  @IsOptional()
+  @IsMongoId()
+  policyId?: string;
+}
@@ -0,0 +1,54 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type BookingNightDocument = BookingNight & Document;
+
+/** Nights are kept this long after they pass, then removed by TTL. */
+export const BOOKING_NIGHT_RETENTION_DAYS = 30;
+
+// ─── Sub-document interfaces ──────────────────────────────────────────────────
+
+export interface BookingNightClaim {
+  bookingId: Types.ObjectId;
+  /** null for a whole-property booking. */
+  roomId: Types.ObjectId | null;
+}
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+
+/**
+ * Inventory of one night of a property. Bookings claim the nights they need
+ * with a single conditional update per night, and the unique index on
+ * (propertyId, night) makes concurrent first claims of a night collide
+ * instead of both going through.
+ */
+@Schema({ timestamps: true, collection: 'booking_nights' })
+export class BookingNight {
+  @Prop({ type: Types.ObjectId, ref: 'Property', required: true })
+  propertyId: Types.ObjectId;
+
+  /** UTC midnight of the night. */
+  @Prop({ required: true })
+  night: Date;
+
+  @Prop({
+    type: [
+      {
+        _id: false,
+        bookingId: { type: Types.ObjectId, ref: 'Booking', required: true },
+        roomId: { type: Types.ObjectId, ref: 'Room', default: null },
+      },
+    ],
+    default: [],
+  })
+  claims: BookingNightClaim[];
+}
+
+export const BookingNightSchema = SchemaFactory.createForClass(BookingNight);
+
+BookingNightSchema.index({ propertyId: 1, night: 1 }, { unique: true });
+BookingNightSchema.index({ 'claims.bookingId': 1 });
+BookingNightSchema.index(
+  { night: 1 },
+  { expireAfterSeconds: BOOKING_NIGHT_RETENTION_DAYS * 86_400 },
+);
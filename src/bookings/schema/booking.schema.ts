@@ -1,5 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { ExchangeRateSnapshot } from '../../currency/utils/currency-conversion.util';
+import type { CancellationPolicyRules } from '../utils/cancellation-policy.util';
 
 export type BookingDocument = Booking & Document;
 
@@ -19,6 +21,7 @@ export enum PaymentStatus {
   PAID = 'paid',
   REFUNDED = 'refunded',
   PARTIAL = 'partial',     // Partial refund after cancellation
+  PARTIALLY_PAID = 'partially_paid', // Paid in part; balanceDue is still owed
 }
 
 export enum CancellationPolicy {
@@ -28,6 +31,13 @@ export enum CancellationPolicy {
   NO_REFUND = 'no_refund',
 }
 
+export enum ModificationStatus {
+  PENDING = 'pending',      // Guest asked, waiting for the host
+  APPROVED = 'approved',    // Host accepted; the booking now has the requested stay
+  DECLINED = 'declined',    // Host said no; the booking is unchanged
+  WITHDRAWN = 'withdrawn',  // Guest took the request back, or the booking ended first
+}
+
 export enum CancelledBy {
   GUEST = 'guest',
   HOST = 'host',
@@ -43,15 +53,81 @@ export interface BookingGuest {
   infants?: number;
 }
 
+export interface BookingNightlyRate {
+  date: Date;
+  rate: number;
+  rules: string[];          // Host pricing rules that set the rate
+}
+
+export interface BookingDiscount {
+  type: string;             // length_of_stay | last_minute | early_bird | weekly | monthly
+  label: string;
+  percent: number;
+  amount: number;
+}
+
 export interface BookingPriceBreakdown {
-  pricePerNight: number;
+  pricePerNight: number;    // Average nightly rate
   nights: number;
-  subtotal: number;         // pricePerNight × nights
+  subtotal: number;         // Sum of the nightly rates
   cleaningFee: number;
   serviceFee: number;       // Platform fee
   taxAmount: number;
-  discountAmount: number;   // Weekly / monthly discount
+  discountAmount: number;   // Sum of the discounts
   totalAmount: number;
+  /** Rate of each night; missing on bookings priced before pricing rules. */
+  nightlyRates?: BookingNightlyRate[];
+  discounts?: BookingDiscount[];
+  /** Listing currency → booking currency rate the amounts were converted with. */
+  exchangeRate?: ExchangeRateSnapshot;
+}
+
+/** The parts of a stay a modification can change. */
+export interface BookingStay {
+  checkIn: Date;
+  checkOut: Date;
+  nights: number;
+  guests: BookingGuest;
+  totalAmount: number;
+}
+
+export interface BookingModificationSettlement {
+  type: 'charge' | 'refund';
+  amount: number;           // In the booking currency, always positive
+  status: 'pending' | 'processed' | 'failed';
+  reference?: string;       // Payment gateway reference of the charge or refund
+}
+
+/**
+ * One change request and what came of it. Kept on the booking, oldest first,
+ * as its modification history.
+ */
+export interface BookingModification {
+  _id: Types.ObjectId;
+  status: ModificationStatus;
+  requestedBy: Types.ObjectId;
+  requestedAt: Date;
+  guestNote?: string;
+  previous: BookingStay;
+  requested: BookingStay;
+  /** Repriced at request time, in the booking currency at the booking's rate. */
+  priceBreakdown: BookingPriceBreakdown;
+  /** requested − previous total: positive is owed by the guest, negative refunded. */
+  priceDifference: number;
+  respondedBy?: Types.ObjectId;
+  respondedAt?: Date;
+  hostNote?: string;
+  /** Only when a paid booking changes price. */
+  settlement?: BookingModificationSettlement;
+}
+
+/**
+ * The listing's cancellation policy as it stood when the booking was made.
+ * Refunds follow it even if the host changes the policy afterwards.
+ */
+export interface BookingCancellationPolicy extends CancellationPolicyRules {
+  key: CancellationPolicy | 'custom';
+  policyId?: Types.ObjectId;  // The host's custom policy, when key is 'custom'
 }
 
 export interface BookingCancellation {
@@ -64,6 +140,45 @@ export interface BookingCancellation {
 
 // ─── Schema ───────────────────────────────────────────────────────────────────
 
+const PRICE_BREAKDOWN_FIELDS = {
+  pricePerNight: { type: Number, required: true },
+  nights: { type: Number, required: true },
+  subtotal: { type: Number, required: true },
+  cleaningFee: { type: Number, default: 0 },
+  serviceFee: { type: Number, default: 0 },
+  taxAmount: { type: Number, default: 0 },
+  discountAmount: { type: Number, default: 0 },
+  totalAmount: { type: Number, required: true },
+  nightlyRates: {
+    type: [{ _id: false, date: Date, rate: Number, rules: [String] }],
+    default: undefined,
+  },
+  discounts: {
+    type: [{ _id: false, type: { type: String }, label: String, percent: Number, amount: Number }],
+    default: undefined,
+  },
+  exchangeRate: {
+    from: { type: String },
+    to: { type: String },
+    rate: { type: Number },
+    asOf: { type: Date },
+  },
+};
+
+const GUESTS_FIELDS = {
+  adults: { type: Number, required: true, min: 1, default: 1 },
+  children: { type: Number, default: 0 },
+  infants: { type: Number, default: 0 },
+};
+
+const STAY_FIELDS = {
+  checkIn: { type: Date, required: true },
+  checkOut: { type: Date, required: true },
+  nights: { type: Number, required: true },
+  guests: GUESTS_FIELDS,
+  totalAmount: { type: Number, required: true },
+};
+
 @Schema({ timestamps: true })
 export class Booking {
   _id!: Types.ObjectId;
@@ -102,14 +217,7 @@ export class Booking {
   @Prop({ required: true, min: 1 })
   nights: number;
 
-  @Prop({
-    type: {
-      adults: { type: Number, required: true, min: 1, default: 1 },
-      children: { type: Number, default: 0 },
-      infants: { type: Number, default: 0 },
-    },
-    required: true,
-  })
+  @Prop({ type: GUESTS_FIELDS, required: true })
   guests: BookingGuest;
 
   // ── Pricing ──────────────────────────────────────────────────────────────
@@ -118,19 +226,7 @@ export class Booking {
    * Full price breakdown captured at booking time so it never changes
    * even if the host later edits the property price.
    */
-  @Prop({
-    type: {
-      pricePerNight: { type: Number, required: true },
-      nights: { type: Number, required: true },
-      subtotal: { type: Number, required: true },
-      cleaningFee: { type: Number, default: 0 },
-      serviceFee: { type: Number, default: 0 },
-      taxAmount: { type: Number, default: 0 },
-      discountAmount: { type: Number, default: 0 },
-      totalAmount: { type: Number, required: true },
-    },
-    required: true,
-  })
+  @Prop({ type: PRICE_BREAKDOWN_FIELDS, required: true })
   priceBreakdown: BookingPriceBreakdown;
 
   @Prop({ default: 'XAF' })
@@ -162,6 +258,21 @@ export class Booking {
   @Prop()
   paidAt?: Date;
 
+  /**
+   * What a partially paid booking still owes, e.g. the price increase of an
+   * approved change. Back to 0 (and PAID) once the guest has paid it.
+   */
+  @Prop({ min: 0 })
+  balanceDue?: number;
+
+  /**
+   * Until when an unpaid booking keeps its nights. Short for instant bookings
+   * (the guest is at checkout), a day for requests and after host approval.
+   * Lapsed holds are cancelled by the auto-cancel job, freeing the nights.
+   */
+  @Prop()
+  holdExpiresAt?: Date;
+
   // ── Communication ────────────────────────────────────────────────────────
 
   @Prop({ trim: true, maxlength: 1000 })
@@ -184,6 +295,22 @@ export class Booking {
 
   // ── Cancellation ─────────────────────────────────────────────────────────
 
+  /** Missing on bookings made before policies were snapshotted. */
+  @Prop({
+    type: {
+      key: { type: String, required: true },
+      policyId: { type: Types.ObjectId, ref: 'HostCancellationPolicy' },
+      name: { type: String, required: true },
+      tiers: { type: [{ _id: false, hoursBeforeCheckIn: Number, refundPct: Number }], default: [] },
+      graceHours: { type: Number, default: 0 },
+      refundCleaningFee: { type: Boolean, default: false },
+      refundServiceFee: { type: Boolean, default: false },
+      unusedNightsRefundPct: { type: Number, default: 0 },
+    },
+    default: undefined,
+  })
+  cancellationPolicy?: BookingCancellationPolicy;
+
   @Prop({
     type: {
       cancelledBy: { type: String, enum: Object.values(CancelledBy) },
@@ -196,6 +323,35 @@ export class Booking {
   })
   cancellation?: BookingCancellation;
 
+  // ── Modifications ────────────────────────────────────────────────────────
+
+  /** Date and guest-count change requests, oldest first. At most one is pending. */
+  @Prop({
+    type: [
+      {
+        status: { type: String, enum: Object.values(ModificationStatus), required: true },
+        requestedBy: { type: Types.ObjectId, ref: 'User', required: true },
+        requestedAt: { type: Date, required: true },
+        guestNote: { type: String },
+        previous: STAY_FIELDS,
+        requested: STAY_FIELDS,
+        priceBreakdown: PRICE_BREAKDOWN_FIELDS,
+        priceDifference: { type: Number, required: true },
+        respondedBy: { type: Types.ObjectId, ref: 'User' },
+        respondedAt: { type: Date },
+        hostNote: { type: String },
+        settlement: {
+          type: { type: String, enum: ['charge', 'refund'] },
+          amount: { type: Number },
+          status: { type: String, enum: ['pending', 'processed', 'failed'] },
+          reference: { type: String },
+        },
+      },
+    ],
+    default: [],
+  })
+  modifications: BookingModification[];
+
   // ── Check-in / Check-out tracking ────────────────────────────────────────
 
   @Prop()
@@ -232,3 +388,4 @@ BookingSchema.index({ hostId: 1, status: 1, createdAt: -1 });
 
 // Automated jobs (e.g. auto-cancel unpaid after X hours)
 BookingSchema.index({ status: 1, paymentStatus: 1, createdAt: 1 });
+BookingSchema.index({ paymentStatus: 1, holdExpiresAt: 1 });
@@ -0,0 +1,43 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import type { RefundTier } from '../utils/cancellation-policy.util';
+
+export type HostCancellationPolicyDocument = HostCancellationPolicy & Document;
+
+/**
+ * A cancellation policy a host wrote for their own listings, next to the
+ * four built-in ones. Bookings keep a copy of the policy they were made
+ * under, so editing or deleting it never changes an existing refund.
+ */
+@Schema({ timestamps: true, collection: 'cancellation_policies' })
+export class HostCancellationPolicy {
+  _id!: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  hostId: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop({
+    type: [{ _id: false, hoursBeforeCheckIn: Number, refundPct: Number }],
+    default: [],
+  })
+  tiers: RefundTier[];
+
+  @Prop({ default: 0, min: 0 })
+  graceHours: number;
+
+  @Prop({ default: true })
+  refundCleaningFee: boolean;
+
+  @Prop({ default: false })
+  refundServiceFee: boolean;
+
+  @Prop({ default: 0, min: 0, max: 100 })
+  unusedNightsRefundPct: number;
+}
+
+export const HostCancellationPolicySchema = SchemaFactory.createForClass(
+  HostCancellationPolicy,
+);
@@ -0,0 +1,182 @@
+import {
+  NightClaim,
+  NightLedger,
+  canClaim,
+  nightsBetween,
+  reserveNights,
+} from './booking-nights.util';
+
+/** Deterministic PRNG (mulberry32) so every schedule can be replayed. */
+function seeded(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Ledger with the guarantees of the Mongo one: each claim checks and records
+ * in one step, but claims of concurrent reservations interleave in an order
+ * drawn from the seed.
+ */
+class MemoryLedger implements NightLedger {
+  readonly nights = new Map<number, NightClaim[]>();
+
+  constructor(private readonly random: () => number = seeded(1)) {}
+
+  async claim(night: Date, claim: NightClaim): Promise<boolean> {
+    await this.yieldTurns();
+    const claims = this.nights.get(night.getTime()) ?? [];
+    if (!canClaim(claims, claim)) return false;
+    if (!claims.some((c) => c.bookingId === claim.bookingId)) {
+      this.nights.set(night.getTime(), [...claims, claim]);
+    }
+    return true;
+  }
+
+  async release(nights: Date[], bookingId: string): Promise<void> {
+    await this.yieldTurns();
+    for (const night of nights) {
+      const claims = this.nights.get(night.getTime()) ?? [];
+      this.nights.set(
+        night.getTime(),
+        claims.filter((c) => c.bookingId !== bookingId),
+      );
+    }
+  }
+
+  /** Lets up to three other pending claims run first. */
+  private async yieldTurns(): Promise<void> {
+    const turns = Math.floor(this.random() * 4);
+    for (let i = 0; i < turns; i++) {
+      await new Promise<void>((resolve) => setImmediate(resolve));
+    }
+  }
+}
+
+const day = (d: number) => new Date(Date.UTC(2026, 5, d));
+
+interface Attempt {
+  claim: NightClaim;
+  checkIn: Date;
+  checkOut: Date;
+}
+
+async function race(ledger: MemoryLedger, attempts: Attempt[]) {
+  const results = await Promise.all(
+    attempts.map((a) =>
+      reserveNights(ledger, nightsBetween(a.checkIn, a.checkOut), a.claim),
+    ),
+  );
+  return attempts.filter((_, i) => results[i].reserved);
+}
+
+function overlaps(a: Attempt, b: Attempt): boolean {
+  return a.checkIn < b.checkOut && b.checkIn < a.checkOut;
+}
+
+function clashes(a: Attempt, b: Attempt): boolean {
+  return (
+    overlaps(a, b) &&
+    (a.claim.roomId === null ||
+      b.claim.roomId === null ||
+      a.claim.roomId === b.claim.roomId)
+  );
+}
+
+describe('booking nights util', () => {
+  it('lists the nights between check-in and check-out days', () => {
+    expect(nightsBetween(day(1), day(4))).toEqual([day(1), day(2), day(3)]);
+    expect(
+      nightsBetween(
+        new Date('2026-06-01T15:00:00Z'),
+        new Date('2026-06-02T11:00:00Z'),
+      ),
+    ).toEqual([day(1)]);
+    expect(nightsBetween(day(4), day(4))).toEqual([]);
+  });
+
+  it('lets rooms share a night but not with a whole-property booking', () => {
+    const room = (bookingId: string, roomId: string) => ({ bookingId, roomId });
+    const whole = (bookingId: string) => ({ bookingId, roomId: null });
+
+    expect(canClaim([room('a', 'r1')], room('b', 'r2'))).toBe(true);
+    expect(canClaim([room('a', 'r1')], room('b', 'r1'))).toBe(false);
+    expect(canClaim([room('a', 'r1')], whole('b'))).toBe(false);
+    expect(canClaim([whole('a')], room('b', 'r1'))).toBe(false);
+    expect(canClaim([whole('a')], whole('a'))).toBe(true);
+  });
+
+  it('gives identical whole-property requests to exactly one guest', async () => {
+    const ledger = new MemoryLedger();
+    const attempts = Array.from({ length: 20 }, (_, i) => ({
+      claim: { bookingId: `b${i}`, roomId: null },
+      checkIn: day(10),
+      checkOut: day(14),
+    }));
+
+    const winners = await race(ledger, attempts);
+
+    expect(winners).toHaveLength(1);
+    for (const claims of ledger.nights.values()) {
+      expect(claims).toEqual([winners[0].claim]);
+    }
+  });
+
+  it('gives each room to exactly one guest and never double-books', async () => {
+    const ledger = new MemoryLedger();
+    const attempts = ['r1', 'r2', 'r3'].flatMap((roomId) =>
+      Array.from({ length: 8 }, (_, i) => ({
+        claim: { bookingId: `${roomId}-${i}`, roomId },
+        checkIn: day(3),
+        checkOut: day(6),
+      })),
+    );
+
+    const winners = await race(ledger, attempts);
+
+    expect(winners.map((w) => w.claim.roomId).sort()).toEqual([
+      'r1',
+      'r2',
+      'r3',
+    ]);
+  });
+
+  it('never accepts clashing stays in seeded concurrent schedules', async () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const random = seeded(seed);
+      const ledger = new MemoryLedger(seeded(seed * 7919));
+      const attempts = Array.from({ length: 30 }, (_, i) => {
+        const start = 1 + Math.floor(random() * 10);
+        const roll = random();
+        return {
+          claim: {
+            bookingId: `b${i}`,
+            roomId: roll < 0.3 ? null : roll < 0.65 ? 'r1' : 'r2',
+          },
+          checkIn: day(start),
+          checkOut: day(start + 1 + Math.floor(random() * 4)),
+        };
+      });
+
+      const winners = await race(ledger, attempts);
+
+      expect(winners.length).toBeGreaterThan(0);
+      for (const a of winners) {
+        for (const b of winners) {
+          if (a !== b) expect(clashes(a, b)).toBe(false);
+        }
+      }
+      // Losers leave nothing behind
+      const held = new Set(
+        [...ledger.nights.values()].flat().map((c) => c.bookingId),
+      );
+      expect([...held].sort()).toEqual(
+        winners.map((w) => w.claim.bookingId).sort(),
+      );
+    }
+  });
+});
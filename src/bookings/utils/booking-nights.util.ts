@@ -0,0 +1,83 @@
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** One booking's hold on one night of a property (or of one of its rooms). */
+export interface NightClaim {
+  bookingId: string;
+  /** null for a whole-property booking. */
+  roomId: string | null;
+}
+
+/**
+ * Where night claims are stored. `claim` must check and record atomically:
+ * it resolves false when the night is taken, and true when the claim was
+ * recorded or the booking already holds the night.
+ */
+export interface NightLedger {
+  claim(night: Date, claim: NightClaim): Promise<boolean>;
+  release(nights: Date[], bookingId: string): Promise<void>;
+}
+
+const DAY_MS = 86_400_000;
+
+// ─── Nights ───────────────────────────────────────────────────────────────────
+
+/** UTC midnight of the day `date` falls on. */
+export function startOfNight(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+/**
+ * The nights a stay occupies, as UTC midnights in ascending order: every day
+ * from the check-in day up to, not including, the check-out day.
+ */
+export function nightsBetween(checkIn: Date, checkOut: Date): Date[] {
+  const first = startOfNight(checkIn).getTime();
+  const last = startOfNight(checkOut).getTime();
+  const nights: Date[] = [];
+  for (let t = first; t < last; t += DAY_MS) nights.push(new Date(t));
+  return nights;
+}
+
+/**
+ * Whether `claim` can be added next to the claims already on a night. A
+ * whole-property booking needs the night to itself; a room booking only
+ * conflicts with a whole-property booking or another booking of that room.
+ */
+export function canClaim(existing: NightClaim[], claim: NightClaim): boolean {
+  return existing.every(
+    (c) =>
+      c.bookingId === claim.bookingId ||
+      (claim.roomId !== null && c.roomId !== null && c.roomId !== claim.roomId),
+  );
+}
+
+// ─── Reservation ──────────────────────────────────────────────────────────────
+
+/**
+ * Claims every night of a stay, in ascending order, or none of them: on the
+ * first taken night the nights claimed so far are released and the taken
+ * night is returned. Because all reservations claim in the same order, of
+ * two overlapping reservations racing each other at least one gets through.
+ */
+export async function reserveNights(
+  ledger: NightLedger,
+  nights: Date[],
+  claim: NightClaim,
+): Promise<{ reserved: true } | { reserved: false; takenNight: Date }> {
+  const claimed: Date[] = [];
+  for (const night of nights) {
+    let ok = false;
+    try {
+      ok = await ledger.claim(night, claim);
+    } catch (err) {
+      await ledger.release(claimed, claim.bookingId);
+      throw err;
+    }
+    if (!ok) {
+      await ledger.release(claimed, claim.bookingId);
+      return { reserved: false, takenNight: night };
+    }
+    claimed.push(night);
+  }
+  return { reserved: true };
+}
@@ -0,0 +1,170 @@
+import { CancellationPolicy } from '../schema/booking.schema';
+import {
+  BUILT_IN_CANCELLATION_POLICIES,
+  CancellationPolicyRules,
+  RefundableStay,
+  assertValidPolicy,
+  computeRefund,
+} from './cancellation-policy.util';
+
+describe('cancellation policy util', () => {
+  const at = (d: number, h = 0) => new Date(Date.UTC(2026, 5, d, h));
+  const stay: RefundableStay = {
+    checkIn: at(10, 14),
+    checkOut: at(14, 11),
+    bookedAt: at(1),
+    subtotal: 100_000,
+    discountAmount: 0,
+    cleaningFee: 10_000,
+    serviceFee: 10_000,
+    taxAmount: 0,
+    nightlyRates: [
+      { date: at(10), rate: 20_000 },
+      { date: at(11), rate: 20_000 },
+      { date: at(12), rate: 30_000 },
+      { date: at(13), rate: 30_000 },
+    ],
+    paidAmount: 120_000,
+  };
+  const { FLEXIBLE, MODERATE, STRICT, NO_REFUND } = CancellationPolicy;
+  const custom = (
+    rules: Partial<CancellationPolicyRules>,
+  ): CancellationPolicyRules => ({
+    ...BUILT_IN_CANCELLATION_POLICIES[NO_REFUND],
+    name: 'Custom',
+    ...rules,
+  });
+  const hoursBefore = (hours: number) =>
+    new Date(stay.checkIn.getTime() - hours * 3_600_000);
+
+  // What the four policies refunded before they became declarative: the
+  // tier's share of the amount paid, counting a started day as a whole one
+  it.each([
+    [FLEXIBLE, 200, 120_000],
+    [FLEXIBLE, 23, 120_000],
+    [FLEXIBLE, 1, 120_000],
+    [FLEXIBLE, 0, 0],
+    [FLEXIBLE, -6, 0],
+    [MODERATE, 121, 120_000],
+    [MODERATE, 97, 120_000],
+    [MODERATE, 96 + 1 / 3600, 120_000],
+    [MODERATE, 96, 0],
+    [MODERATE, 95, 0],
+    [STRICT, 200, 60_000],
+    [STRICT, 145, 60_000],
+    [STRICT, 144, 0],
+    [STRICT, 143, 0],
+    [STRICT, 1, 0],
+    [NO_REFUND, 200, 0],
+  ])('refunds what %s always did %sh before check-in', (key, hours, amount) => {
+    const quote = computeRefund(
+      BUILT_IN_CANCELLATION_POLICIES[key],
+      stay,
+      hoursBefore(hours),
+      'XAF',
+    );
+
+    expect(quote.refundAmount).toBe(amount);
+  });
+
+  it('refunds half of everything paid under strict, fees included', () => {
+    const strict = computeRefund(
+      BUILT_IN_CANCELLATION_POLICIES[STRICT],
+      { ...stay, discountAmount: 20_000, paidAmount: 100_000 },
+      at(1, 12),
+      'XAF',
+    );
+
+    expect(strict).toMatchObject({
+      nightsRefund: 40_000,
+      cleaningFeeRefund: 5_000,
+      serviceFeeRefund: 5_000,
+      refundAmount: 50_000,
+    });
+  });
+
+  it('counts hours before check-in instead of rounding to days', () => {
+    const daily = custom({
+      tiers: [{ hoursBeforeCheckIn: 24, refundPct: 100 }],
+      refundCleaningFee: true,
+      refundServiceFee: true,
+    });
+
+    // 25h and 23h before a 14:00 check-in
+    const early = computeRefund(daily, stay, at(9, 13), 'XAF');
+    const late = computeRefund(daily, stay, at(9, 15), 'XAF');
+
+    expect(early).toMatchObject({ stage: 'before_check_in', refundPct: 100 });
+    expect(early.refundAmount).toBe(120_000);
+    expect(late).toMatchObject({ refundPct: 0, refundAmount: 10_000 });
+    expect(late.cleaningFeeRefund).toBe(10_000);
+  });
+
+  it('keeps fees the policy does not refund', () => {
+    const strict = computeRefund(
+      custom({
+        tiers: [{ hoursBeforeCheckIn: 7 * 24, refundPct: 50 }],
+        refundCleaningFee: true,
+      }),
+      { ...stay, discountAmount: 20_000 },
+      at(1, 12),
+      'XAF',
+    );
+
+    // Half of the discounted nights, the cleaning fee, no service fee
+    expect(strict).toMatchObject({
+      nightsRefund: 40_000,
+      cleaningFeeRefund: 10_000,
+      serviceFeeRefund: 0,
+      refundAmount: 50_000,
+    });
+  });
+
+  it('refunds everything within the grace period, then follows the tiers', () => {
+    const grace = custom({ graceHours: 48 });
+
+    expect(computeRefund(grace, stay, at(2, 12), 'XAF')).toMatchObject({
+      stage: 'grace_period',
+      refundAmount: 120_000,
+    });
+    expect(computeRefund(grace, stay, at(3, 12), 'XAF').refundAmount).toBe(0);
+  });
+
+  it('refunds the nights not yet begun when cancelling mid-stay', () => {
+    const midStay = custom({
+      refundServiceFee: true,
+      unusedNightsRefundPct: 100,
+    });
+    const quote = computeRefund(midStay, stay, at(11, 20), 'XAF');
+
+    // The nights of the 12th and 13th; the service fee in proportion
+    expect(quote).toMatchObject({
+      stage: 'during_stay',
+      refundableNights: 2,
+      nightsRefund: 60_000,
+      cleaningFeeRefund: 0,
+      serviceFeeRefund: 6_000,
+      refundAmount: 66_000,
+    });
+    expect(computeRefund(midStay, stay, at(15), 'XAF').refundAmount).toBe(0);
+  });
+
+  it('never refunds more than was paid, and rejects inverted tiers', () => {
+    const quote = computeRefund(
+      BUILT_IN_CANCELLATION_POLICIES[FLEXIBLE],
+      { ...stay, paidAmount: 50_000 },
+      at(1, 12),
+      'XAF',
+    );
+    expect(quote.refundAmount).toBe(50_000);
+
+    expect(() =>
+      assertValidPolicy({
+        tiers: [
+          { hoursBeforeCheckIn: 48, refundPct: 50 },
+          { hoursBeforeCheckIn: 168, refundPct: 25 },
+        ],
+      }),
+    ).toThrow('Cancelling earlier must not refund less than cancelling later');
+  });
+});
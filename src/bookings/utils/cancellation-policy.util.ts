@@ -0,0 +1,246 @@
+import { BadRequestException } from '@nestjs/common';
+import { roundAmount } from '../../currency/utils/currency-conversion.util';
+import { CancellationPolicy } from '../schema/booking.schema';
+import { nightsBetween, startOfNight } from './booking-nights.util';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Cancelling more than `hoursBeforeCheckIn` before check-in refunds `refundPct` of the nights. */
+export interface RefundTier {
+  hoursBeforeCheckIn: number;
+  refundPct: number;
+}
+
+/**
+ * What a cancellation refunds. Before check-in the best tier reached applies
+ * to the nights, the tax and the cleaning fee; during the stay only nights
+ * not yet begun can be refunded.
+ */
+export interface CancellationPolicyRules {
+  name: string;
+  tiers: RefundTier[];
+  /** Full refund when cancelled within this many hours of booking, before check-in. */
+  graceHours: number;
+  /** Refunded in full on cancellations before check-in, whatever the tier. */
+  refundCleaningFee: boolean;
+  /** Refunded in the same proportion as the nights. */
+  refundServiceFee: boolean;
+  /** Share of the nights not yet begun refunded when cancelling mid-stay. */
+  unusedNightsRefundPct: number;
+}
+
+/** The amounts of a booking a refund is computed from, in the booking currency. */
+export interface RefundableStay {
+  checkIn: Date;
+  checkOut: Date;
+  bookedAt: Date;
+  subtotal: number;
+  discountAmount: number;
+  cleaningFee: number;
+  serviceFee: number;
+  taxAmount: number;
+  nightlyRates?: { date: Date; rate: number }[];
+  /** What the guest actually paid; the refund never exceeds it. */
+  paidAmount: number;
+}
+
+export type RefundStage =
+  | 'grace_period'
+  | 'before_check_in'
+  | 'during_stay'
+  | 'after_check_out';
+
+export interface RefundQuote {
+  stage: RefundStage;
+  /** Negative once check-in has passed. */
+  hoursBeforeCheckIn: number;
+  /** Share of the refundable nights given back. */
+  refundPct: number;
+  refundableNights: number;
+  nightsRefund: number;
+  cleaningFeeRefund: number;
+  serviceFeeRefund: number;
+  taxRefund: number;
+  refundAmount: number;
+}
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const MAX_REFUND_TIERS = 10;
+
+// ─── Built-in policies ────────────────────────────────────────────────────────
+
+/**
+ * The four policies listings had before custom ones, refunding what they
+ * always did: the tier's share of everything paid, nothing once the stay has
+ * begun. Those rules counted a started day as a whole one, so flexible
+ * refunded up to check-in, moderate more than 4 days ahead and strict more
+ * than 6.
+ */
+export const BUILT_IN_CANCELLATION_POLICIES: Record<
+  CancellationPolicy,
+  CancellationPolicyRules
+> = {
+  [CancellationPolicy.FLEXIBLE]: {
+    name: 'Flexible',
+    tiers: [{ hoursBeforeCheckIn: 0, refundPct: 100 }],
+    graceHours: 0,
+    refundCleaningFee: false,
+    refundServiceFee: true,
+    unusedNightsRefundPct: 0,
+  },
+  [CancellationPolicy.MODERATE]: {
+    name: 'Moderate',
+    tiers: [{ hoursBeforeCheckIn: 4 * 24, refundPct: 100 }],
+    graceHours: 0,
+    refundCleaningFee: false,
+    refundServiceFee: true,
+    unusedNightsRefundPct: 0,
+  },
+  [CancellationPolicy.STRICT]: {
+    name: 'Strict',
+    tiers: [{ hoursBeforeCheckIn: 6 * 24, refundPct: 50 }],
+    graceHours: 0,
+    refundCleaningFee: false,
+    refundServiceFee: true,
+    unusedNightsRefundPct: 0,
+  },
+  [CancellationPolicy.NO_REFUND]: {
+    name: 'Non-refundable',
+    tiers: [],
+    graceHours: 0,
+    refundCleaningFee: false,
+    refundServiceFee: false,
+    unusedNightsRefundPct: 0,
+  },
+};
+
+// ─── Refunds ──────────────────────────────────────────────────────────────────
+
+/** Refund percentage of the best tier passed `hoursBeforeCheckIn` ahead. */
+export function refundPctAt(
+  tiers: RefundTier[],
+  hoursBeforeCheckIn: number,
+): number {
+  return tiers
+    .filter((t) => hoursBeforeCheckIn > t.hoursBeforeCheckIn)
+    .reduce((best, t) => Math.max(best, t.refundPct), 0);
+}
+
+/** What cancelling the stay at `now` refunds under `policy`. */
+export function computeRefund(
+  policy: CancellationPolicyRules,
+  stay: RefundableStay,
+  now: Date,
+  currency: string,
+): RefundQuote {
+  const round = (amount: number) => roundAmount(amount, currency);
+  // Tiers compare the exact time left; the quote shows it to the minute
+  const hoursAhead = (stay.checkIn.getTime() - now.getTime()) / HOUR_MS;
+  const hoursBeforeCheckIn = Math.round(hoursAhead * 100) / 100;
+  const nights = nightsBetween(stay.checkIn, stay.checkOut);
+  // Discounts reduce the nights, so they reduce what the nights give back
+  const nightsPaid = Math.max(0, stay.subtotal - stay.discountAmount);
+
+  const quote = (
+    stage: RefundStage,
+    refundPct: number,
+    refundableNights: number,
+    share: number,
+    cleaningFeePct: number,
+    serviceFeeShare: number,
+  ): RefundQuote => {
+    const nightsRefund = round((nightsPaid * share * refundPct) / 100);
+    const cleaningFeeRefund = round((stay.cleaningFee * cleaningFeePct) / 100);
+    const serviceFeeRefund = round(
+      (stay.serviceFee * serviceFeeShare * refundPct) / 100,
+    );
+    const taxRefund = round((stay.taxAmount * share * refundPct) / 100);
+    return {
+      stage,
+      hoursBeforeCheckIn,
+      refundPct,
+      refundableNights,
+      nightsRefund,
+      cleaningFeeRefund,
+      serviceFeeRefund,
+      taxRefund,
+      refundAmount: round(
+        Math.min(
+          stay.paidAmount,
+          nightsRefund + cleaningFeeRefund + serviceFeeRefund + taxRefund,
+        ),
+      ),
+    };
+  };
+
+  if (now >= stay.checkOut) return quote('after_check_out', 0, 0, 0, 0, 0);
+
+  if (hoursAhead > 0) {
+    const inGrace =
+      policy.graceHours > 0 &&
+      now.getTime() - stay.bookedAt.getTime() <= policy.graceHours * HOUR_MS;
+    if (inGrace) {
+      return quote('grace_period', 100, nights.length, 1, 100, 1);
+    }
+    const refundPct = refundPctAt(policy.tiers, hoursAhead);
+    return quote(
+      'before_check_in',
+      refundPct,
+      nights.length,
+      1,
+      policy.refundCleaningFee ? 100 : refundPct,
+      policy.refundServiceFee ? 1 : 0,
+    );
+  }
+
+  // Mid-stay: tonight is used, every later night can be given back
+  const tomorrow = startOfNight(now).getTime() + DAY_MS;
+  const unused = nights.filter((n) => n.getTime() >= tomorrow);
+  const rateOf = (night: Date) =>
+    stay.nightlyRates?.find((r) => r.date.getTime() === night.getTime())
+      ?.rate ?? stay.subtotal / Math.max(nights.length, 1);
+  const share = stay.subtotal
+    ? unused.reduce((sum, n) => sum + rateOf(n), 0) / stay.subtotal
+    : 0;
+  return quote(
+    'during_stay',
+    policy.unusedNightsRefundPct,
+    unused.length,
+    share,
+    0,
+    policy.refundServiceFee ? share : 0,
+  );
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+/**
+ * Throws unless the tiers make sense: distinct thresholds, and cancelling
+ * earlier never refunds less than cancelling later.
+ */
+export function assertValidPolicy(
+  policy: Pick<CancellationPolicyRules, 'tiers'>,
+): void {
+  if (policy.tiers.length > MAX_REFUND_TIERS) {
+    throw new BadRequestException(
+      `A policy has at most ${MAX_REFUND_TIERS} refund tiers`,
+    );
+  }
+  const tiers = [...policy.tiers].sort(
+    (a, b) => a.hoursBeforeCheckIn - b.hoursBeforeCheckIn,
+  );
+  for (let i = 1; i < tiers.length; i++) {
+    if (tiers[i].hoursBeforeCheckIn === tiers[i - 1].hoursBeforeCheckIn) {
+      throw new BadRequestException(
+        `Two refund tiers start ${tiers[i].hoursBeforeCheckIn}h before check-in`,
+      );
+    }
+    if (tiers[i].refundPct < tiers[i - 1].refundPct) {
+      throw new BadRequestException(
+        'Cancelling earlier must not refund less than cancelling later',
+      );
+    }
+  }
+}
@@ -0,0 +1,34 @@
+// ─── Cache store contract ─────────────────────────────────────────────────────
+
+/** Injection token for the active CacheStore implementation. */
+export const CACHE_STORE = 'CACHE_STORE';
+
+/**
+ * Minimal key/value contract every cache backend implements.
+ * Values are plain JSON-serialisable data — never Mongoose documents.
+ */
+export interface CacheStore {
+  /** Short backend name reported on the health endpoint, e.g. "memory" or "redis". */
+  readonly name: string;
+
+  get<T>(key: string): Promise<T | null>;
+
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+
+  /** Removes every key starting with `prefix`. Returns the number of keys removed. */
+  deleteByPrefix(prefix: string): Promise<number>;
+
+  /** Number of live keys, when the backend can report it cheaply. */
+  size?(): Promise<number>;
+}
+
+export interface CacheStats {
+  backend: string;
+  hits: number;
+  misses: number;
+  sets: number;
+  invalidations: number;
+  errors: number;
+  hitRate: number;
+  keys?: number;
+}
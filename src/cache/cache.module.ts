@@ -0,0 +1,48 @@
+import { Global, Logger, Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { CACHE_STORE, CacheStore } from './cache-store.interface';
+import { CacheService } from './cache.service';
+import { MemoryCacheStore } from './stores/memory-cache.store';
+import { RedisCacheStore } from './stores/redis-cache.store';
+
+/**
+ * Global cache module.
+ *
+ * REDIS_URL set   → RedisCacheStore, shared by every API replica.
+ * REDIS_URL unset → MemoryCacheStore, local to this process.
+ */
+@Global()
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: CACHE_STORE,
+      useFactory: (configService: ConfigService): CacheStore => {
+        const logger = new Logger('CacheModule');
+        const redisUrl = configService.get<string>('REDIS_URL');
+
+        if (!redisUrl) {
+          logger.log('REDIS_URL not set — using in-memory cache store');
+          return new MemoryCacheStore();
+        }
+
+        const client = new Redis(redisUrl, {
+          maxRetriesPerRequest: 2,
+          enableOfflineQueue: false,
+        });
+        client.on('error', (err) => logger.warn(`Redis error: ${err.message}`));
+
+        logger.log('Using Redis cache store');
+        return new RedisCacheStore(
+          client,
+          configService.get<string>('CACHE_KEY_PREFIX', 'horohouse:cache:'),
+        );
+      },
+      inject: [ConfigService],
+    },
+    CacheService,
+  ],
+  exports: [CacheService],
+})
+export class CacheModule {}
@@ -0,0 +1,123 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CacheService } from './cache.service';
+import { CACHE_STORE, CacheStore } from './cache-store.interface';
+import { MemoryCacheStore } from './stores/memory-cache.store';
+import { RedisCacheStore, RedisLikeClient } from './stores/redis-cache.store';
+
+/** In-process stand-in for a Redis server — only the calls RedisCacheStore uses. */
+class FakeRedisClient implements RedisLikeClient {
+  private readonly data = new Map<
+    string,
+    { value: string; expiresAt: number }
+  >();
+
+  get(key: string): Promise<string | null> {
+    const entry = this.data.get(key);
+    if (!entry || Date.now() > entry.expiresAt) return Promise.resolve(null);
+    return Promise.resolve(entry.value);
+  }
+
+  set(key: string, value: string, _mode: 'PX', ttlMs: number): Promise<'OK'> {
+    this.data.set(key, { value, expiresAt: Date.now() + ttlMs });
+    return Promise.resolve('OK');
+  }
+
+  del(...keys: string[]): Promise<number> {
+    return Promise.resolve(keys.filter((k) => this.data.delete(k)).length);
+  }
+
+  scan(
+    _cursor: string | number,
+    _match: 'MATCH',
+    pattern: string,
+  ): Promise<[string, string[]]> {
+    const prefix = pattern.slice(0, -1).replace(/\\(.)/g, '$1');
+    const keys = [...this.data.keys()].filter((k) => k.startsWith(prefix));
+    return Promise.resolve(['0', keys]);
+  }
+}
+
+describe.each<[string, () => CacheStore]>([
+  ['memory', () => new MemoryCacheStore()],
+  ['redis', () => new RedisCacheStore(new FakeRedisClient())],
+])('CacheService (%s store)', (_name, createStore) => {
+  let service: CacheService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CacheService,
+        { provide: CACHE_STORE, useFactory: createStore },
+      ],
+    }).compile();
+
+    service = module.get<CacheService>(CacheService);
+  });
+
+  it('returns cached values and counts hits and misses', async () => {
+    expect(await service.get('properties:featured:10')).toBeNull();
+
+    await service.set('properties:featured:10', [{ title: 'Villa' }], 60_000);
+
+    expect(await service.get('properties:featured:10')).toEqual([
+      { title: 'Villa' },
+    ]);
+    expect(await service.getStats()).toMatchObject({
+      hits: 1,
+      misses: 1,
+      sets: 1,
+      hitRate: 0.5,
+    });
+  });
+
+  it('expires entries after their TTL', async () => {
+    await service.set('properties:recent:10', ['a'], 1);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect(await service.get('properties:recent:10')).toBeNull();
+  });
+
+  it('invalidates every key under a prefix and leaves the rest', async () => {
+    await service.set('properties:similar:abc:6', ['x'], 60_000);
+    await service.set('properties:similar:def:6', ['y'], 60_000);
+    await service.set('properties:featured:10', ['z'], 60_000);
+
+    await service.invalidate('properties:similar:');
+
+    expect(await service.get('properties:similar:abc:6')).toBeNull();
+    expect(await service.get('properties:similar:def:6')).toBeNull();
+    expect(await service.get('properties:featured:10')).toEqual(['z']);
+    expect((await service.getStats()).invalidations).toBe(2);
+  });
+
+  it('wrap only calls the loader on a miss', async () => {
+    const loader = jest.fn().mockResolvedValue({ count: 3 });
+
+    await service.wrap('properties:popular_cities:10', 60_000, loader);
+    const second = await service.wrap(
+      'properties:popular_cities:10',
+      60_000,
+      loader,
+    );
+
+    expect(second).toEqual({ count: 3 });
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('CacheService backend failures', () => {
+  it('treats store errors as misses instead of throwing', async () => {
+    const failing: CacheStore = {
+      name: 'broken',
+      get: () => Promise.reject(new Error('connection refused')),
+      set: () => Promise.reject(new Error('connection refused')),
+      deleteByPrefix: () => Promise.reject(new Error('connection refused')),
+    };
+    const service = new CacheService(failing);
+
+    await expect(service.get('k')).resolves.toBeNull();
+    await expect(service.set('k', 1, 1000)).resolves.toBeUndefined();
+    await expect(service.invalidate('k')).resolves.toBeUndefined();
+    expect((await service.getStats()).errors).toBe(3);
+  });
+});
@@ -0,0 +1,104 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { CACHE_STORE, CacheStats, CacheStore } from './cache-store.interface';
+
+/**
+ * Thin facade over the configured CacheStore.
+ *
+ * Backend failures are logged and treated as cache misses so a Redis outage
+ * degrades to direct Mongo reads instead of failing requests. Hit/miss
+ * counters are per process and are exposed on GET /health.
+ */
+@Injectable()
+export class CacheService {
+  private readonly logger = new Logger(CacheService.name);
+
+  private hits = 0;
+  private misses = 0;
+  private sets = 0;
+  private invalidations = 0;
+  private errors = 0;
+
+  constructor(@Inject(CACHE_STORE) private readonly store: CacheStore) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const value = await this.store.get<T>(key);
+      if (value === null) this.misses++;
+      else this.hits++;
+      return value;
+    } catch (err) {
+      this.errors++;
+      this.misses++;
+      this.logger.warn(
+        `Cache get failed for "${key}": ${(err as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    try {
+      await this.store.set(key, value, ttlMs);
+      this.sets++;
+    } catch (err) {
+      this.errors++;
+      this.logger.warn(
+        `Cache set failed for "${key}": ${(err as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Returns the cached value for `key`, or runs `loader`, caches its result
+   * and returns it.
+   */
+  async wrap<T>(
+    key: string,
+    ttlMs: number,
+    loader: () => Promise<T>,
+  ): Promise<T> {
+    const cached = await this.get<T>(key);
+    if (cached !== null) return cached;
+
+    const fresh = await loader();
+    await this.set(key, fresh, ttlMs);
+    return fresh;
+  }
+
+  /** Removes every key starting with one of the given prefixes. */
+  async invalidate(...prefixes: string[]): Promise<void> {
+    await Promise.all(
+      prefixes.map(async (prefix) => {
+        try {
+          const removed = await this.store.deleteByPrefix(prefix);
+          this.invalidations += removed;
+        } catch (err) {
+          this.errors++;
+          this.logger.warn(
+            `Cache invalidation failed for "${prefix}*": ${(err as Error).message}`,
+          );
+        }
+      }),
+    );
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const lookups = this.hits + this.misses;
+    let keys: number | undefined;
+
+    if (this.store.size) {
+      keys = await this.store.size().catch(() => undefined);
+    }
+
+    return {
+      backend: this.store.name,
+      hits: this.hits,
+      misses: this.misses,
+      sets: this.sets,
+      invalidations: this.invalidations,
+      errors: this.errors,
+      hitRate: lookups === 0 ? 0 : Number((this.hits / lookups).toFixed(4)),
+      ...(keys !== undefined ? { keys } : {}),
+    };
+  }
+}
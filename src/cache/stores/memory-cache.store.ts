@@ -0,0 +1,50 @@
+import { CacheStore } from '../cache-store.interface';
+
+interface MemoryCacheEntry {
+  data: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Process-local TTL cache. Used when no REDIS_URL is configured (local dev,
+ * single-replica deployments). Each replica keeps its own copy.
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory';
+
+  private readonly entries = new Map<string, MemoryCacheEntry>();
+
+  get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return Promise.resolve(null);
+    if (Date.now() > entry.expiresAt) {
+      this.entries.delete(key);
+      return Promise.resolve(null);
+    }
+    return Promise.resolve(entry.data as T);
+  }
+
+  set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.set(key, { data: value, expiresAt: Date.now() + ttlMs });
+    return Promise.resolve();
+  }
+
+  deleteByPrefix(prefix: string): Promise<number> {
+    let removed = 0;
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return Promise.resolve(removed);
+  }
+
+  size(): Promise<number> {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (now > entry.expiresAt) this.entries.delete(key);
+    }
+    return Promise.resolve(this.entries.size);
+  }
+}
@@ -0,0 +1,71 @@
+import { CacheStore } from '../cache-store.interface';
+
+/**
+ * The subset of the ioredis API this store relies on. Any client exposing the
+ * same calls (ioredis, a cluster client, or an in-process stand-in in tests)
+ * can be passed in.
+ */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+  scan(
+    cursor: string | number,
+    matchToken: 'MATCH',
+    pattern: string,
+    countToken: 'COUNT',
+    count: number,
+  ): Promise<[string, string[]]>;
+}
+
+/**
+ * Shared cache backed by Redis (or any Redis-protocol server such as KeyDB or
+ * Dragonfly). All API replicas read and invalidate the same keys.
+ */
+export class RedisCacheStore implements CacheStore {
+  readonly name = 'redis';
+
+  constructor(
+    private readonly client: RedisLikeClient,
+    private readonly keyPrefix = 'horohouse:cache:',
+  ) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const raw = await this.client.get(this.keyPrefix + key);
+    return raw === null ? null : (JSON.parse(raw) as T);
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    await this.client.set(
+      this.keyPrefix + key,
+      JSON.stringify(value),
+      'PX',
+      Math.max(1, Math.round(ttlMs)),
+    );
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    // SCAN instead of KEYS so large keyspaces never block the server
+    const pattern = `${this.escapeGlob(this.keyPrefix + prefix)}*`;
+    let cursor = '0';
+    let removed = 0;
+
+    do {
+      const [next, keys] = await this.client.scan(
+        cursor,
+        'MATCH',
+        pattern,
+        'COUNT',
+        200,
+      );
+      if (keys.length > 0) removed += await this.client.del(...keys);
+      cursor = next;
+    } while (cursor !== '0');
+
+    return removed;
+  }
+
+  private escapeGlob(value: string): string {
+    return value.replace(/[*?[\]\\]/g, '\\$&');
+  }
+}
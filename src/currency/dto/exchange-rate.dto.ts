@@ -0,0 +1,24 @@
+import { IsNumber, IsPositive, IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+const CURRENCY_CODE = /^[A-Za-z]{3}$/;
+
+export class SetExchangeRateDto {
+  @ApiProperty({
+    example: 655.957,
+    description: 'Value of one unit of the currency in XAF',
+  })
+  @IsNumber()
+  @IsPositive()
+  rateToBase: number;
+}
+
+/** One rate row, as read from an import file. */
+export class ExchangeRateRowDto extends SetExchangeRateDto {
+  @ApiProperty({ example: 'EUR', description: 'ISO 4217 currency code' })
+  @IsString()
+  @Matches(CURRENCY_CODE, {
+    message: 'currency must be a 3-letter ISO 4217 code',
+  })
+  currency: string;
+}
@@ -0,0 +1,151 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Post,
+  Delete,
+  Param,
+  Body,
+  Query,
+  Req,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { FastifyRequest } from 'fastify';
+import { MultipartFile } from '@fastify/multipart';
+
+import {
+  ExchangeRatesService,
+  MAX_RATE_FILE_BYTES,
+} from './exchange-rates.service';
+import { SetExchangeRateDto } from './dto/exchange-rate.dto';
+import { BASE_CURRENCY } from './utils/currency-conversion.util';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { RolesGuard, Roles, Public } from '../auth/guards/roles.guard';
+import { User, UserRole } from '../users/schemas/user.schema';
+
+@ApiTags('Exchange rates')
+@Controller('exchange-rates')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ExchangeRatesController {
+  constructor(private readonly exchangeRatesService: ExchangeRatesService) {}
+
+  @Get()
+  @Public()
+  @ApiOperation({
+    summary: 'Exchange-rate table',
+    description: `Each rate is the value of one unit in ${BASE_CURRENCY}. These are the currencies accepted as displayCurrency.`,
+  })
+  @ApiResponse({ status: 200, description: 'Base currency and rates' })
+  async list() {
+    return {
+      base: BASE_CURRENCY,
+      rates: await this.exchangeRatesService.list(),
+    };
+  }
+
+  @Get('convert')
+  @Public()
+  @ApiOperation({ summary: 'Convert an amount between two currencies' })
+  @ApiQuery({ name: 'amount', required: true, type: Number })
+  @ApiQuery({ name: 'from', required: true, type: String, example: 'EUR' })
+  @ApiQuery({ name: 'to', required: true, type: String, example: 'XAF' })
+  @ApiResponse({ status: 200, description: 'Converted amount' })
+  @ApiResponse({ status: 400, description: 'Unknown currency' })
+  async convert(
+    @Query('amount') amount: string,
+    @Query('from') from: string,
+    @Query('to') to: string,
+  ) {
+    const value = parseFloat(amount);
+    if (!Number.isFinite(value) || !from || !to) {
+      throw new BadRequestException('amount, from and to are required');
+    }
+    const snapshot = await this.exchangeRatesService.snapshot(from, to);
+    return {
+      amount: await this.exchangeRatesService.convert(value, from, to),
+      ...snapshot,
+    };
+  }
+
+  // ─── Admin ──────────────────────────────────────────────────────────────────
+
+  @Put(':currency')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Admin: Create or update the rate of a currency' })
+  @ApiParam({ name: 'currency', description: 'ISO 4217 code, e.g. USD' })
+  @ApiResponse({ status: 200, description: 'Rate saved' })
+  async setRate(
+    @Param('currency') currency: string,
+    @Body() dto: SetExchangeRateDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.exchangeRatesService.setRate(
+      currency,
+      dto.rateToBase,
+      req.user,
+    );
+  }
+
+  @Post('import')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Admin: Import rates from a CSV or JSON file',
+    description: `Columns: currency, rateToBase (value of one unit in ${BASE_CURRENCY}).`,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Created/updated counts and invalid rows',
+  })
+  async importRates(@Req() req: FastifyRequest & { user: User }) {
+    let upload: { buffer: Buffer; fileName: string } | undefined;
+
+    const parts = req.parts({ limits: { fileSize: MAX_RATE_FILE_BYTES } });
+    for await (const part of parts as AsyncIterable<MultipartFile>) {
+      if (part.type === 'file' && !upload) {
+        const chunks: Buffer[] = [];
+        for await (const chunk of part.file) {
+          chunks.push(Buffer.from(chunk));
+        }
+        if (part.file.truncated) {
+          throw new BadRequestException(
+            `File is larger than ${MAX_RATE_FILE_BYTES / 1024 / 1024} MB`,
+          );
+        }
+        upload = { buffer: Buffer.concat(chunks), fileName: part.filename };
+      }
+    }
+    if (!upload) throw new BadRequestException('No file uploaded');
+
+    return this.exchangeRatesService.importRates(
+      upload.buffer,
+      upload.fileName,
+      req.user,
+    );
+  }
+
+  @Delete(':currency')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Admin: Remove the rate of a currency' })
+  @ApiParam({ name: 'currency', description: 'ISO 4217 code' })
+  async removeRate(@Param('currency') currency: string) {
+    await this.exchangeRatesService.removeRate(currency);
+  }
+}
@@ -0,0 +1,403 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { AnyBulkWriteOperation, Model } from 'mongoose';
+import { Readable } from 'stream';
+import { Workbook } from 'exceljs';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+
+import {
+  ExchangeRate,
+  ExchangeRateDocument,
+  ExchangeRateSource,
+} from './schemas/exchange-rate.schema';
+import { ExchangeRateRowDto } from './dto/exchange-rate.dto';
+import {
+  BASE_CURRENCY,
+  DisplayPrice,
+  ExchangeRateSnapshot,
+  RateTable,
+  convertAmount,
+  exchangeRate,
+  normalizeCurrency,
+  priceRangeQuery,
+  roundAmount,
+} from './utils/currency-conversion.util';
+import { CacheService } from '../cache/cache.service';
+import { User } from '../users/schemas/user.schema';
+
+export const MAX_RATE_FILE_BYTES = 1024 * 1024;
+
+const RATES_CACHE_KEY = 'fx:rates';
+const RATES_CACHE_TTL_MS = 10 * 60_000;
+
+/** CFA franc parities, fixed by treaty; seeded when missing. */
+const PEGGED_RATES: Record<string, number> = { XOF: 1, EUR: 655.957 };
+
+/** Rates as cached: ISO dates so the value survives JSON stores. */
+interface CachedRates {
+  rates: RateTable;
+  updatedAt: Record<string, string>;
+}
+
+export interface ExchangeRateImportReport {
+  created: number;
+  updated: number;
+  errors: { row: number; message: string }[];
+}
+
+/**
+ * Exchange-rate table used to compare and display prices across currencies.
+ * Rates are stored against XAF; admins edit them one by one or import a file.
+ */
+@Injectable()
+export class ExchangeRatesService implements OnModuleInit {
+  private readonly logger = new Logger(ExchangeRatesService.name);
+
+  constructor(
+    @InjectModel(ExchangeRate.name)
+    private exchangeRateModel: Model<ExchangeRateDocument>,
+    private cacheService: CacheService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    try {
+      const result = await this.exchangeRateModel.bulkWrite(
+        Object.entries(PEGGED_RATES).map(([currency, rateToBase]) => ({
+          updateOne: {
+            filter: { currency },
+            update: {
+              $setOnInsert: {
+                currency,
+                rateToBase,
+                source: ExchangeRateSource.PEG,
+              },
+            },
+            upsert: true,
+          },
+        })),
+      );
+      if (result.upsertedCount) {
+        this.logger.log(
+          `Seeded ${result.upsertedCount} pegged exchange rate(s)`,
+        );
+        await this.cacheService.invalidate(RATES_CACHE_KEY);
+      }
+    } catch (err) {
+      this.logger.error('Seeding pegged exchange rates failed', err);
+    }
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // CONVERSION
+  // ════════════════════════════════════════════════════════════════════════════
+
+  async getRates(): Promise<RateTable> {
+    return (await this.loadRates()).rates;
+  }
+
+  /** Throws when the currency cannot be converted. Returns it normalized. */
+  async assertSupported(currency: string): Promise<string> {
+    const code = normalizeCurrency(currency);
+    const { rates } = await this.loadRates();
+    if (code !== BASE_CURRENCY && !rates[code]) {
+      throw new BadRequestException(`No exchange rate for currency ${code}`);
+    }
+    return code;
+  }
+
+  async convert(amount: number, from: string, to: string): Promise<number> {
+    const converted = convertAmount(amount, from, to, await this.getRates());
+    if (converted === null) {
+      throw new BadRequestException(
+        `Cannot convert ${normalizeCurrency(from)} to ${normalizeCurrency(to)}: no exchange rate`,
+      );
+    }
+    return converted;
+  }
+
+  /** The rate `from` → `to` as of now, to be stored with a price. */
+  async snapshot(from: string, to: string): Promise<ExchangeRateSnapshot> {
+    const { rates, updatedAt } = await this.loadRates();
+    const source = normalizeCurrency(from);
+    const target = normalizeCurrency(to);
+    const rate = exchangeRate(source, target, rates);
+    if (rate === null) {
+      throw new BadRequestException(
+        `Cannot convert ${source} to ${target}: no exchange rate`,
+      );
+    }
+
+    // The later of the two rate updates is when this rate became current
+    const dates = [updatedAt[source], updatedAt[target]]
+      .filter(Boolean)
+      .map((d) => new Date(d).getTime());
+    return {
+      from: source,
+      to: target,
+      rate,
+      asOf: dates.length ? new Date(Math.max(...dates)) : new Date(),
+    };
+  }
+
+  /** Mongo clause for a min/max price given in `currency`. */
+  async priceFilter(
+    min: number | undefined,
+    max: number | undefined,
+    currency: string,
+  ): Promise<Record<string, unknown>> {
+    const code = await this.assertSupported(currency);
+    return priceRangeQuery(min, max, code, await this.getRates());
+  }
+
+  /**
+   * Adds `displayPrice` to each listing. Listings in a currency without a
+   * rate are returned unchanged.
+   */
+  async withDisplayPrice<T extends { price?: number; currency?: string }>(
+    items: T[],
+    displayCurrency: string,
+  ): Promise<(T & { displayPrice?: DisplayPrice })[]> {
+    const currency = await this.assertSupported(displayCurrency);
+    const rates = await this.getRates();
+
+    return items.map((item) => {
+      const rate = exchangeRate(
+        item.currency ?? BASE_CURRENCY,
+        currency,
+        rates,
+      );
+      if (item.price === undefined || rate === null) return item;
+      return {
+        ...item,
+        displayPrice: {
+          amount: roundAmount(item.price * rate, currency),
+          currency,
+          rate,
+        },
+      };
+    });
+  }
+
+  private loadRates(): Promise<CachedRates> {
+    return this.cacheService.wrap(
+      RATES_CACHE_KEY,
+      RATES_CACHE_TTL_MS,
+      async () => {
+        const rows = await this.exchangeRateModel
+          .find()
+          .select('currency rateToBase updatedAt')
+          .lean<ExchangeRate[]>()
+          .exec();
+        const table: CachedRates = { rates: {}, updatedAt: {} };
+        for (const row of rows) {
+          table.rates[row.currency] = row.rateToBase;
+          if (row.updatedAt)
+            table.updatedAt[row.currency] = row.updatedAt.toISOString();
+        }
+        return table;
+      },
+    );
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // RATE TABLE (admin)
+  // ════════════════════════════════════════════════════════════════════════════
+
+  list(): Promise<ExchangeRate[]> {
+    return this.exchangeRateModel
+      .find()
+      .sort({ currency: 1 })
+      .lean<ExchangeRate[]>()
+      .exec();
+  }
+
+  async setRate(
+    currency: string,
+    rateToBase: number,
+    admin: User,
+  ): Promise<ExchangeRate> {
+    const code = this.assertEditable(currency);
+    const rate = await this.exchangeRateModel
+      .findOneAndUpdate(
+        { currency: code },
+        {
+          $set: {
+            rateToBase,
+            source: ExchangeRateSource.MANUAL,
+            updatedBy: admin._id,
+          },
+        },
+        { new: true, upsert: true, runValidators: true },
+      )
+      .lean<ExchangeRate>()
+      .exec();
+
+    await this.cacheService.invalidate(RATES_CACHE_KEY);
+    this.logger.log(
+      `Exchange rate ${code} set to ${rateToBase} ${BASE_CURRENCY}`,
+    );
+    return rate;
+  }
+
+  async removeRate(currency: string): Promise<void> {
+    const code = this.assertEditable(currency);
+    const deleted = await this.exchangeRateModel
+      .findOneAndDelete({ currency: code })
+      .exec();
+    if (!deleted) throw new NotFoundException(`No exchange rate for ${code}`);
+    await this.cacheService.invalidate(RATES_CACHE_KEY);
+  }
+
+  /**
+   * Loads a CSV (currency,rateToBase) or JSON array of rates. Existing
+   * currencies are updated; invalid rows are reported and skipped.
+   */
+  async importRates(
+    buffer: Buffer,
+    fileName: string,
+    admin: User,
+  ): Promise<ExchangeRateImportReport> {
+    const rows = await this.readRateFile(buffer, fileName);
+    if (!rows.length)
+      throw new BadRequestException('The file contains no rates');
+
+    const report: ExchangeRateImportReport = {
+      created: 0,
+      updated: 0,
+      errors: [],
+    };
+    const ops: AnyBulkWriteOperation<ExchangeRateDocument>[] = [];
+
+    for (const { row, values } of rows) {
+      const dto = plainToInstance(ExchangeRateRowDto, values);
+      const errors = await validate(dto, {
+        whitelist: true,
+        forbidNonWhitelisted: true,
+      });
+      if (errors.length) {
+        report.errors.push({
+          row,
+          message: errors
+            .flatMap((e) => Object.values(e.constraints ?? {}))
+            .join('; '),
+        });
+        continue;
+      }
+      const currency = normalizeCurrency(dto.currency);
+      if (currency === BASE_CURRENCY) {
+        report.errors.push({
+          row,
+          message: `${BASE_CURRENCY} is the base currency`,
+        });
+        continue;
+      }
+
+      ops.push({
+        updateOne: {
+          filter: { currency },
+          update: {
+            $set: {
+              rateToBase: dto.rateToBase,
+              source: ExchangeRateSource.IMPORT,
+              updatedBy: admin._id,
+            },
+          },
+          upsert: true,
+        },
+      });
+    }
+
+    if (ops.length) {
+      const result = await this.exchangeRateModel.bulkWrite(ops, {
+        ordered: false,
+      });
+      report.created = result.upsertedCount;
+      report.updated = result.modifiedCount;
+      await this.cacheService.invalidate(RATES_CACHE_KEY);
+    }
+
+    this.logger.log(
+      `Exchange-rate import "${fileName}": ${report.created} created, ${report.updated} updated, ${report.errors.length} invalid row(s)`,
+    );
+    return report;
+  }
+
+  private assertEditable(currency: string): string {
+    const code = normalizeCurrency(currency);
+    if (!/^[A-Z]{3}$/.test(code)) {
+      throw new BadRequestException(
+        'currency must be a 3-letter ISO 4217 code',
+      );
+    }
+    if (code === BASE_CURRENCY) {
+      throw new BadRequestException(
+        `${BASE_CURRENCY} is the base currency and has no rate`,
+      );
+    }
+    return code;
+  }
+
+  /** Rows as plain objects; CSV cells are coerced to the DTO's types. */
+  private async readRateFile(
+    buffer: Buffer,
+    fileName: string,
+  ): Promise<{ row: number; values: Record<string, unknown> }[]> {
+    if (/\.json$/i.test(fileName)) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(buffer.toString('utf8'));
+      } catch {
+        throw new BadRequestException('The file is not valid JSON');
+      }
+      if (!Array.isArray(parsed)) {
+        throw new BadRequestException('A JSON rate file must be an array');
+      }
+      return parsed.map((values: Record<string, unknown>, i) => ({
+        row: i + 1,
+        values,
+      }));
+    }
+
+    if (!/\.csv$/i.test(fileName)) {
+      throw new BadRequestException('Only .csv and .json files are supported');
+    }
+
+    const workbook = new Workbook();
+    try {
+      await workbook.csv.read(Readable.from(buffer), {
+        map: (value: string) => value,
+      });
+    } catch {
+      throw new BadRequestException('The file could not be read');
+    }
+    const sheet = workbook.worksheets[0];
+    if (!sheet) return [];
+
+    const headers: string[] = [];
+    sheet.getRow(1).eachCell((cell, col) => {
+      headers[col] = cell.text.trim();
+    });
+
+    const rows: { row: number; values: Record<string, unknown> }[] = [];
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return;
+      const values: Record<string, unknown> = {};
+      row.eachCell((cell, col) => {
+        const header = headers[col];
+        const text = cell.text.trim();
+        if (!header || text === '') return;
+        values[header] =
+          header === 'rateToBase' ? Number(text.replace(',', '.')) : text;
+      });
+      if (Object.keys(values).length) rows.push({ row: rowNumber, values });
+    });
+    return rows;
+  }
+}
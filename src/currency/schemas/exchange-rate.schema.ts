@@ -0,0 +1,43 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ExchangeRateDocument = ExchangeRate & Document;
+
+export enum ExchangeRateSource {
+  /** Fixed parity seeded at startup (XOF and EUR against XAF). */
+  PEG = 'peg',
+  MANUAL = 'manual',
+  IMPORT = 'import',
+}
+
+/**
+ * Value of one unit of `currency` in the base currency (XAF). Conversions
+ * between two other currencies go through the base.
+ */
+@Schema({ timestamps: true })
+export class ExchangeRate {
+  _id!: Types.ObjectId;
+
+  /** ISO 4217 code, upper case. */
+  @Prop({ required: true, unique: true, uppercase: true, trim: true })
+  currency: string;
+
+  /** XAF per 1 unit of `currency`, e.g. 655.957 for EUR. */
+  @Prop({ required: true, min: 0 })
+  rateToBase: number;
+
+  @Prop({
+    type: String,
+    enum: Object.values(ExchangeRateSource),
+    default: ExchangeRateSource.MANUAL,
+  })
+  source: ExchangeRateSource;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy?: Types.ObjectId;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const ExchangeRateSchema = SchemaFactory.createForClass(ExchangeRate);
@@ -0,0 +1,38 @@
+import {
+  convertAmount,
+  exchangeRate,
+  priceRangeQuery,
+} from './currency-conversion.util';
+
+describe('currency-conversion.util', () => {
+  const rates = { EUR: 655.957, USD: 600, XOF: 1 };
+
+  it('converts through the base currency and rounds to minor units', () => {
+    expect(convertAmount(100, 'EUR', 'XAF', rates)).toBe(65596);
+    expect(convertAmount(65_595.7, 'XAF', 'eur', rates)).toBe(100);
+    expect(exchangeRate('USD', 'EUR', rates)).toBeCloseTo(600 / 655.957, 10);
+    expect(convertAmount(10, 'GBP', 'XAF', rates)).toBeNull();
+  });
+
+  it('builds one converted price range per listing currency', () => {
+    const query = priceRangeQuery(100, 200, 'EUR', rates) as {
+      $or: { currency: unknown; price: { $gte: number; $lte: number } }[];
+    };
+
+    expect(query.$or).toHaveLength(4);
+    const xaf = query.$or.find((b) => typeof b.currency === 'object')!;
+    expect(xaf.currency).toEqual({ $in: ['XAF', null] });
+    expect(xaf.price.$gte).toBeCloseTo(65_595.7);
+    const eur = query.$or.find((b) => b.currency === 'EUR')!;
+    expect(eur.price).toEqual({ $gte: 100, $lte: 200 });
+  });
+
+  it('leaves out the missing bound', () => {
+    const query = priceRangeQuery(undefined, 1000, 'XAF', {}) as {
+      $or: { price: Record<string, number> }[];
+    };
+    expect(query.$or).toEqual([
+      { currency: { $in: ['XAF', null] }, price: { $lte: 1000 } },
+    ]);
+  });
+});
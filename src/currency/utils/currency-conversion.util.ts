@@ -0,0 +1,114 @@
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Listing prices without a currency are stored in the platform currency. */
+export const BASE_CURRENCY = 'XAF';
+
+/** Currency code → value of one unit in BASE_CURRENCY. The base itself is 1. */
+export type RateTable = Record<string, number>;
+
+/** The rate a booking was priced with, kept so later rate edits don't change it. */
+export interface ExchangeRateSnapshot {
+  from: string;
+  to: string;
+  /** Units of `to` per unit of `from`. */
+  rate: number;
+  asOf: Date;
+}
+
+export interface DisplayPrice {
+  amount: number;
+  currency: string;
+  rate: number;
+}
+
+// ─── Conversion ───────────────────────────────────────────────────────────────
+
+export function normalizeCurrency(code?: string | null): string {
+  return (code ?? '').trim().toUpperCase() || BASE_CURRENCY;
+}
+
+/** Minor units of the currency: 0 for XAF/XOF, 2 for EUR/USD. */
+export function currencyDecimals(currency: string): number {
+  try {
+    return (
+      new Intl.NumberFormat('en', {
+        style: 'currency',
+        currency,
+      }).resolvedOptions().maximumFractionDigits ?? 2
+    );
+  } catch {
+    return 2;
+  }
+}
+
+export function roundAmount(amount: number, currency: string): number {
+  const factor = 10 ** currencyDecimals(currency);
+  return Math.round(amount * factor) / factor;
+}
+
+/** Units of `to` per unit of `from`, or null when either has no rate. */
+export function exchangeRate(
+  from: string,
+  to: string,
+  rates: RateTable,
+): number | null {
+  const source = normalizeCurrency(from);
+  const target = normalizeCurrency(to);
+  if (source === target) return 1;
+
+  const toBase = source === BASE_CURRENCY ? 1 : rates[source];
+  const fromBase = target === BASE_CURRENCY ? 1 : rates[target];
+  if (!toBase || !fromBase) return null;
+  return toBase / fromBase;
+}
+
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: RateTable,
+): number | null {
+  const rate = exchangeRate(from, to, rates);
+  return rate === null
+    ? null
+    : roundAmount(amount * rate, normalizeCurrency(to));
+}
+
+// ─── Search ───────────────────────────────────────────────────────────────────
+
+/**
+ * Mongo clause matching listings whose price, in their own currency, falls
+ * within [min, max] expressed in `currency`. Each known currency gets its own
+ * converted bounds; listings priced in a currency without a rate cannot be
+ * compared and are left out.
+ */
+export function priceRangeQuery(
+  min: number | undefined,
+  max: number | undefined,
+  currency: string,
+  rates: RateTable,
+): Record<string, unknown> {
+  const filterCurrency = normalizeCurrency(currency);
+  const currencies = [...new Set([BASE_CURRENCY, ...Object.keys(rates)])];
+
+  const branches = currencies.flatMap((listingCurrency) => {
+    const rate = exchangeRate(filterCurrency, listingCurrency, rates);
+    if (rate === null) return [];
+
+    const price: Record<string, number> = {};
+    if (min !== undefined) price.$gte = min * rate;
+    if (max !== undefined) price.$lte = max * rate;
+    return [
+      {
+        // Listings created before currencies were validated may lack the field
+        currency:
+          listingCurrency === BASE_CURRENCY
+            ? { $in: [BASE_CURRENCY, null] }
+            : listingCurrency,
+        price,
+      },
+    ];
+  });
+
+  return { $or: branches };
+}
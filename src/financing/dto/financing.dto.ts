@@ -0,0 +1,165 @@
+import {
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PropertyType } from '../../properties/schemas/property.schema';
+
+export const MAX_HORIZON_YEARS = 30;
+
+/** Buyer's choices for a financing simulation. */
+export class FinancingQueryDto {
+  @ApiPropertyOptional({
+    example: 30,
+    description: "Defaults to the area's minimum down payment",
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  downPaymentPct?: number;
+
+  @ApiPropertyOptional({
+    example: 11.5,
+    description: "Yearly rate; defaults to the area's typical rate",
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  interestRatePct?: number;
+
+  @ApiPropertyOptional({
+    example: 15,
+    description: "Defaults to the area's longest term",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(40)
+  termYears?: number;
+
+  @ApiPropertyOptional({
+    example: 10,
+    description: 'Years compared in the rent-vs-buy table (default 10)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_HORIZON_YEARS)
+  horizonYears?: number;
+
+  @ApiPropertyOptional({ example: 3, description: 'Yearly rent increase' })
+  @IsOptional()
+  @IsNumber()
+  @Min(-20)
+  @Max(50)
+  rentGrowthPct?: number;
+
+  @ApiPropertyOptional({ example: 4, description: 'Yearly price increase' })
+  @IsOptional()
+  @IsNumber()
+  @Min(-20)
+  @Max(50)
+  appreciationPct?: number;
+
+  @ApiPropertyOptional({
+    example: 250000,
+    description:
+      'Rent to compare with, per month; defaults to the median of our rent listings',
+  })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  monthlyRent?: number;
+}
+
+/** Simulation for a property that is not listed. */
+export class CalculateFinancingDto extends FinancingQueryDto {
+  @ApiProperty({ example: 45000000 })
+  @IsNumber()
+  @IsPositive()
+  price: number;
+
+  @ApiPropertyOptional({ example: 'XAF', default: 'XAF' })
+  @IsOptional()
+  @Matches(/^[A-Za-z]{3}$/, { message: 'currency must be a 3-letter code' })
+  currency?: string;
+
+  @ApiProperty({ example: 'Douala' })
+  @IsString()
+  @MaxLength(100)
+  city: string;
+
+  @ApiPropertyOptional({
+    enum: PropertyType,
+    description: 'Narrows the rent comparison',
+  })
+  @IsOptional()
+  @IsEnum(PropertyType)
+  type?: PropertyType;
+
+  @ApiPropertyOptional({ example: 20000, description: 'Per month' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maintenanceFee?: number;
+}
+
+export class SetCostRateDto {
+  @ApiProperty({ example: 12 })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  interestRatePct: number;
+
+  @ApiProperty({ example: 20 })
+  @IsInt()
+  @Min(1)
+  @Max(40)
+  maxTermYears: number;
+
+  @ApiProperty({ example: 20 })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  minDownPaymentPct: number;
+
+  @ApiProperty({ example: 10, description: "Droits d'enregistrement" })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  registrationFeePct: number;
+
+  @ApiProperty({ example: 2 })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  notaryFeePct: number;
+
+  @ApiProperty({ example: 1, description: 'Conservation foncière' })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  landRegistryFeePct: number;
+
+  @ApiProperty({ example: 0.1, description: 'Impôt foncier, per year' })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  annualPropertyTaxPct: number;
+
+  @ApiProperty({ example: 0.15, description: 'Per year' })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  annualInsurancePct: number;
+}
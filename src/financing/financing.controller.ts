@@ -0,0 +1,134 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Post,
+  Delete,
+  Param,
+  Body,
+  Query,
+  Req,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { FastifyRequest } from 'fastify';
+
+import { FinancingService } from './financing.service';
+import {
+  CalculateFinancingDto,
+  FinancingQueryDto,
+  SetCostRateDto,
+} from './dto/financing.dto';
+import { RateScope } from './schemas/regional-cost-rate.schema';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { RolesGuard, Roles, Public } from '../auth/guards/roles.guard';
+import { User, UserRole } from '../users/schemas/user.schema';
+
+@ApiTags('Financing')
+@Controller('financing')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class FinancingController {
+  constructor(private readonly financingService: FinancingService) {}
+
+  @Get('properties/:propertyId')
+  @Public()
+  @ApiOperation({
+    summary:
+      'Mortgage, total cost of ownership and rent-vs-buy for a sale listing',
+    description:
+      'Fees, taxes and default loan terms come from the rates of the listing city or region. The rent comparison uses the median rent of our rent listings in the same city (and type when there are enough).',
+  })
+  @ApiParam({ name: 'propertyId', description: 'Property ID' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Not a sale listing, or terms outside what banks offer in the area',
+  })
+  async simulateForProperty(
+    @Param('propertyId') propertyId: string,
+    @Query() query: FinancingQueryDto,
+  ) {
+    return this.financingService.simulateForProperty(propertyId, query);
+  }
+
+  @Post('calculate')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Same simulation for a price and city of your choice',
+  })
+  async calculate(@Body() dto: CalculateFinancingDto) {
+    return this.financingService.simulate(dto, dto);
+  }
+
+  // ─── Regional rates ─────────────────────────────────────────────────────────
+
+  @Get('rates')
+  @Public()
+  @ApiOperation({ summary: 'Financing and purchase-cost rates by area' })
+  async listRates() {
+    return this.financingService.listRates();
+  }
+
+  @Put('rates/:scope/:key')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Admin: Create or update the rates of a city, a region or the default row',
+  })
+  @ApiParam({ name: 'scope', enum: RateScope })
+  @ApiParam({
+    name: 'key',
+    description: 'City or region name; "default" for the default row',
+  })
+  async setRate(
+    @Param('scope') scope: RateScope,
+    @Param('key') key: string,
+    @Body() dto: SetCostRateDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.financingService.setRate(
+      this.parseScope(scope),
+      key,
+      dto,
+      req.user,
+    );
+  }
+
+  @Delete('rates/:scope/:key')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      'Admin: Remove the rates of a city or region (the default applies again)',
+  })
+  @ApiParam({ name: 'scope', enum: RateScope })
+  @ApiParam({ name: 'key', description: 'City or region name' })
+  async removeRate(
+    @Param('scope') scope: RateScope,
+    @Param('key') key: string,
+  ) {
+    await this.financingService.removeRate(this.parseScope(scope), key);
+    return { message: 'Rates removed' };
+  }
+
+  private parseScope(scope: string): RateScope {
+    if (!Object.values(RateScope).includes(scope as RateScope)) {
+      throw new BadRequestException(
+        `scope must be one of: ${Object.values(RateScope).join(', ')}`,
+      );
+    }
+    return scope as RateScope;
+  }
+}
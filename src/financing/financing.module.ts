@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+
+import {
+  RegionalCostRate,
+  RegionalCostRateSchema,
+} from './schemas/regional-cost-rate.schema';
+import {
+  Property,
+  PropertySchema,
+} from '../properties/schemas/property.schema';
+import {
+  GazetteerEntry,
+  GazetteerEntrySchema,
+} from '../geocoding/schemas/gazetteer-entry.schema';
+import { FinancingService } from './financing.service';
+import { FinancingController } from './financing.controller';
+import { CurrencyModule } from '../currency/currency.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: RegionalCostRate.name, schema: RegionalCostRateSchema },
+      { name: Property.name, schema: PropertySchema },
+      { name: GazetteerEntry.name, schema: GazetteerEntrySchema },
+    ]),
+    CurrencyModule,
+  ],
+  controllers: [FinancingController],
+  providers: [FinancingService],
+  exports: [FinancingService],
+})
+export class FinancingModule {}
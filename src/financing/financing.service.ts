@@ -0,0 +1,363 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+
+import {
+  RateScope,
+  RegionalCostRate,
+  RegionalCostRateDocument,
+} from './schemas/regional-cost-rate.schema';
+import { FinancingQueryDto, SetCostRateDto } from './dto/financing.dto';
+import {
+  CostRates,
+  OwnershipCost,
+  RentVsBuy,
+  median,
+  ownershipCost,
+  rentVsBuy,
+  resolveFinancingTerms,
+} from './utils/financing.util';
+import {
+  ApprovalStatus,
+  ListingType,
+  Property,
+  PropertyDocument,
+  PropertyStatus,
+  PropertyType,
+} from '../properties/schemas/property.schema';
+import {
+  GazetteerEntry,
+  GazetteerEntryDocument,
+  GazetteerKind,
+} from '../geocoding/schemas/gazetteer-entry.schema';
+import { normalizeSearchText } from '../properties/utils/search-text.util';
+import { ExchangeRatesService } from '../currency/exchange-rates.service';
+import {
+  BASE_CURRENCY,
+  convertAmount,
+  normalizeCurrency,
+} from '../currency/utils/currency-conversion.util';
+import { CacheService } from '../cache/cache.service';
+import { User } from '../users/schemas/user.schema';
+
+const DEFAULT_KEY = 'default';
+
+/** Seeded fallback, in line with common Cameroonian bank and notary practice. */
+const DEFAULT_RATES: CostRates = {
+  interestRatePct: 11,
+  maxTermYears: 15,
+  minDownPaymentPct: 20,
+  registrationFeePct: 5,
+  notaryFeePct: 2.5,
+  landRegistryFeePct: 1,
+  annualPropertyTaxPct: 0.1,
+  annualInsurancePct: 0.15,
+};
+
+const RATES_CACHE_KEY = 'financing:rates';
+const RATES_CACHE_TTL_MS = 10 * 60_000;
+const RENT_CACHE_TTL_MS = 60 * 60_000;
+
+/** Fewer comparable rentals than this and the property type is dropped. */
+const MIN_RENT_SAMPLE = 3;
+const MAX_RENT_SAMPLE = 500;
+const DEFAULT_HORIZON_YEARS = 10;
+
+export interface MedianRent {
+  amount: number;
+  currency: string;
+  sampleSize: number;
+  /** Whether the median is over listings of the same type or the whole city. */
+  basis: 'city_and_type' | 'city';
+}
+
+export interface FinancingSimulation {
+  /** Which rate row applied: "city:douala", "region:littoral" or "default". */
+  ratesSource: string;
+  rates: CostRates;
+  cost: OwnershipCost;
+  medianRent: MedianRent | null;
+  rentVsBuy: RentVsBuy | null;
+}
+
+type SaleListing = Pick<
+  Property,
+  'price' | 'currency' | 'city' | 'type' | 'maintenanceFee' | 'listingType'
+>;
+
+/**
+ * Mortgage and total cost of ownership for sale listings, with purchase fees
+ * and taxes from admin-editable regional rates, and a rent-vs-buy view
+ * against the median rent of comparable listings.
+ */
+@Injectable()
+export class FinancingService implements OnModuleInit {
+  private readonly logger = new Logger(FinancingService.name);
+
+  constructor(
+    @InjectModel(RegionalCostRate.name)
+    private rateModel: Model<RegionalCostRateDocument>,
+    @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+    @InjectModel(GazetteerEntry.name)
+    private gazetteerModel: Model<GazetteerEntryDocument>,
+    private exchangeRatesService: ExchangeRatesService,
+    private cacheService: CacheService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    try {
+      const result = await this.rateModel.updateOne(
+        { scope: RateScope.DEFAULT, key: DEFAULT_KEY },
+        { $setOnInsert: DEFAULT_RATES },
+        { upsert: true },
+      );
+      if (result.upsertedCount) {
+        this.logger.log('Seeded default financing rates');
+        await this.cacheService.invalidate(RATES_CACHE_KEY);
+      }
+    } catch (err) {
+      this.logger.error('Seeding default financing rates failed', err);
+    }
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // SIMULATION
+  // ════════════════════════════════════════════════════════════════════════════
+
+  async simulateForProperty(
+    propertyId: string,
+    query: FinancingQueryDto,
+  ): Promise<FinancingSimulation> {
+    if (!Types.ObjectId.isValid(propertyId)) {
+      throw new BadRequestException('Invalid property ID');
+    }
+    const listing = await this.propertyModel
+      .findOne({
+        _id: new Types.ObjectId(propertyId),
+        isActive: true,
+        approvalStatus: ApprovalStatus.APPROVED,
+      })
+      .select('price currency city type maintenanceFee listingType')
+      .lean<SaleListing>()
+      .exec();
+    if (!listing) throw new NotFoundException('Property not found');
+    if (listing.listingType !== ListingType.SALE) {
+      throw new BadRequestException(
+        'Financing simulations are only available for sale listings',
+      );
+    }
+    return this.simulate(listing, query);
+  }
+
+  async simulate(
+    listing: {
+      price: number;
+      currency?: string;
+      city: string;
+      type?: PropertyType;
+      maintenanceFee?: number;
+    },
+    query: FinancingQueryDto,
+  ): Promise<FinancingSimulation> {
+    const currency = await this.exchangeRatesService.assertSupported(
+      listing.currency ?? BASE_CURRENCY,
+    );
+    const { source, rates } = await this.ratesFor(listing.city);
+    const terms = resolveFinancingTerms({ ...listing, currency }, query, rates);
+    const cost = ownershipCost(terms, rates);
+
+    const medianRent = query.monthlyRent
+      ? null
+      : await this.medianRent(listing.city, listing.type, currency);
+    const monthlyRent = query.monthlyRent ?? medianRent?.amount;
+
+    return {
+      ratesSource: source,
+      rates,
+      cost,
+      medianRent,
+      rentVsBuy: monthlyRent
+        ? rentVsBuy(cost, monthlyRent, {
+            horizonYears: query.horizonYears ?? DEFAULT_HORIZON_YEARS,
+            rentGrowthPct: query.rentGrowthPct,
+            appreciationPct: query.appreciationPct,
+          })
+        : null,
+    };
+  }
+
+  /**
+   * Median monthly rent of active long-term rent listings in the city, in
+   * `currency`. Uses the property type when enough listings share it.
+   */
+  async medianRent(
+    city: string,
+    type: PropertyType | undefined,
+    currency: string,
+  ): Promise<MedianRent | null> {
+    const cityKey = city.trim().toLowerCase();
+    const target = normalizeCurrency(currency);
+    return this.cacheService.wrap(
+      `financing:rent:${cityKey}:${type ?? '*'}:${target}`,
+      RENT_CACHE_TTL_MS,
+      async () => {
+        const rates = await this.exchangeRatesService.getRates();
+        const sample = async (withType: boolean) => {
+          const rows = await this.propertyModel
+            .find({
+              listingType: ListingType.RENT,
+              city: cityKey,
+              isActive: true,
+              approvalStatus: ApprovalStatus.APPROVED,
+              availability: PropertyStatus.ACTIVE,
+              price: { $gt: 0 },
+              ...(withType && { type }),
+            })
+            .select('price currency')
+            .sort({ createdAt: -1 })
+            .limit(MAX_RENT_SAMPLE)
+            .lean<Pick<Property, 'price' | 'currency'>[]>()
+            .exec();
+          return rows
+            .map((r) =>
+              convertAmount(
+                r.price,
+                r.currency ?? BASE_CURRENCY,
+                target,
+                rates,
+              ),
+            )
+            .filter((p): p is number => p !== null);
+        };
+
+        let basis: MedianRent['basis'] = 'city_and_type';
+        let prices = type ? await sample(true) : [];
+        if (prices.length < MIN_RENT_SAMPLE) {
+          basis = 'city';
+          prices = await sample(false);
+        }
+        const amount = median(prices);
+        if (amount === null || prices.length < MIN_RENT_SAMPLE) return null;
+        return { amount, currency: target, sampleSize: prices.length, basis };
+      },
+    );
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // REGIONAL RATES
+  // ════════════════════════════════════════════════════════════════════════════
+
+  async listRates(): Promise<RegionalCostRate[]> {
+    return this.rateModel
+      .find()
+      .sort({ scope: 1, key: 1 })
+      .lean<RegionalCostRate[]>()
+      .exec();
+  }
+
+  async setRate(
+    scope: RateScope,
+    key: string,
+    dto: SetCostRateDto,
+    user: User,
+  ): Promise<RegionalCostRate> {
+    const normalized = this.rateKey(scope, key);
+    const row = await this.rateModel
+      .findOneAndUpdate(
+        { scope, key: normalized },
+        { $set: { ...dto, updatedBy: user._id } },
+        { upsert: true, new: true, runValidators: true },
+      )
+      .lean<RegionalCostRate>()
+      .exec();
+    await this.cacheService.invalidate(RATES_CACHE_KEY);
+    this.logger.log(
+      `Financing rates for ${scope}:${normalized} set by ${user._id.toString()}`,
+    );
+    return row;
+  }
+
+  async removeRate(scope: RateScope, key: string): Promise<void> {
+    if (scope === RateScope.DEFAULT) {
+      throw new BadRequestException('The default rates cannot be removed');
+    }
+    const result = await this.rateModel.deleteOne({
+      scope,
+      key: this.rateKey(scope, key),
+    });
+    if (!result.deletedCount) throw new NotFoundException('Rates not found');
+    await this.cacheService.invalidate(RATES_CACHE_KEY);
+  }
+
+  /** The city's rates, else its region's, else the default ones. */
+  async ratesFor(city: string): Promise<{ source: string; rates: CostRates }> {
+    const table = await this.cacheService.wrap(
+      RATES_CACHE_KEY,
+      RATES_CACHE_TTL_MS,
+      async () => {
+        const rows = await this.rateModel
+          .find()
+          .lean<RegionalCostRate[]>()
+          .exec();
+        return Object.fromEntries(
+          rows.map((r) => [`${r.scope}:${r.key}`, this.pickRates(r)]),
+        );
+      },
+    );
+
+    const cityKey = normalizeSearchText(city);
+    const byCity = table[`${RateScope.CITY}:${cityKey}`];
+    if (byCity)
+      return { source: `${RateScope.CITY}:${cityKey}`, rates: byCity };
+
+    const region = await this.regionOf(cityKey);
+    const byRegion = region && table[`${RateScope.REGION}:${region}`];
+    if (byRegion)
+      return { source: `${RateScope.REGION}:${region}`, rates: byRegion };
+
+    return {
+      source: DEFAULT_KEY,
+      rates: table[`${RateScope.DEFAULT}:${DEFAULT_KEY}`] ?? DEFAULT_RATES,
+    };
+  }
+
+  // ─── Helpers ────────────────────────────────────────────────────────────────
+
+  private async regionOf(cityKey: string): Promise<string | null> {
+    if (!cityKey) return null;
+    const entry = await this.gazetteerModel
+      .findOne({ kind: GazetteerKind.CITY, searchNames: cityKey })
+      .sort({ population: -1 })
+      .select('region')
+      .lean<Pick<GazetteerEntry, 'region'>>()
+      .exec();
+    return entry?.region ? normalizeSearchText(entry.region) : null;
+  }
+
+  private rateKey(scope: RateScope, key: string): string {
+    if (scope === RateScope.DEFAULT) return DEFAULT_KEY;
+    const normalized = normalizeSearchText(key ?? '');
+    if (!normalized)
+      throw new BadRequestException('A city or region is required');
+    return normalized;
+  }
+
+  private pickRates(row: RegionalCostRate): CostRates {
+    return {
+      interestRatePct: row.interestRatePct,
+      maxTermYears: row.maxTermYears,
+      minDownPaymentPct: row.minDownPaymentPct,
+      registrationFeePct: row.registrationFeePct,
+      notaryFeePct: row.notaryFeePct,
+      landRegistryFeePct: row.landRegistryFeePct,
+      annualPropertyTaxPct: row.annualPropertyTaxPct,
+      annualInsurancePct: row.annualInsurancePct,
+    };
+  }
+}
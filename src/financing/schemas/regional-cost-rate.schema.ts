@@ -0,0 +1,69 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type RegionalCostRateDocument = RegionalCostRate & Document;
+
+export enum RateScope {
+  CITY = 'city',
+  REGION = 'region',
+  /** Fallback row, seeded at startup. */
+  DEFAULT = 'default',
+}
+
+/**
+ * Financing and purchase-cost assumptions for an area. A listing uses the
+ * row of its city, else of its region (from the gazetteer), else the
+ * default row. All rates are percentages (10 = 10 %).
+ */
+@Schema({ timestamps: true })
+export class RegionalCostRate {
+  _id!: Types.ObjectId;
+
+  @Prop({ type: String, enum: Object.values(RateScope), required: true })
+  scope: RateScope;
+
+  /** Normalized city or region name; "default" for the fallback row. */
+  @Prop({ required: true, lowercase: true, trim: true })
+  key: string;
+
+  /** Typical bank mortgage rate, per year. */
+  @Prop({ required: true, min: 0, max: 100 })
+  interestRatePct: number;
+
+  @Prop({ required: true, min: 1, max: 40 })
+  maxTermYears: number;
+
+  /** Banks rarely lend more than (100 - this) % of the price. */
+  @Prop({ required: true, min: 0, max: 100 })
+  minDownPaymentPct: number;
+
+  /** Droits d'enregistrement on the sale price. */
+  @Prop({ required: true, min: 0, max: 100 })
+  registrationFeePct: number;
+
+  @Prop({ required: true, min: 0, max: 100 })
+  notaryFeePct: number;
+
+  /** Conservation foncière fees for transferring the title. */
+  @Prop({ required: true, min: 0, max: 100 })
+  landRegistryFeePct: number;
+
+  /** Impôt foncier, per year, on the price. */
+  @Prop({ required: true, min: 0, max: 100 })
+  annualPropertyTaxPct: number;
+
+  /** Home insurance, per year, on the price. */
+  @Prop({ required: true, min: 0, max: 100 })
+  annualInsurancePct: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy?: Types.ObjectId;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const RegionalCostRateSchema =
+  SchemaFactory.createForClass(RegionalCostRate);
+
+RegionalCostRateSchema.index({ scope: 1, key: 1 }, { unique: true });
@@ -0,0 +1,87 @@
+import {
+  CostRates,
+  median,
+  monthlyPayment,
+  ownershipCost,
+  remainingBalance,
+  rentVsBuy,
+  resolveFinancingTerms,
+} from './financing.util';
+
+describe('financing util', () => {
+  const rates: CostRates = {
+    interestRatePct: 12,
+    maxTermYears: 20,
+    minDownPaymentPct: 20,
+    registrationFeePct: 10,
+    notaryFeePct: 2,
+    landRegistryFeePct: 1,
+    annualPropertyTaxPct: 0.12,
+    annualInsurancePct: 0.12,
+  };
+
+  it('computes the instalment and balance of an amortized loan', () => {
+    expect(monthlyPayment(1_000_000, 12, 1)).toBeCloseTo(88_848.79, 2);
+    expect(monthlyPayment(1_200, 0, 1)).toBe(100);
+    expect(remainingBalance(1_000_000, 12, 1, 12)).toBe(0);
+    expect(remainingBalance(1_000_000, 12, 1, 6)).toBeCloseTo(514_921.06, 1);
+  });
+
+  it('breaks down upfront and monthly costs in the listing currency', () => {
+    const terms = resolveFinancingTerms(
+      { price: 50_000_000, currency: 'XAF', maintenanceFee: 25_000 },
+      { termYears: 15 },
+      rates,
+    );
+    expect(terms).toMatchObject({ downPaymentPct: 20, interestRatePct: 12 });
+
+    const cost = ownershipCost(terms, rates);
+    expect(cost.loanAmount).toBe(40_000_000);
+    expect(cost.upfront).toEqual({
+      downPayment: 10_000_000,
+      registrationFee: 5_000_000,
+      notaryFee: 1_000_000,
+      landRegistryFee: 500_000,
+      total: 16_500_000,
+    });
+    expect(cost.monthly.mortgage).toBe(480_067);
+    expect(cost.monthly.total).toBe(480_067 + 5_000 + 5_000 + 25_000);
+
+    expect(() =>
+      resolveFinancingTerms(
+        { price: 1, currency: 'XAF' },
+        { downPaymentPct: 10 },
+        rates,
+      ),
+    ).toThrow(/downPaymentPct/);
+    expect(() =>
+      resolveFinancingTerms(
+        { price: 1, currency: 'XAF' },
+        { termYears: 25 },
+        rates,
+      ),
+    ).toThrow(/termYears/);
+  });
+
+  it('finds the year buying becomes cheaper than renting', () => {
+    const cost = ownershipCost(
+      resolveFinancingTerms(
+        { price: 30_000_000, currency: 'XAF' },
+        { downPaymentPct: 100 },
+        rates,
+      ),
+      rates,
+    );
+    // Fees of 3.9M against 300k rent a month: buying wins in year 2
+    const result = rentVsBuy(cost, 300_000, { horizonYears: 5 });
+    expect(result.breakEvenYear).toBe(2);
+    expect(result.years[0]).toMatchObject({ rentPaid: 3_600_000 });
+    expect(
+      rentVsBuy(cost, 10_000, { horizonYears: 5 }).breakEvenYear,
+    ).toBeNull();
+
+    expect(median([3, 1, 2])).toBe(2);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(median([])).toBeNull();
+  });
+});
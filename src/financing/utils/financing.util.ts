@@ -0,0 +1,264 @@
+import { BadRequestException } from '@nestjs/common';
+import { roundAmount } from '../../currency/utils/currency-conversion.util';
+import type { RegionalCostRate } from '../schemas/regional-cost-rate.schema';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type CostRates = Pick<
+  RegionalCostRate,
+  | 'interestRatePct'
+  | 'maxTermYears'
+  | 'minDownPaymentPct'
+  | 'registrationFeePct'
+  | 'notaryFeePct'
+  | 'landRegistryFeePct'
+  | 'annualPropertyTaxPct'
+  | 'annualInsurancePct'
+>;
+
+/** What the buyer may override; anything left out comes from the rates. */
+export interface FinancingOptions {
+  downPaymentPct?: number;
+  interestRatePct?: number;
+  termYears?: number;
+}
+
+export interface FinancingTerms {
+  price: number;
+  currency: string;
+  downPaymentPct: number;
+  interestRatePct: number;
+  termYears: number;
+  /** Service charges of the building, per month. */
+  monthlyMaintenance: number;
+}
+
+export interface OwnershipCost {
+  terms: FinancingTerms;
+  loanAmount: number;
+  totalInterest: number;
+  upfront: {
+    downPayment: number;
+    registrationFee: number;
+    notaryFee: number;
+    landRegistryFee: number;
+    total: number;
+  };
+  monthly: {
+    mortgage: number;
+    propertyTax: number;
+    insurance: number;
+    maintenance: number;
+    total: number;
+  };
+  /** Everything paid over the loan term, down payment and fees included. */
+  totalCostOverTerm: number;
+}
+
+export interface RentVsBuyYear {
+  year: number;
+  /** Rent paid so far. */
+  rentPaid: number;
+  /** Fees, interest and running costs paid so far, less appreciation. */
+  buyNetCost: number;
+  /** Down payment, principal repaid and appreciation. */
+  equity: number;
+}
+
+export interface RentVsBuy {
+  monthlyRent: number;
+  years: RentVsBuyYear[];
+  /** First year buying costs less than renting; null within the horizon. */
+  breakEvenYear: number | null;
+}
+
+export interface RentVsBuyAssumptions {
+  horizonYears: number;
+  rentGrowthPct?: number;
+  appreciationPct?: number;
+}
+
+// ─── Mortgage ─────────────────────────────────────────────────────────────────
+
+/** Fixed monthly instalment repaying `principal` over `termYears`. */
+export function monthlyPayment(
+  principal: number,
+  annualRatePct: number,
+  termYears: number,
+): number {
+  const months = termYears * 12;
+  const rate = annualRatePct / 100 / 12;
+  if (principal <= 0) return 0;
+  if (rate === 0) return principal / months;
+  return (principal * rate) / (1 - (1 + rate) ** -months);
+}
+
+/** Principal still owed after `month` instalments. */
+export function remainingBalance(
+  principal: number,
+  annualRatePct: number,
+  termYears: number,
+  month: number,
+): number {
+  const months = termYears * 12;
+  if (month >= months) return 0;
+  const rate = annualRatePct / 100 / 12;
+  if (rate === 0) return principal * (1 - month / months);
+  const payment = monthlyPayment(principal, annualRatePct, termYears);
+  const growth = (1 + rate) ** month;
+  return principal * growth - (payment * (growth - 1)) / rate;
+}
+
+/**
+ * Fills the buyer's options in from the area's rates and checks them against
+ * what banks there offer.
+ */
+export function resolveFinancingTerms(
+  listing: { price: number; currency: string; maintenanceFee?: number },
+  options: FinancingOptions,
+  rates: CostRates,
+): FinancingTerms {
+  const terms: FinancingTerms = {
+    price: listing.price,
+    currency: listing.currency,
+    downPaymentPct: options.downPaymentPct ?? rates.minDownPaymentPct,
+    interestRatePct: options.interestRatePct ?? rates.interestRatePct,
+    termYears: options.termYears ?? rates.maxTermYears,
+    monthlyMaintenance: listing.maintenanceFee ?? 0,
+  };
+  if (!(terms.price > 0))
+    throw new BadRequestException('A positive price is required');
+  if (
+    terms.downPaymentPct < rates.minDownPaymentPct ||
+    terms.downPaymentPct > 100
+  ) {
+    throw new BadRequestException(
+      `downPaymentPct must be between ${rates.minDownPaymentPct} and 100 in this area`,
+    );
+  }
+  if (terms.interestRatePct < 0 || terms.interestRatePct > 100)
+    throw new BadRequestException('interestRatePct must be between 0 and 100');
+  if (
+    !Number.isInteger(terms.termYears) ||
+    terms.termYears < 1 ||
+    terms.termYears > rates.maxTermYears
+  ) {
+    throw new BadRequestException(
+      `termYears must be a whole number between 1 and ${rates.maxTermYears} in this area`,
+    );
+  }
+  return terms;
+}
+
+// ─── Total cost of ownership ──────────────────────────────────────────────────
+
+export function ownershipCost(
+  terms: FinancingTerms,
+  rates: CostRates,
+): OwnershipCost {
+  const round = (amount: number) => roundAmount(amount, terms.currency);
+  const pctOfPrice = (pct: number) => (terms.price * pct) / 100;
+
+  const downPayment = pctOfPrice(terms.downPaymentPct);
+  const loanAmount = terms.price - downPayment;
+  const mortgage = monthlyPayment(
+    loanAmount,
+    terms.interestRatePct,
+    terms.termYears,
+  );
+  const months = terms.termYears * 12;
+
+  const upfront = {
+    downPayment,
+    registrationFee: pctOfPrice(rates.registrationFeePct),
+    notaryFee: pctOfPrice(rates.notaryFeePct),
+    landRegistryFee: pctOfPrice(rates.landRegistryFeePct),
+  };
+  const monthly = {
+    mortgage,
+    propertyTax: pctOfPrice(rates.annualPropertyTaxPct) / 12,
+    insurance: pctOfPrice(rates.annualInsurancePct) / 12,
+    maintenance: terms.monthlyMaintenance,
+  };
+  const upfrontTotal = Object.values(upfront).reduce((a, b) => a + b, 0);
+  const monthlyTotal = Object.values(monthly).reduce((a, b) => a + b, 0);
+
+  return {
+    terms,
+    loanAmount: round(loanAmount),
+    totalInterest: round(mortgage * months - loanAmount),
+    upfront: {
+      downPayment: round(upfront.downPayment),
+      registrationFee: round(upfront.registrationFee),
+      notaryFee: round(upfront.notaryFee),
+      landRegistryFee: round(upfront.landRegistryFee),
+      total: round(upfrontTotal),
+    },
+    monthly: {
+      mortgage: round(monthly.mortgage),
+      propertyTax: round(monthly.propertyTax),
+      insurance: round(monthly.insurance),
+      maintenance: round(monthly.maintenance),
+      total: round(monthlyTotal),
+    },
+    totalCostOverTerm: round(upfrontTotal + monthlyTotal * months),
+  };
+}
+
+// ─── Rent vs buy ──────────────────────────────────────────────────────────────
+
+/**
+ * Year-by-year comparison of renting at `monthlyRent` with buying on the
+ * given terms. The money lost by buying is fees, interest and running costs,
+ * less what the property gains in value; the down payment and repaid
+ * principal are equity, not cost.
+ */
+export function rentVsBuy(
+  cost: OwnershipCost,
+  monthlyRent: number,
+  assumptions: RentVsBuyAssumptions,
+): RentVsBuy {
+  const { terms } = cost;
+  const round = (amount: number) => roundAmount(amount, terms.currency);
+  const rentGrowth = (assumptions.rentGrowthPct ?? 0) / 100;
+  const appreciation = (assumptions.appreciationPct ?? 0) / 100;
+  const fees = cost.upfront.total - cost.upfront.downPayment;
+  const runningCosts =
+    cost.monthly.propertyTax +
+    cost.monthly.insurance +
+    cost.monthly.maintenance;
+  const loan = terms.price - cost.upfront.downPayment;
+  const mortgage = monthlyPayment(loan, terms.interestRatePct, terms.termYears);
+
+  const years: RentVsBuyYear[] = [];
+  let rentPaid = 0;
+  let breakEvenYear: number | null = null;
+  for (let year = 1; year <= assumptions.horizonYears; year++) {
+    rentPaid += monthlyRent * 12 * (1 + rentGrowth) ** (year - 1);
+
+    const month = year * 12;
+    const repaid =
+      loan -
+      remainingBalance(loan, terms.interestRatePct, terms.termYears, month);
+    const paid = mortgage * Math.min(month, terms.termYears * 12);
+    const gain = terms.price * ((1 + appreciation) ** year - 1);
+    const buyNetCost = fees + (paid - repaid) + runningCosts * month - gain;
+
+    if (breakEvenYear === null && buyNetCost <= rentPaid) breakEvenYear = year;
+    years.push({
+      year,
+      rentPaid: round(rentPaid),
+      buyNetCost: round(buyNetCost),
+      equity: round(cost.upfront.downPayment + repaid + gain),
+    });
+  }
+  return { monthlyRent: round(monthlyRent), years, breakEvenYear };
+}
+
+/** Middle value; the mean of the two middle ones for even counts. */
+export function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -0,0 +1,68 @@
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsEnum,
+  IsArray,
+  Min,
+  Max,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { GazetteerKind } from '../schemas/gazetteer-entry.schema';
+
+/** One gazetteer row, as read from an import file. */
+export class GazetteerEntryDto {
+  @ApiProperty({ example: 'Bonapriso' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ enum: GazetteerKind, example: GazetteerKind.QUARTER })
+  @IsEnum(GazetteerKind)
+  kind: GazetteerKind;
+
+  @ApiPropertyOptional({
+    example: 'Douala',
+    description: 'Required for quarters and landmarks',
+  })
+  @IsOptional()
+  @IsString()
+  city?: string;
+
+  @ApiPropertyOptional({ example: 'Littoral' })
+  @IsOptional()
+  @IsString()
+  region?: string;
+
+  @ApiPropertyOptional({ example: 'Cameroon', default: 'Cameroon' })
+  @IsOptional()
+  @IsString()
+  country?: string;
+
+  @ApiProperty({ example: 4.0236 })
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude: number;
+
+  @ApiProperty({ example: 9.6934 })
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude: number;
+
+  @ApiPropertyOptional({
+    type: [String],
+    example: ['Bonaprisso'],
+    description: 'In CSV files: separated by ";"',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  aliases?: string[];
+
+  @ApiPropertyOptional({ example: 3_600_000 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  population?: number;
+}
@@ -0,0 +1,52 @@
+// ─── Geocoding provider contract ──────────────────────────────────────────────
+
+/** Injection token for the ordered list of active GeocodingProviders. */
+export const GEOCODING_PROVIDERS = 'GEOCODING_PROVIDERS';
+
+export interface GeocodeQuery {
+  address?: string;
+  /** Quarter / neighborhood, when the form has a separate field for it. */
+  neighborhood?: string;
+  city?: string;
+  country?: string;
+}
+
+/** How specific a forward result is, from a named place down to a whole city. */
+export type GeocodePrecision = 'address' | 'landmark' | 'quarter' | 'city';
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  precision: GeocodePrecision;
+  /** Human-readable name of what was matched, e.g. "Bonapriso, Douala". */
+  label: string;
+  /** Name of the provider that answered. */
+  provider: string;
+}
+
+export interface ReverseGeocodeResult {
+  label: string;
+  neighborhood?: string;
+  city?: string;
+  /** Region, e.g. "Littoral". */
+  state?: string;
+  country?: string;
+  provider: string;
+}
+
+/**
+ * A geocoding backend. Providers are tried in the configured order and the
+ * first non-null answer wins, so implementations return null for "no match"
+ * and only throw on unexpected failures (which the chain logs and skips).
+ */
+export interface GeocodingProvider {
+  /** Short name used in GEOCODING_PROVIDERS and reported on results. */
+  readonly name: string;
+
+  geocode(query: GeocodeQuery): Promise<GeocodeResult | null>;
+
+  reverse(
+    latitude: number,
+    longitude: number,
+  ): Promise<ReverseGeocodeResult | null>;
+}
@@ -0,0 +1,161 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { FastifyRequest } from 'fastify';
+import { MultipartFile } from '@fastify/multipart';
+
+import {
+  GeocodingService,
+  MAX_GAZETTEER_FILE_BYTES,
+  MAX_GAZETTEER_IMPORT_ROWS,
+} from './geocoding.service';
+import { GazetteerKind } from './schemas/gazetteer-entry.schema';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { RolesGuard, Roles } from '../auth/guards/roles.guard';
+import { UserRole } from '../users/schemas/user.schema';
+
+@ApiTags('Geocoding')
+@Controller('geocoding')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class GeocodingController {
+  constructor(private readonly geocodingService: GeocodingService) {}
+
+  @Get('search')
+  @ApiOperation({
+    summary: 'Coordinates of an address, quarter or landmark',
+    description:
+      'Resolved from the local gazetteer first, then the external providers configured.',
+  })
+  @ApiQuery({ name: 'address', required: false, type: String })
+  @ApiQuery({ name: 'neighborhood', required: false, type: String })
+  @ApiQuery({ name: 'city', required: false, type: String })
+  @ApiResponse({
+    status: 200,
+    description: 'Match with its precision, or null',
+  })
+  async geocode(
+    @Query('address') address?: string,
+    @Query('neighborhood') neighborhood?: string,
+    @Query('city') city?: string,
+  ) {
+    if (!address && !neighborhood && !city) {
+      throw new BadRequestException(
+        'Provide an address, a neighborhood or a city',
+      );
+    }
+    return this.geocodingService.geocode({
+      address,
+      neighborhood,
+      city,
+      country: 'Cameroon',
+    });
+  }
+
+  @Get('reverse')
+  @ApiOperation({ summary: 'Quarter and city of a pin dropped on the map' })
+  @ApiQuery({ name: 'latitude', required: true, type: Number })
+  @ApiQuery({ name: 'longitude', required: true, type: Number })
+  @ApiResponse({ status: 200, description: 'Place, or null' })
+  async reverse(
+    @Query('latitude') latitude: string,
+    @Query('longitude') longitude: string,
+  ) {
+    const lat = parseFloat(latitude);
+    const lng = parseFloat(longitude);
+    if (
+      !Number.isFinite(lat) ||
+      !Number.isFinite(lng) ||
+      Math.abs(lat) > 90 ||
+      Math.abs(lng) > 180
+    ) {
+      throw new BadRequestException(
+        'Valid latitude and longitude are required',
+      );
+    }
+    return this.geocodingService.reverse(lat, lng);
+  }
+
+  // ─── Gazetteer (admin) ──────────────────────────────────────────────────────
+
+  @Get('gazetteer')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Admin: List gazetteer places' })
+  @ApiQuery({ name: 'city', required: false, type: String })
+  @ApiQuery({ name: 'kind', required: false, enum: GazetteerKind })
+  async listGazetteer(
+    @Query('city') city?: string,
+    @Query('kind') kind?: GazetteerKind,
+  ) {
+    return {
+      providers: this.geocodingService.providerChain,
+      entries: await this.geocodingService.listGazetteer(city, kind),
+    };
+  }
+
+  @Post('gazetteer/import')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Admin: Import gazetteer places from a CSV or JSON file',
+    description: `Up to ${MAX_GAZETTEER_IMPORT_ROWS} places. Columns: name, kind (city|quarter|landmark), city, region, country, latitude, longitude, aliases (";"-separated), population.`,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Created/updated counts and invalid rows',
+  })
+  async importGazetteer(@Req() req: FastifyRequest) {
+    let upload: { buffer: Buffer; fileName: string } | undefined;
+
+    const parts = req.parts({ limits: { fileSize: MAX_GAZETTEER_FILE_BYTES } });
+    for await (const part of parts as AsyncIterable<MultipartFile>) {
+      if (part.type === 'file' && !upload) {
+        const chunks: Buffer[] = [];
+        for await (const chunk of part.file) {
+          chunks.push(Buffer.from(chunk));
+        }
+        if (part.file.truncated) {
+          throw new BadRequestException(
+            `File is larger than ${MAX_GAZETTEER_FILE_BYTES / 1024 / 1024} MB`,
+          );
+        }
+        upload = { buffer: Buffer.concat(chunks), fileName: part.filename };
+      }
+    }
+    if (!upload) throw new BadRequestException('No file uploaded');
+
+    return this.geocodingService.importGazetteer(
+      upload.buffer,
+      upload.fileName,
+    );
+  }
+
+  @Delete('gazetteer/:id')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Admin: Delete a gazetteer place' })
+  @ApiParam({ name: 'id', description: 'Gazetteer entry ID' })
+  async removeGazetteerEntry(@Param('id') id: string) {
+    await this.geocodingService.removeGazetteerEntry(id);
+  }
+}
@@ -0,0 +1,81 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
+
+import {
+  GEOCODING_PROVIDERS,
+  GeocodingProvider,
+} from './geocoding-provider.interface';
+import { GeocodingService } from './geocoding.service';
+import { GeocodingController } from './geocoding.controller';
+import { GazetteerGeocodingProvider } from './providers/gazetteer.provider';
+import { NominatimGeocodingProvider } from './providers/nominatim.provider';
+import { GoogleGeocodingProvider } from './providers/google.provider';
+import {
+  GazetteerEntry,
+  GazetteerEntrySchema,
+} from './schemas/gazetteer-entry.schema';
+
+/**
+ * Geocoding with a provider chain.
+ *
+ * GEOCODING_PROVIDERS — comma-separated, tried in order (default "gazetteer").
+ * Available: gazetteer (offline), nominatim (NOMINATIM_URL, defaults to the
+ * public instance), google (needs GOOGLE_MAPS_API_KEY).
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: GazetteerEntry.name, schema: GazetteerEntrySchema },
+    ]),
+  ],
+  controllers: [GeocodingController],
+  providers: [
+    GazetteerGeocodingProvider,
+    NominatimGeocodingProvider,
+    GoogleGeocodingProvider,
+    {
+      provide: GEOCODING_PROVIDERS,
+      useFactory: (
+        configService: ConfigService,
+        gazetteer: GazetteerGeocodingProvider,
+        nominatim: NominatimGeocodingProvider,
+        google: GoogleGeocodingProvider,
+      ): GeocodingProvider[] => {
+        const logger = new Logger('GeocodingModule');
+        const available: Record<string, GeocodingProvider> = {
+          gazetteer,
+          nominatim,
+        };
+        if (google.isConfigured) available.google = google;
+
+        const chain = configService
+          .get<string>('GEOCODING_PROVIDERS', 'gazetteer')
+          .split(',')
+          .map((name) => name.trim().toLowerCase())
+          .filter(Boolean)
+          .flatMap((name) => {
+            if (available[name]) return [available[name]];
+            logger.warn(
+              `Geocoding provider "${name}" is unknown or not configured — skipped`,
+            );
+            return [];
+          });
+
+        logger.log(
+          `Geocoding chain: ${chain.map((p) => p.name).join(' → ') || 'none'}`,
+        );
+        return chain;
+      },
+      inject: [
+        ConfigService,
+        GazetteerGeocodingProvider,
+        NominatimGeocodingProvider,
+        GoogleGeocodingProvider,
+      ],
+    },
+    GeocodingService,
+  ],
+  exports: [GeocodingService],
+})
+export class GeocodingModule {}
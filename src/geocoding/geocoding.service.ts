@@ -0,0 +1,305 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { AnyBulkWriteOperation, FilterQuery, Model, Types } from 'mongoose';
+import { Readable } from 'stream';
+import { Workbook } from 'exceljs';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+
+import {
+  GEOCODING_PROVIDERS,
+  GeocodeQuery,
+  GeocodeResult,
+  GeocodingProvider,
+  ReverseGeocodeResult,
+} from './geocoding-provider.interface';
+import {
+  GazetteerEntry,
+  GazetteerEntryDocument,
+  GazetteerKind,
+} from './schemas/gazetteer-entry.schema';
+import { GazetteerEntryDto } from './dto/gazetteer.dto';
+import { geocodeCacheKey, reverseCacheKey } from './utils/gazetteer-match.util';
+import { normalizeSearchText } from '../properties/utils/search-text.util';
+import { CacheService } from '../cache/cache.service';
+
+export const MAX_GAZETTEER_IMPORT_ROWS = 5000;
+export const MAX_GAZETTEER_FILE_BYTES = 5 * 1024 * 1024;
+
+const GEOCODE_CACHE_PREFIX = 'geocode:';
+const GEOCODE_CACHE_TTL_MS = 30 * 86_400_000;
+/** Misses are retried sooner: the gazetteer or a provider may know the place later. */
+const GEOCODE_MISS_TTL_MS = 86_400_000;
+
+/** Cached "no result", so misses are not looked up again on every call. */
+const MISS = { miss: true } as const;
+
+export interface GazetteerImportReport {
+  created: number;
+  updated: number;
+  errors: { row: number; message: string }[];
+}
+
+/**
+ * Forward and reverse geocoding through the configured provider chain
+ * (GEOCODING_PROVIDERS), with results cached, plus management of the local
+ * gazetteer the offline provider reads from.
+ */
+@Injectable()
+export class GeocodingService {
+  private readonly logger = new Logger(GeocodingService.name);
+
+  constructor(
+    @Inject(GEOCODING_PROVIDERS)
+    private readonly providers: GeocodingProvider[],
+    @InjectModel(GazetteerEntry.name)
+    private gazetteerModel: Model<GazetteerEntryDocument>,
+    private cacheService: CacheService,
+  ) {}
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // LOOKUPS
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /** Coordinates of an address, or null when no provider knows it. */
+  async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    if (!query.address && !query.neighborhood && !query.city) return null;
+
+    return this.cached(
+      `${GEOCODE_CACHE_PREFIX}fwd:${geocodeCacheKey(query)}`,
+      (provider) => provider.geocode(query),
+      `"${[query.address, query.neighborhood, query.city].filter(Boolean).join(', ')}"`,
+    );
+  }
+
+  /** Quarter, city and region of a map pin. */
+  async reverse(
+    latitude: number,
+    longitude: number,
+  ): Promise<ReverseGeocodeResult | null> {
+    return this.cached(
+      `${GEOCODE_CACHE_PREFIX}rev:${reverseCacheKey(latitude, longitude)}`,
+      (provider) => provider.reverse(latitude, longitude),
+      `${latitude},${longitude}`,
+    );
+  }
+
+  /** Provider names in the order they are tried. */
+  get providerChain(): string[] {
+    return this.providers.map((p) => p.name);
+  }
+
+  private async cached<T>(
+    key: string,
+    lookup: (provider: GeocodingProvider) => Promise<T | null>,
+    description: string,
+  ): Promise<T | null> {
+    const hit = await this.cacheService.get<T | typeof MISS>(key);
+    if (hit) return (hit as typeof MISS).miss ? null : (hit as T);
+
+    for (const provider of this.providers) {
+      try {
+        const result = await lookup(provider);
+        if (result) {
+          await this.cacheService.set(key, result, GEOCODE_CACHE_TTL_MS);
+          return result;
+        }
+      } catch (err) {
+        // Failures fall through to the next provider and are not cached
+        this.logger.warn(
+          `Geocoding provider ${provider.name} failed for ${description}: ${(err as Error).message}`,
+        );
+      }
+    }
+
+    this.logger.warn(`No geocoding result for ${description}`);
+    await this.cacheService.set(key, MISS, GEOCODE_MISS_TTL_MS);
+    return null;
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // GAZETTEER
+  // ════════════════════════════════════════════════════════════════════════════
+
+  listGazetteer(
+    city?: string,
+    kind?: GazetteerKind,
+  ): Promise<GazetteerEntry[]> {
+    const query: FilterQuery<GazetteerEntryDocument> = {};
+    if (city) query.city = normalizeSearchText(city);
+    if (kind) query.kind = kind;
+
+    return this.gazetteerModel
+      .find(query)
+      .select('-searchNames')
+      .sort({ kind: 1, city: 1, name: 1 })
+      .lean<GazetteerEntry[]>()
+      .exec();
+  }
+
+  async removeGazetteerEntry(id: string): Promise<void> {
+    if (!Types.ObjectId.isValid(id))
+      throw new BadRequestException('Invalid gazetteer entry ID');
+    const deleted = await this.gazetteerModel.findByIdAndDelete(id).exec();
+    if (!deleted) throw new NotFoundException('Gazetteer entry not found');
+    await this.cacheService.invalidate(GEOCODE_CACHE_PREFIX);
+  }
+
+  /**
+   * Loads a CSV or JSON file of places. Rows are matched on kind + name +
+   * city and updated in place, so the same file can be imported again after
+   * corrections. Invalid rows are reported and skipped.
+   */
+  async importGazetteer(
+    buffer: Buffer,
+    fileName: string,
+  ): Promise<GazetteerImportReport> {
+    const rows = await this.readGazetteerFile(buffer, fileName);
+    if (!rows.length)
+      throw new BadRequestException('The file contains no places');
+    if (rows.length > MAX_GAZETTEER_IMPORT_ROWS) {
+      throw new BadRequestException(
+        `At most ${MAX_GAZETTEER_IMPORT_ROWS} places can be imported at once (got ${rows.length})`,
+      );
+    }
+
+    const report: GazetteerImportReport = {
+      created: 0,
+      updated: 0,
+      errors: [],
+    };
+    const ops: AnyBulkWriteOperation<GazetteerEntryDocument>[] = [];
+
+    for (const { row, values } of rows) {
+      const dto = plainToInstance(GazetteerEntryDto, values);
+      const errors = await validate(dto, {
+        whitelist: true,
+        forbidNonWhitelisted: true,
+      });
+      if (errors.length) {
+        report.errors.push({
+          row,
+          message: errors
+            .flatMap((e) => Object.values(e.constraints ?? {}))
+            .join('; '),
+        });
+        continue;
+      }
+      if (dto.kind !== GazetteerKind.CITY && !dto.city) {
+        report.errors.push({
+          row,
+          message: `city is required for a ${dto.kind}`,
+        });
+        continue;
+      }
+
+      const entry = this.toEntry(dto);
+      ops.push({
+        updateOne: {
+          filter: { kind: entry.kind, name: entry.name, city: entry.city },
+          update: { $set: entry },
+          upsert: true,
+        },
+      });
+    }
+
+    if (ops.length) {
+      const result = await this.gazetteerModel.bulkWrite(ops, {
+        ordered: false,
+      });
+      report.created = result.upsertedCount;
+      report.updated = result.modifiedCount;
+      // Cached answers (including misses) may change with the new places
+      await this.cacheService.invalidate(GEOCODE_CACHE_PREFIX);
+    }
+
+    this.logger.log(
+      `Gazetteer import "${fileName}": ${report.created} created, ${report.updated} updated, ${report.errors.length} invalid row(s)`,
+    );
+    return report;
+  }
+
+  private toEntry(dto: GazetteerEntryDto): Partial<GazetteerEntry> {
+    const aliases = (dto.aliases ?? []).map((a) => a.trim()).filter(Boolean);
+    return {
+      name: dto.name.trim(),
+      kind: dto.kind,
+      city:
+        dto.kind === GazetteerKind.CITY ? '' : normalizeSearchText(dto.city!),
+      region: dto.region?.trim(),
+      country: dto.country?.trim() || 'Cameroon',
+      aliases,
+      searchNames: [
+        ...new Set([dto.name, ...aliases].map(normalizeSearchText)),
+      ].filter(Boolean),
+      location: { type: 'Point', coordinates: [dto.longitude, dto.latitude] },
+      ...(dto.population !== undefined ? { population: dto.population } : {}),
+    };
+  }
+
+  /** Rows as plain objects; CSV cells are coerced to the DTO's types. */
+  private async readGazetteerFile(
+    buffer: Buffer,
+    fileName: string,
+  ): Promise<{ row: number; values: Record<string, unknown> }[]> {
+    if (/\.json$/i.test(fileName)) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(buffer.toString('utf8'));
+      } catch {
+        throw new BadRequestException('The file is not valid JSON');
+      }
+      if (!Array.isArray(parsed)) {
+        throw new BadRequestException('A JSON gazetteer must be an array');
+      }
+      return parsed.map((values: Record<string, unknown>, i) => ({
+        row: i + 1,
+        values,
+      }));
+    }
+
+    if (!/\.csv$/i.test(fileName)) {
+      throw new BadRequestException('Only .csv and .json files are supported');
+    }
+
+    const workbook = new Workbook();
+    try {
+      await workbook.csv.read(Readable.from(buffer), {
+        map: (value: string) => value,
+      });
+    } catch {
+      throw new BadRequestException('The file could not be read');
+    }
+    const sheet = workbook.worksheets[0];
+    if (!sheet) return [];
+
+    const headers: string[] = [];
+    sheet.getRow(1).eachCell((cell, col) => {
+      headers[col] = cell.text.trim();
+    });
+
+    const numeric = new Set(['latitude', 'longitude', 'population']);
+    const rows: { row: number; values: Record<string, unknown> }[] = [];
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return;
+      const values: Record<string, unknown> = {};
+      row.eachCell((cell, col) => {
+        const header = headers[col];
+        const text = cell.text.trim();
+        if (!header || text === '') return;
+        if (numeric.has(header))
+          values[header] = Number(text.replace(',', '.'));
+        else if (header === 'aliases') values[header] = text.split(';');
+        else values[header] = text;
+      });
+      if (Object.keys(values).length) rows.push({ row: rowNumber, values });
+    });
+    return rows;
+  }
+}
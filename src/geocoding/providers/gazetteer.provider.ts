@@ -0,0 +1,119 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+
+import {
+  GazetteerEntry,
+  GazetteerEntryDocument,
+  GazetteerKind,
+} from '../schemas/gazetteer-entry.schema';
+import {
+  GeocodeQuery,
+  GeocodeResult,
+  GeocodingProvider,
+  ReverseGeocodeResult,
+} from '../geocoding-provider.interface';
+import {
+  buildGazetteerLookup,
+  pickGazetteerMatch,
+} from '../utils/gazetteer-match.util';
+
+/** A pin further than this from any quarter only gets a city. */
+const QUARTER_REVERSE_RADIUS_METERS = 2_000;
+/** City entries are single points, so allow for the size of the city. */
+const CITY_REVERSE_RADIUS_METERS = 40_000;
+
+/** Offline provider backed by the gazetteer collection. */
+@Injectable()
+export class GazetteerGeocodingProvider implements GeocodingProvider {
+  readonly name = 'gazetteer';
+
+  constructor(
+    @InjectModel(GazetteerEntry.name)
+    private gazetteerModel: Model<GazetteerEntryDocument>,
+  ) {}
+
+  async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    const lookup = buildGazetteerLookup(query);
+    const keys = [...lookup.phrases, ...(lookup.city ? [lookup.city] : [])];
+    if (!keys.length) return null;
+
+    const candidates = await this.gazetteerModel
+      .find({ searchNames: { $in: keys } })
+      .lean<GazetteerEntry[]>()
+      .exec();
+
+    const match = pickGazetteerMatch(candidates, lookup);
+    if (!match) return null;
+
+    const [longitude, latitude] = match.location.coordinates;
+    return {
+      latitude,
+      longitude,
+      precision: match.kind,
+      label: this.label(match, candidates),
+      provider: this.name,
+    };
+  }
+
+  async reverse(
+    latitude: number,
+    longitude: number,
+  ): Promise<ReverseGeocodeResult | null> {
+    const [quarter, city] = await Promise.all([
+      this.nearest(
+        latitude,
+        longitude,
+        [GazetteerKind.QUARTER, GazetteerKind.LANDMARK],
+        QUARTER_REVERSE_RADIUS_METERS,
+      ),
+      this.nearest(
+        latitude,
+        longitude,
+        [GazetteerKind.CITY],
+        CITY_REVERSE_RADIUS_METERS,
+      ),
+    ]);
+    if (!quarter && !city) return null;
+
+    const cityName = city?.name ?? quarter?.city;
+    return {
+      label: [quarter?.name, cityName].filter(Boolean).join(', '),
+      neighborhood: quarter?.name,
+      city: cityName,
+      state: city?.region ?? quarter?.region,
+      country: city?.country ?? quarter?.country,
+      provider: this.name,
+    };
+  }
+
+  private nearest(
+    latitude: number,
+    longitude: number,
+    kinds: GazetteerKind[],
+    maxDistance: number,
+  ): Promise<GazetteerEntry | null> {
+    return this.gazetteerModel
+      .findOne({
+        kind: { $in: kinds },
+        location: {
+          $near: {
+            $geometry: { type: 'Point', coordinates: [longitude, latitude] },
+            $maxDistance: maxDistance,
+          },
+        },
+      })
+      .lean<GazetteerEntry>()
+      .exec();
+  }
+
+  /** "Bonapriso, Douala" — uses the city's display name when it was loaded too. */
+  private label(match: GazetteerEntry, candidates: GazetteerEntry[]): string {
+    if (match.kind === GazetteerKind.CITY) return match.name;
+    const city = candidates.find(
+      (c) =>
+        c.kind === GazetteerKind.CITY && c.searchNames.includes(match.city),
+    );
+    return `${match.name}, ${city?.name ?? match.city}`;
+  }
+}
@@ -0,0 +1,96 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+
+import {
+  GeocodeQuery,
+  GeocodeResult,
+  GeocodingProvider,
+  ReverseGeocodeResult,
+} from '../geocoding-provider.interface';
+
+const GOOGLE_GEOCODE_URL = 'https://maps.googleapis.com/maps/api/geocode/json';
+const GOOGLE_TIMEOUT_MS = 5000;
+
+interface GoogleGeocodeResponse {
+  status: string;
+  results: {
+    formatted_address: string;
+    geometry: { location: { lat: number; lng: number }; location_type: string };
+    address_components: { long_name: string; types: string[] }[];
+  }[];
+}
+
+/** Google Maps Geocoding API. Requires GOOGLE_MAPS_API_KEY. */
+@Injectable()
+export class GoogleGeocodingProvider implements GeocodingProvider {
+  readonly name = 'google';
+
+  private readonly apiKey?: string;
+
+  constructor(configService: ConfigService) {
+    this.apiKey = configService.get<string>('GOOGLE_MAPS_API_KEY');
+  }
+
+  get isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    const address = [query.address, query.neighborhood, query.city]
+      .filter(Boolean)
+      .join(', ');
+    const data = await this.call({
+      address,
+      components: `country:${query.country ?? 'CM'}`,
+    });
+    const first = data.results[0];
+    if (!first) return null;
+
+    return {
+      latitude: first.geometry.location.lat,
+      longitude: first.geometry.location.lng,
+      // APPROXIMATE results are localities or areas, not the address itself
+      precision:
+        first.geometry.location_type === 'APPROXIMATE' ? 'quarter' : 'address',
+      label: first.formatted_address,
+      provider: this.name,
+    };
+  }
+
+  async reverse(
+    latitude: number,
+    longitude: number,
+  ): Promise<ReverseGeocodeResult | null> {
+    const data = await this.call({ latlng: `${latitude},${longitude}` });
+    const first = data.results[0];
+    if (!first) return null;
+
+    const component = (...types: string[]) =>
+      first.address_components.find((c) =>
+        types.some((t) => c.types.includes(t)),
+      )?.long_name;
+
+    return {
+      label: first.formatted_address,
+      neighborhood: component('neighborhood', 'sublocality'),
+      city: component('locality'),
+      state: component('administrative_area_level_1'),
+      country: component('country'),
+      provider: this.name,
+    };
+  }
+
+  private async call(
+    params: Record<string, string>,
+  ): Promise<GoogleGeocodeResponse> {
+    const { data } = await axios.get<GoogleGeocodeResponse>(
+      GOOGLE_GEOCODE_URL,
+      { params: { ...params, key: this.apiKey }, timeout: GOOGLE_TIMEOUT_MS },
+    );
+    if (data.status !== 'OK' && data.status !== 'ZERO_RESULTS') {
+      throw new Error(`Google geocoding returned ${data.status}`);
+    }
+    return data;
+  }
+}
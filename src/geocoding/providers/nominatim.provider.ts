@@ -0,0 +1,106 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+
+import {
+  GeocodeQuery,
+  GeocodeResult,
+  GeocodingProvider,
+  ReverseGeocodeResult,
+} from '../geocoding-provider.interface';
+
+/** The public instance's usage policy allows one request per second. */
+const NOMINATIM_INTERVAL_MS = 1100;
+const NOMINATIM_TIMEOUT_MS = 5000;
+
+interface NominatimAddress {
+  road?: string;
+  suburb?: string;
+  neighbourhood?: string;
+  quarter?: string;
+  city?: string;
+  town?: string;
+  village?: string;
+  state?: string;
+  country?: string;
+}
+
+/** OpenStreetMap Nominatim (public instance or NOMINATIM_URL). */
+@Injectable()
+export class NominatimGeocodingProvider implements GeocodingProvider {
+  readonly name = 'nominatim';
+
+  private readonly baseUrl: string;
+  /** Serializes calls so concurrent requests respect the rate limit. */
+  private queue: Promise<unknown> = Promise.resolve();
+  private lastCallAt = 0;
+
+  constructor(configService: ConfigService) {
+    this.baseUrl = configService.get<string>(
+      'NOMINATIM_URL',
+      'https://nominatim.openstreetmap.org',
+    );
+  }
+
+  async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    const q = [query.address, query.neighborhood, query.city, query.country]
+      .filter(Boolean)
+      .join(', ');
+    const results = await this.call<
+      { lat: string; lon: string; display_name: string }[]
+    >('/search', { q, format: 'json', limit: 1 });
+    if (!results?.length) return null;
+
+    return {
+      latitude: parseFloat(results[0].lat),
+      longitude: parseFloat(results[0].lon),
+      precision: 'address',
+      label: results[0].display_name,
+      provider: this.name,
+    };
+  }
+
+  async reverse(
+    latitude: number,
+    longitude: number,
+  ): Promise<ReverseGeocodeResult | null> {
+    const result = await this.call<{
+      display_name?: string;
+      address?: NominatimAddress;
+      error?: string;
+    }>('/reverse', { lat: latitude, lon: longitude, format: 'json' });
+    if (!result?.address || result.error) return null;
+
+    const a = result.address;
+    return {
+      label: result.display_name ?? '',
+      neighborhood: a.suburb ?? a.neighbourhood ?? a.quarter,
+      city: a.city ?? a.town ?? a.village,
+      state: a.state,
+      country: a.country,
+      provider: this.name,
+    };
+  }
+
+  private call<T>(
+    path: string,
+    params: Record<string, string | number>,
+  ): Promise<T> {
+    const run = async (): Promise<T> => {
+      const wait = this.lastCallAt + NOMINATIM_INTERVAL_MS - Date.now();
+      if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+      this.lastCallAt = Date.now();
+
+      const response = await axios.get<T>(`${this.baseUrl}${path}`, {
+        params,
+        headers: { 'User-Agent': 'HoroHouse-Backend/1.0' },
+        timeout: NOMINATIM_TIMEOUT_MS,
+      });
+      return response.data;
+    };
+
+    const next = this.queue.then(run, run);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+}
@@ -0,0 +1,68 @@
+import { Prop, Schema, SchemaFactory, raw } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type GazetteerEntryDocument = GazetteerEntry & Document;
+
+export enum GazetteerKind {
+  CITY = 'city',
+  /** Quartier / neighborhood inside a city. */
+  QUARTER = 'quarter',
+  /** Well-known reference point: "Carrefour Bastos", "Rond-point Deïdo"… */
+  LANDMARK = 'landmark',
+}
+
+/**
+ * A named place of the local gazetteer used for offline geocoding.
+ * Loaded by admins from a CSV or JSON file.
+ */
+@Schema({ timestamps: true })
+export class GazetteerEntry {
+  _id!: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop({ type: String, enum: Object.values(GazetteerKind), required: true })
+  kind: GazetteerKind;
+
+  /** City the quarter or landmark belongs to (normalized); empty for cities. */
+  @Prop({ trim: true, default: '' })
+  city: string;
+
+  /** Region, e.g. "Centre", "Littoral". */
+  @Prop({ trim: true })
+  region?: string;
+
+  @Prop({ trim: true, default: 'Cameroon' })
+  country: string;
+
+  /** Other spellings, e.g. "Yaounde", "Ydé", "Bonaberi". */
+  @Prop({ type: [String], default: [] })
+  aliases: string[];
+
+  /** Normalized name and aliases — the lookup key (see normalizeSearchText). */
+  @Prop({ type: [String], default: [] })
+  searchNames: string[];
+
+  @Prop(
+    raw({
+      type: { type: String, enum: ['Point'], required: true },
+      coordinates: { type: [Number], required: true },
+    }),
+  )
+  location: { type: 'Point'; coordinates: [number, number] };
+
+  /** Cities only: ranks homonyms so the largest one wins. */
+  @Prop()
+  population?: number;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const GazetteerEntrySchema =
+  SchemaFactory.createForClass(GazetteerEntry);
+
+GazetteerEntrySchema.index({ searchNames: 1, kind: 1 });
+GazetteerEntrySchema.index({ location: '2dsphere', kind: 1 });
+GazetteerEntrySchema.index({ kind: 1, city: 1, name: 1 });
@@ -0,0 +1,86 @@
+import {
+  buildGazetteerLookup,
+  candidatePhrases,
+  geocodeCacheKey,
+  pickGazetteerMatch,
+} from './gazetteer-match.util';
+import { GazetteerKind } from '../schemas/gazetteer-entry.schema';
+
+describe('gazetteer matching', () => {
+  const douala = {
+    name: 'Douala',
+    kind: GazetteerKind.CITY,
+    city: '',
+    searchNames: ['douala'],
+    population: 3_600_000,
+  };
+  const akwa = {
+    name: 'Akwa',
+    kind: GazetteerKind.QUARTER,
+    city: 'douala',
+    searchNames: ['akwa'],
+  };
+  const bastosYaounde = {
+    name: 'Bastos',
+    kind: GazetteerKind.QUARTER,
+    city: 'yaounde',
+    searchNames: ['bastos'],
+  };
+  const carrefour = {
+    name: 'Carrefour Bastos',
+    kind: GazetteerKind.LANDMARK,
+    city: 'yaounde',
+    searchNames: ['carrefour bastos'],
+  };
+
+  it('lists word runs longest first, normalized', () => {
+    expect(candidatePhrases('Près du Carrefour Bastos', 2)).toEqual([
+      'pres du',
+      'du carrefour',
+      'carrefour bastos',
+      'pres',
+      'du',
+      'carrefour',
+      'bastos',
+    ]);
+  });
+
+  it('prefers the most specific place of the requested city', () => {
+    const entries = [douala, akwa, bastosYaounde, carrefour];
+
+    expect(
+      pickGazetteerMatch(
+        entries,
+        buildGazetteerLookup({
+          address: 'Immeuble Rose, carrefour Bastos',
+          city: 'Yaoundé',
+        }),
+      ),
+    ).toBe(carrefour);
+    expect(
+      pickGazetteerMatch(
+        entries,
+        buildGazetteerLookup({ address: 'Rue Joffre, Akwa', city: 'Douala' }),
+      ),
+    ).toBe(akwa);
+    // Bastos is in Yaoundé, not Douala: fall back to the city
+    expect(
+      pickGazetteerMatch(
+        entries,
+        buildGazetteerLookup({ address: 'Bastos', city: 'Douala' }),
+      ),
+    ).toBe(douala);
+    expect(
+      pickGazetteerMatch(
+        entries,
+        buildGazetteerLookup({ address: 'Somewhere', city: 'Garoua' }),
+      ),
+    ).toBeNull();
+  });
+
+  it('builds the same cache key for equivalent spellings', () => {
+    expect(geocodeCacheKey({ address: 'Akwa ', city: 'DOUALA' })).toBe(
+      geocodeCacheKey({ address: 'akwa', city: 'Douala' }),
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import { normalizeSearchText } from '../../properties/utils/search-text.util';
+import { GazetteerKind } from '../schemas/gazetteer-entry.schema';
+import { GeocodeQuery } from '../geocoding-provider.interface';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface GazetteerCandidate {
+  name: string;
+  kind: GazetteerKind;
+  city: string;
+  searchNames: string[];
+  population?: number;
+}
+
+export interface GazetteerLookup {
+  /** Word sequences of the address and neighborhood, longest first. */
+  phrases: string[];
+  /** Normalized city of the query, '' when unknown. */
+  city: string;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Longest place name, in words, looked up in an address ("marche central new bell"). */
+const MAX_PHRASE_WORDS = 4;
+
+/** More specific places win over broader ones. */
+const KIND_RANK: Record<GazetteerKind, number> = {
+  [GazetteerKind.LANDMARK]: 3,
+  [GazetteerKind.QUARTER]: 2,
+  [GazetteerKind.CITY]: 1,
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Every run of 1 to MAX_PHRASE_WORDS consecutive words of the normalized
+ * text, longest first: "rue 1234 bonapriso" → "rue 1234 bonapriso",
+ * "rue 1234", "1234 bonapriso", "rue", "1234", "bonapriso".
+ */
+export function candidatePhrases(
+  text: string,
+  maxWords = MAX_PHRASE_WORDS,
+): string[] {
+  const words = normalizeSearchText(text).split(' ').filter(Boolean);
+  const phrases: string[] = [];
+  for (let size = Math.min(maxWords, words.length); size >= 1; size--) {
+    for (let i = 0; i + size <= words.length; i++) {
+      phrases.push(words.slice(i, i + size).join(' '));
+    }
+  }
+  return [...new Set(phrases)];
+}
+
+export function buildGazetteerLookup(query: GeocodeQuery): GazetteerLookup {
+  return {
+    phrases: candidatePhrases(
+      [query.neighborhood, query.address].filter(Boolean).join(' '),
+    ),
+    city: normalizeSearchText(query.city ?? ''),
+  };
+}
+
+/**
+ * Picks the most specific entry matching the lookup: a landmark or quarter
+ * of the query's city, else the city itself. Ties go to the longest matched
+ * name, then the largest population.
+ */
+export function pickGazetteerMatch<T extends GazetteerCandidate>(
+  candidates: T[],
+  lookup: GazetteerLookup,
+): T | null {
+  const phrases = new Set(lookup.phrases);
+
+  const scored = candidates
+    .map((entry) => {
+      const names =
+        entry.kind === GazetteerKind.CITY
+          ? entry.searchNames.filter((n) => n === lookup.city || phrases.has(n))
+          : entry.searchNames.filter((n) => phrases.has(n));
+      const matchLength = Math.max(0, ...names.map((n) => n.length));
+      return { entry, matchLength };
+    })
+    .filter(({ entry, matchLength }) => {
+      if (!matchLength) return false;
+      // A quarter name alone is ambiguous across cities
+      if (entry.kind !== GazetteerKind.CITY && lookup.city) {
+        return entry.city === lookup.city;
+      }
+      return true;
+    });
+
+  scored.sort(
+    (a, b) =>
+      KIND_RANK[b.entry.kind] - KIND_RANK[a.entry.kind] ||
+      b.matchLength - a.matchLength ||
+      (b.entry.population ?? 0) - (a.entry.population ?? 0),
+  );
+  return scored[0]?.entry ?? null;
+}
+
+/** Cache key of a forward lookup; equivalent spellings share an entry. */
+export function geocodeCacheKey(query: GeocodeQuery): string {
+  return [query.address, query.neighborhood, query.city, query.country]
+    .map((part) => normalizeSearchText(part ?? ''))
+    .join('|');
+}
+
+/** Cache key of a reverse lookup, rounded to about 10 m. */
+export function reverseCacheKey(latitude: number, longitude: number): string {
+  return `${latitude.toFixed(4)},${longitude.toFixed(4)}`;
+}
@@ -1,10 +1,24 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
-import { Lead, LeadDocument } from './schemas/lead.schema';
+import { Model, Types } from 'mongoose';
+import { Lead, LeadDocument, LeadSource, LeadStatus } from './schemas/lead.schema';
 import { CreateLeadDto } from './dto/create-lead.dto';
 import { UpdateLeadDto } from './dto/update-lead.dto';
 
+export interface OpenHouseVisit {
+    name: string;
+    email?: string;
+    phone?: string;
+    propertyId: Types.ObjectId;
+    openHouseId: Types.ObjectId;
+    propertyTitle: string;
+    propertyType?: string;
+    city?: string;
+    price?: number;
+    agentName?: string;
+    visitedAt: Date;
+}
+
 @Injectable()
 export class LeadsService {
     constructor(
@@ -60,6 +74,54 @@ export class LeadsService {
         return lead;
     }
 
+    /**
+     * Records an open-house visit. A visitor already known by email or phone
+     * gets a note on their lead; anyone else becomes a new lead.
+     */
+    async recordOpenHouseVisit(visit: OpenHouseVisit): Promise<LeadDocument> {
+        const note = {
+            content: `Attended the open house for "${visit.propertyTitle}" on ${visit.visitedAt.toISOString().split('T')[0]}`,
+            createdAt: new Date(),
+        };
+
+        const identifiers: any[] = [];
+        if (visit.email) identifiers.push({ email: visit.email.toLowerCase() });
+        if (visit.phone) identifiers.push({ phone: visit.phone });
+
+        const existing = identifiers.length
+            ? await this.leadModel.findOne({ $or: identifiers }).sort({ createdAt: -1 }).exec()
+            : null;
+
+        if (existing) {
+            existing.notes.push(note as any);
+            if (!existing.tags.includes('open-house')) existing.tags.push('open-house');
+            // Meeting the agent at the door counts as a first contact
+            if (existing.status === LeadStatus.NEW) existing.status = LeadStatus.CONTACTED;
+            existing.lastContactedAt = visit.visitedAt;
+            existing.propertyId ??= visit.propertyId;
+            existing.openHouseId = visit.openHouseId;
+            return existing.save();
+        }
+
+        return new this.leadModel({
+            name: visit.name,
+            email: visit.email?.toLowerCase(),
+            phone: visit.phone,
+            interest: visit.propertyTitle,
+            source: LeadSource.OPEN_HOUSE,
+            status: LeadStatus.CONTACTED,
+            location: visit.city,
+            lastContactedAt: visit.visitedAt,
+            budget: visit.price,
+            propertyType: visit.propertyType,
+            assignedAgent: visit.agentName,
+            tags: ['open-house'],
+            notes: [note],
+            propertyId: visit.propertyId,
+            openHouseId: visit.openHouseId,
+        }).save();
+    }
+
     async getStats(): Promise<any> {
         const now = new Date();
         const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
@@ -15,6 +15,7 @@ export enum LeadSource {
     REFERRAL = 'referral',
     MESSAGE = 'message',
     CAMPAIGN = 'campaign',
+    OPEN_HOUSE = 'open_house',
 }
 
 export enum LeadPriority {
@@ -80,6 +81,13 @@ export class Lead {
 
     @Prop({ type: [LeadNoteSchema], default: [] })
     notes: LeadNote[];
+
+    // Listing / open house the lead came from, when known
+    @Prop({ type: Types.ObjectId, ref: 'Property' })
+    propertyId?: Types.ObjectId;
+
+    @Prop({ type: Types.ObjectId, ref: 'OpenHouse' })
+    openHouseId?: Types.ObjectId;
 }
 
 export const LeadSchema = SchemaFactory.createForClass(Lead);
@@ -89,3 +97,6 @@ LeadSchema.index({ status: 1 });
 LeadSchema.index({ createdAt: -1 });
 LeadSchema.index({ priority: 1 });
 LeadSchema.index({ source: 1 });
+// Matching returning visitors (open-house attendance)
+LeadSchema.index({ email: 1 });
+LeadSchema.index({ phone: 1 });
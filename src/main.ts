@@ -67,6 +67,7 @@ function setupSwagger(app: NestFastifyApplication) {
     .setDescription('Real Estate Platform API for Cameroon and African Countries')
     .setVersion('1.0')
     .addBearerAuth({ type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }, 'JWT-auth')
+    .addApiKey({ type: 'apiKey', in: 'header', name: 'X-API-Key' }, 'api_key')
     .addTag('Authentication', 'User authentication and authorization')
     .addTag('Users', 'User management operations')
     .addTag('Properties', 'Property management operations')
@@ -74,6 +75,7 @@ function setupSwagger(app: NestFastifyApplication) {
     .addTag('Analytics', 'Dashboard and analytics')
     .addTag('AI Chat', 'AI-powered chat and property search')
     .addTag('Chat', 'Real-time chat and messaging')
+    .addTag('Syndication Feeds', 'Listing feeds for partner portals')
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
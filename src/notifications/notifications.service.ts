@@ -615,6 +615,77 @@ async notifyCheckInReminder(
   });
 }
 
+/**
+ * HOST ← Guest asked to change the dates or guest count of a booking.
+ *
+ * Called from: BookingsService.requestModification()
+ */
+async notifyModificationRequested(
+  hostId: string,
+  params: {
+    bookingId: string;
+    propertyTitle: string;
+    guestName: string;
+    checkIn: string;
+    checkOut: string;
+    priceDifference: number;
+    currency: string;
+  },
+): Promise<void> {
+  const diff = params.priceDifference
+    ? ` (${params.priceDifference > 0 ? '+' : ''}${params.priceDifference} ${params.currency})`
+    : '';
+  await this.create({
+    userId:  hostId,
+    type:    NotificationType.BOOKING_MODIFICATION,
+    title:   'Booking change requested',
+    message: `${params.guestName} would like to change their stay at ${params.propertyTitle} ` +
+             `to ${params.checkIn} → ${params.checkOut}${diff}`,
+    link:    `/hosting/bookings/${params.bookingId}`,
+    metadata: {
+      bookingId:       params.bookingId,
+      propertyTitle:   params.propertyTitle,
+      checkIn:         params.checkIn,
+      checkOut:        params.checkOut,
+      priceDifference: params.priceDifference,
+      currency:        params.currency,
+    },
+  });
+}
+
+/**
+ * GUEST ← Host approved or declined their change request.
+ *
+ * Called from: BookingsService.approveModification() and declineModification()
+ */
+async notifyModificationResponded(
+  guestId: string,
+  params: {
+    bookingId: string;
+    propertyTitle: string;
+    approved: boolean;
+    checkIn: string;
+    checkOut: string;
+  },
+): Promise<void> {
+  await this.create({
+    userId:  guestId,
+    type:    NotificationType.BOOKING_MODIFICATION,
+    title:   params.approved ? 'Booking change approved' : 'Booking change declined',
+    message: params.approved
+      ? `Your stay at ${params.propertyTitle} is now ${params.checkIn} → ${params.checkOut}`
+      : `The host could not change your stay at ${params.propertyTitle}; your booking is unchanged`,
+    link:    `/bookings/${params.bookingId}`,
+    metadata: {
+      bookingId:     params.bookingId,
+      propertyTitle: params.propertyTitle,
+      approved:      params.approved,
+      checkIn:       params.checkIn,
+      checkOut:      params.checkOut,
+    },
+  });
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // REVIEW LIFECYCLE
 // ─────────────────────────────────────────────────────────────────────────────
@@ -20,6 +20,7 @@ export enum NotificationType {
   BOOKING_CANCELLED  = 'booking_cancelled',  // Both: a booking was cancelled
   BOOKING_REMINDER   = 'booking_reminder',   // Guest: check-in is approaching (e.g. 24h before)
   BOOKING_COMPLETED  = 'booking_completed',  // Both: stay marked as completed
+  BOOKING_MODIFICATION = 'booking_modification', // Host: guest asked to change dates/guests; guest: host answered
 
   // ── NEW: Review lifecycle ─────────────────────────────────────────────────
   REVIEW_REQUEST     = 'review_request',     // Both: prompted to leave a review after checkout
@@ -30,6 +31,18 @@ export enum NotificationType {
   // ── NEW: Payment ──────────────────────────────────────────────────────────
   PAYMENT_RECEIVED   = 'payment_received',   // Host: payment confirmed for a booking
   REFUND_PROCESSED   = 'refund_processed',   // Guest: refund has been processed
+
+  // ── Listings ──────────────────────────────────────────────────────────────
+  PRICE_DROP         = 'price_drop',         // Favorited / saved-search listing got cheaper
+  LISTING_EXPIRING   = 'listing_expiring',   // Owner: listing expires in a few days
+  LISTING_EXPIRED    = 'listing_expired',    // Owner: listing was taken offline, renew to restore
+  OWNERSHIP_VERIFICATION = 'ownership_verification', // Owner: documents verified or rejected; admins: file to review
+
+  // ── Open houses ───────────────────────────────────────────────────────────
+  OPEN_HOUSE_RSVP      = 'open_house_rsvp',      // Host: a visitor reserved seats
+  OPEN_HOUSE_REMINDER  = 'open_house_reminder',  // Visitor: open house starts within 24h
+  OPEN_HOUSE_UPDATED   = 'open_house_updated',   // Visitor: time or meeting point changed
+  OPEN_HOUSE_CANCELLED = 'open_house_cancelled', // Visitor: host cancelled the open house
 }
 
 // ─── Schema ───────────────────────────────────────────────────────────────────
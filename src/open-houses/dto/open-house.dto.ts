@@ -0,0 +1,177 @@
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  IsEmail,
+  IsArray,
+  IsMongoId,
+  IsDateString,
+  ValidateNested,
+  ArrayMaxSize,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from '@nestjs/swagger';
+
+export const MAX_OPEN_HOUSE_CAPACITY = 500;
+export const MAX_PARTY_SIZE = 10;
+
+export class CreateOpenHouseDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  @IsMongoId()
+  propertyId: string;
+
+  @ApiProperty({ example: '2026-11-07T10:00:00.000Z' })
+  @IsDateString()
+  startsAt: string;
+
+  @ApiProperty({ example: '2026-11-07T13:00:00.000Z' })
+  @IsDateString()
+  endsAt: string;
+
+  @ApiProperty({ example: 25, description: 'Seats, party sizes included' })
+  @IsInt()
+  @Min(1)
+  @Max(MAX_OPEN_HOUSE_CAPACITY)
+  capacity: number;
+
+  @ApiPropertyOptional({ example: 'Saturday open house' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  title?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @ApiPropertyOptional({ example: 'Gate next to the pharmacy' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  meetingPoint?: string;
+}
+
+export class UpdateOpenHouseDto extends PartialType(
+  OmitType(CreateOpenHouseDto, ['propertyId'] as const),
+) {}
+
+export class CancelOpenHouseDto {
+  @ApiPropertyOptional({ example: 'The property has been sold' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class RsvpOpenHouseDto {
+  @ApiPropertyOptional({
+    example: 2,
+    default: 1,
+    description: 'Seats needed, you included',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PARTY_SIZE)
+  partySize?: number;
+
+  @ApiPropertyOptional({
+    example: '+237690000000',
+    description: 'Defaults to the account phone number',
+  })
+  @IsOptional()
+  @IsString()
+  phone?: string;
+}
+
+export class WalkInDto {
+  @ApiProperty({ example: 'Marie Ngo' })
+  @IsString()
+  @MaxLength(120)
+  name: string;
+
+  @ApiPropertyOptional({ example: 'marie@example.com' })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional({ example: '+237690000000' })
+  @IsOptional()
+  @IsString()
+  phone?: string;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PARTY_SIZE)
+  partySize?: number;
+}
+
+export class MarkAttendanceDto {
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'RSVP IDs of the visitors who came',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_OPEN_HOUSE_CAPACITY)
+  @IsMongoId({ each: true })
+  attended?: string[];
+
+  @ApiPropertyOptional({
+    type: [WalkInDto],
+    description: 'Visitors who came without an RSVP',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_OPEN_HOUSE_CAPACITY)
+  @ValidateNested({ each: true })
+  @Type(() => WalkInDto)
+  walkIns?: WalkInDto[];
+}
+
+export class OpenHouseQueryDto {
+  @ApiPropertyOptional({ example: 'Douala' })
+  @IsOptional()
+  @IsString()
+  city?: string;
+
+  @ApiPropertyOptional({
+    example: '2026-11-01',
+    description: 'Defaults to now',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ example: '2026-11-30' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({ example: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ example: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
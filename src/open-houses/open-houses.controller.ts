@@ -0,0 +1,227 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  Query,
+  Req,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { FastifyRequest } from 'fastify';
+
+import { OpenHousesService } from './open-houses.service';
+import {
+  CreateOpenHouseDto,
+  UpdateOpenHouseDto,
+  CancelOpenHouseDto,
+  RsvpOpenHouseDto,
+  MarkAttendanceDto,
+  OpenHouseQueryDto,
+} from './dto/open-house.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { RolesGuard, Roles, Public } from '../auth/guards/roles.guard';
+import { User, UserRole } from '../users/schemas/user.schema';
+
+const HOST_ROLES = [
+  UserRole.HOST,
+  UserRole.AGENT,
+  UserRole.LANDLORD,
+  UserRole.ADMIN,
+];
+
+@ApiTags('Open houses')
+@Controller('open-houses')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class OpenHousesController {
+  constructor(private readonly openHousesService: OpenHousesService) {}
+
+  // ─── Public ─────────────────────────────────────────────────────────────────
+
+  @Get()
+  @Public()
+  @ApiOperation({
+    summary: 'Upcoming open houses',
+    description:
+      'Scheduled open houses that have not ended yet, soonest first. Filter by city and date window.',
+  })
+  @ApiResponse({ status: 200, description: 'Paginated open houses' })
+  async findUpcoming(@Query() query: OpenHouseQueryDto) {
+    return this.openHousesService.findUpcoming(query);
+  }
+
+  @Get('property/:propertyId')
+  @Public()
+  @ApiOperation({ summary: 'Upcoming open houses of a listing' })
+  @ApiParam({ name: 'propertyId', description: 'Property ID' })
+  @ApiResponse({ status: 200, description: 'Open houses, soonest first' })
+  async findByProperty(@Param('propertyId') propertyId: string) {
+    return this.openHousesService.findByProperty(propertyId);
+  }
+
+  // ─── Visitors ───────────────────────────────────────────────────────────────
+
+  @Get('my-rsvps')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Open houses I have RSVP’d to' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Paginated open houses' })
+  async findMyRsvps(
+    @Req() req: FastifyRequest & { user: User },
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.openHousesService.findMyRsvps(
+      req.user,
+      page ? parseInt(page.toString()) : 1,
+      limit ? parseInt(limit.toString()) : 20,
+    );
+  }
+
+  @Post(':id/rsvp')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'RSVP to an open house' })
+  @ApiParam({ name: 'id', description: 'Open house ID' })
+  @ApiResponse({ status: 201, description: 'Seats reserved' })
+  @ApiResponse({
+    status: 409,
+    description: 'Already RSVP’d or not enough seats left',
+  })
+  async rsvp(
+    @Param('id') id: string,
+    @Body() dto: RsvpOpenHouseDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.openHousesService.rsvp(id, dto, req.user);
+  }
+
+  @Delete(':id/rsvp')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Cancel my RSVP and free the seats' })
+  @ApiParam({ name: 'id', description: 'Open house ID' })
+  async cancelRsvp(
+    @Param('id') id: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    await this.openHousesService.cancelRsvp(id, req.user);
+  }
+
+  // ─── Hosts ──────────────────────────────────────────────────────────────────
+
+  @Post()
+  @Roles(...HOST_ROLES)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Schedule an open house for a sale or rental listing',
+  })
+  @ApiResponse({ status: 201, description: 'Open house scheduled' })
+  @ApiResponse({ status: 403, description: 'Not your property' })
+  async create(
+    @Body() dto: CreateOpenHouseDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.openHousesService.create(dto, req.user);
+  }
+
+  @Get('mine')
+  @Roles(...HOST_ROLES)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Open houses I host' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Paginated open houses' })
+  async findMine(
+    @Req() req: FastifyRequest & { user: User },
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.openHousesService.findMine(
+      req.user,
+      page ? parseInt(page.toString()) : 1,
+      limit ? parseInt(limit.toString()) : 20,
+    );
+  }
+
+  @Get(':id/rsvps')
+  @Roles(...HOST_ROLES)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Host: RSVP list with attendance' })
+  @ApiParam({ name: 'id', description: 'Open house ID' })
+  async findRsvps(
+    @Param('id') id: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.openHousesService.findRsvps(id, req.user);
+  }
+
+  @Patch(':id')
+  @Roles(...HOST_ROLES)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Host: Update an open house',
+    description:
+      'Visitors are notified when the time or meeting point changes. Capacity cannot drop below the seats already reserved.',
+  })
+  @ApiParam({ name: 'id', description: 'Open house ID' })
+  @ApiResponse({ status: 409, description: 'Capacity below reserved seats' })
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateOpenHouseDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.openHousesService.update(id, dto, req.user);
+  }
+
+  @Patch(':id/cancel')
+  @Roles(...HOST_ROLES)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Host: Cancel an open house and notify visitors' })
+  @ApiParam({ name: 'id', description: 'Open house ID' })
+  async cancel(
+    @Param('id') id: string,
+    @Body() dto: CancelOpenHouseDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.openHousesService.cancel(id, req.user, dto.reason);
+  }
+
+  @Patch(':id/attendance')
+  @Roles(...HOST_ROLES)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Host: Mark attendance and record walk-ins',
+    description:
+      'Every visitor marked present is added to, or matched against, the leads pipeline.',
+  })
+  @ApiParam({ name: 'id', description: 'Open house ID' })
+  async markAttendance(
+    @Param('id') id: string,
+    @Body() dto: MarkAttendanceDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.openHousesService.markAttendance(id, dto, req.user);
+  }
+
+  @Get(':id')
+  @Public()
+  @ApiOperation({ summary: 'Open house details' })
+  @ApiParam({ name: 'id', description: 'Open house ID' })
+  @ApiResponse({ status: 404, description: 'Open house not found' })
+  async findOne(@Param('id') id: string) {
+    return this.openHousesService.findOne(id);
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+
+import { OpenHouse, OpenHouseSchema } from './schemas/open-house.schema';
+import {
+  Property,
+  PropertySchema,
+} from '../properties/schemas/property.schema';
+import { OpenHousesService } from './open-houses.service';
+import { OpenHousesController } from './open-houses.controller';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { LeadsModule } from '../leads/leads.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: OpenHouse.name, schema: OpenHouseSchema },
+      { name: Property.name, schema: PropertySchema },
+    ]),
+    NotificationsModule,
+    LeadsModule,
+  ],
+  controllers: [OpenHousesController],
+  providers: [OpenHousesService],
+  exports: [OpenHousesService],
+})
+export class OpenHousesModule {}
@@ -0,0 +1,692 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model, Types } from 'mongoose';
+
+import {
+  OpenHouse,
+  OpenHouseDocument,
+  OpenHouseRsvp,
+  OpenHouseStatus,
+  RsvpStatus,
+} from './schemas/open-house.schema';
+import {
+  CreateOpenHouseDto,
+  UpdateOpenHouseDto,
+  RsvpOpenHouseDto,
+  MarkAttendanceDto,
+  OpenHouseQueryDto,
+} from './dto/open-house.dto';
+import {
+  ListingType,
+  Property,
+  PropertyDocument,
+} from '../properties/schemas/property.schema';
+import { User, UserRole } from '../users/schemas/user.schema';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/schemas/notification.schema';
+import { LeadsService } from '../leads/leads.service';
+
+const HOUR_MS = 3_600_000;
+
+/** Visitors are reminded once, this long before the start. */
+const REMINDER_WINDOW_MS = 24 * HOUR_MS;
+
+/** Cap per cron run so one slow tick cannot pile up notifications. */
+const REMINDER_BATCH = 200;
+
+/** Listing types that are visited in groups; short stays are booked instead. */
+const OPEN_HOUSE_LISTING_TYPES = [ListingType.SALE, ListingType.RENT];
+
+const PROPERTY_FIELDS =
+  'title type listingType price city ownerId agentId isActive';
+
+type HostedProperty = Pick<
+  Property,
+  | '_id'
+  | 'title'
+  | 'type'
+  | 'listingType'
+  | 'price'
+  | 'city'
+  | 'ownerId'
+  | 'agentId'
+  | 'isActive'
+>;
+
+export interface PaginatedOpenHouses {
+  openHouses: OpenHouse[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+/**
+ * Open houses of sale and rental listings: scheduling by the host, RSVPs
+ * against a seat capacity, reminders, and attendance that feeds the leads
+ * pipeline.
+ */
+@Injectable()
+export class OpenHousesService {
+  private readonly logger = new Logger(OpenHousesService.name);
+
+  constructor(
+    @InjectModel(OpenHouse.name)
+    private openHouseModel: Model<OpenHouseDocument>,
+    @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+    private notificationsService: NotificationsService,
+    private leadsService: LeadsService,
+  ) {}
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // HOSTING
+  // ════════════════════════════════════════════════════════════════════════════
+
+  async create(dto: CreateOpenHouseDto, user: User): Promise<OpenHouse> {
+    const property = await this.findHostedProperty(dto.propertyId, user);
+    if (!OPEN_HOUSE_LISTING_TYPES.includes(property.listingType)) {
+      throw new BadRequestException(
+        'Open houses are only available for sale and rental listings',
+      );
+    }
+    if (!property.isActive) {
+      throw new BadRequestException(
+        'Open houses can only be scheduled for live listings',
+      );
+    }
+
+    const startsAt = new Date(dto.startsAt);
+    const endsAt = new Date(dto.endsAt);
+    this.assertWindow(startsAt, endsAt);
+
+    const openHouse = await this.openHouseModel.create({
+      propertyId: property._id,
+      hostId: user._id,
+      city: property.city,
+      title: dto.title,
+      description: dto.description,
+      meetingPoint: dto.meetingPoint,
+      startsAt,
+      endsAt,
+      capacity: dto.capacity,
+    });
+    return openHouse.toObject();
+  }
+
+  async update(
+    id: string,
+    dto: UpdateOpenHouseDto,
+    user: User,
+  ): Promise<OpenHouse> {
+    const openHouse = await this.findScheduledForHost(id, user);
+
+    const startsAt = dto.startsAt ? new Date(dto.startsAt) : openHouse.startsAt;
+    const endsAt = dto.endsAt ? new Date(dto.endsAt) : openHouse.endsAt;
+    const rescheduled =
+      startsAt.getTime() !== openHouse.startsAt.getTime() ||
+      endsAt.getTime() !== openHouse.endsAt.getTime();
+    if (rescheduled) this.assertWindow(startsAt, endsAt);
+
+    const update: Record<string, unknown> = {
+      ...(dto.title !== undefined && { title: dto.title }),
+      ...(dto.description !== undefined && { description: dto.description }),
+      ...(dto.meetingPoint !== undefined && {
+        meetingPoint: dto.meetingPoint,
+      }),
+      ...(dto.capacity !== undefined && { capacity: dto.capacity }),
+      startsAt,
+      endsAt,
+    };
+
+    // The capacity check is part of the filter so a concurrent RSVP cannot
+    // slip in between reading seatsTaken and shrinking the event
+    const filter: Record<string, unknown> = {
+      _id: openHouse._id,
+      status: OpenHouseStatus.SCHEDULED,
+    };
+    if (dto.capacity !== undefined) {
+      filter.seatsTaken = { $lte: dto.capacity };
+    }
+
+    const updated = await this.openHouseModel
+      .findOneAndUpdate(
+        filter,
+        {
+          $set: update,
+          // A new time means a new reminder
+          ...(rescheduled && { $unset: { reminderSentAt: '' } }),
+        },
+        { new: true },
+      )
+      .lean()
+      .exec();
+    if (!updated) {
+      throw new ConflictException(
+        `Capacity cannot go below the ${openHouse.seatsTaken} seats already reserved`,
+      );
+    }
+
+    if (rescheduled || dto.meetingPoint !== undefined) {
+      await this.notifyVisitors(updated, {
+        type: NotificationType.OPEN_HOUSE_UPDATED,
+        title: 'Open house updated',
+        message: `The open house has changed: it now takes place ${this.formatWindow(updated)}${updated.meetingPoint ? `, meeting point: ${updated.meetingPoint}` : ''}.`,
+      });
+    }
+    return updated;
+  }
+
+  async cancel(id: string, user: User, reason?: string): Promise<OpenHouse> {
+    const openHouse = await this.findScheduledForHost(id, user);
+
+    const cancelled = await this.openHouseModel
+      .findOneAndUpdate(
+        { _id: openHouse._id, status: OpenHouseStatus.SCHEDULED },
+        {
+          $set: {
+            status: OpenHouseStatus.CANCELLED,
+            cancellationReason: reason,
+          },
+        },
+        { new: true },
+      )
+      .lean()
+      .exec();
+    if (!cancelled) {
+      throw new BadRequestException(
+        'Only scheduled open houses can be cancelled',
+      );
+    }
+
+    await this.notifyVisitors(cancelled, {
+      type: NotificationType.OPEN_HOUSE_CANCELLED,
+      title: 'Open house cancelled',
+      message: `The open house planned ${this.formatWindow(cancelled)} has been cancelled.${reason ? ` Reason: ${reason}` : ''}`,
+    });
+    return cancelled;
+  }
+
+  /**
+   * Marks RSVP'd visitors as present and records walk-ins. Each visitor is
+   * passed to the leads pipeline once; the resulting lead is kept on the RSVP.
+   */
+  async markAttendance(
+    id: string,
+    dto: MarkAttendanceDto,
+    user: User,
+  ): Promise<OpenHouse> {
+    const openHouse = await this.findForHost(id, user);
+    if (openHouse.status === OpenHouseStatus.CANCELLED) {
+      throw new BadRequestException('This open house was cancelled');
+    }
+    if (openHouse.startsAt > new Date()) {
+      throw new BadRequestException(
+        'Attendance can be recorded once the open house has started',
+      );
+    }
+
+    const property = await this.propertyModel
+      .findById(openHouse.propertyId)
+      .select(PROPERTY_FIELDS)
+      .lean<HostedProperty>()
+      .exec();
+    if (!property) throw new NotFoundException('Property not found');
+
+    const now = new Date();
+    const visitors: OpenHouseRsvp[] = [];
+
+    for (const rsvpId of dto.attended ?? []) {
+      const rsvp = openHouse.rsvps.find(
+        (r) => r._id.toString() === rsvpId && r.status === RsvpStatus.GOING,
+      );
+      if (!rsvp) throw new BadRequestException(`Unknown RSVP ${rsvpId}`);
+      if (rsvp.attended) continue;
+      rsvp.attended = true;
+      rsvp.attendedAt = now;
+      visitors.push(rsvp);
+    }
+
+    for (const walkIn of dto.walkIns ?? []) {
+      // Walk-ins are recorded after the fact and don't count against capacity
+      openHouse.rsvps.push({
+        name: walkIn.name,
+        email: walkIn.email,
+        phone: walkIn.phone,
+        partySize: walkIn.partySize ?? 1,
+        status: RsvpStatus.GOING,
+        walkIn: true,
+        attended: true,
+        attendedAt: now,
+      } as OpenHouseRsvp);
+      // The cast sub-document, so the lead ID set below is saved with it
+      visitors.push(openHouse.rsvps[openHouse.rsvps.length - 1]);
+    }
+
+    for (const visitor of visitors) {
+      try {
+        const lead = await this.leadsService.recordOpenHouseVisit({
+          name: visitor.name,
+          email: visitor.email,
+          phone: visitor.phone,
+          propertyId: property._id,
+          openHouseId: openHouse._id,
+          propertyTitle: property.title,
+          propertyType: property.type,
+          city: property.city,
+          price: property.price,
+          agentName: user.name,
+          visitedAt: now,
+        });
+        visitor.leadId = lead._id;
+      } catch (err) {
+        this.logger.error(
+          `Could not record lead for open house ${openHouse._id.toString()}`,
+          err,
+        );
+      }
+    }
+
+    await openHouse.save();
+    return openHouse.toObject<OpenHouse>();
+  }
+
+  async findRsvps(id: string, user: User): Promise<OpenHouseRsvp[]> {
+    const openHouse = await this.findForHost(id, user);
+    return openHouse.toObject<OpenHouse>().rsvps;
+  }
+
+  async findMine(
+    user: User,
+    page = 1,
+    limit = 20,
+  ): Promise<PaginatedOpenHouses> {
+    return this.paginate({ hostId: user._id }, { startsAt: -1 }, page, limit);
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // PUBLIC
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /** Upcoming open houses, soonest first, optionally within one city. */
+  async findUpcoming(query: OpenHouseQueryDto): Promise<PaginatedOpenHouses> {
+    const now = new Date();
+    const from = query.from ? new Date(query.from) : now;
+    const filter: Record<string, unknown> = {
+      status: OpenHouseStatus.SCHEDULED,
+      // Events already under way are still worth showing until they end
+      endsAt: { $gt: from < now ? now : from },
+      ...(query.to && { startsAt: { $lte: new Date(query.to) } }),
+      ...(query.city && { city: query.city.trim().toLowerCase() }),
+    };
+    return this.paginate(filter, { startsAt: 1 }, query.page, query.limit);
+  }
+
+  async findByProperty(propertyId: string): Promise<OpenHouse[]> {
+    if (!Types.ObjectId.isValid(propertyId))
+      throw new BadRequestException('Invalid property ID');
+
+    return this.openHouseModel
+      .find({
+        propertyId: new Types.ObjectId(propertyId),
+        status: OpenHouseStatus.SCHEDULED,
+        endsAt: { $gt: new Date() },
+      })
+      .select('-rsvps')
+      .sort({ startsAt: 1 })
+      .lean()
+      .exec();
+  }
+
+  async findOne(id: string): Promise<OpenHouse> {
+    if (!Types.ObjectId.isValid(id))
+      throw new BadRequestException('Invalid open house ID');
+
+    const openHouse = await this.openHouseModel
+      .findById(id)
+      .select('-rsvps')
+      .populate('propertyId', 'title address city images price currency')
+      .lean()
+      .exec();
+    if (!openHouse) throw new NotFoundException('Open house not found');
+    return openHouse;
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // RSVP
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Reserves seats for the user. Capacity is checked inside the update so
+   * concurrent RSVPs can never overbook the event.
+   */
+  async rsvp(
+    id: string,
+    dto: RsvpOpenHouseDto,
+    user: User,
+  ): Promise<OpenHouseRsvp> {
+    if (!Types.ObjectId.isValid(id))
+      throw new BadRequestException('Invalid open house ID');
+
+    const partySize = dto.partySize ?? 1;
+    const rsvp = {
+      _id: new Types.ObjectId(),
+      userId: user._id,
+      name: user.name,
+      email: user.email,
+      phone: dto.phone ?? user.phoneNumber,
+      partySize,
+      status: RsvpStatus.GOING,
+    };
+
+    const updated = await this.openHouseModel
+      .findOneAndUpdate(
+        {
+          _id: new Types.ObjectId(id),
+          status: OpenHouseStatus.SCHEDULED,
+          startsAt: { $gt: new Date() },
+          rsvps: {
+            $not: {
+              $elemMatch: { userId: user._id, status: RsvpStatus.GOING },
+            },
+          },
+          $expr: {
+            $lte: [{ $add: ['$seatsTaken', partySize] }, '$capacity'],
+          },
+        },
+        { $inc: { seatsTaken: partySize }, $push: { rsvps: rsvp } },
+        { new: true },
+      )
+      .lean()
+      .exec();
+
+    if (!updated) {
+      throw await this.rsvpRejection(id, user, partySize);
+    }
+
+    await this.notificationsService.create({
+      userId: updated.hostId.toString(),
+      type: NotificationType.OPEN_HOUSE_RSVP,
+      title: 'New open house RSVP',
+      message: `${user.name} reserved ${partySize} seat${partySize > 1 ? 's' : ''} for your open house ${this.formatWindow(updated)} (${updated.seatsTaken}/${updated.capacity} taken).`,
+      link: `/open-houses/${updated._id.toString()}`,
+      metadata: {
+        openHouseId: updated._id.toString(),
+        propertyId: updated.propertyId.toString(),
+      },
+    });
+
+    return updated.rsvps.find((r) => r._id.toString() === rsvp._id.toString())!;
+  }
+
+  async cancelRsvp(id: string, user: User): Promise<void> {
+    if (!Types.ObjectId.isValid(id))
+      throw new BadRequestException('Invalid open house ID');
+
+    const openHouse = await this.openHouseModel
+      .findOne({
+        _id: new Types.ObjectId(id),
+        rsvps: { $elemMatch: { userId: user._id, status: RsvpStatus.GOING } },
+      })
+      .select('rsvps')
+      .lean()
+      .exec();
+    const rsvp = openHouse?.rsvps.find(
+      (r) =>
+        r.userId?.toString() === user._id.toString() &&
+        r.status === RsvpStatus.GOING,
+    );
+    if (!rsvp) throw new NotFoundException('RSVP not found');
+
+    // Matching on the RSVP status keeps a double cancel from freeing seats twice
+    await this.openHouseModel.updateOne(
+      {
+        _id: new Types.ObjectId(id),
+        rsvps: { $elemMatch: { _id: rsvp._id, status: RsvpStatus.GOING } },
+      },
+      {
+        $set: { 'rsvps.$.status': RsvpStatus.CANCELLED },
+        $inc: { seatsTaken: -rsvp.partySize },
+      },
+    );
+  }
+
+  async findMyRsvps(
+    user: User,
+    page = 1,
+    limit = 20,
+  ): Promise<PaginatedOpenHouses> {
+    const result = await this.paginate(
+      { rsvps: { $elemMatch: { userId: user._id, status: RsvpStatus.GOING } } },
+      { startsAt: -1 },
+      page,
+      limit,
+      'title city startsAt endsAt meetingPoint status capacity seatsTaken propertyId rsvps',
+    );
+    // Visitors only get to see their own entry
+    result.openHouses = result.openHouses.map((openHouse) => ({
+      ...openHouse,
+      rsvps: openHouse.rsvps.filter(
+        (r) => r.userId?.toString() === user._id.toString(),
+      ),
+    }));
+    return result;
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // SCHEDULED JOBS
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /** Reminds visitors a day ahead and closes open houses that are over. */
+  @Cron(CronExpression.EVERY_HOUR)
+  async processOpenHouses(): Promise<void> {
+    try {
+      const now = new Date();
+
+      const completed = await this.openHouseModel.updateMany(
+        { status: OpenHouseStatus.SCHEDULED, endsAt: { $lte: now } },
+        { $set: { status: OpenHouseStatus.COMPLETED } },
+      );
+
+      const upcoming = await this.openHouseModel
+        .find({
+          status: OpenHouseStatus.SCHEDULED,
+          reminderSentAt: { $exists: false },
+          startsAt: {
+            $gt: now,
+            $lte: new Date(now.getTime() + REMINDER_WINDOW_MS),
+          },
+        })
+        .limit(REMINDER_BATCH)
+        .lean()
+        .exec();
+
+      for (const openHouse of upcoming) {
+        await this.notifyVisitors(openHouse, {
+          type: NotificationType.OPEN_HOUSE_REMINDER,
+          title: 'Open house tomorrow',
+          message: `Reminder: the open house you signed up for takes place ${this.formatWindow(openHouse)}${openHouse.meetingPoint ? `, meeting point: ${openHouse.meetingPoint}` : ''}.`,
+        });
+        await this.openHouseModel.updateOne(
+          { _id: openHouse._id },
+          { $set: { reminderSentAt: now } },
+        );
+      }
+
+      if (upcoming.length || completed.modifiedCount)
+        this.logger.log(
+          `Open houses: ${upcoming.length} reminded, ${completed.modifiedCount} completed`,
+        );
+    } catch (err) {
+      this.logger.error('Open house processing failed', err);
+    }
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ════════════════════════════════════════════════════════════════════════════
+
+  private async findHostedProperty(
+    propertyId: string,
+    user: User,
+  ): Promise<HostedProperty> {
+    if (!Types.ObjectId.isValid(propertyId))
+      throw new BadRequestException('Invalid property ID');
+
+    const property = await this.propertyModel
+      .findById(propertyId)
+      .select(PROPERTY_FIELDS)
+      .lean<HostedProperty>()
+      .exec();
+    if (!property) throw new NotFoundException('Property not found');
+
+    const isManager =
+      property.ownerId.toString() === user._id.toString() ||
+      property.agentId?.toString() === user._id.toString();
+    if (!isManager && user.role !== UserRole.ADMIN) {
+      throw new ForbiddenException(
+        'You can only host open houses for your own properties',
+      );
+    }
+    return property;
+  }
+
+  private async findForHost(
+    id: string,
+    user: User,
+  ): Promise<OpenHouseDocument> {
+    if (!Types.ObjectId.isValid(id))
+      throw new BadRequestException('Invalid open house ID');
+
+    const openHouse = await this.openHouseModel.findById(id).exec();
+    if (!openHouse) throw new NotFoundException('Open house not found');
+    if (
+      openHouse.hostId.toString() !== user._id.toString() &&
+      user.role !== UserRole.ADMIN
+    ) {
+      throw new ForbiddenException('You can only manage your own open houses');
+    }
+    return openHouse;
+  }
+
+  private async findScheduledForHost(
+    id: string,
+    user: User,
+  ): Promise<OpenHouseDocument> {
+    const openHouse = await this.findForHost(id, user);
+    if (openHouse.status !== OpenHouseStatus.SCHEDULED) {
+      throw new BadRequestException(
+        `This open house is already ${openHouse.status}`,
+      );
+    }
+    return openHouse;
+  }
+
+  private assertWindow(startsAt: Date, endsAt: Date): void {
+    if (startsAt <= new Date()) {
+      throw new BadRequestException('Open houses must start in the future');
+    }
+    if (endsAt <= startsAt) {
+      throw new BadRequestException('endsAt must be after startsAt');
+    }
+    if (endsAt.getTime() - startsAt.getTime() > 12 * HOUR_MS) {
+      throw new BadRequestException(
+        'Open houses cannot last more than 12 hours',
+      );
+    }
+  }
+
+  /** Explains why the conditional RSVP update matched nothing. */
+  private async rsvpRejection(
+    id: string,
+    user: User,
+    partySize: number,
+  ): Promise<Error> {
+    const openHouse = await this.openHouseModel
+      .findById(id)
+      .select('status startsAt capacity seatsTaken rsvps.userId rsvps.status')
+      .lean()
+      .exec();
+    if (!openHouse) return new NotFoundException('Open house not found');
+    if (
+      openHouse.status !== OpenHouseStatus.SCHEDULED ||
+      openHouse.startsAt <= new Date()
+    ) {
+      return new BadRequestException(
+        'This open house is no longer taking RSVPs',
+      );
+    }
+    if (
+      openHouse.rsvps.some(
+        (r) =>
+          r.userId?.toString() === user._id.toString() &&
+          r.status === RsvpStatus.GOING,
+      )
+    ) {
+      return new ConflictException(
+        'You have already RSVP’d to this open house',
+      );
+    }
+    const seatsLeft = Math.max(0, openHouse.capacity - openHouse.seatsTaken);
+    return new ConflictException(
+      seatsLeft
+        ? `Only ${seatsLeft} seat${seatsLeft > 1 ? 's' : ''} left, ${partySize} requested`
+        : 'This open house is full',
+    );
+  }
+
+  private async notifyVisitors(
+    openHouse: OpenHouse,
+    notification: { type: NotificationType; title: string; message: string },
+  ): Promise<void> {
+    const visitors = openHouse.rsvps.filter(
+      (r) => r.userId && r.status === RsvpStatus.GOING,
+    );
+    for (const rsvp of visitors) {
+      await this.notificationsService.create({
+        userId: rsvp.userId!.toString(),
+        ...notification,
+        link: `/open-houses/${openHouse._id.toString()}`,
+        metadata: {
+          openHouseId: openHouse._id.toString(),
+          propertyId: openHouse.propertyId.toString(),
+          startsAt: openHouse.startsAt,
+        },
+      });
+    }
+  }
+
+  private formatWindow(openHouse: Pick<OpenHouse, 'startsAt' | 'endsAt'>) {
+    const day = openHouse.startsAt.toISOString().split('T')[0];
+    const time = (d: Date) => d.toISOString().slice(11, 16);
+    return `on ${day} from ${time(openHouse.startsAt)} to ${time(openHouse.endsAt)} UTC`;
+  }
+
+  private async paginate(
+    filter: Record<string, unknown>,
+    sort: Record<string, 1 | -1>,
+    page = 1,
+    limit = 20,
+    fields = '-rsvps',
+  ): Promise<PaginatedOpenHouses> {
+    const [openHouses, total] = await Promise.all([
+      this.openHouseModel
+        .find(filter)
+        .select(fields)
+        .populate('propertyId', 'title address city images price currency')
+        .sort(sort)
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean<OpenHouse[]>()
+        .exec(),
+      this.openHouseModel.countDocuments(filter),
+    ]);
+    return { openHouses, total, page, totalPages: Math.ceil(total / limit) };
+  }
+}
@@ -0,0 +1,139 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type OpenHouseDocument = OpenHouse & Document;
+
+// ─── Enums ────────────────────────────────────────────────────────────────────
+
+export enum OpenHouseStatus {
+  SCHEDULED = 'scheduled',
+  CANCELLED = 'cancelled',
+  /** Set by the scheduler once the time window is over. */
+  COMPLETED = 'completed',
+}
+
+export enum RsvpStatus {
+  GOING = 'going',
+  CANCELLED = 'cancelled',
+}
+
+// ─── Sub-documents ────────────────────────────────────────────────────────────
+
+@Schema({ timestamps: true })
+export class OpenHouseRsvp {
+  _id!: Types.ObjectId;
+
+  /** Empty for walk-ins recorded by the host at the door. */
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  userId?: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop({ trim: true, lowercase: true })
+  email?: string;
+
+  @Prop({ trim: true })
+  phone?: string;
+
+  /** Seats taken, the visitor included. */
+  @Prop({ default: 1, min: 1 })
+  partySize: number;
+
+  @Prop({
+    type: String,
+    enum: Object.values(RsvpStatus),
+    default: RsvpStatus.GOING,
+  })
+  status: RsvpStatus;
+
+  @Prop({ default: false })
+  walkIn: boolean;
+
+  @Prop({ default: false })
+  attended: boolean;
+
+  @Prop()
+  attendedAt?: Date;
+
+  /** Lead created or updated when attendance was marked. */
+  @Prop({ type: Types.ObjectId, ref: 'Lead' })
+  leadId?: Types.ObjectId;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const OpenHouseRsvpSchema = SchemaFactory.createForClass(OpenHouseRsvp);
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+
+/**
+ * A group viewing of a sale or rental listing, open to anyone who RSVPs
+ * while seats remain.
+ */
+@Schema({ timestamps: true })
+export class OpenHouse {
+  _id!: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Property', required: true })
+  propertyId: Types.ObjectId;
+
+  /** Agent or owner running the viewing; receives RSVPs. */
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  hostId: Types.ObjectId;
+
+  /** Copied from the listing so upcoming events can be listed by city. */
+  @Prop({ required: true, lowercase: true, trim: true })
+  city: string;
+
+  @Prop({ trim: true, maxlength: 120 })
+  title?: string;
+
+  @Prop({ trim: true, maxlength: 1000 })
+  description?: string;
+
+  /** Where to meet when it is not obvious from the address. */
+  @Prop({ trim: true, maxlength: 300 })
+  meetingPoint?: string;
+
+  @Prop({ required: true })
+  startsAt: Date;
+
+  @Prop({ required: true })
+  endsAt: Date;
+
+  @Prop({ required: true, min: 1 })
+  capacity: number;
+
+  /** Sum of partySize over GOING RSVPs; kept in step with `rsvps`. */
+  @Prop({ default: 0, min: 0 })
+  seatsTaken: number;
+
+  @Prop({ type: [OpenHouseRsvpSchema], default: [] })
+  rsvps: OpenHouseRsvp[];
+
+  @Prop({
+    type: String,
+    enum: Object.values(OpenHouseStatus),
+    default: OpenHouseStatus.SCHEDULED,
+  })
+  status: OpenHouseStatus;
+
+  @Prop()
+  cancellationReason?: string;
+
+  @Prop()
+  reminderSentAt?: Date;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const OpenHouseSchema = SchemaFactory.createForClass(OpenHouse);
+
+OpenHouseSchema.index({ status: 1, city: 1, startsAt: 1 }); // public listing
+OpenHouseSchema.index({ propertyId: 1, startsAt: 1 });
+OpenHouseSchema.index({ hostId: 1, startsAt: -1 });
+OpenHouseSchema.index({ 'rsvps.userId': 1, startsAt: -1 });
+OpenHouseSchema.index({ status: 1, reminderSentAt: 1, startsAt: 1 }); // reminder job
@@ -70,6 +70,27 @@ export class PaymentsController {
     return this.paymentsService.initiateBookingPayment(bookingId, req.user);
   }
 
+  @Post('bookings/:bookingId/modifications/:modificationId/initiate')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Pay the price increase of an approved booking change',
+    description:
+      'Same flow as the booking payment, for the amount an approved change of dates or guests ' +
+      'added to a paid booking. Only the booking guest can call this endpoint.',
+  })
+  @ApiParam({ name: 'bookingId', description: 'Booking ID' })
+  @ApiParam({ name: 'modificationId', description: 'Change request ID' })
+  @ApiResponse({ status: 201, description: 'Returns { transaction, paymentLink, txRef }' })
+  @ApiResponse({ status: 400, description: 'Nothing is owed for this change' })
+  @ApiResponse({ status: 403, description: 'Caller is not the booking guest' })
+  async initiateModificationPayment(
+    @Param('bookingId') bookingId: string,
+    @Param('modificationId') modificationId: string,
+    @Req() req: any,
+  ) {
+    return this.paymentsService.initiateModificationPayment(bookingId, modificationId, req.user);
+  }
+
   // ── Verify payment ────────────────────────────────────────────────────────
 
   @Post('verify')
@@ -14,7 +14,7 @@ import {
 } from '../schemas/transaction.schema';
 import {
   Booking, BookingDocument,
-  BookingStatus, PaymentStatus,
+  BookingStatus, PaymentStatus, ModificationStatus,
 } from '../../bookings/schema/booking.schema';
 import { InitializePaymentDto, VerifyPaymentDto, TransactionQueryDto } from '../dto/payment.dto';
 import { NotificationsService } from '../../notifications/notifications.service';
@@ -27,6 +27,12 @@ export class PaymentsService {
   /** Platform fee taken from each booking payout (10%) */
   private readonly BOOKING_PLATFORM_FEE_RATE = 0.10;
 
+  /** An unpaid booking keeps its nights at least this long once the guest starts paying */
+  private readonly PAYMENT_HOLD_MINUTES = 30;
+
+  /** How long a started booking payment counts as in flight (slow mobile money approvals) */
+  private readonly PAYMENT_IN_FLIGHT_HOURS = 2;
+
   constructor(
     @InjectModel(Transaction.name) private transactionModel: Model<TransactionDocument>,
     @InjectModel(Booking.name) private bookingModel: Model<BookingDocument>,
@@ -143,7 +149,8 @@ export class PaymentsService {
   // ════════════════════════════════════════════════════════════════════════
   // NEW — initiateBookingPayment
   // Call this right after createBooking(). Only the booking guest can call it.
-  // Idempotent: returns the existing pending transaction if one exists.
+  // Idempotent: returns the existing pending transaction while it is still
+  // for the amount due.
   // ════════════════════════════════════════════════════════════════════════
 
   async initiateBookingPayment(
@@ -169,24 +176,41 @@ export class PaymentsService {
     if ([BookingStatus.CANCELLED, BookingStatus.REJECTED].includes(booking.status)) {
       throw new BadRequestException('Cannot pay for a cancelled or rejected booking');
     }
+    const owesChange = (booking.modifications ?? []).some(
+      (m) => m.settlement?.type === 'charge' && m.settlement.status !== 'processed',
+    );
+    if (booking.paymentStatus === PaymentStatus.PARTIALLY_PAID && owesChange) {
+      throw new BadRequestException('Pay the outstanding booking change instead');
+    }
+
+    // A partly paid booking is charged what it still owes
+    const amount = booking.paymentStatus === PaymentStatus.PARTIALLY_PAID
+      ? booking.balanceDue ?? 0
+      : booking.priceBreakdown.totalAmount;
+    if (amount <= 0) {
+      throw new BadRequestException('This booking has already been paid');
+    }
 
-    // ── Idempotency: reuse if a pending transaction already exists ──────────
+    // ── Idempotency: reuse a pending transaction still for the amount due ──
     const existing = await this.transactionModel.findOne({
       bookingId: new Types.ObjectId(bookingId),
+      type: TransactionType.BOOKING,
       status: TransactionStatus.PENDING,
+      'metadata.modificationId': { $exists: false },
     });
-    if (existing?.flutterwavePaymentLink) {
+    if (existing?.flutterwavePaymentLink && existing.amount === amount) {
       this.logger.log(`Reusing pending transaction: ${existing._id}`);
+      await this.holdForPayment(booking._id);
       return {
         transaction: existing,
         paymentLink: existing.flutterwavePaymentLink,
         txRef: existing.flutterwaveReference!,
       };
     }
+    if (existing) await this.voidPendingBookingPayments(booking._id);
 
     // ── Build transaction ───────────────────────────────────────────────────
     const txRef = this.generateTransactionReference(TransactionType.BOOKING);
-    const amount = booking.priceBreakdown.totalAmount;
     const currency = (booking.currency as Currency) ?? Currency.XAF;
     const propertyTitle = (booking.propertyId as any)?.title ?? 'Property Booking';
 
@@ -263,6 +287,7 @@ export class PaymentsService {
     await this.bookingModel.findByIdAndUpdate(bookingId, {
       paymentReference: txRef,
     });
+    await this.holdForPayment(booking._id);
 
     this.logger.log(
       `Booking payment initiated | tx: ${transaction._id} | txRef: ${txRef} | ${amount} ${currency}`,
@@ -271,6 +296,243 @@ export class PaymentsService {
     return { transaction, paymentLink, txRef };
   }
 
+  /**
+   * Of the given bookings, those with a booking payment started less than
+   * PAYMENT_IN_FLIGHT_HOURS ago and not settled yet. Their holds must not
+   * lapse while the provider may still confirm the payment.
+   */
+  async bookingsAwaitingPayment(bookingIds: Types.ObjectId[]): Promise<Types.ObjectId[]> {
+    if (!bookingIds.length) return [];
+    return this.transactionModel.distinct('bookingId', {
+      bookingId: { $in: bookingIds },
+      type: TransactionType.BOOKING,
+      status: TransactionStatus.PENDING,
+      'metadata.modificationId': { $exists: false },
+      createdAt: { $gte: new Date(Date.now() - this.PAYMENT_IN_FLIGHT_HOURS * 3_600_000) },
+    });
+  }
+
+  /**
+   * Cancels the booking's pending payments, e.g. once an approved change has
+   * repriced it, so none of them can be reused for an amount no longer due.
+   */
+  async voidPendingBookingPayments(bookingId: Types.ObjectId): Promise<void> {
+    const { modifiedCount } = await this.transactionModel.updateMany(
+      {
+        bookingId,
+        type: TransactionType.BOOKING,
+        status: TransactionStatus.PENDING,
+        'metadata.modificationId': { $exists: false },
+      },
+      { $set: { status: TransactionStatus.CANCELLED, failureReason: 'Booking price changed' } },
+    );
+    if (modifiedCount) {
+      this.logger.log(`Voided ${modifiedCount} pending payment(s) of booking ${bookingId}`);
+    }
+  }
+
+  /** Pushes an unpaid booking's hold out so paying cannot outlast it. */
+  private async holdForPayment(bookingId: Types.ObjectId): Promise<void> {
+    // Bookings from before holds existed keep their creation-based deadline
+    await this.bookingModel.updateOne(
+      { _id: bookingId, paymentStatus: PaymentStatus.UNPAID, holdExpiresAt: { $exists: true } },
+      { $max: { holdExpiresAt: new Date(Date.now() + this.PAYMENT_HOLD_MINUTES * 60_000) } },
+    );
+  }
+
+  // ════════════════════════════════════════════════════════════════════════
+  // Booking modifications — the guest pays a price increase, or is refunded
+  // a decrease, after the host approves a change of dates or guests.
+  // ════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Payment link for the amount an approved modification added to a paid
+   * booking. Only the booking guest can call it. Idempotent like
+   * initiateBookingPayment.
+   */
+  async initiateModificationPayment(
+    bookingId: string,
+    modificationId: string,
+    user: User,
+  ): Promise<{ transaction: TransactionDocument; paymentLink: string; txRef: string }> {
+    const booking = await this.bookingModel
+      .findById(bookingId)
+      .populate('propertyId', 'title')
+      .exec();
+
+    if (!booking) throw new NotFoundException('Booking not found');
+    if (booking.guestId.toString() !== user._id.toString()) {
+      throw new ForbiddenException('Only the booking guest can pay for a booking change');
+    }
+
+    const modification = booking.modifications.find((m) => m._id.toString() === modificationId);
+    if (!modification) throw new NotFoundException('Booking change not found');
+    const { settlement } = modification;
+    if (
+      modification.status !== ModificationStatus.APPROVED ||
+      settlement?.type !== 'charge' ||
+      settlement.status === 'processed'
+    ) {
+      throw new BadRequestException('Nothing is owed for this booking change');
+    }
+
+    const existing = await this.transactionModel.findOne({
+      bookingId: booking._id,
+      'metadata.modificationId': modificationId,
+      status: TransactionStatus.PENDING,
+    });
+    if (existing?.flutterwavePaymentLink) {
+      return {
+        transaction: existing,
+        paymentLink: existing.flutterwavePaymentLink,
+        txRef: existing.flutterwaveReference!,
+      };
+    }
+
+    const txRef = this.generateTransactionReference(TransactionType.BOOKING);
+    const amount = settlement.amount;
+    const currency = (booking.currency as Currency) ?? Currency.XAF;
+    const propertyTitle = (booking.propertyId as any)?.title ?? 'Property Booking';
+    const description = `Booking change: ${propertyTitle} · ${booking.nights} night${booking.nights !== 1 ? 's' : ''}`;
+    const { platformFee, paymentProcessingFee, netAmount } = this.calculateFees(amount, PaymentMethod.CARD);
+
+    const transaction = new this.transactionModel({
+      userId: user._id,
+      bookingId: booking._id,
+      amount,
+      currency,
+      type: TransactionType.BOOKING,
+      status: TransactionStatus.PENDING,
+      paymentMethod: PaymentMethod.CARD,
+      flutterwaveReference: txRef,
+      description,
+      platformFee,
+      paymentProcessingFee,
+      netAmount,
+      customerName: user.name,
+      customerEmail: user.email,
+      customerPhone: (user as any).phoneNumber,
+      metadata: { bookingId, modificationId, propertyTitle },
+    });
+    await transaction.save();
+
+    const flwResponse = await this.flutterwaveService.initializePayment({
+      tx_ref: txRef,
+      amount,
+      currency,
+      redirect_url: `${this.configService.get<string>('FRONTEND_URL')}/dashboard/bookings/${bookingId}/payment-callback`,
+      customer: {
+        email: this.resolveCustomerEmail(user),
+        phonenumber: (user as any).phoneNumber ?? '',
+        name: user.name ?? '',
+      },
+      customizations: {
+        title: 'HoroHouse Stay Payment',
+        description,
+        logo: this.configService.get('APP_LOGO_URL'),
+      },
+      payment_options: 'card,mobilemoney,account,banktransfer',
+      meta: {
+        transactionId: transaction._id.toString(),
+        bookingId,
+        modificationId,
+        userId: user._id.toString(),
+        type: TransactionType.BOOKING,
+      },
+    });
+    const paymentLink = flwResponse.data.link;
+
+    transaction.flutterwavePaymentLink = paymentLink;
+    transaction.flutterwaveTransactionId = flwResponse.data?.id?.toString();
+    transaction.paymentProviderResponse = flwResponse;
+    await transaction.save();
+
+    await this.bookingModel.updateOne(
+      { _id: booking._id, 'modifications._id': modification._id },
+      { $set: { 'modifications.$.settlement.reference': txRef } },
+    );
+
+    this.logger.log(
+      `Booking change payment initiated | tx: ${transaction._id} | booking: ${bookingId} | ${amount} ${currency}`,
+    );
+    return { transaction, paymentLink, txRef };
+  }
+
+  /**
+   * Refunds part of a paid booking through Flutterwave, against the payment
+   * that paid for it, and takes the host's share of that amount back from
+   * their wallet. Throws if the gateway refuses the refund.
+   */
+  async refundBookingDifference(
+    booking: BookingDocument,
+    amount: number,
+    reason: string,
+  ): Promise<TransactionDocument> {
+    const payment = await this.transactionModel
+      .findOne({
+        bookingId: booking._id,
+        type: TransactionType.BOOKING,
+        status: TransactionStatus.SUCCESS,
+        flutterwaveTransactionId: { $exists: true },
+      })
+      .sort({ createdAt: 1 })
+      .exec();
+    if (!payment) {
+      throw new BadRequestException('No completed payment to refund for this booking');
+    }
+
+    const refund = await this.refundPayment(booking, payment, amount, reason);
+
+    // The host was paid their share of the full amount when the guest paid
+    const hostShare = amount - Math.round(amount * this.BOOKING_PLATFORM_FEE_RATE);
+    try {
+      await this.walletService.debitWallet(
+        booking.hostId.toString(),
+        hostShare,
+        `Booking refund to guest: ${reason}`,
+        refund.flutterwaveReference,
+      );
+    } catch (error) {
+      // Already withdrawn — the guest is refunded anyway; settled by hand
+      this.logger.warn(
+        `Could not take back ${hostShare} from host ${booking.hostId} for refund ${refund._id}: ${(error as Error).message}`,
+      );
+    }
+
+    this.logger.log(`Booking refund | booking: ${booking._id} | ${amount} ${booking.currency} | tx: ${refund._id}`);
+    return refund;
+  }
+
+  /** Refunds `amount` of one payment through Flutterwave and records the REFUND transaction. */
+  private async refundPayment(
+    booking: BookingDocument,
+    payment: TransactionDocument,
+    amount: number,
+    reason: string,
+  ): Promise<TransactionDocument> {
+    const response = await this.flutterwaveService.createRefund(payment.flutterwaveTransactionId!, amount);
+
+    const refund = new this.transactionModel({
+      userId: booking.guestId,
+      bookingId: booking._id,
+      propertyId: booking.propertyId,
+      amount,
+      currency: booking.currency ?? Currency.XAF,
+      type: TransactionType.REFUND,
+      status: TransactionStatus.SUCCESS,
+      paymentMethod: payment.paymentMethod,
+      flutterwaveReference: `REFUND-${payment.flutterwaveReference}-${Date.now()}`,
+      description: `Booking refund: ${reason}`,
+      refundReason: reason,
+      refundedAt: new Date(),
+      completedAt: new Date(),
+      paymentProviderResponse: response,
+      metadata: { bookingId: booking._id.toString(), paymentTransactionId: payment._id.toString() },
+    });
+    await refund.save();
+    return refund;
+  }
+
   // ════════════════════════════════════════════════════════════════════════
   // EXISTING — verifyPayment (unchanged)
   // ════════════════════════════════════════════════════════════════════════
@@ -285,7 +547,7 @@ export class PaymentsService {
       });
 
       if (!transaction) throw new NotFoundException('Transaction not found');
-      if (transaction.status === TransactionStatus.SUCCESS) return transaction;
+      if ([TransactionStatus.SUCCESS, TransactionStatus.REFUNDED].includes(transaction.status)) return transaction;
 
       const flutterwaveTransactionId =
         transaction.flutterwaveTransactionId || dto.flutterwaveReference;
@@ -353,8 +615,8 @@ export class PaymentsService {
         // ── Incoming payments (bookings, subscriptions, etc.) ─────────────────
         case 'charge.completed':
           if (data.status === 'successful' && data.amount >= transaction.amount) {
-            if (transaction.status === TransactionStatus.SUCCESS) {
-              this.logger.log(`Duplicate webhook for already-successful tx: ${transaction._id}`);
+            if ([TransactionStatus.SUCCESS, TransactionStatus.REFUNDED].includes(transaction.status)) {
+              this.logger.log(`Duplicate webhook for already-settled tx: ${transaction._id}`);
               return;
             }
             transaction.status = TransactionStatus.SUCCESS;
@@ -492,7 +754,12 @@ export class PaymentsService {
 
     switch (transaction.type) {
       case TransactionType.BOOKING:
-        await this.confirmBookingPayment(transaction);
+        if (await this.refundIfBookingEnded(transaction)) break;
+        if (transaction.metadata?.modificationId) {
+          await this.confirmModificationPayment(transaction);
+        } else {
+          await this.confirmBookingPayment(transaction);
+        }
         break;
 
       // Subscription and boost cases are handled by their own services
@@ -503,6 +770,33 @@ export class PaymentsService {
     }
   }
 
+  /**
+   * A payment can complete after its booking was cancelled or rejected, e.g.
+   * once the hold ran out and the scheduler gave its nights away. The guest
+   * gets the money back instead of a paid booking; a refund the gateway
+   * refuses flags the payment for a manual one. Returns whether it did so.
+   */
+  private async refundIfBookingEnded(transaction: TransactionDocument): Promise<boolean> {
+    if (!transaction.bookingId) return false;
+    const booking = await this.bookingModel.findById(transaction.bookingId).exec();
+    if (!booking || [BookingStatus.PENDING, BookingStatus.CONFIRMED].includes(booking.status)) return false;
+
+    const reason = `booking ${booking.status} before the payment completed`;
+    transaction.refundReason = reason;
+    try {
+      const refund = await this.refundPayment(booking, transaction, transaction.amount, reason);
+      transaction.status = TransactionStatus.REFUNDED;
+      transaction.refundedAt = new Date();
+      transaction.refundTransactionId = refund._id as Types.ObjectId;
+      this.logger.warn(`Payment ${transaction._id} arrived for ${booking.status} booking ${booking._id} — refunded`);
+    } catch (error) {
+      transaction.metadata = { ...transaction.metadata, needsManualRefund: true };
+      this.logger.error(`Could not refund late payment ${transaction._id} of booking ${booking._id}`, error);
+    }
+    await transaction.save();
+    return true;
+  }
+
   /**
    * Marks the booking as paid and auto-confirms if instant-bookable.
    */
@@ -525,8 +819,20 @@ export class PaymentsService {
       return;
     }
 
+    // Paying off the balance of a partly paid booking
+    if (booking.paymentStatus === PaymentStatus.PARTIALLY_PAID) {
+      await this.settleBalance(booking._id, transaction.amount);
+      const propertyTitle = transaction.metadata?.propertyTitle ?? 'Property';
+      await this.creditHostPayout(booking, transaction, transaction.amount, `Booking balance: ${propertyTitle}`);
+      this.logger.log(`Booking balance paid | booking: ${booking._id} | txRef: ${transaction.flutterwaveReference}`);
+      return;
+    }
+
+    // A payment started before a change repriced the booking covers only part of it
+    const balanceDue = Math.max(0, booking.priceBreakdown.totalAmount - transaction.amount);
     const update: Partial<BookingDocument> = {
-      paymentStatus: PaymentStatus.PAID,
+      paymentStatus: balanceDue > 0 ? PaymentStatus.PARTIALLY_PAID : PaymentStatus.PAID,
+      balanceDue,
       paymentReference: transaction.flutterwaveReference,
       paymentMethod: transaction.paymentMethod,
       paidAt: transaction.completedAt ?? new Date(),
@@ -549,18 +855,47 @@ export class PaymentsService {
     );
 
     // ── Credit the host wallet and create a COMMISSION transaction ──────────
-    const totalPaid = booking.priceBreakdown.totalAmount;
-    const platformCut = Math.round(totalPaid * this.BOOKING_PLATFORM_FEE_RATE);
-    const hostPayout = totalPaid - platformCut;
+    const totalPaid = transaction.amount;
     const hostIdStr = booking.hostId.toString();
     const currency = (booking.currency ?? 'XAF') as Currency;
-
     const propertyForPayout = (booking.propertyId as any);
     const propertyTitle = propertyForPayout?.title ?? 'Property';
+    const hostPayout = await this.creditHostPayout(
+      booking,
+      transaction,
+      totalPaid,
+      `Booking income: ${propertyTitle} - ${booking.nights} night${booking.nights !== 1 ? 's' : ''}`,
+    );
+
+    // ── Notify host that payment came in ─────────────────────────────────────
+    const guest = await this.userModel.findById(booking.guestId).select('name').lean();
+
+    await this.notificationsService.notifyPaymentReceived(hostIdStr, {
+      bookingId: booking._id.toString(),
+      propertyTitle,
+      guestName: (guest as any)?.name ?? 'A guest',
+      amount: hostPayout,
+      currency,
+    });
+  }
+
+  /**
+   * Records the host's share of a booking payment as a COMMISSION transaction
+   * on their account (their Payment Activity tab) and credits their wallet.
+   * Returns the share.
+   */
+  private async creditHostPayout(
+    booking: BookingDocument,
+    transaction: TransactionDocument,
+    totalPaid: number,
+    label: string,
+  ): Promise<number> {
+    const platformCut = Math.round(totalPaid * this.BOOKING_PLATFORM_FEE_RATE);
+    const hostPayout = totalPaid - platformCut;
+    const hostIdStr = booking.hostId.toString();
+    const currency = (booking.currency ?? 'XAF') as Currency;
 
-    // 1. Create a Transaction record under the host's account (type: COMMISSION)
-    //    so it shows up in their Payment Activity tab as income.
-    const commissionDesc: string = `Booking income: ${propertyTitle} - ${booking.nights} night${booking.nights !== 1 ? 's' : ''} (net after ${this.BOOKING_PLATFORM_FEE_RATE * 100}% platform fee)`;
+    const commissionDesc: string = `${label} (net after ${this.BOOKING_PLATFORM_FEE_RATE * 100}% platform fee)`;
     const commissionTx = new this.transactionModel({
       userId: booking.hostId,
       bookingId: booking._id,
@@ -587,7 +922,6 @@ export class PaymentsService {
     });
     await commissionTx.save();
 
-    // 2. Credit the host's wallet balance.
     await this.walletService.creditWallet(
       hostIdStr,
       hostPayout,
@@ -600,17 +934,54 @@ export class PaymentsService {
       `Host payout | host: ${hostIdStr} | payout: ${hostPayout} ${currency} | ` +
       `platform fee: ${platformCut} | booking: ${booking._id}`,
     );
+    return hostPayout;
+  }
 
-    // ── Notify host that payment came in ─────────────────────────────────────
-    const guest = await this.userModel.findById(booking.guestId).select('name').lean();
+  /**
+   * Settles the charge of an approved booking change and pays the host
+   * their share of it.
+   */
+  private async confirmModificationPayment(transaction: TransactionDocument): Promise<void> {
+    const modificationId = new Types.ObjectId(transaction.metadata!.modificationId as string);
+
+    // Idempotency: only the first success flips the settlement
+    const booking = await this.bookingModel.findOneAndUpdate(
+      {
+        _id: transaction.bookingId,
+        modifications: { $elemMatch: { _id: modificationId, 'settlement.status': { $ne: 'processed' } } },
+      },
+      {
+        $set: {
+          'modifications.$.settlement.status': 'processed',
+          'modifications.$.settlement.reference': transaction.flutterwaveReference,
+        },
+      },
+      { new: true },
+    );
+    if (!booking) {
+      this.logger.log(`Booking change ${modificationId} already settled — skipping`);
+      return;
+    }
 
-    await this.notificationsService.notifyPaymentReceived(hostIdStr, {
-      bookingId: booking._id.toString(),
-      propertyTitle,
-      guestName: (guest as any)?.name ?? 'A guest',
-      amount: hostPayout,
-      currency,
-    });
+    await this.settleBalance(booking._id, transaction.amount);
+    const propertyTitle = transaction.metadata?.propertyTitle ?? 'Property';
+    await this.creditHostPayout(booking, transaction, transaction.amount, `Booking change: ${propertyTitle}`);
+    this.logger.log(`Booking change payment confirmed | booking: ${booking._id} | change: ${modificationId}`);
+  }
+
+  /**
+   * Takes a payment off a partly paid booking's balance, marking the booking
+   * PAID once nothing is owed.
+   */
+  private async settleBalance(bookingId: Types.ObjectId, amount: number): Promise<void> {
+    await this.bookingModel.updateOne(
+      { _id: bookingId, paymentStatus: PaymentStatus.PARTIALLY_PAID },
+      { $inc: { balanceDue: -amount } },
+    );
+    await this.bookingModel.updateOne(
+      { _id: bookingId, paymentStatus: PaymentStatus.PARTIALLY_PAID, balanceDue: { $lte: 0 } },
+      { $set: { paymentStatus: PaymentStatus.PAID, balanceDue: 0 } },
+    );
   }
 
   private generateTransactionReference(type: TransactionType): string {
@@ -0,0 +1,193 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from '@nestjs/swagger';
+import { PricingRuleType } from '../schemas/pricing-rule.schema';
+
+/** Longest window the nightly-rate calendar returns in one call. */
+export const MAX_CALENDAR_DAYS = 366;
+
+export class CreatePricingRuleDto {
+  @ApiProperty({ enum: PricingRuleType })
+  @IsEnum(PricingRuleType)
+  type: PricingRuleType;
+
+  @ApiPropertyOptional({
+    description: 'Limit the rule to one room of the property',
+  })
+  @IsOptional()
+  @IsMongoId()
+  roomId?: string;
+
+  @ApiPropertyOptional({ example: 'CAN 2027' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(80)
+  name?: string;
+
+  @ApiPropertyOptional({
+    example: '2026-12-20',
+    description: 'First night (date overrides and seasons)',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({
+    example: '2027-01-02',
+    description: 'Last night, included (date overrides and seasons)',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiPropertyOptional({
+    example: [5, 6],
+    description: 'Weekend nights, 0 = Sunday … 6 = Saturday (default Fri, Sat)',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(7)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  daysOfWeek?: number[];
+
+  @ApiPropertyOptional({
+    example: 45000,
+    description: 'Nightly price replacing the usual one',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  price?: number;
+
+  @ApiPropertyOptional({
+    example: 25,
+    description: 'Percent added to (or, negative, taken off) the nightly price',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(500)
+  adjustmentPct?: number;
+
+  @ApiPropertyOptional({
+    example: 10,
+    description:
+      'Percent off the stay (last-minute, early-bird, length of stay)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(90)
+  discountPct?: number;
+
+  @ApiPropertyOptional({
+    example: 3,
+    description: 'Last minute: check-in at most this many days away',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  withinDays?: number;
+
+  @ApiPropertyOptional({
+    example: 60,
+    description: 'Early bird: check-in at least this many days away',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  minDaysInAdvance?: number;
+
+  @ApiPropertyOptional({
+    example: 14,
+    description: 'Length of stay: stays of at least this many nights',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  minNights?: number;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdatePricingRuleDto extends PartialType(
+  OmitType(CreatePricingRuleDto, ['type', 'roomId'] as const),
+) {}
+
+export class PricingCalendarQueryDto {
+  @ApiProperty({ example: '2026-12-01' })
+  @IsDateString()
+  from: string;
+
+  @ApiProperty({ example: '2027-01-01', description: 'Excluded' })
+  @IsDateString()
+  to: string;
+
+  @ApiPropertyOptional({ description: 'Rates and availability of one room' })
+  @IsOptional()
+  @IsMongoId()
+  roomId?: string;
+}
+
+/** Longest window smart pricing suggests prices for in one call. */
+export const MAX_SUGGESTION_DAYS = 90;
+
+export class SmartPricingSuggestionQueryDto {
+  @ApiProperty({ example: '2026-12-01' })
+  @IsDateString()
+  from: string;
+
+  @ApiProperty({ example: '2027-01-01', description: 'Excluded' })
+  @IsDateString()
+  to: string;
+}
+
+export class UpdateSmartPricingDto {
+  @ApiProperty({
+    description:
+      'Write the suggestions as date overrides every night, within the bounds',
+  })
+  @IsBoolean()
+  autoApply: boolean;
+
+  @ApiPropertyOptional({
+    example: 15000,
+    description: 'Never suggest below this nightly price',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minPrice?: number;
+
+  @ApiPropertyOptional({
+    example: 60000,
+    description: 'Never suggest above this nightly price',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxPrice?: number;
+}
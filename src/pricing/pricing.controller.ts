@@ -0,0 +1,175 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Put,
+  Delete,
+  Param,
+  Body,
+  Query,
+  Req,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { FastifyRequest } from 'fastify';
+
+import { PricingService } from './pricing.service';
+import { SmartPricingService } from './smart-pricing.service';
+import {
+  CreatePricingRuleDto,
+  PricingCalendarQueryDto,
+  SmartPricingSuggestionQueryDto,
+  UpdatePricingRuleDto,
+  UpdateSmartPricingDto,
+} from './dto/pricing-rule.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { RolesGuard, Roles, Public } from '../auth/guards/roles.guard';
+import { User, UserRole } from '../users/schemas/user.schema';
+
+@ApiTags('Pricing')
+@Controller('pricing')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class PricingController {
+  constructor(
+    private readonly pricingService: PricingService,
+    private readonly smartPricingService: SmartPricingService,
+  ) {}
+
+  @Get('properties/:propertyId/calendar')
+  @Public()
+  @ApiOperation({
+    summary: 'Nightly rates and availability of a short-term listing',
+    description:
+      'One entry per night in [from, to) with the rate after weekend, seasonal and date rules, the rules applied and whether the night can be booked. Stay discounts are listed separately since they depend on the stay.',
+  })
+  @ApiParam({ name: 'propertyId', description: 'Property ID' })
+  async calendar(
+    @Param('propertyId') propertyId: string,
+    @Query() query: PricingCalendarQueryDto,
+  ) {
+    return this.pricingService.calendar(propertyId, query);
+  }
+
+  // ─── Host rules ─────────────────────────────────────────────────────────────
+
+  @Get('properties/:propertyId/rules')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Pricing rules of a property and its rooms' })
+  @ApiParam({ name: 'propertyId', description: 'Property ID' })
+  async listRules(
+    @Param('propertyId') propertyId: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.pricingService.listRules(propertyId, req.user);
+  }
+
+  @Post('properties/:propertyId/rules')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Add a pricing rule',
+    description:
+      'date_override needs startDate, endDate and price; seasonal needs startDate, endDate and a price or adjustmentPct; weekend needs a price or adjustmentPct; last_minute needs withinDays, early_bird minDaysInAdvance and length_of_stay minNights, each with a discountPct.',
+  })
+  @ApiParam({ name: 'propertyId', description: 'Property ID' })
+  @ApiResponse({ status: 400, description: 'Missing fields for the rule type' })
+  async createRule(
+    @Param('propertyId') propertyId: string,
+    @Body() dto: CreatePricingRuleDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.pricingService.createRule(propertyId, dto, req.user);
+  }
+
+  @Patch('rules/:ruleId')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Edit a pricing rule' })
+  @ApiParam({ name: 'ruleId', description: 'Pricing rule ID' })
+  async updateRule(
+    @Param('ruleId') ruleId: string,
+    @Body() dto: UpdatePricingRuleDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.pricingService.updateRule(ruleId, dto, req.user);
+  }
+
+  @Delete('rules/:ruleId')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove a pricing rule' })
+  @ApiParam({ name: 'ruleId', description: 'Pricing rule ID' })
+  async removeRule(
+    @Param('ruleId') ruleId: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    await this.pricingService.removeRule(ruleId, req.user);
+  }
+
+  // ─── Smart pricing ──────────────────────────────────────────────────────────
+
+  @Get('properties/:propertyId/suggestions')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Smart pricing: suggested nightly prices from local demand',
+    description:
+      'Per night in [from, to): the current rate, the suggested price and the factors behind it (market rate, occupancy of comparable listings, booking lead time, city search trend). Requires a plan with smart pricing.',
+  })
+  @ApiParam({ name: 'propertyId', description: 'Property ID' })
+  @ApiResponse({
+    status: 403,
+    description: 'Plan does not include smart pricing',
+  })
+  async suggestions(
+    @Param('propertyId') propertyId: string,
+    @Query() query: SmartPricingSuggestionQueryDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.smartPricingService.suggestions(propertyId, query, req.user);
+  }
+
+  @Get('properties/:propertyId/smart-pricing')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Smart pricing settings of a property' })
+  @ApiParam({ name: 'propertyId', description: 'Property ID' })
+  async getSmartPricing(
+    @Param('propertyId') propertyId: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.smartPricingService.getSettings(propertyId, req.user);
+  }
+
+  @Put('properties/:propertyId/smart-pricing')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Set smart pricing bounds and turn auto-apply on or off',
+    description:
+      'With auto-apply on, suggestions for the next 60 nights are written as date overrides within [minPrice, maxPrice] and refreshed nightly. Nights you priced yourself are left alone.',
+  })
+  @ApiParam({ name: 'propertyId', description: 'Property ID' })
+  @ApiResponse({
+    status: 403,
+    description: 'Plan does not include smart pricing',
+  })
+  async updateSmartPricing(
+    @Param('propertyId') propertyId: string,
+    @Body() dto: UpdateSmartPricingDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.smartPricingService.updateSettings(propertyId, dto, req.user);
+  }
+}
@@ -0,0 +1,42 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+
+import { PricingRule, PricingRuleSchema } from './schemas/pricing-rule.schema';
+import {
+  SmartPricingSetting,
+  SmartPricingSettingSchema,
+} from './schemas/smart-pricing-setting.schema';
+import {
+  Property,
+  PropertySchema,
+} from '../properties/schemas/property.schema';
+import { Room, RoomSchema } from '../rooms/schemas/room.schema';
+import {
+  BookingNight,
+  BookingNightSchema,
+} from '../bookings/schema/booking-night.schema';
+import { Booking, BookingSchema } from '../bookings/schema/booking.schema';
+import { PricingService } from './pricing.service';
+import { SmartPricingService } from './smart-pricing.service';
+import { PricingController } from './pricing.controller';
+import { HistoryModule } from '../history/history.module';
+import { PaymentsModule } from '../payments/payments.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: PricingRule.name, schema: PricingRuleSchema },
+      { name: SmartPricingSetting.name, schema: SmartPricingSettingSchema },
+      { name: Property.name, schema: PropertySchema },
+      { name: Room.name, schema: RoomSchema },
+      { name: BookingNight.name, schema: BookingNightSchema },
+      { name: Booking.name, schema: BookingSchema },
+    ]),
+    HistoryModule,
+    PaymentsModule,
+  ],
+  controllers: [PricingController],
+  providers: [PricingService, SmartPricingService],
+  exports: [PricingService],
+})
+export class PricingModule {}
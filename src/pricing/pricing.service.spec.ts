@@ -0,0 +1,94 @@
+import { Model, Types } from 'mongoose';
+import sift from 'sift';
+
+import { PricingService, PricedListing } from './pricing.service';
+import {
+  PricingRuleDocument,
+  PricingRuleSource,
+  PricingRuleType,
+} from './schemas/pricing-rule.schema';
+import { PropertyDocument } from '../properties/schemas/property.schema';
+import { RoomDocument } from '../rooms/schemas/room.schema';
+import { BookingNightDocument } from '../bookings/schema/booking-night.schema';
+
+/** find / findOne over an array with Mongo query semantics. */
+function collection<T>(docs: T[]) {
+  const query = (result: unknown) => {
+    const chain = {
+      sort: () => chain,
+      select: () => chain,
+      lean: () => chain,
+      exec: () => Promise.resolve(result),
+    };
+    return chain;
+  };
+  return {
+    find: (filter: Record<string, unknown>) => query(docs.filter(sift(filter))),
+    findOne: (filter: Record<string, unknown>) =>
+      query(docs.find(sift(filter)) ?? null),
+  };
+}
+
+describe('PricingService', () => {
+  const day = (d: number) => new Date(Date.UTC(2026, 7, d));
+  const listing = {
+    _id: new Types.ObjectId(),
+    price: 30_000,
+    currency: 'XAF',
+    cleaningFee: 0,
+  } as PricedListing;
+  const roomId = new Types.ObjectId();
+  const rule = (fields: Record<string, unknown>) => ({
+    propertyId: listing._id,
+    roomId: null,
+    type: PricingRuleType.DATE_OVERRIDE,
+    source: PricingRuleSource.HOST,
+    isActive: true,
+    createdAt: new Date(),
+    ...fields,
+  });
+
+  function setup(rules: Record<string, unknown>[]) {
+    return new PricingService(
+      collection(rules) as unknown as Model<PricingRuleDocument>,
+      collection([]) as unknown as Model<PropertyDocument>,
+      collection([
+        { _id: roomId, propertyId: listing._id, price: 12_000 },
+      ]) as unknown as Model<RoomDocument>,
+      collection([]) as unknown as Model<BookingNightDocument>,
+    );
+  }
+
+  it('prices a room from its own rate on a property with smart pricing on', async () => {
+    const pricing = setup([
+      rule({
+        source: PricingRuleSource.SMART,
+        startDate: day(10),
+        endDate: day(10),
+        price: 36_000,
+      }),
+      rule({
+        name: 'Fête',
+        startDate: day(11),
+        endDate: day(11),
+        price: 15_000,
+      }),
+    ]);
+
+    const room = await pricing.quote(
+      listing,
+      day(9),
+      day(12),
+      roomId.toString(),
+    );
+    const whole = await pricing.quote(listing, day(9), day(12));
+
+    // The host's own override still reaches the room; the smart price does not
+    expect(room.nightlyRates.map((n) => n.rate)).toEqual([
+      12_000, 12_000, 15_000,
+    ]);
+    expect(whole.nightlyRates.map((n) => n.rate)).toEqual([
+      30_000, 36_000, 15_000,
+    ]);
+  });
+});
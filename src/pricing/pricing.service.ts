@@ -0,0 +1,417 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+
+import {
+  PricingRule,
+  PricingRuleDocument,
+  PricingRuleSource,
+  PricingRuleType,
+} from './schemas/pricing-rule.schema';
+import {
+  CreatePricingRuleDto,
+  MAX_CALENDAR_DAYS,
+  PricingCalendarQueryDto,
+  UpdatePricingRuleDto,
+} from './dto/pricing-rule.dto';
+import {
+  NightlyRate,
+  StayDiscount,
+  assertValidRule,
+  nightlyRates,
+  stayDiscounts,
+} from './utils/pricing.util';
+import {
+  Property,
+  PropertyDocument,
+} from '../properties/schemas/property.schema';
+import { Room, RoomDocument } from '../rooms/schemas/room.schema';
+import {
+  BookingNight,
+  BookingNightDocument,
+} from '../bookings/schema/booking-night.schema';
+import {
+  canClaim,
+  nightsBetween,
+  startOfNight,
+} from '../bookings/utils/booking-nights.util';
+import {
+  BASE_CURRENCY,
+  normalizeCurrency,
+  roundAmount,
+} from '../currency/utils/currency-conversion.util';
+import { User, UserRole } from '../users/schemas/user.schema';
+
+const DAY_MS = 86_400_000;
+
+/** What a quote needs from the listing. */
+export type PricedListing = Pick<
+  Property,
+  | '_id'
+  | 'price'
+  | 'currency'
+  | 'cleaningFee'
+  | 'weeklyDiscountPercent'
+  | 'monthlyDiscountPercent'
+>;
+
+export interface StayQuote {
+  /** Listing currency; every amount below is in it. */
+  currency: string;
+  baseRate: number;
+  nightlyRates: NightlyRate[];
+  subtotal: number;
+  cleaningFee: number;
+  discounts: StayDiscount[];
+  discountAmount: number;
+}
+
+export interface CalendarNight extends NightlyRate {
+  available: boolean;
+}
+
+export interface PricingCalendar {
+  currency: string;
+  nights: CalendarNight[];
+  /** Discounts a stay in this window may get, depending on its length and timing. */
+  stayDiscounts: Pick<
+    PricingRule,
+    | 'type'
+    | 'name'
+    | 'discountPct'
+    | 'minNights'
+    | 'withinDays'
+    | 'minDaysInAdvance'
+  >[];
+}
+
+type UnavailableRange = { from: Date; to: Date };
+
+/**
+ * Host pricing rules for short-term listings and their rooms, and the
+ * nightly rates and stay discounts they produce for quotes and bookings.
+ */
+@Injectable()
+export class PricingService {
+  private readonly logger = new Logger(PricingService.name);
+
+  constructor(
+    @InjectModel(PricingRule.name)
+    private ruleModel: Model<PricingRuleDocument>,
+    @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+    @InjectModel(Room.name) private roomModel: Model<RoomDocument>,
+    @InjectModel(BookingNight.name)
+    private nightModel: Model<BookingNightDocument>,
+  ) {}
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // RULES
+  // ════════════════════════════════════════════════════════════════════════════
+
+  async listRules(propertyId: string, user: User): Promise<PricingRule[]> {
+    await this.assertCanManage(propertyId, user);
+    return this.ruleModel
+      .find({ propertyId: new Types.ObjectId(propertyId) })
+      .sort({ roomId: 1, type: 1, startDate: 1, createdAt: -1 })
+      .lean<PricingRule[]>()
+      .exec();
+  }
+
+  async createRule(
+    propertyId: string,
+    dto: CreatePricingRuleDto,
+    user: User,
+  ): Promise<PricingRule> {
+    await this.assertCanManage(propertyId, user);
+    if (dto.roomId) await this.findRoom(propertyId, dto.roomId);
+
+    const fields = this.toRuleFields(dto);
+    assertValidRule({ type: dto.type, ...fields });
+
+    const rule = await this.ruleModel.create({
+      ...fields,
+      type: dto.type,
+      propertyId: new Types.ObjectId(propertyId),
+      roomId: dto.roomId ? new Types.ObjectId(dto.roomId) : null,
+      createdBy: user._id,
+    });
+    this.logger.log(
+      `Pricing rule ${rule._id.toString()} (${dto.type}) added to ${propertyId}`,
+    );
+    return rule.toObject();
+  }
+
+  async updateRule(
+    ruleId: string,
+    dto: UpdatePricingRuleDto,
+    user: User,
+  ): Promise<PricingRule> {
+    const rule = await this.findManagedRule(ruleId, user);
+    const fields = this.toRuleFields(dto);
+    assertValidRule({ ...rule.toObject<PricingRule>(), ...fields });
+
+    rule.set(fields);
+    await rule.save();
+    return rule.toObject<PricingRule>();
+  }
+
+  async removeRule(ruleId: string, user: User): Promise<void> {
+    const rule = await this.findManagedRule(ruleId, user);
+    await rule.deleteOne();
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // QUOTES
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Prices a stay night by night from the listing (or room) price and the
+   * host's rules, then applies the stay discounts. Nothing is converted:
+   * the quote is in the listing currency.
+   */
+  async quote(
+    listing: PricedListing,
+    checkIn: Date,
+    checkOut: Date,
+    roomId?: string,
+    now = new Date(),
+  ): Promise<StayQuote> {
+    const currency = normalizeCurrency(listing.currency ?? BASE_CURRENCY);
+    const propertyId = listing._id.toString();
+    const room = roomId ? await this.findRoom(propertyId, roomId) : null;
+    const rules = await this.rulesFor(propertyId, roomId ?? null);
+
+    const baseRate = room?.price ?? listing.price ?? 0;
+    const nights = nightsBetween(checkIn, checkOut);
+    const rates = nightlyRates(baseRate, rules, nights, currency);
+    const subtotal = roundAmount(
+      rates.reduce((sum, n) => sum + n.rate, 0),
+      currency,
+    );
+    const daysUntilCheckIn = Math.round(
+      (startOfNight(checkIn).getTime() - startOfNight(now).getTime()) / DAY_MS,
+    );
+    const discounts = stayDiscounts(
+      subtotal,
+      nights.length,
+      daysUntilCheckIn,
+      rules,
+      {
+        weeklyPct: listing.weeklyDiscountPercent ?? 10,
+        monthlyPct: listing.monthlyDiscountPercent ?? 15,
+      },
+      currency,
+    );
+
+    return {
+      currency,
+      baseRate,
+      nightlyRates: rates,
+      subtotal,
+      cleaningFee: room?.cleaningFee ?? listing.cleaningFee ?? 0,
+      discounts,
+      discountAmount: discounts.reduce((sum, d) => sum + d.amount, 0),
+    };
+  }
+
+  /**
+   * Nightly rates over [from, to) with whether each night can still be
+   * booked, for the listing's calendar.
+   */
+  async calendar(
+    propertyId: string,
+    query: PricingCalendarQueryDto,
+  ): Promise<PricingCalendar> {
+    if (!Types.ObjectId.isValid(propertyId)) {
+      throw new BadRequestException('Invalid property ID');
+    }
+    const from = startOfNight(new Date(query.from));
+    const to = startOfNight(new Date(query.to));
+    if (to <= from) throw new BadRequestException('"to" must be after "from"');
+    if (to.getTime() - from.getTime() > MAX_CALENDAR_DAYS * DAY_MS) {
+      throw new BadRequestException(
+        `The calendar covers at most ${MAX_CALENDAR_DAYS} days at a time`,
+      );
+    }
+
+    const property = await this.propertyModel
+      .findOne({ _id: new Types.ObjectId(propertyId), isActive: true })
+      .select('price currency unavailableDates')
+      .lean<Pick<Property, 'price' | 'currency' | 'unavailableDates'>>()
+      .exec();
+    if (!property) throw new NotFoundException('Property not found');
+
+    const room = query.roomId
+      ? await this.findRoom(propertyId, query.roomId)
+      : null;
+    const currency = normalizeCurrency(property.currency ?? BASE_CURRENCY);
+    const rules = await this.rulesFor(propertyId, query.roomId ?? null);
+    const rates = nightlyRates(
+      room?.price ?? property.price ?? 0,
+      rules,
+      nightsBetween(from, to),
+      currency,
+    );
+
+    const claimed = await this.nightModel
+      .find({
+        propertyId: new Types.ObjectId(propertyId),
+        night: { $gte: from, $lt: to },
+      })
+      .select('night claims')
+      .lean<BookingNight[]>()
+      .exec();
+    const claimsByNight = new Map(
+      claimed.map((n) => [
+        n.night.getTime(),
+        n.claims.map((c) => ({
+          bookingId: c.bookingId.toString(),
+          roomId: c.roomId ? c.roomId.toString() : null,
+        })),
+      ]),
+    );
+    const blocked: UnavailableRange[] =
+      (room ?? property).unavailableDates ?? [];
+    const probe = { bookingId: '', roomId: query.roomId ?? null };
+
+    return {
+      currency,
+      nights: rates.map((rate) => {
+        const end = new Date(rate.date.getTime() + DAY_MS);
+        const isBlocked = blocked.some(
+          (r) => new Date(r.from) < end && new Date(r.to) > rate.date,
+        );
+        return {
+          ...rate,
+          available:
+            !isBlocked &&
+            canClaim(claimsByNight.get(rate.date.getTime()) ?? [], probe),
+        };
+      }),
+      stayDiscounts: rules
+        .filter((r) =>
+          [
+            PricingRuleType.LENGTH_OF_STAY,
+            PricingRuleType.LAST_MINUTE,
+            PricingRuleType.EARLY_BIRD,
+          ].includes(r.type),
+        )
+        .map((r) => ({
+          type: r.type,
+          name: r.name,
+          discountPct: r.discountPct,
+          minNights: r.minNights,
+          withinDays: r.withinDays,
+          minDaysInAdvance: r.minDaysInAdvance,
+        })),
+    };
+  }
+
+  /**
+   * Active rules for the property, or for one of its rooms, most specific
+   * first: room rules before property rules, the host's before smart pricing
+   * ones, newer before older. Smart prices are worked out from the listing
+   * price, so a room never takes the property's.
+   */
+  async rulesFor(
+    propertyId: string,
+    roomId: string | null,
+    { includeSmart = true } = {},
+  ): Promise<PricingRule[]> {
+    const scope = roomId
+      ? {
+          $or: [
+            { roomId: new Types.ObjectId(roomId) },
+            { roomId: null, source: { $ne: PricingRuleSource.SMART } },
+          ],
+        }
+      : { roomId: null };
+    const rules = await this.ruleModel
+      .find({
+        propertyId: new Types.ObjectId(propertyId),
+        isActive: true,
+        ...scope,
+        ...(!includeSmart && { source: { $ne: PricingRuleSource.SMART } }),
+      })
+      .sort({ createdAt: -1 })
+      .lean<PricingRule[]>()
+      .exec();
+    const rank = (r: PricingRule) =>
+      (r.roomId ? 0 : 2) + (r.source === PricingRuleSource.SMART ? 1 : 0);
+    return rules.sort((a, b) => rank(a) - rank(b));
+  }
+
+  // ─── Helpers ────────────────────────────────────────────────────────────────
+
+  /** DTO fields as stored: dates moved to their UTC midnight. */
+  private toRuleFields(dto: UpdatePricingRuleDto): Partial<PricingRule> {
+    const { startDate, endDate, ...rest } = dto;
+    return {
+      ...rest,
+      ...(startDate && { startDate: startOfNight(new Date(startDate)) }),
+      ...(endDate && { endDate: startOfNight(new Date(endDate)) }),
+    };
+  }
+
+  /** Throws unless the user owns, manages or administers the property. */
+  async assertCanManage(propertyId: string, user: User): Promise<void> {
+    if (!Types.ObjectId.isValid(propertyId)) {
+      throw new BadRequestException('Invalid property ID');
+    }
+    const property = await this.propertyModel
+      .findById(propertyId)
+      .select('ownerId agentId')
+      .lean<Pick<Property, 'ownerId' | 'agentId'>>()
+      .exec();
+    if (!property) throw new NotFoundException('Property not found');
+
+    const userId = user._id.toString();
+    const isManager =
+      property.ownerId?.toString() === userId ||
+      property.agentId?.toString() === userId ||
+      user.role === UserRole.ADMIN;
+    if (!isManager) {
+      throw new ForbiddenException(
+        'You can only manage pricing of your own properties',
+      );
+    }
+  }
+
+  private async findManagedRule(
+    ruleId: string,
+    user: User,
+  ): Promise<PricingRuleDocument> {
+    if (!Types.ObjectId.isValid(ruleId)) {
+      throw new BadRequestException('Invalid pricing rule ID');
+    }
+    const rule = await this.ruleModel.findById(ruleId).exec();
+    if (!rule) throw new NotFoundException('Pricing rule not found');
+    await this.assertCanManage(rule.propertyId.toString(), user);
+    return rule;
+  }
+
+  private async findRoom(
+    propertyId: string,
+    roomId: string,
+  ): Promise<Pick<Room, 'price' | 'cleaningFee' | 'unavailableDates'>> {
+    if (!Types.ObjectId.isValid(roomId)) {
+      throw new BadRequestException('Invalid room ID');
+    }
+    const room = await this.roomModel
+      .findOne({
+        _id: new Types.ObjectId(roomId),
+        propertyId: new Types.ObjectId(propertyId),
+      })
+      .select('price cleaningFee unavailableDates')
+      .lean<Pick<Room, 'price' | 'cleaningFee' | 'unavailableDates'>>()
+      .exec();
+    if (!room) throw new NotFoundException('Room not found');
+    return room;
+  }
+}
@@ -0,0 +1,105 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type PricingRuleDocument = PricingRule & Document;
+
+// ─── Enums ────────────────────────────────────────────────────────────────────
+
+export enum PricingRuleType {
+  /** Fixed nightly price on the nights from startDate to endDate. */
+  DATE_OVERRIDE = 'date_override',
+  /** Price or adjustment on given days of the week (Friday and Saturday by default). */
+  WEEKEND = 'weekend',
+  /** Price or adjustment over a named period: holidays, CAN or FECAFOOT match days… */
+  SEASONAL = 'seasonal',
+  /** Discount on stays booked at most `withinDays` before check-in. */
+  LAST_MINUTE = 'last_minute',
+  /** Discount on stays booked at least `minDaysInAdvance` before check-in. */
+  EARLY_BIRD = 'early_bird',
+  /** Discount on stays of at least `minNights`; the highest tier reached applies. */
+  LENGTH_OF_STAY = 'length_of_stay',
+}
+
+export enum PricingRuleSource {
+  HOST = 'host',
+  /** Written by smart pricing auto-apply; replaced on every run. */
+  SMART = 'smart',
+}
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+
+/**
+ * A host's pricing rule for a short-term listing, or for one of its rooms.
+ * Amounts are in the listing currency. Dates are UTC midnights and both ends
+ * of a range are nights the rule covers.
+ */
+@Schema({ timestamps: true, collection: 'pricing_rules' })
+export class PricingRule {
+  _id!: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Property', required: true })
+  propertyId: Types.ObjectId;
+
+  /** Set for a room rule; the host's property rules also apply to every room. */
+  @Prop({ type: Types.ObjectId, ref: 'Room', default: null })
+  roomId: Types.ObjectId | null;
+
+  @Prop({ type: String, enum: Object.values(PricingRuleType), required: true })
+  type: PricingRuleType;
+
+  /** Shown to guests next to the nights or discount it produces. */
+  @Prop({ trim: true, maxlength: 80 })
+  name?: string;
+
+  @Prop()
+  startDate?: Date;
+
+  @Prop()
+  endDate?: Date;
+
+  /** 0 = Sunday … 6 = Saturday. */
+  @Prop({ type: [Number], default: undefined })
+  daysOfWeek?: number[];
+
+  /** Replaces the nightly rate. */
+  @Prop({ min: 0 })
+  price?: number;
+
+  /** Raises (positive) or lowers (negative) the nightly rate, in percent. */
+  @Prop({ min: -90, max: 500 })
+  adjustmentPct?: number;
+
+  /** Discount on the stay subtotal, in percent. */
+  @Prop({ min: 0, max: 90 })
+  discountPct?: number;
+
+  @Prop({ min: 0 })
+  withinDays?: number;
+
+  @Prop({ min: 1 })
+  minDaysInAdvance?: number;
+
+  @Prop({ min: 2 })
+  minNights?: number;
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop({
+    type: String,
+    enum: Object.values(PricingRuleSource),
+    default: PricingRuleSource.HOST,
+  })
+  source: PricingRuleSource;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const PricingRuleSchema = SchemaFactory.createForClass(PricingRule);
+
+PricingRuleSchema.index({ propertyId: 1, roomId: 1, isActive: 1 });
+PricingRuleSchema.index({ propertyId: 1, source: 1 });
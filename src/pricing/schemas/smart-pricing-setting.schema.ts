@@ -0,0 +1,36 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SmartPricingSettingDocument = SmartPricingSetting & Document;
+
+/**
+ * A host's smart pricing choices for one listing. With autoApply on, the
+ * suggestions within [minPrice, maxPrice] are written as date overrides
+ * every night, as long as the host's plan includes smart pricing.
+ */
+@Schema({ timestamps: true, collection: 'smart_pricing_settings' })
+export class SmartPricingSetting {
+  @Prop({ type: Types.ObjectId, ref: 'Property', required: true, unique: true })
+  propertyId: Types.ObjectId;
+
+  @Prop({ default: false })
+  autoApply: boolean;
+
+  /** In the listing currency. */
+  @Prop({ min: 0 })
+  minPrice?: number;
+
+  @Prop({ min: 0 })
+  maxPrice?: number;
+
+  @Prop()
+  lastAppliedAt?: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy?: Types.ObjectId;
+}
+
+export const SmartPricingSettingSchema =
+  SchemaFactory.createForClass(SmartPricingSetting);
+
+SmartPricingSettingSchema.index({ autoApply: 1 });
@@ -0,0 +1,512 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model, Types } from 'mongoose';
+
+import {
+  SmartPricingSetting,
+  SmartPricingSettingDocument,
+} from './schemas/smart-pricing-setting.schema';
+import {
+  PricingRule,
+  PricingRuleDocument,
+  PricingRuleSource,
+  PricingRuleType,
+} from './schemas/pricing-rule.schema';
+import {
+  MAX_SUGGESTION_DAYS,
+  SmartPricingSuggestionQueryDto,
+  UpdateSmartPricingDto,
+} from './dto/pricing-rule.dto';
+import { PricingService } from './pricing.service';
+import { nightlyRates } from './utils/pricing.util';
+import {
+  ComparableBooking,
+  DemandSignals,
+  PriceBounds,
+  SearchTrend,
+  SuggestedNight,
+  averageLeadTimeDays,
+  occupancyByNight,
+  searchDemandIndex,
+  suggestNightlyPrices,
+} from './utils/smart-pricing.util';
+import {
+  ApprovalStatus,
+  ListingType,
+  Property,
+  PropertyDocument,
+  PropertyStatus,
+} from '../properties/schemas/property.schema';
+import {
+  Booking,
+  BookingDocument,
+  BookingStatus,
+} from '../bookings/schema/booking.schema';
+import {
+  nightsBetween,
+  startOfNight,
+} from '../bookings/utils/booking-nights.util';
+import { median } from '../financing/utils/financing.util';
+import { normalizeSearchText } from '../properties/utils/search-text.util';
+import {
+  BASE_CURRENCY,
+  normalizeCurrency,
+} from '../currency/utils/currency-conversion.util';
+import { HistoryService } from '../history/history.service';
+import { SubscriptionsService } from '../payments/services/subscriptions.service';
+import { CacheService } from '../cache/cache.service';
+import { User, UserRole } from '../users/schemas/user.schema';
+
+const DAY_MS = 86_400_000;
+
+/** How far ahead auto-apply writes prices. */
+const AUTO_APPLY_DAYS = 60;
+
+/** Fewer comparables than this and the property type is dropped. */
+const MIN_COMPARABLES = 5;
+const MAX_COMPARABLES = 200;
+/** Guests either side of the listing's capacity still count as comparable. */
+const CAPACITY_TOLERANCE = 2;
+
+const LEAD_TIME_WINDOW_DAYS = 90;
+const MAX_LEAD_TIME_SAMPLE = 1000;
+
+const SEARCH_RECENT_DAYS = 7;
+const SEARCH_BASELINE_DAYS = 28;
+const SEARCH_TREND_LIMIT = 500;
+const SEARCH_DEMAND_TTL_MS = 60 * 60_000;
+
+const SMART_RULE_NAME = 'Smart pricing';
+
+type SmartListing = Pick<
+  Property,
+  | '_id'
+  | 'city'
+  | 'type'
+  | 'price'
+  | 'currency'
+  | 'listingType'
+  | 'shortTermAmenities'
+  | 'ownerId'
+  | 'agentId'
+>;
+
+export interface SmartPricingSuggestions {
+  currency: string;
+  comparableCount: number;
+  signals: Omit<DemandSignals, 'occupancy'>;
+  bounds: PriceBounds;
+  nights: SuggestedNight[];
+}
+
+/**
+ * Suggested nightly prices from local demand: occupancy and booking lead
+ * times of comparable short-term listings (same city, type and capacity)
+ * and the city's search trend. Hosts whose plan includes `smartPricing` can
+ * see them and have them applied within their own bounds.
+ */
+@Injectable()
+export class SmartPricingService {
+  private readonly logger = new Logger(SmartPricingService.name);
+
+  constructor(
+    @InjectModel(SmartPricingSetting.name)
+    private settingModel: Model<SmartPricingSettingDocument>,
+    @InjectModel(PricingRule.name)
+    private ruleModel: Model<PricingRuleDocument>,
+    @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+    @InjectModel(Booking.name) private bookingModel: Model<BookingDocument>,
+    private pricingService: PricingService,
+    private historyService: HistoryService,
+    private subscriptionsService: SubscriptionsService,
+    private cacheService: CacheService,
+  ) {}
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // SUGGESTIONS
+  // ════════════════════════════════════════════════════════════════════════════
+
+  async suggestions(
+    propertyId: string,
+    query: SmartPricingSuggestionQueryDto,
+    user: User,
+  ): Promise<SmartPricingSuggestions> {
+    await this.pricingService.assertCanManage(propertyId, user);
+    await this.assertEntitled(user);
+
+    const from = startOfNight(new Date(query.from));
+    const to = startOfNight(new Date(query.to));
+    if (to <= from) throw new BadRequestException('"to" must be after "from"');
+    if (to.getTime() - from.getTime() > MAX_SUGGESTION_DAYS * DAY_MS) {
+      throw new BadRequestException(
+        `Suggestions cover at most ${MAX_SUGGESTION_DAYS} days at a time`,
+      );
+    }
+
+    const listing = await this.findListing(propertyId);
+    const setting = await this.settingModel
+      .findOne({ propertyId: listing._id })
+      .lean<SmartPricingSetting>()
+      .exec();
+    return this.suggest(listing, nightsBetween(from, to), {
+      minPrice: setting?.minPrice,
+      maxPrice: setting?.maxPrice,
+    });
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // SETTINGS
+  // ════════════════════════════════════════════════════════════════════════════
+
+  async getSettings(
+    propertyId: string,
+    user: User,
+  ): Promise<SmartPricingSetting> {
+    await this.pricingService.assertCanManage(propertyId, user);
+    const setting = await this.settingModel
+      .findOne({ propertyId: new Types.ObjectId(propertyId) })
+      .lean<SmartPricingSetting>()
+      .exec();
+    return (
+      setting ?? {
+        propertyId: new Types.ObjectId(propertyId),
+        autoApply: false,
+      }
+    );
+  }
+
+  /**
+   * Saves the host's choices. Turning auto-apply on writes prices right
+   * away; turning it off removes the prices it wrote.
+   */
+  async updateSettings(
+    propertyId: string,
+    dto: UpdateSmartPricingDto,
+    user: User,
+  ): Promise<SmartPricingSetting> {
+    await this.pricingService.assertCanManage(propertyId, user);
+    if (
+      dto.minPrice !== undefined &&
+      dto.maxPrice !== undefined &&
+      dto.minPrice > dto.maxPrice
+    ) {
+      throw new BadRequestException('minPrice must not exceed maxPrice');
+    }
+    if (dto.autoApply) {
+      await this.assertEntitled(user);
+      if (dto.minPrice === undefined || dto.maxPrice === undefined) {
+        throw new BadRequestException(
+          'Set a minPrice and a maxPrice before turning auto-apply on',
+        );
+      }
+    }
+
+    const listing = await this.findListing(propertyId);
+    const cleared = {
+      ...(dto.minPrice === undefined && { minPrice: 1 }),
+      ...(dto.maxPrice === undefined && { maxPrice: 1 }),
+    };
+    const setting = await this.settingModel
+      .findOneAndUpdate(
+        { propertyId: listing._id },
+        {
+          $set: { ...dto, updatedBy: user._id },
+          ...(Object.keys(cleared).length && { $unset: cleared }),
+        },
+        { upsert: true, new: true },
+      )
+      .exec();
+
+    if (setting.autoApply) await this.applyFor(listing, setting);
+    else await this.removeSmartRules(listing._id);
+    return setting.toObject<SmartPricingSetting>();
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // AUTO-APPLY
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Nightly: refreshes the applied prices of every listing with auto-apply
+   * on. Listings whose owner and agent no longer have the feature lose them.
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_2AM)
+  async autoApplyAll(): Promise<void> {
+    try {
+      const cursor = this.settingModel.find({ autoApply: true }).cursor();
+      let applied = 0;
+      for await (const setting of cursor) {
+        try {
+          const listing = await this.findListing(setting.propertyId.toString());
+          const managers = [listing.ownerId, listing.agentId].filter(
+            (id): id is Types.ObjectId => !!id,
+          );
+          const entitled = await Promise.all(
+            managers.map((id) => this.isEntitled(id.toString())),
+          );
+          if (entitled.some(Boolean)) {
+            await this.applyFor(listing, setting);
+            applied++;
+          } else {
+            await this.removeSmartRules(listing._id);
+            setting.autoApply = false;
+            await setting.save();
+            this.logger.log(
+              `Smart pricing auto-apply turned off for ${listing._id.toString()}: plan no longer includes it`,
+            );
+          }
+        } catch (err) {
+          this.logger.warn(
+            `Smart pricing auto-apply skipped for ${setting.propertyId.toString()}: ${(err as Error).message}`,
+          );
+        }
+      }
+      if (applied) {
+        this.logger.log(`Smart pricing applied to ${applied} listing(s)`);
+      }
+    } catch (err) {
+      this.logger.error('Smart pricing auto-apply failed', err);
+    }
+  }
+
+  /**
+   * Replaces the listing's smart prices with fresh suggestions for the next
+   * AUTO_APPLY_DAYS. Nights the host priced by hand are left alone.
+   */
+  private async applyFor(
+    listing: SmartListing,
+    setting: SmartPricingSettingDocument,
+  ): Promise<void> {
+    const today = startOfNight(new Date());
+    const nights = nightsBetween(
+      today,
+      new Date(today.getTime() + AUTO_APPLY_DAYS * DAY_MS),
+    );
+    const { nights: suggested } = await this.suggest(listing, nights, {
+      minPrice: setting.minPrice,
+      maxPrice: setting.maxPrice,
+    });
+
+    const hostRules = await this.pricingService.rulesFor(
+      listing._id.toString(),
+      null,
+      { includeSmart: false },
+    );
+    const pricedByHost = (night: Date) =>
+      hostRules.some(
+        (r) =>
+          r.type === PricingRuleType.DATE_OVERRIDE &&
+          r.startDate! <= night &&
+          night <= r.endDate!,
+      );
+
+    await this.removeSmartRules(listing._id);
+    await this.ruleModel.insertMany(
+      suggested
+        .filter(
+          (n) => n.suggestedPrice !== n.currentRate && !pricedByHost(n.date),
+        )
+        .map((n) => ({
+          propertyId: listing._id,
+          roomId: null,
+          type: PricingRuleType.DATE_OVERRIDE,
+          source: PricingRuleSource.SMART,
+          name: SMART_RULE_NAME,
+          startDate: n.date,
+          endDate: n.date,
+          price: n.suggestedPrice,
+        })),
+    );
+    setting.lastAppliedAt = new Date();
+    await setting.save();
+  }
+
+  private async removeSmartRules(propertyId: Types.ObjectId): Promise<void> {
+    await this.ruleModel.deleteMany({
+      propertyId,
+      source: PricingRuleSource.SMART,
+    });
+  }
+
+  // ─── Helpers ────────────────────────────────────────────────────────────────
+
+  private async suggest(
+    listing: SmartListing,
+    nights: Date[],
+    bounds: PriceBounds,
+  ): Promise<SmartPricingSuggestions> {
+    const now = new Date();
+    const currency = normalizeCurrency(listing.currency ?? BASE_CURRENCY);
+    const rules = await this.pricingService.rulesFor(
+      listing._id.toString(),
+      null,
+      { includeSmart: false },
+    );
+    const current = nightlyRates(listing.price ?? 0, rules, nights, currency);
+
+    const comparables = await this.comparablesOf(listing);
+    const ids = comparables.map((c) => c._id);
+    const first = nights[0] ?? startOfNight(now);
+    const end = new Date(
+      (nights[nights.length - 1] ?? first).getTime() + DAY_MS,
+    );
+    const select = 'propertyId checkIn checkOut createdAt';
+    const [inWindow, recent, searchIndex] = await Promise.all([
+      this.bookingModel
+        .find({
+          propertyId: { $in: ids },
+          status: {
+            $in: [
+              BookingStatus.PENDING,
+              BookingStatus.CONFIRMED,
+              BookingStatus.COMPLETED,
+            ],
+          },
+          checkIn: { $lt: end },
+          checkOut: { $gt: first },
+        })
+        .select(select)
+        .lean<ComparableBooking[]>()
+        .exec(),
+      this.bookingModel
+        .find({
+          propertyId: { $in: ids },
+          status: { $in: [BookingStatus.CONFIRMED, BookingStatus.COMPLETED] },
+          createdAt: {
+            $gte: new Date(now.getTime() - LEAD_TIME_WINDOW_DAYS * DAY_MS),
+          },
+        })
+        .select(select)
+        .limit(MAX_LEAD_TIME_SAMPLE)
+        .lean<ComparableBooking[]>()
+        .exec(),
+      this.searchDemand(listing.city),
+    ]);
+
+    const summary: SmartPricingSuggestions['signals'] = {
+      averageLeadTimeDays: averageLeadTimeDays(recent),
+      searchDemandIndex: searchIndex,
+      // Only listings priced in the same currency set the market rate
+      marketRate: median(
+        comparables
+          .filter(
+            (c) => normalizeCurrency(c.currency ?? BASE_CURRENCY) === currency,
+          )
+          .map((c) => c.price),
+      ),
+    };
+    const signals: DemandSignals = {
+      ...summary,
+      occupancy: occupancyByNight(
+        inWindow.map((b) => ({ ...b, propertyId: b.propertyId.toString() })),
+        nights,
+        comparables.length,
+      ),
+    };
+
+    return {
+      currency,
+      comparableCount: comparables.length,
+      signals: summary,
+      bounds,
+      nights: suggestNightlyPrices(current, signals, now, currency, bounds),
+    };
+  }
+
+  /** Active short-term listings like this one: same city, type and capacity. */
+  private async comparablesOf(
+    listing: SmartListing,
+  ): Promise<Pick<Property, '_id' | 'price' | 'currency'>[]> {
+    const guests = listing.shortTermAmenities?.maxGuests;
+    const base = {
+      _id: { $ne: listing._id },
+      city: listing.city,
+      listingType: ListingType.SHORT_TERM,
+      isActive: true,
+      approvalStatus: ApprovalStatus.APPROVED,
+      availability: PropertyStatus.ACTIVE,
+      price: { $gt: 0 },
+      ...(guests && {
+        'shortTermAmenities.maxGuests': {
+          $gte: guests - CAPACITY_TOLERANCE,
+          $lte: guests + CAPACITY_TOLERANCE,
+        },
+      }),
+    };
+    const find = (filter: object) =>
+      this.propertyModel
+        .find(filter)
+        .select('price currency')
+        .limit(MAX_COMPARABLES)
+        .lean<Pick<Property, '_id' | 'price' | 'currency'>[]>()
+        .exec();
+
+    const sameType = await find({ ...base, type: listing.type });
+    return sameType.length >= MIN_COMPARABLES ? sameType : find(base);
+  }
+
+  private async searchDemand(city: string): Promise<number> {
+    return this.cacheService.wrap(
+      `pricing:search-demand:${normalizeSearchText(city)}`,
+      SEARCH_DEMAND_TTL_MS,
+      async () => {
+        const [recent, baseline] = await Promise.all([
+          this.historyService.getSearchTrends(
+            SEARCH_RECENT_DAYS,
+            SEARCH_TREND_LIMIT,
+          ),
+          this.historyService.getSearchTrends(
+            SEARCH_BASELINE_DAYS,
+            SEARCH_TREND_LIMIT,
+          ),
+        ]);
+        return searchDemandIndex(
+          city,
+          recent as SearchTrend[],
+          SEARCH_RECENT_DAYS,
+          baseline as SearchTrend[],
+          SEARCH_BASELINE_DAYS,
+        );
+      },
+    );
+  }
+
+  private async findListing(propertyId: string): Promise<SmartListing> {
+    const listing = await this.propertyModel
+      .findById(propertyId)
+      .select(
+        'city type price currency listingType shortTermAmenities ownerId agentId',
+      )
+      .lean<SmartListing>()
+      .exec();
+    if (!listing) throw new NotFoundException('Property not found');
+    if (listing.listingType !== ListingType.SHORT_TERM) {
+      throw new BadRequestException(
+        'Smart pricing is only available for short-term listings',
+      );
+    }
+    return listing;
+  }
+
+  private async isEntitled(userId: string): Promise<boolean> {
+    const subscription =
+      await this.subscriptionsService.getUserSubscription(userId);
+    return !!subscription?.features?.smartPricing;
+  }
+
+  private async assertEntitled(user: User): Promise<void> {
+    if (user.role === UserRole.ADMIN) return;
+    if (!(await this.isEntitled(user._id.toString()))) {
+      throw new ForbiddenException(
+        'Smart pricing is not included in your plan',
+      );
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { PricingRuleType } from '../schemas/pricing-rule.schema';
+import {
+  PricingRuleInput,
+  assertValidRule,
+  nightlyRates,
+  stayDiscounts,
+} from './pricing.util';
+
+describe('pricing util', () => {
+  const day = (d: number) => new Date(Date.UTC(2026, 11, d));
+  const fallback = { weeklyPct: 10, monthlyPct: 15 };
+
+  it('applies weekend and seasonal rules, with date overrides winning', () => {
+    const rules: PricingRuleInput[] = [
+      {
+        type: PricingRuleType.DATE_OVERRIDE,
+        name: 'Réveillon',
+        startDate: day(31),
+        endDate: day(31),
+        price: 80_000,
+      },
+      {
+        type: PricingRuleType.SEASONAL,
+        name: 'Fêtes',
+        startDate: day(20),
+        endDate: day(31),
+        adjustmentPct: 50,
+      },
+      { type: PricingRuleType.WEEKEND, adjustmentPct: 20 },
+    ];
+
+    // 17 Dec 2026 is a Thursday
+    const rates = nightlyRates(
+      20_000,
+      rules,
+      [day(17), day(18), day(25), day(31)],
+      'XAF',
+    );
+
+    expect(rates.map((r) => r.rate)).toEqual([20_000, 24_000, 36_000, 80_000]);
+    expect(rates[2].rules).toEqual(['Weekend', 'Fêtes']);
+    expect(rates[3].rules).toEqual(['Réveillon']);
+  });
+
+  it('uses the highest tier reached and the better booking-window discount', () => {
+    const rules: PricingRuleInput[] = [
+      { type: PricingRuleType.LENGTH_OF_STAY, minNights: 3, discountPct: 5 },
+      { type: PricingRuleType.LENGTH_OF_STAY, minNights: 5, discountPct: 8 },
+      { type: PricingRuleType.LAST_MINUTE, withinDays: 3, discountPct: 10 },
+      {
+        type: PricingRuleType.EARLY_BIRD,
+        minDaysInAdvance: 60,
+        discountPct: 12,
+      },
+    ];
+
+    expect(stayDiscounts(100_000, 5, 2, rules, fallback, 'XAF')).toEqual([
+      {
+        type: PricingRuleType.LENGTH_OF_STAY,
+        label: 'Length-of-stay discount',
+        percent: 8,
+        amount: 8_000,
+      },
+      {
+        type: PricingRuleType.LAST_MINUTE,
+        label: 'Last-minute discount',
+        percent: 10,
+        amount: 10_000,
+      },
+    ]);
+    expect(stayDiscounts(100_000, 2, 20, rules, fallback, 'XAF')).toEqual([]);
+  });
+
+  it('falls back to the weekly and monthly percentages without tiers', () => {
+    expect(stayDiscounts(70_000, 7, 10, [], fallback, 'XAF')).toEqual([
+      { type: 'weekly', label: 'Weekly discount', percent: 10, amount: 7_000 },
+    ]);
+    expect(stayDiscounts(300_000, 30, 10, [], fallback, 'XAF')[0].type).toBe(
+      'monthly',
+    );
+  });
+
+  it('rejects rules missing what their type needs', () => {
+    expect(() =>
+      assertValidRule({ type: PricingRuleType.SEASONAL, startDate: day(1) }),
+    ).toThrow('endDate');
+    expect(() => assertValidRule({ type: PricingRuleType.WEEKEND })).toThrow(
+      'price or an adjustmentPct',
+    );
+    expect(() =>
+      assertValidRule({
+        type: PricingRuleType.LENGTH_OF_STAY,
+        minNights: 7,
+        discountPct: 12,
+      }),
+    ).not.toThrow();
+  });
+});
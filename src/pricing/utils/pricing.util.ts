@@ -0,0 +1,265 @@
+import { BadRequestException } from '@nestjs/common';
+import { roundAmount } from '../../currency/utils/currency-conversion.util';
+import { startOfNight } from '../../bookings/utils/booking-nights.util';
+import { PricingRule, PricingRuleType } from '../schemas/pricing-rule.schema';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type PricingRuleInput = Pick<
+  PricingRule,
+  | 'type'
+  | 'name'
+  | 'startDate'
+  | 'endDate'
+  | 'daysOfWeek'
+  | 'price'
+  | 'adjustmentPct'
+  | 'discountPct'
+  | 'withinDays'
+  | 'minDaysInAdvance'
+  | 'minNights'
+>;
+
+export interface NightlyRate {
+  /** UTC midnight of the night. */
+  date: Date;
+  /** Listing or room price before any rule. */
+  baseRate: number;
+  rate: number;
+  /** Labels of the rules that set the rate, in the order applied. */
+  rules: string[];
+}
+
+export type StayDiscountType =
+  | PricingRuleType.LENGTH_OF_STAY
+  | PricingRuleType.LAST_MINUTE
+  | PricingRuleType.EARLY_BIRD
+  | 'weekly'
+  | 'monthly';
+
+export interface StayDiscount {
+  type: StayDiscountType;
+  label: string;
+  percent: number;
+  amount: number;
+}
+
+/** Used when the host has not set any length-of-stay tier. */
+export interface FallbackDiscounts {
+  weeklyPct: number;
+  monthlyPct: number;
+}
+
+export const DEFAULT_WEEKEND_DAYS = [5, 6];
+
+/** Discounts on one stay never add up to more than this. */
+export const MAX_TOTAL_DISCOUNT_PCT = 90;
+
+const DEFAULT_LABELS: Record<PricingRuleType, string> = {
+  [PricingRuleType.DATE_OVERRIDE]: 'Special price',
+  [PricingRuleType.WEEKEND]: 'Weekend',
+  [PricingRuleType.SEASONAL]: 'Season',
+  [PricingRuleType.LAST_MINUTE]: 'Last-minute discount',
+  [PricingRuleType.EARLY_BIRD]: 'Early-bird discount',
+  [PricingRuleType.LENGTH_OF_STAY]: 'Length-of-stay discount',
+};
+
+export function ruleLabel(rule: Pick<PricingRuleInput, 'type' | 'name'>) {
+  return rule.name || DEFAULT_LABELS[rule.type];
+}
+
+// ─── Nightly rates ────────────────────────────────────────────────────────────
+
+/**
+ * Rate of each night. Rules are taken in the order given, most specific
+ * first, and the first matching rule of each type is used:
+ * - a date override sets the rate and nothing else applies;
+ * - otherwise the weekend rule, then the seasonal rule, each either
+ *   replace the rate (price) or adjust it (adjustmentPct).
+ */
+export function nightlyRates(
+  baseRate: number,
+  rules: PricingRuleInput[],
+  nights: Date[],
+  currency: string,
+): NightlyRate[] {
+  const first = (type: PricingRuleType, night: Date) =>
+    rules.find((r) => r.type === type && appliesOn(r, night));
+
+  return nights.map((date) => {
+    const override = first(PricingRuleType.DATE_OVERRIDE, date);
+    if (override) {
+      return {
+        date,
+        baseRate,
+        rate: roundAmount(override.price ?? baseRate, currency),
+        rules: [ruleLabel(override)],
+      };
+    }
+
+    let rate = baseRate;
+    const applied: string[] = [];
+    for (const type of [PricingRuleType.WEEKEND, PricingRuleType.SEASONAL]) {
+      const rule = first(type, date);
+      if (!rule) continue;
+      rate =
+        rule.price !== undefined && rule.price !== null
+          ? rule.price
+          : rate * (1 + (rule.adjustmentPct ?? 0) / 100);
+      applied.push(ruleLabel(rule));
+    }
+    return {
+      date,
+      baseRate,
+      rate: roundAmount(Math.max(rate, 0), currency),
+      rules: applied,
+    };
+  });
+}
+
+function appliesOn(rule: PricingRuleInput, night: Date): boolean {
+  switch (rule.type) {
+    case PricingRuleType.DATE_OVERRIDE:
+    case PricingRuleType.SEASONAL:
+      return (
+        !!rule.startDate &&
+        !!rule.endDate &&
+        startOfNight(rule.startDate) <= night &&
+        night <= startOfNight(rule.endDate)
+      );
+    case PricingRuleType.WEEKEND:
+      return (
+        rule.daysOfWeek?.length ? rule.daysOfWeek : DEFAULT_WEEKEND_DAYS
+      ).includes(night.getUTCDay());
+    default:
+      return false;
+  }
+}
+
+// ─── Stay discounts ───────────────────────────────────────────────────────────
+
+/**
+ * Discounts on the stay subtotal: the highest length-of-stay tier reached
+ * (the listing's weekly/monthly percentages when it has no tiers), plus the
+ * better of the last-minute and early-bird discounts.
+ */
+export function stayDiscounts(
+  subtotal: number,
+  nights: number,
+  daysUntilCheckIn: number,
+  rules: PricingRuleInput[],
+  fallback: FallbackDiscounts,
+  currency: string,
+): StayDiscount[] {
+  const candidates: Omit<StayDiscount, 'amount'>[] = [];
+
+  const tiers = rules.filter((r) => r.type === PricingRuleType.LENGTH_OF_STAY);
+  if (tiers.length) {
+    const tier = tiers
+      .filter((r) => nights >= (r.minNights ?? Infinity))
+      .sort(
+        (a, b) =>
+          (b.minNights ?? 0) - (a.minNights ?? 0) ||
+          (b.discountPct ?? 0) - (a.discountPct ?? 0),
+      )[0];
+    if (tier) {
+      candidates.push({
+        type: PricingRuleType.LENGTH_OF_STAY,
+        label: ruleLabel(tier),
+        percent: tier.discountPct ?? 0,
+      });
+    }
+  } else if (nights >= 28 && fallback.monthlyPct > 0) {
+    candidates.push({
+      type: 'monthly',
+      label: 'Monthly discount',
+      percent: fallback.monthlyPct,
+    });
+  } else if (nights >= 7 && nights < 28 && fallback.weeklyPct > 0) {
+    candidates.push({
+      type: 'weekly',
+      label: 'Weekly discount',
+      percent: fallback.weeklyPct,
+    });
+  }
+
+  const window = rules
+    .filter(
+      (r) =>
+        (r.type === PricingRuleType.LAST_MINUTE &&
+          daysUntilCheckIn <= (r.withinDays ?? -1)) ||
+        (r.type === PricingRuleType.EARLY_BIRD &&
+          daysUntilCheckIn >= (r.minDaysInAdvance ?? Infinity)),
+    )
+    .sort((a, b) => (b.discountPct ?? 0) - (a.discountPct ?? 0))[0];
+  if (window) {
+    candidates.push({
+      type: window.type as StayDiscountType,
+      label: ruleLabel(window),
+      percent: window.discountPct ?? 0,
+    });
+  }
+
+  let remainingPct = MAX_TOTAL_DISCOUNT_PCT;
+  return candidates
+    .map((c) => {
+      const percent = Math.min(c.percent, remainingPct);
+      remainingPct -= percent;
+      return {
+        ...c,
+        percent,
+        amount: roundAmount((subtotal * percent) / 100, currency),
+      };
+    })
+    .filter((d) => d.amount > 0);
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+/** Checks that a rule has what its type needs. */
+export function assertValidRule(rule: Partial<PricingRuleInput>): void {
+  const missing = (fields: (keyof PricingRuleInput)[]) =>
+    fields.filter((f) => rule[f] === undefined || rule[f] === null);
+  const need = (fields: (keyof PricingRuleInput)[]) => {
+    const absent = missing(fields);
+    if (absent.length) {
+      throw new BadRequestException(
+        `A ${rule.type} rule needs: ${absent.join(', ')}`,
+      );
+    }
+  };
+  const needPriceOrAdjustment = () => {
+    if (missing(['price', 'adjustmentPct']).length === 2) {
+      throw new BadRequestException(
+        `A ${rule.type} rule needs a price or an adjustmentPct`,
+      );
+    }
+  };
+
+  switch (rule.type) {
+    case PricingRuleType.DATE_OVERRIDE:
+      need(['startDate', 'endDate', 'price']);
+      break;
+    case PricingRuleType.SEASONAL:
+      need(['startDate', 'endDate']);
+      needPriceOrAdjustment();
+      break;
+    case PricingRuleType.WEEKEND:
+      needPriceOrAdjustment();
+      if (rule.daysOfWeek?.some((d) => !Number.isInteger(d) || d < 0 || d > 6))
+        throw new BadRequestException('daysOfWeek must be between 0 and 6');
+      break;
+    case PricingRuleType.LAST_MINUTE:
+      need(['withinDays', 'discountPct']);
+      break;
+    case PricingRuleType.EARLY_BIRD:
+      need(['minDaysInAdvance', 'discountPct']);
+      break;
+    case PricingRuleType.LENGTH_OF_STAY:
+      need(['minNights', 'discountPct']);
+      break;
+  }
+  if (rule.startDate && rule.endDate && rule.endDate < rule.startDate) {
+    throw new BadRequestException('endDate must not be before startDate');
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  DemandSignals,
+  averageLeadTimeDays,
+  occupancyByNight,
+  searchDemandIndex,
+  suggestNightlyPrices,
+} from './smart-pricing.util';
+
+describe('smart pricing util', () => {
+  const day = (d: number) => new Date(Date.UTC(2026, 6, d));
+
+  it('measures occupancy per night and lead time from comparable bookings', () => {
+    const bookings = [
+      {
+        propertyId: 'a',
+        checkIn: day(10),
+        checkOut: day(12),
+        createdAt: day(1),
+      },
+      {
+        propertyId: 'a',
+        checkIn: day(11),
+        checkOut: day(12),
+        createdAt: day(5),
+      },
+      {
+        propertyId: 'b',
+        checkIn: day(11),
+        checkOut: day(13),
+        createdAt: day(8),
+      },
+    ];
+
+    const occupancy = occupancyByNight(
+      bookings,
+      [day(10), day(11), day(12)],
+      4,
+    );
+
+    expect([...occupancy.values()]).toEqual([0.25, 0.5, 0.25]);
+    expect(averageLeadTimeDays(bookings)).toBe(6);
+    expect(averageLeadTimeDays([])).toBeNull();
+  });
+
+  it('compares recent searches naming the city with the usual level', () => {
+    const baseline = [
+      { query: 'Studio Yaoundé Bastos', count: 20 },
+      { query: 'douala bonapriso', count: 40 },
+    ];
+    const recent = [{ query: 'studio yaounde', count: 10 }];
+
+    expect(searchDemandIndex('Yaoundé', recent, 7, baseline, 28)).toBeCloseTo(
+      2,
+    );
+    expect(searchDemandIndex('Kribi', recent, 7, baseline, 28)).toBe(1);
+  });
+
+  it('raises busy nights, trims quiet near nights and keeps within bounds', () => {
+    const signals: DemandSignals = {
+      occupancy: new Map([
+        [day(10).getTime(), 1],
+        [day(2).getTime(), 0],
+      ]),
+      averageLeadTimeDays: 20,
+      searchDemandIndex: 1,
+      marketRate: null,
+    };
+    const now = day(1);
+
+    const [busy, quiet] = suggestNightlyPrices(
+      [
+        { date: day(10), rate: 20_000 },
+        { date: day(2), rate: 20_000 },
+      ],
+      signals,
+      now,
+      'XAF',
+    );
+    expect(busy.suggestedPrice).toBe(24_000);
+    expect(quiet.factors.leadTime).toBeLessThan(1);
+    expect(quiet.suggestedPrice).toBeLessThan(20_000);
+
+    const [bounded] = suggestNightlyPrices(
+      [{ date: day(10), rate: 20_000 }],
+      signals,
+      now,
+      'XAF',
+      { maxPrice: 22_000 },
+    );
+    expect(bounded.suggestedPrice).toBe(22_000);
+  });
+});
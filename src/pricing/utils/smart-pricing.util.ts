@@ -0,0 +1,184 @@
+import { roundAmount } from '../../currency/utils/currency-conversion.util';
+import { normalizeSearchText } from '../../properties/utils/search-text.util';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** A booking of a comparable listing, as far as demand is concerned. */
+export interface ComparableBooking {
+  propertyId: string;
+  checkIn: Date;
+  checkOut: Date;
+  createdAt: Date;
+}
+
+export interface SearchTrend {
+  query: string;
+  count: number;
+}
+
+export interface DemandSignals {
+  /** Share of comparable listings booked, by night (UTC midnight time). */
+  occupancy: Map<number, number>;
+  /** How far ahead comparable stays are usually booked; null without data. */
+  averageLeadTimeDays: number | null;
+  /** Recent searches for the city against its usual level; 1 = usual. */
+  searchDemandIndex: number;
+  /** Median nightly price of the comparable listings; null without any. */
+  marketRate: number | null;
+}
+
+export interface PriceBounds {
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+export interface SuggestedNight {
+  date: Date;
+  currentRate: number;
+  suggestedPrice: number;
+  occupancy: number;
+  /** Multipliers behind the suggestion, for the host to see why. */
+  factors: {
+    market: number;
+    occupancy: number;
+    leadTime: number;
+    searchDemand: number;
+  };
+}
+
+/** Occupancy comparable listings usually run at; above it prices go up. */
+export const TARGET_OCCUPANCY = 0.6;
+
+/** How much of the gap to the market rate a suggestion closes. */
+const MARKET_PULL = 0.3;
+
+const DAY_MS = 86_400_000;
+
+// ─── Signals ──────────────────────────────────────────────────────────────────
+
+/**
+ * Share of the `listingCount` comparables with a booking on each night.
+ * A listing counts once per night however many of its rooms are booked.
+ */
+export function occupancyByNight(
+  bookings: ComparableBooking[],
+  nights: Date[],
+  listingCount: number,
+): Map<number, number> {
+  const booked = new Map<number, Set<string>>(
+    nights.map((n) => [n.getTime(), new Set()]),
+  );
+  for (const b of bookings) {
+    for (const [night, listings] of booked) {
+      if (b.checkIn.getTime() < night + DAY_MS && b.checkOut.getTime() > night)
+        listings.add(b.propertyId);
+    }
+  }
+  return new Map(
+    [...booked].map(([night, listings]) => [
+      night,
+      listingCount ? Math.min(listings.size / listingCount, 1) : 0,
+    ]),
+  );
+}
+
+export function averageLeadTimeDays(
+  bookings: ComparableBooking[],
+): number | null {
+  if (!bookings.length) return null;
+  const total = bookings.reduce(
+    (sum, b) =>
+      sum + Math.max(b.checkIn.getTime() - b.createdAt.getTime(), 0) / DAY_MS,
+    0,
+  );
+  return total / bookings.length;
+}
+
+/**
+ * Daily searches naming the city over the recent window against the daily
+ * average over the baseline window, from search trend rows. 1 when the city
+ * is not searched at all in the baseline.
+ */
+export function searchDemandIndex(
+  city: string,
+  recent: SearchTrend[],
+  recentDays: number,
+  baseline: SearchTrend[],
+  baselineDays: number,
+): number {
+  const cityKey = normalizeSearchText(city);
+  if (!cityKey) return 1;
+  const count = (rows: SearchTrend[]) =>
+    rows
+      .filter((r) => normalizeSearchText(r.query).includes(cityKey))
+      .reduce((sum, r) => sum + r.count, 0);
+  const usual = count(baseline) / baselineDays;
+  if (!usual) return 1;
+  return count(recent) / recentDays / usual;
+}
+
+// ─── Suggestions ──────────────────────────────────────────────────────────────
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+/**
+ * Suggested price of each night, starting from the host's current rate:
+ * - pulled part of the way towards the market rate of comparables;
+ * - raised when comparables are busier than TARGET_OCCUPANCY, lowered when
+ *   quieter (at most +25% / -15%);
+ * - lowered a little for quiet nights closer than comparables usually book,
+ *   which are unlikely to sell at full price;
+ * - nudged by the city's search trend (at most +10% / -5%);
+ * then kept within the host's bounds.
+ */
+export function suggestNightlyPrices(
+  currentRates: { date: Date; rate: number }[],
+  signals: DemandSignals,
+  now: Date,
+  currency: string,
+  bounds: PriceBounds = {},
+): SuggestedNight[] {
+  const today = Math.floor(now.getTime() / DAY_MS) * DAY_MS;
+  const searchFactor = clamp(
+    1 + (signals.searchDemandIndex - 1) * 0.1,
+    0.95,
+    1.1,
+  );
+
+  return currentRates.map(({ date, rate }) => {
+    const occupancy = signals.occupancy.get(date.getTime()) ?? 0;
+    const market = signals.marketRate
+      ? 1 +
+        ((signals.marketRate - rate) / (rate || signals.marketRate)) *
+          MARKET_PULL
+      : 1;
+    const occupancyFactor = clamp(
+      1 + (occupancy - TARGET_OCCUPANCY) * 0.5,
+      0.85,
+      1.25,
+    );
+    const daysAway = (date.getTime() - today) / DAY_MS;
+    const leadTime =
+      signals.averageLeadTimeDays !== null &&
+      daysAway < signals.averageLeadTimeDays / 2 &&
+      occupancy < TARGET_OCCUPANCY
+        ? 0.92
+        : 1;
+
+    const factors = {
+      market: roundFactor(market),
+      occupancy: roundFactor(occupancyFactor),
+      leadTime,
+      searchDemand: roundFactor(searchFactor),
+    };
+    const raw = rate * market * occupancyFactor * leadTime * searchFactor;
+    const suggestedPrice = roundAmount(
+      clamp(raw, bounds.minPrice ?? 0, bounds.maxPrice ?? Infinity),
+      currency,
+    );
+    return { date, currentRate: rate, suggestedPrice, occupancy, factors };
+  });
+}
+
+const roundFactor = (factor: number) => Math.round(factor * 1000) / 1000;
@@ -75,6 +75,20 @@ export class ComparisonController {
     return this.comparisonService.findOne(id, req.user);
   }
 
+  @Get(':id/rooms/:room')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Photos of one room for every compared property' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiParam({ name: 'room', type: String, description: 'Room type (kitchen) or key (bedroom-2)' })
+  async getRoomPhotos(
+    @Param('id') id: string,
+    @Param('room') room: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.comparisonService.getRoomPhotos(id, room, req.user);
+  }
+
   @Post(':id/share')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.REGISTERED_USER, UserRole.AGENT, UserRole.ADMIN)
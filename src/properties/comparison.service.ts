@@ -4,7 +4,8 @@ import { Model, Types } from 'mongoose';
 import { randomUUID } from 'crypto';
 
 import { Comparison, ComparisonDocument } from './schemas/comparison.schema';
-import { Property, PropertyDocument } from './schemas/property.schema';
+import { Property, PropertyDocument, PropertyImages } from './schemas/property.schema';
+import { RoomMedia, coverImage, groupImagesByRoom, matchesRoom } from './utils/property-media.util';
 import { User, UserDocument, UserRole } from '../users/schemas/user.schema';
 import { HistoryService } from '../history/history.service';
 import { ActivityType } from '../history/schemas/history.schema';
@@ -21,6 +22,14 @@ export interface UpdateComparisonDto {
   isPublic?: boolean;
 }
 
+export interface ComparedRoomPhotos {
+  propertyId: string;
+  title: string;
+  cover: PropertyImages | null;
+  /** Empty when the property has no such room or did not tag its photos. */
+  rooms: RoomMedia[];
+}
+
 @Injectable()
 export class ComparisonService {
   private readonly logger = new Logger(ComparisonService.name);
@@ -115,7 +124,7 @@ export class ComparisonService {
   async findByShareToken(shareToken: string): Promise<Comparison> {
     const comparison = await this.comparisonModel
       .findOne({ shareToken })
-      .populate('propertyIds', 'title price type images location amenities')
+      .populate('propertyIds', 'title price type images rooms floorPlans location amenities')
       .populate('userId', 'name profilePicture');
 
     if (!comparison) {
@@ -198,6 +207,38 @@ export class ComparisonService {
       .exec();
   }
 
+  /** Photos of one room, e.g. `kitchen`, side by side for every compared property. */
+  async getRoomPhotos(id: string, room: string, user: User): Promise<ComparedRoomPhotos[]> {
+    const comparison = await this.comparisonModel
+      .findById(id)
+      .populate<{ propertyIds: Pick<Property, '_id' | 'title' | 'images' | 'rooms'>[] }>('propertyIds', 'title images rooms')
+      .lean();
+
+    if (!comparison) {
+      throw new NotFoundException('Comparison not found');
+    }
+
+    const canAccess =
+      comparison.isPublic ||
+      comparison.userId.toString() === user._id.toString() ||
+      user.role === UserRole.ADMIN;
+
+    if (!canAccess) {
+      throw new ForbiddenException('Access denied');
+    }
+
+    return comparison.propertyIds.map((property) => {
+      const images = property.images ?? [];
+      const rooms = (property.rooms ?? []).filter((r) => matchesRoom(r, room));
+      return {
+        propertyId: property._id.toString(),
+        title: property.title,
+        cover: coverImage(images),
+        rooms: groupImagesByRoom(images, rooms).rooms,
+      };
+    });
+  }
+
   async generateShareUrl(id: string, user: User): Promise<{ shareUrl: string; shareToken: string }> {
     const comparison = await this.comparisonModel.findById(id);
     if (!comparison) {
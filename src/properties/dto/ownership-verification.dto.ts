@@ -0,0 +1,56 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { OwnershipVerificationStatus } from '../schemas/ownership-verification.schema';
+
+export const MAX_OWNERSHIP_DOCUMENTS = 10;
+
+/** Scans and photos of paper documents, or PDFs from the notary. */
+export const OWNERSHIP_DOCUMENT_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+  'application/pdf',
+];
+
+export class ReviewOwnershipDto {
+  @ApiProperty({
+    enum: [
+      OwnershipVerificationStatus.VERIFIED,
+      OwnershipVerificationStatus.REJECTED,
+    ],
+    description: 'Rejecting a verified file revokes the badge',
+  })
+  @IsIn([
+    OwnershipVerificationStatus.VERIFIED,
+    OwnershipVerificationStatus.REJECTED,
+  ])
+  decision:
+    | OwnershipVerificationStatus.VERIFIED
+    | OwnershipVerificationStatus.REJECTED;
+
+  @ApiPropertyOptional({
+    example: 'Title number does not match the land registry extract',
+    description: 'Required when rejecting; shown to the owner',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+
+  @ApiPropertyOptional({
+    example: 'Checked with the Wouri land registry on 12/10',
+    description: 'Internal note, never shown to the owner',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class AddVerificationNoteDto {
+  @ApiProperty({ example: 'Called the notary, awaiting confirmation' })
+  @IsString()
+  @MaxLength(1000)
+  text: string;
+}
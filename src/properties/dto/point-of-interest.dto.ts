@@ -0,0 +1,72 @@
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsBoolean,
+  IsEnum,
+  IsArray,
+  ValidateNested,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { PoiCategory } from '../schemas/point-of-interest.schema';
+
+export const MAX_POI_IMPORT = 2000;
+
+export class CreatePointOfInterestDto {
+  @ApiProperty({ example: 'Marché Mokolo' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ enum: PoiCategory, example: PoiCategory.MARKET })
+  @IsEnum(PoiCategory)
+  category: PoiCategory;
+
+  @ApiProperty({ example: 'Yaoundé' })
+  @IsString()
+  city: string;
+
+  @ApiProperty({ example: 3.8752 })
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude: number;
+
+  @ApiProperty({ example: 11.5032 })
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude: number;
+
+  @ApiPropertyOptional({
+    example: 'osm:node/123456',
+    description:
+      'Identifier in the source dataset; importing it again updates the place',
+  })
+  @IsOptional()
+  @IsString()
+  externalId?: string;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdatePointOfInterestDto extends PartialType(
+  CreatePointOfInterestDto,
+) {}
+
+export class ImportPointsOfInterestDto {
+  @ApiProperty({ type: [CreatePointOfInterestDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_POI_IMPORT)
+  @ValidateNested({ each: true })
+  @Type(() => CreatePointOfInterestDto)
+  places: CreatePointOfInterestDto[];
+}
@@ -0,0 +1,142 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsArray,
+  ValidateNested,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Matches,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RoomType } from '../schemas/property.schema';
+
+export const MAX_ROOMS = 60;
+export const MAX_FLOOR_PLANS = 10;
+
+export class RoomMarkerDto {
+  @ApiProperty({ example: 42.5, description: '% of the plan width' })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  x: number;
+
+  @ApiProperty({ example: 18, description: '% of the plan height' })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  y: number;
+}
+
+export class RoomDto {
+  @ApiPropertyOptional({
+    example: 'bedroom-1',
+    description:
+      'Send back the key of an existing room to keep its photos tagged. Generated from the label for new rooms.',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^[a-z0-9]+(-[a-z0-9]+)*$/, {
+    message: 'key must be lowercase letters, digits and dashes',
+  })
+  @MaxLength(40)
+  key?: string;
+
+  @ApiProperty({ enum: RoomType, example: RoomType.BEDROOM })
+  @IsEnum(RoomType)
+  type: RoomType;
+
+  @ApiPropertyOptional({
+    example: 'Master bedroom',
+    description: 'Defaults to the type, numbered when repeated',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(60)
+  label?: string;
+
+  @ApiPropertyOptional({ example: 1, description: '0 = ground floor' })
+  @IsOptional()
+  @IsInt()
+  @Min(-5)
+  @Max(100)
+  level?: number;
+
+  @ApiPropertyOptional({ example: 3.5 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.5)
+  @Max(200)
+  widthM?: number;
+
+  @ApiPropertyOptional({ example: 4 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.5)
+  @Max(200)
+  lengthM?: number;
+
+  @ApiPropertyOptional({
+    example: 14,
+    description: 'Defaults to width × length',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.5)
+  @Max(10000)
+  areaSqm?: number;
+
+  @ApiPropertyOptional({ description: 'publicId of the floor plan' })
+  @IsOptional()
+  @IsString()
+  floorPlanId?: string;
+
+  @ApiPropertyOptional({ type: RoomMarkerDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RoomMarkerDto)
+  marker?: RoomMarkerDto;
+}
+
+export class SetRoomsDto {
+  @ApiProperty({ type: [RoomDto] })
+  @IsArray()
+  @ArrayMaxSize(MAX_ROOMS)
+  @ValidateNested({ each: true })
+  @Type(() => RoomDto)
+  rooms: RoomDto[];
+}
+
+export class TagImageDto {
+  @ApiPropertyOptional({
+    example: 'kitchen',
+    nullable: true,
+    description: 'Room key; null removes the tag',
+  })
+  @IsOptional()
+  @IsString()
+  roomKey?: string | null;
+
+  @ApiPropertyOptional({ example: 'Fully fitted kitchen' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  caption?: string;
+}
+
+export class ReorderImagesDto {
+  @ApiProperty({
+    type: [String],
+    description: 'publicId of every photo, in display order',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  publicIds: string[];
+}
@@ -11,6 +11,10 @@ import {
   Min,
   Max,
   Length,
+  IsInt,
+  MaxLength,
+  ValidateBy,
+  ValidationArguments,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
@@ -20,8 +24,32 @@ import {
   PropertyStatus,
   PricingUnit,
   CancellationPolicy,
+  LAND_PROPERTY_TYPES,
+  COMMERCIAL_PROPERTY_TYPES,
+  LandTitleStatus,
+  ZoningType,
+  RoadAccess,
+  PowerPhase,
 } from '../schemas/property.schema';
 
+/**
+ * Rejects a type-specific attribute set when the listing `type` is not one of
+ * `types`. Updates without a `type` are checked in the service instead.
+ */
+function OnlyForPropertyTypes(types: readonly PropertyType[]) {
+  return ValidateBy({
+    name: 'onlyForPropertyTypes',
+    validator: {
+      validate: (_value: unknown, args?: ValidationArguments) => {
+        const type = (args?.object as { type?: PropertyType }).type;
+        return !type || types.includes(type);
+      },
+      defaultMessage: (args?: ValidationArguments) =>
+        `${args?.property} only applies to ${types.join(', ')} listings`,
+    },
+  });
+}
+
 // ─── Sub-DTOs ─────────────────────────────────────────────────────────────────
 
 export class ShortTermAmenitiesDto {
@@ -64,6 +92,95 @@ export class ShortTermAmenitiesDto {
   checkOutTime?: string;
 }
 
+export class LandDetailsDto {
+  @ApiPropertyOptional({ enum: LandTitleStatus, description: 'Titre foncier status of the plot' })
+  @IsOptional()
+  @IsEnum(LandTitleStatus)
+  titleStatus?: LandTitleStatus;
+
+  @ApiPropertyOptional({ example: '12345/Wouri', description: 'Title number, once the titre foncier is issued' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  titleNumber?: string;
+
+  @ApiPropertyOptional({ enum: ZoningType })
+  @IsOptional()
+  @IsEnum(ZoningType)
+  zoning?: ZoningType;
+
+  @ApiPropertyOptional({ enum: RoadAccess })
+  @IsOptional()
+  @IsEnum(RoadAccess)
+  roadAccess?: RoadAccess;
+
+  @ApiPropertyOptional({ example: 20, description: 'Plot width in metres' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100000)
+  plotWidthM?: number;
+
+  @ApiPropertyOptional({ example: 25, description: 'Plot depth in metres' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100000)
+  plotDepthM?: number;
+
+  @ApiPropertyOptional({ example: 500, description: 'Plot area in m² (defaults to width × depth)' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  plotAreaSqm?: number;
+
+  @ApiPropertyOptional() @IsOptional() @IsBoolean() isFenced?: boolean;
+  @ApiPropertyOptional() @IsOptional() @IsBoolean() isFlat?: boolean;
+  @ApiPropertyOptional() @IsOptional() @IsBoolean() hasWaterConnection?: boolean;
+  @ApiPropertyOptional() @IsOptional() @IsBoolean() hasElectricityConnection?: boolean;
+}
+
+export class CommercialDetailsDto {
+  @ApiPropertyOptional({ example: 8, description: 'Street frontage in metres' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1000)
+  frontageM?: number;
+
+  @ApiPropertyOptional({ enum: PowerPhase })
+  @IsOptional()
+  @IsEnum(PowerPhase)
+  powerPhase?: PowerPhase;
+
+  @ApiPropertyOptional({ example: 36, description: 'Subscribed electrical capacity in kVA' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  powerKva?: number;
+
+  @ApiPropertyOptional({ example: 6 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  parkingSpaces?: number;
+
+  @ApiPropertyOptional({ example: 4.5, description: 'Clear ceiling height in metres' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(50)
+  ceilingHeightM?: number;
+
+  @ApiPropertyOptional({ enum: ZoningType })
+  @IsOptional()
+  @IsEnum(ZoningType)
+  zoning?: ZoningType;
+
+  @ApiPropertyOptional() @IsOptional() @IsBoolean() hasLoadingDock?: boolean;
+  @ApiPropertyOptional() @IsOptional() @IsBoolean() hasGoodsLift?: boolean;
+}
+
 export class UnavailableDateRangeDto {
   @ApiProperty({ example: '2026-04-01', description: 'Block start date (ISO 8601)' })
   @IsDateString()
@@ -165,6 +282,25 @@ export class CreatePropertyDto {
     furnished?: boolean;
   };
 
+  // ── Land & commercial ─────────────────────────────────────────────────────
+
+  @ApiPropertyOptional({ type: LandDetailsDto, description: 'Only for land listings' })
+  @IsOptional()
+  @OnlyForPropertyTypes(LAND_PROPERTY_TYPES)
+  @ValidateNested()
+  @Type(() => LandDetailsDto)
+  landDetails?: LandDetailsDto;
+
+  @ApiPropertyOptional({
+    type: CommercialDetailsDto,
+    description: 'Only for commercial, office, shop and warehouse listings',
+  })
+  @IsOptional()
+  @OnlyForPropertyTypes(COMMERCIAL_PROPERTY_TYPES)
+  @ValidateNested()
+  @Type(() => CommercialDetailsDto)
+  commercialDetails?: CommercialDetailsDto;
+
   // ── Short-term specific ───────────────────────────────────────────────────
 
   @ApiPropertyOptional({
@@ -336,6 +472,23 @@ export class CreatePropertyDto {
   @IsString()
   tourThumbnail?: string;
 
+  // ── Publication window ────────────────────────────────────────────────────
+
+  @ApiPropertyOptional({
+    example: '2026-06-01T08:00:00Z',
+    description: 'Go-live date; the listing stays hidden until then even once approved',
+  })
+  @IsOptional()
+  @IsDateString()
+  publishAt?: string;
+
+  @ApiPropertyOptional({
+    example: '2026-08-01T00:00:00Z',
+    description: 'Expiry date; defaults to the platform lifetime for the listing type',
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
 
   @ApiPropertyOptional({ enum: PropertyStatus })
   @IsOptional()
@@ -377,6 +530,18 @@ export class UpdatePropertyDto extends PartialType(CreatePropertyDto) {
   isActive?: boolean;
 }
 
+// ─── Draft autosave ───────────────────────────────────────────────────────────
+
+export class AutosavePropertyDto extends UpdatePropertyDto {
+  @ApiPropertyOptional({
+    description: 'autosaveSeq returned by the previous save; a mismatch means the draft was saved elsewhere (409)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  autosaveSeq?: number;
+}
+
 // ─── Block / Unblock dates ────────────────────────────────────────────────────
 
 export class BlockDatesDto {
@@ -0,0 +1,57 @@
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsBoolean,
+  IsArray,
+  ValidateNested,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { MAX_POLYGON_VERTICES } from '../utils/geo.util';
+
+export class LatLngDto {
+  @ApiProperty({ example: 4.0511 })
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat: number;
+
+  @ApiProperty({ example: 9.7679 })
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lng: number;
+}
+
+export class CreateSearchAreaDto {
+  @ApiProperty({ example: 'Bonapriso' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ example: 'Douala' })
+  @IsString()
+  city: string;
+
+  @ApiProperty({
+    type: [LatLngDto],
+    description: 'Outer boundary vertices, in drawing order',
+  })
+  @IsArray()
+  @ArrayMinSize(3)
+  @ArrayMaxSize(MAX_POLYGON_VERTICES)
+  @ValidateNested({ each: true })
+  @Type(() => LatLngDto)
+  boundary: LatLngDto[];
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateSearchAreaDto extends PartialType(CreateSearchAreaDto) {}
@@ -0,0 +1,378 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Model, Types } from 'mongoose';
+
+import {
+  ApprovalStatus,
+  DuplicateFlag,
+  DuplicateStatus,
+  ListingType,
+  Property,
+  PropertyDocument,
+} from './schemas/property.schema';
+import { PropertyChangedEvent, PropertyEvents } from './events/property.events';
+import { hammingDistance } from './utils/image-hash.util';
+import { normalizeSearchText } from './utils/search-text.util';
+
+// ─── Tuning ───────────────────────────────────────────────────────────────────
+
+/** Max differing bits for two image hashes to count as the same photo. */
+const IMAGE_HASH_MAX_DISTANCE = 6;
+const NEARBY_RADIUS_METERS = 150;
+const SAME_SPOT_METERS = 50;
+const PRICE_TOLERANCE = 0.05;
+const MAX_CANDIDATES = 300;
+
+/** Signal weights; a candidate at or above SUSPECT_THRESHOLD is flagged. */
+const WEIGHTS = {
+  images: 0.5,
+  address: 0.25,
+  sameSpot: 0.2,
+  nearby: 0.1,
+  price: 0.15,
+};
+const SUSPECT_THRESHOLD = 0.5;
+
+/** Words that vary between reposts of the same address without changing it. */
+const ADDRESS_STOPWORDS = new Set([
+  'rue',
+  'avenue',
+  'av',
+  'boulevard',
+  'bd',
+  'quartier',
+  'qtr',
+  'carrefour',
+  'face',
+  'pres',
+  'de',
+  'du',
+  'des',
+  'la',
+  'le',
+  'les',
+  'street',
+  'st',
+  'road',
+  'rd',
+  'near',
+  'opposite',
+  'bp',
+  'cameroun',
+  'cameroon',
+]);
+
+export function normalizeAddress(
+  address?: string,
+  neighborhood?: string,
+): string {
+  return normalizeSearchText(`${address ?? ''} ${neighborhood ?? ''}`)
+    .split(' ')
+    .filter((w) => w && !ADDRESS_STOPWORDS.has(w))
+    .sort()
+    .join(' ');
+}
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface DuplicateSubject {
+  _id: Types.ObjectId;
+  ownerId: Types.ObjectId;
+  city: string;
+  address?: string;
+  neighborhood?: string;
+  price: number;
+  listingType: ListingType;
+  location?: { coordinates: [number, number] };
+  images?: { phash?: string }[];
+  approvalStatus: ApprovalStatus;
+  duplicateFlag?: DuplicateFlag;
+  createdAt: Date;
+}
+
+interface DuplicateCandidate extends DuplicateSubject {
+  normalizedAddress?: string;
+  distance?: number;
+}
+
+export interface DuplicateMatch {
+  originalId: Types.ObjectId;
+  score: number;
+  reasons: string[];
+}
+
+const SUBJECT_FIELDS =
+  'ownerId city address neighborhood price listingType location images.phash approvalStatus duplicateFlag createdAt';
+
+const CANDIDATE_PROJECTION = {
+  ownerId: 1,
+  city: 1,
+  address: 1,
+  neighborhood: 1,
+  normalizedAddress: 1,
+  price: 1,
+  listingType: 1,
+  'images.phash': 1,
+  createdAt: 1,
+};
+
+/**
+ * Finds older listings that the given one appears to repost, comparing photo
+ * perceptual hashes, normalized address, coordinates and price. Suspects are
+ * sent back to the admin approval queue with a link to the original.
+ */
+@Injectable()
+export class DuplicateDetectionService {
+  private readonly logger = new Logger(DuplicateDetectionService.name);
+
+  constructor(
+    @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+    private eventEmitter: EventEmitter2,
+  ) {}
+
+  async check(propertyId: string): Promise<DuplicateMatch | null> {
+    const subject = await this.propertyModel
+      .findById(propertyId)
+      .select(SUBJECT_FIELDS)
+      .lean<DuplicateSubject>()
+      .exec();
+    if (!subject) return null;
+
+    const normalizedAddress = normalizeAddress(
+      subject.address,
+      subject.neighborhood,
+    );
+    await this.propertyModel.updateOne(
+      { _id: subject._id },
+      { $set: { normalizedAddress } },
+    );
+
+    const candidates = await this.findCandidates(subject, normalizedAddress);
+    const best = candidates
+      .map((c) => this.score(subject, normalizedAddress, c))
+      .filter(
+        (m): m is DuplicateMatch => m !== null && m.score >= SUSPECT_THRESHOLD,
+      )
+      .sort((a, b) => b.score - a.score)[0];
+
+    if (!best) {
+      // The listing was edited away from its former match
+      if (subject.duplicateFlag?.status === DuplicateStatus.SUSPECTED) {
+        await this.propertyModel.updateOne(
+          { _id: subject._id },
+          { $unset: { duplicateFlag: '' } },
+        );
+      }
+      return null;
+    }
+
+    // An admin already cleared this exact pairing
+    const previous = subject.duplicateFlag;
+    if (
+      previous &&
+      previous.status !== DuplicateStatus.SUSPECTED &&
+      previous.originalId.toString() === best.originalId.toString()
+    ) {
+      return best;
+    }
+
+    await this.flag(subject, best);
+    return best;
+  }
+
+  private async flag(
+    subject: DuplicateSubject,
+    match: DuplicateMatch,
+  ): Promise<void> {
+    const flag: DuplicateFlag = {
+      originalId: match.originalId,
+      status: DuplicateStatus.SUSPECTED,
+      score: match.score,
+      reasons: match.reasons,
+      detectedAt: new Date(),
+    };
+
+    // Back into the approval queue: live listings are unpublished until reviewed
+    const requeue = subject.approvalStatus === ApprovalStatus.APPROVED;
+    await this.propertyModel.updateOne(
+      { _id: subject._id },
+      {
+        $set: {
+          duplicateFlag: flag,
+          ...(requeue
+            ? { approvalStatus: ApprovalStatus.PENDING, isActive: false }
+            : {}),
+        },
+      },
+    );
+
+    this.logger.warn(
+      `Property ${subject._id.toString()} flagged as possible duplicate of ${match.originalId.toString()} ` +
+        `(score ${match.score.toFixed(2)}: ${match.reasons.join(', ')})`,
+    );
+
+    if (requeue) {
+      // Let caches drop the now-unpublished listing
+      this.eventEmitter
+        .emitAsync(
+          PropertyEvents.UPDATED,
+          new PropertyChangedEvent(
+            subject._id.toString(),
+            subject.ownerId.toString(),
+            undefined,
+            subject.city,
+            subject.listingType,
+            ApprovalStatus.PENDING,
+            ['approvalStatus', 'isActive', 'duplicateFlag'],
+          ),
+        )
+        .catch((e) => this.logger.error('Duplicate flag event failed', e));
+    }
+  }
+
+  // ─── Candidates ─────────────────────────────────────────────────────────────
+
+  private async findCandidates(
+    subject: DuplicateSubject,
+    normalizedAddress: string,
+  ): Promise<DuplicateCandidate[]> {
+    const base = {
+      _id: { $ne: subject._id },
+      createdAt: { $lt: subject.createdAt },
+      approvalStatus: { $ne: ApprovalStatus.REJECTED },
+    };
+    const hashes = (subject.images ?? [])
+      .map((i) => i.phash)
+      .filter((h): h is string => !!h);
+
+    const [nearby, sameAddress, imageMatches] = await Promise.all([
+      subject.location?.coordinates
+        ? this.propertyModel
+            .aggregate<DuplicateCandidate>([
+              {
+                $geoNear: {
+                  near: {
+                    type: 'Point',
+                    coordinates: subject.location.coordinates,
+                  },
+                  distanceField: 'distance',
+                  maxDistance: NEARBY_RADIUS_METERS,
+                  query: base,
+                  spherical: true,
+                },
+              },
+              { $limit: MAX_CANDIDATES },
+              { $project: { ...CANDIDATE_PROJECTION, distance: 1 } },
+            ])
+            .exec()
+        : Promise.resolve([]),
+      normalizedAddress
+        ? this.propertyModel
+            .find({ ...base, city: subject.city, normalizedAddress })
+            .select(CANDIDATE_PROJECTION)
+            .limit(MAX_CANDIDATES)
+            .lean<DuplicateCandidate[]>()
+            .exec()
+        : Promise.resolve([]),
+      // Exact hash hits anywhere (reposts often change the city), plus
+      // same-city listings for near-identical hashes compared in memory
+      hashes.length
+        ? this.propertyModel
+            .find({
+              ...base,
+              $or: [
+                { 'images.phash': { $in: hashes } },
+                { city: subject.city, 'images.phash': { $exists: true } },
+              ],
+            })
+            .select(CANDIDATE_PROJECTION)
+            .sort({ createdAt: -1 })
+            .limit(MAX_CANDIDATES)
+            .lean<DuplicateCandidate[]>()
+            .exec()
+        : Promise.resolve([]),
+    ]);
+
+    const byId = new Map<string, DuplicateCandidate>();
+    for (const c of [...nearby, ...sameAddress, ...imageMatches]) {
+      const existing = byId.get(c._id.toString());
+      byId.set(c._id.toString(), {
+        ...c,
+        distance: c.distance ?? existing?.distance,
+      });
+    }
+    return [...byId.values()];
+  }
+
+  // ─── Scoring ────────────────────────────────────────────────────────────────
+
+  private score(
+    subject: DuplicateSubject,
+    normalizedAddress: string,
+    candidate: DuplicateCandidate,
+  ): DuplicateMatch | null {
+    const reasons: string[] = [];
+    let score = 0;
+
+    const subjectHashes = (subject.images ?? [])
+      .map((i) => i.phash)
+      .filter((h): h is string => !!h);
+    const candidateHashes = (candidate.images ?? [])
+      .map((i) => i.phash)
+      .filter((h): h is string => !!h);
+    const sharedPhotos = subjectHashes.filter((h) =>
+      candidateHashes.some(
+        (c) => hammingDistance(h, c) <= IMAGE_HASH_MAX_DISTANCE,
+      ),
+    ).length;
+    if (sharedPhotos > 0) {
+      score += WEIGHTS.images;
+      reasons.push(`${sharedPhotos} matching photo(s)`);
+    }
+
+    // Owners legitimately list several units of one building at one price;
+    // for the same owner only re-used photos count as a repost.
+    const sameOwner =
+      candidate.ownerId.toString() === subject.ownerId.toString();
+    if (sameOwner && sharedPhotos === 0) return null;
+
+    const candidateAddress =
+      candidate.normalizedAddress ??
+      normalizeAddress(candidate.address, candidate.neighborhood);
+    if (
+      normalizedAddress &&
+      candidate.city === subject.city &&
+      candidateAddress === normalizedAddress
+    ) {
+      score += WEIGHTS.address;
+      reasons.push('same address');
+    }
+
+    if (candidate.distance !== undefined) {
+      if (candidate.distance <= SAME_SPOT_METERS) {
+        score += WEIGHTS.sameSpot;
+        reasons.push(`${Math.round(candidate.distance)} m away`);
+      } else if (candidate.distance <= NEARBY_RADIUS_METERS) {
+        score += WEIGHTS.nearby;
+        reasons.push(`${Math.round(candidate.distance)} m away`);
+      }
+    }
+
+    if (
+      candidate.listingType === subject.listingType &&
+      candidate.price > 0 &&
+      Math.abs(candidate.price - subject.price) / candidate.price <=
+        PRICE_TOLERANCE
+    ) {
+      score += WEIGHTS.price;
+      reasons.push('same price');
+    }
+
+    return {
+      originalId: candidate._id,
+      score: Math.round(score * 100) / 100,
+      reasons,
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import { ApprovalStatus, ListingType } from '../schemas/property.schema';
+
+// ─── Property lifecycle events ────────────────────────────────────────────────
+
+/**
+ * Event names emitted by PropertiesService through EventEmitter2.
+ * Listeners subscribe with @OnEvent(PropertyEvents.UPDATED) or @OnEvent('property.*').
+ */
+export const PropertyEvents = {
+  CREATED: 'property.created',
+  UPDATED: 'property.updated',
+  APPROVED: 'property.approved',
+  REJECTED: 'property.rejected',
+  DELETED: 'property.deleted',
+  PRICE_CHANGED: 'property.price_changed',
+} as const;
+
+export type PropertyEventName =
+  (typeof PropertyEvents)[keyof typeof PropertyEvents];
+
+export class PropertyChangedEvent {
+  constructor(
+    public readonly propertyId: string,
+    public readonly ownerId?: string,
+    public readonly actorId?: string,
+    public readonly city?: string,
+    public readonly listingType?: ListingType,
+    public readonly approvalStatus?: ApprovalStatus,
+    /** Top-level fields touched by the change (update events only). */
+    public readonly changedFields: string[] = [],
+  ) {}
+}
+
+/** Emitted alongside UPDATED when the listing price differs from the stored one. */
+export class PropertyPriceChangedEvent {
+  constructor(
+    public readonly propertyId: string,
+    public readonly previousPrice: number,
+    public readonly price: number,
+    public readonly currency: string,
+    public readonly actorId?: string,
+  ) {}
+}
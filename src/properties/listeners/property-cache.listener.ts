@@ -0,0 +1,79 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { CacheService } from '../../cache/cache.service';
+import {
+  PropertyChangedEvent,
+  PropertyEventName,
+  PropertyEvents,
+} from '../events/property.events';
+
+// ─── Cache key namespaces ─────────────────────────────────────────────────────
+
+export const PropertyCacheKeys = {
+  MOST_VIEWED: 'properties:most_viewed:',
+  RECENT: 'properties:recent:',
+  FEATURED: 'properties:featured:',
+  POPULAR_CITIES: 'properties:popular_cities:',
+  SIMILAR: 'properties:similar:',
+  MAP_CLUSTERS: 'properties:map_clusters:',
+  SUGGEST: 'properties:suggest:',
+} as const;
+
+/** Every list-style namespace that can contain any property. */
+const LIST_PREFIXES = [
+  PropertyCacheKeys.MOST_VIEWED,
+  PropertyCacheKeys.RECENT,
+  PropertyCacheKeys.FEATURED,
+  PropertyCacheKeys.POPULAR_CITIES,
+  PropertyCacheKeys.MAP_CLUSTERS,
+  PropertyCacheKeys.SUGGEST,
+];
+
+/**
+ * Namespaces to drop after a lifecycle event. Any cached "similar" list may
+ * embed a changed property, so that namespace goes too unless it was added.
+ */
+export function cachePrefixesFor(name: PropertyEventName): string[] {
+  return name === PropertyEvents.CREATED || name === PropertyEvents.APPROVED
+    ? LIST_PREFIXES
+    : [...LIST_PREFIXES, PropertyCacheKeys.SIMILAR];
+}
+
+// ─── Listener ─────────────────────────────────────────────────────────────────
+
+/**
+ * Drops cached property lists whenever a listing changes. Because the cache
+ * store is shared (Redis) when configured, one invalidation here is seen by
+ * every API replica. PropertiesService also invalidates before answering a
+ * write, so its own clients never read a stale list; dropping the same keys
+ * again here is harmless and covers the other services emitting events.
+ */
+@Injectable()
+export class PropertyCacheListener {
+  private readonly logger = new Logger(PropertyCacheListener.name);
+
+  constructor(private readonly cacheService: CacheService) {}
+
+  @OnEvent(PropertyEvents.CREATED)
+  @OnEvent(PropertyEvents.APPROVED)
+  async handleListingAdded(event: PropertyChangedEvent): Promise<void> {
+    await this.cacheService.invalidate(
+      ...cachePrefixesFor(PropertyEvents.CREATED),
+    );
+    this.logger.debug(
+      `Cache invalidated after property ${event.propertyId} became listable`,
+    );
+  }
+
+  @OnEvent(PropertyEvents.UPDATED)
+  @OnEvent(PropertyEvents.REJECTED)
+  @OnEvent(PropertyEvents.DELETED)
+  async handleListingChanged(event: PropertyChangedEvent): Promise<void> {
+    await this.cacheService.invalidate(
+      ...cachePrefixesFor(PropertyEvents.UPDATED),
+    );
+    this.logger.debug(
+      `Cache invalidated after property ${event.propertyId} changed`,
+    );
+  }
+}
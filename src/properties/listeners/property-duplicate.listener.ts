@@ -0,0 +1,39 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { DuplicateDetectionService } from '../duplicate-detection.service';
+import {
+  PropertyChangedEvent,
+  PropertyEvents,
+} from '../events/property.events';
+
+/** Property fields that can make (or stop) a listing look like a repost. */
+const DUPLICATE_INPUT_FIELDS = new Set([
+  'images',
+  'address',
+  'neighborhood',
+  'city',
+  'location',
+  'latitude',
+  'longitude',
+  'price',
+  'listingType',
+]);
+
+/** Runs duplicate detection after a listing is created or edited. */
+@Injectable()
+export class PropertyDuplicateListener {
+  constructor(
+    private readonly duplicateDetectionService: DuplicateDetectionService,
+  ) {}
+
+  @OnEvent(PropertyEvents.CREATED)
+  @OnEvent(PropertyEvents.UPDATED)
+  async handleListingEdited(event: PropertyChangedEvent): Promise<void> {
+    const relevant =
+      event.changedFields.length === 0 ||
+      event.changedFields.some((f) => DUPLICATE_INPUT_FIELDS.has(f));
+    if (!relevant) return;
+
+    await this.duplicateDetectionService.check(event.propertyId);
+  }
+}
@@ -0,0 +1,48 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { OwnershipVerificationService } from '../ownership-verification.service';
+import {
+  PropertyChangedEvent,
+  PropertyEvents,
+} from '../events/property.events';
+
+/** Property fields identifying the plot the title documents were checked for. */
+const OWNERSHIP_IDENTITY_FIELDS = new Set([
+  'listingType',
+  'address',
+  'city',
+  'neighborhood',
+  'location',
+  'latitude',
+  'longitude',
+  'landDetails',
+]);
+
+/** Keeps the ownership badge honest when the listing changes or goes away. */
+@Injectable()
+export class PropertyOwnershipListener {
+  private readonly logger = new Logger(PropertyOwnershipListener.name);
+
+  constructor(
+    private readonly ownershipVerificationService: OwnershipVerificationService,
+  ) {}
+
+  @OnEvent(PropertyEvents.UPDATED)
+  async handleListingEdited(event: PropertyChangedEvent): Promise<void> {
+    const changed = event.changedFields.filter((f) =>
+      OWNERSHIP_IDENTITY_FIELDS.has(f),
+    );
+    if (!changed.length) return;
+
+    await this.ownershipVerificationService.reopen(
+      event.propertyId,
+      `Listing edited (${changed.join(', ')})`,
+    );
+  }
+
+  @OnEvent(PropertyEvents.DELETED)
+  async handleListingDeleted(event: PropertyChangedEvent): Promise<void> {
+    await this.ownershipVerificationService.removeForProperty(event.propertyId);
+    this.logger.debug(`Ownership documents removed for ${event.propertyId}`);
+  }
+}
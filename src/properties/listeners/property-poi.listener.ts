@@ -0,0 +1,38 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { PointsOfInterestService } from '../points-of-interest.service';
+import {
+  PropertyChangedEvent,
+  PropertyEvents,
+} from '../events/property.events';
+
+/** Property fields that change the distances to nearby places. */
+const POI_INPUT_FIELDS = new Set([
+  'location',
+  'latitude',
+  'longitude',
+  'isStudentFriendly',
+  'studentDetails',
+]);
+
+/** Keeps Property.poiProximity in step with the listing's position. */
+@Injectable()
+export class PropertyPoiListener {
+  private readonly logger = new Logger(PropertyPoiListener.name);
+
+  constructor(
+    private readonly pointsOfInterestService: PointsOfInterestService,
+  ) {}
+
+  @OnEvent(PropertyEvents.CREATED)
+  @OnEvent(PropertyEvents.UPDATED)
+  async handleListingEdited(event: PropertyChangedEvent): Promise<void> {
+    const relevant =
+      event.changedFields.length === 0 ||
+      event.changedFields.some((f) => POI_INPUT_FIELDS.has(f));
+    if (!relevant) return;
+
+    await this.pointsOfInterestService.enrichProperty(event.propertyId);
+    this.logger.debug(`Nearby places recomputed for ${event.propertyId}`);
+  }
+}
@@ -0,0 +1,63 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Model } from 'mongoose';
+import { PriceHistoryService } from '../price-history.service';
+import { Property, PropertyDocument } from '../schemas/property.schema';
+import {
+  PropertyChangedEvent,
+  PropertyEvents,
+  PropertyPriceChangedEvent,
+} from '../events/property.events';
+
+/** Records every listing price in the price history and announces drops. */
+@Injectable()
+export class PropertyPriceListener {
+  private readonly logger = new Logger(PropertyPriceListener.name);
+
+  constructor(
+    private readonly priceHistoryService: PriceHistoryService,
+    @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+  ) {}
+
+  @OnEvent(PropertyEvents.CREATED)
+  async handleCreated(event: PropertyChangedEvent): Promise<void> {
+    const property = await this.propertyModel
+      .findById(event.propertyId)
+      .select('price currency')
+      .lean()
+      .exec();
+    if (!property) return;
+
+    await this.priceHistoryService.record(
+      event.propertyId,
+      property.price,
+      property.currency ?? 'XAF',
+      undefined,
+      event.actorId,
+    );
+  }
+
+  @OnEvent(PropertyEvents.PRICE_CHANGED)
+  async handlePriceChanged(event: PropertyPriceChangedEvent): Promise<void> {
+    await this.priceHistoryService.record(
+      event.propertyId,
+      event.price,
+      event.currency,
+      event.previousPrice,
+      event.actorId,
+    );
+
+    if (event.price < event.previousPrice) {
+      await this.priceHistoryService.notifyPriceDrop(
+        event.propertyId,
+        event.previousPrice,
+        event.price,
+        event.currency,
+      );
+    }
+    this.logger.debug(
+      `Price of ${event.propertyId} changed ${event.previousPrice} → ${event.price}`,
+    );
+  }
+}
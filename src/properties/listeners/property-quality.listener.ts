@@ -0,0 +1,41 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { ListingQualityService } from '../listing-quality.service';
+import {
+  PropertyChangedEvent,
+  PropertyEvents,
+} from '../events/property.events';
+
+/** Property fields that feed the listing-quality score. */
+const QUALITY_INPUT_FIELDS = new Set([
+  'images',
+  'description',
+  'amenities',
+  'location',
+  'latitude',
+  'longitude',
+  'virtualTourUrl',
+  'tourType',
+  'isStudentFriendly',
+  'studentDetails',
+]);
+
+/** Keeps Property.listingQuality in step with listing edits. */
+@Injectable()
+export class PropertyQualityListener {
+  private readonly logger = new Logger(PropertyQualityListener.name);
+
+  constructor(private readonly listingQualityService: ListingQualityService) {}
+
+  @OnEvent(PropertyEvents.CREATED)
+  @OnEvent(PropertyEvents.UPDATED)
+  async handleListingEdited(event: PropertyChangedEvent): Promise<void> {
+    const relevant =
+      event.changedFields.length === 0 ||
+      event.changedFields.some((f) => QUALITY_INPUT_FIELDS.has(f));
+    if (!relevant) return;
+
+    await this.listingQualityService.recompute(event.propertyId);
+    this.logger.debug(`Listing quality recomputed for ${event.propertyId}`);
+  }
+}
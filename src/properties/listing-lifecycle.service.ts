@@ -0,0 +1,400 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Model, Types } from 'mongoose';
+
+import {
+  ApprovalStatus,
+  ListingType,
+  Property,
+  PropertyDocument,
+  PropertyStatus,
+} from './schemas/property.schema';
+import { PropertyChangedEvent, PropertyEvents } from './events/property.events';
+import { User, UserRole } from '../users/schemas/user.schema';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/schemas/notification.schema';
+import { SystemSettingsService } from '../system-settings/system-settings.service';
+
+const DAY_MS = 86_400_000;
+
+/** Used when the settings document predates configurable lifetimes. */
+const FALLBACK_LIFETIME_DAYS: Record<ListingType, number> = {
+  [ListingType.SALE]: 180,
+  [ListingType.RENT]: 60,
+  [ListingType.SHORT_TERM]: 365,
+};
+const FALLBACK_REMINDER_DAYS = 7;
+
+/** Cap per cron run so one slow tick cannot pile up notifications. */
+const LIFECYCLE_BATCH = 500;
+
+const LIFECYCLE_FIELDS =
+  'title ownerId city listingType approvalStatus availability publishAt publishedAt expiresAt';
+
+type LifecycleSource = Pick<
+  Property,
+  | '_id'
+  | 'title'
+  | 'ownerId'
+  | 'city'
+  | 'listingType'
+  | 'approvalStatus'
+  | 'availability'
+  | 'publishAt'
+  | 'publishedAt'
+  | 'expiresAt'
+>;
+
+export interface GoLiveFields {
+  isActive: boolean;
+  publishedAt?: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Publication window of listings: scheduled go-live, expiry after the
+ * lifetime configured per ListingType, reminders before expiry and renewal.
+ */
+@Injectable()
+export class ListingLifecycleService {
+  private readonly logger = new Logger(ListingLifecycleService.name);
+
+  constructor(
+    @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+    private settingsService: SystemSettingsService,
+    private notificationsService: NotificationsService,
+    private eventEmitter: EventEmitter2,
+  ) {}
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // SCHEDULE
+  // ════════════════════════════════════════════════════════════════════════════
+
+  async lifetimeDays(listingType: ListingType): Promise<number> {
+    const settings = await this.settingsService.getSettings();
+    return (
+      settings.listingLifetimeDays?.[listingType] ??
+      FALLBACK_LIFETIME_DAYS[listingType]
+    );
+  }
+
+  /**
+   * Validates the dates an owner picked. Non-admins cannot push the expiry
+   * past the platform lifetime for the listing type.
+   */
+  async resolveSchedule(
+    listingType: ListingType,
+    dates: { publishAt?: string | Date; expiresAt?: string | Date },
+    user: User,
+  ): Promise<{ publishAt?: Date; expiresAt?: Date }> {
+    const publishAt = dates.publishAt ? new Date(dates.publishAt) : undefined;
+    const expiresAt = dates.expiresAt ? new Date(dates.expiresAt) : undefined;
+    if (!expiresAt) return { publishAt };
+
+    const goLive = publishAt && publishAt > new Date() ? publishAt : new Date();
+    if (expiresAt <= goLive) {
+      throw new BadRequestException('expiresAt must be after the publish date');
+    }
+
+    if (user.role !== UserRole.ADMIN) {
+      const days = await this.lifetimeDays(listingType);
+      if (expiresAt.getTime() > goLive.getTime() + days * DAY_MS) {
+        throw new BadRequestException(
+          `${listingType} listings can stay online for at most ${days} days`,
+        );
+      }
+    }
+    return { publishAt, expiresAt };
+  }
+
+  /**
+   * Fields to set when a listing is approved: it goes live now unless its
+   * publish date is still ahead, and gets an expiry if it has none left.
+   */
+  async goLiveFields(
+    property: Pick<
+      Property,
+      'listingType' | 'publishAt' | 'publishedAt' | 'expiresAt'
+    >,
+  ): Promise<GoLiveFields> {
+    const now = new Date();
+    const goLive =
+      property.publishAt && property.publishAt > now ? property.publishAt : now;
+    const isActive = goLive <= now;
+
+    const expiresAt =
+      property.expiresAt && property.expiresAt > goLive
+        ? property.expiresAt
+        : new Date(
+            goLive.getTime() +
+              (await this.lifetimeDays(property.listingType)) * DAY_MS,
+          );
+
+    return {
+      isActive,
+      ...(isActive ? { publishedAt: property.publishedAt ?? now } : {}),
+      expiresAt,
+    };
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // RENEW
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /** Extends the listing by one lifetime and brings it back if it expired. */
+  async renew(id: string, user: User): Promise<Property> {
+    if (!Types.ObjectId.isValid(id))
+      throw new BadRequestException('Invalid property ID');
+
+    const property = await this.propertyModel
+      .findById(id)
+      .select(`${LIFECYCLE_FIELDS} agentId availabilityBeforeExpiry`)
+      .lean()
+      .exec();
+    if (!property) throw new NotFoundException('Property not found');
+
+    const isManager =
+      property.ownerId.toString() === user._id.toString() ||
+      property.agentId?.toString() === user._id.toString();
+    if (!isManager && user.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('You can only renew your own properties');
+    }
+    if (property.approvalStatus !== ApprovalStatus.APPROVED) {
+      throw new BadRequestException('Only approved listings can be renewed');
+    }
+
+    const now = new Date();
+    const base =
+      property.expiresAt && property.expiresAt > now ? property.expiresAt : now;
+    const expiresAt = new Date(
+      base.getTime() + (await this.lifetimeDays(property.listingType)) * DAY_MS,
+    );
+    const wasExpired = property.availability === PropertyStatus.EXPIRED;
+    const scheduled = !!property.publishAt && property.publishAt > now;
+
+    const updated = await this.propertyModel
+      .findByIdAndUpdate(
+        id,
+        {
+          expiresAt,
+          $unset: {
+            expiryReminderSentAt: '',
+            ...(wasExpired ? { availabilityBeforeExpiry: '' } : {}),
+          },
+          ...(wasExpired
+            ? {
+                // A listing sold or rented before it expired stays so
+                availability:
+                  property.availabilityBeforeExpiry ?? PropertyStatus.ACTIVE,
+                isActive: !scheduled,
+              }
+            : {}),
+        },
+        { new: true },
+      )
+      .lean()
+      .exec();
+
+    this.emitUpdated(
+      property,
+      ['expiresAt', ...(wasExpired ? ['isActive', 'availability'] : [])],
+      user,
+    );
+    this.logger.log(
+      `Property ${id} renewed until ${expiresAt.toISOString()} by ${user._id.toString()}`,
+    );
+    return updated as unknown as Property;
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // CRONS
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /** Puts approved listings online once their publish date has come. */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async publishScheduled(): Promise<void> {
+    try {
+      const now = new Date();
+      const due = await this.propertyModel
+        .find({
+          approvalStatus: ApprovalStatus.APPROVED,
+          publishAt: { $lte: now },
+          publishedAt: { $exists: false },
+        })
+        .select(LIFECYCLE_FIELDS)
+        .limit(LIFECYCLE_BATCH)
+        .lean<LifecycleSource[]>()
+        .exec();
+
+      for (const property of due) {
+        const fields = await this.goLiveFields(property);
+        await this.propertyModel.updateOne(
+          { _id: property._id },
+          { $set: fields },
+        );
+        this.emitUpdated(property, ['isActive', 'publishedAt', 'expiresAt']);
+      }
+      if (due.length)
+        this.logger.log(`Published ${due.length} scheduled listing(s)`);
+    } catch (err) {
+      this.logger.error('Scheduled publish failed', err);
+    }
+  }
+
+  /** Takes listings past their expiry offline and tells their owners. */
+  @Cron(CronExpression.EVERY_HOUR)
+  async expireListings(): Promise<void> {
+    try {
+      const now = new Date();
+      const due = await this.propertyModel
+        .find({ isActive: true, expiresAt: { $lte: now } })
+        .select(LIFECYCLE_FIELDS)
+        .limit(LIFECYCLE_BATCH)
+        .lean<LifecycleSource[]>()
+        .exec();
+
+      const expired: LifecycleSource[] = [];
+      for (const property of due) {
+        // Skipped when renewed or edited since the find
+        const { modifiedCount } = await this.propertyModel.updateOne(
+          {
+            _id: property._id,
+            isActive: true,
+            availability: property.availability,
+            expiresAt: { $lte: now },
+          },
+          {
+            $set: {
+              isActive: false,
+              availability: PropertyStatus.EXPIRED,
+              availabilityBeforeExpiry: property.availability,
+            },
+          },
+        );
+        if (modifiedCount) expired.push(property);
+      }
+      if (!expired.length) return;
+
+      for (const property of expired) {
+        this.emitUpdated(property, ['isActive', 'availability']);
+        await this.notificationsService.create({
+          userId: property.ownerId.toString(),
+          type: NotificationType.LISTING_EXPIRED,
+          title: 'Listing expired',
+          message: `${property.title} has expired and is no longer visible. Renew it to put it back online.`,
+          link: `/properties/${property._id.toString()}`,
+          metadata: {
+            propertyId: property._id.toString(),
+            propertyTitle: property.title,
+          },
+        });
+      }
+      this.logger.log(`Expired ${expired.length} listing(s)`);
+    } catch (err) {
+      this.logger.error('Listing expiry failed', err);
+    }
+  }
+
+  /**
+   * Daily: reminds owners of listings expiring soon, and gives live listings
+   * created before expiry existed a full lifetime from today.
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_9AM)
+  async sendExpiryReminders(): Promise<void> {
+    try {
+      await this.assignMissingExpiry();
+
+      const settings = await this.settingsService.getSettings();
+      const reminderDays =
+        settings.listingExpiryReminderDays ?? FALLBACK_REMINDER_DAYS;
+      const now = new Date();
+
+      const expiring = await this.propertyModel
+        .find({
+          isActive: true,
+          expiresAt: {
+            $gt: now,
+            $lte: new Date(now.getTime() + reminderDays * DAY_MS),
+          },
+          expiryReminderSentAt: { $exists: false },
+        })
+        .select(LIFECYCLE_FIELDS)
+        .limit(LIFECYCLE_BATCH)
+        .lean<LifecycleSource[]>()
+        .exec();
+
+      for (const property of expiring) {
+        const daysLeft = Math.max(
+          1,
+          Math.ceil((property.expiresAt!.getTime() - now.getTime()) / DAY_MS),
+        );
+        await this.notificationsService.create({
+          userId: property.ownerId.toString(),
+          type: NotificationType.LISTING_EXPIRING,
+          title: 'Listing expiring soon',
+          message: `${property.title} expires in ${daysLeft} day${daysLeft > 1 ? 's' : ''}. Renew it to keep it online.`,
+          link: `/properties/${property._id.toString()}`,
+          metadata: {
+            propertyId: property._id.toString(),
+            propertyTitle: property.title,
+            expiresAt: property.expiresAt,
+          },
+        });
+        await this.propertyModel.updateOne(
+          { _id: property._id },
+          { $set: { expiryReminderSentAt: now } },
+        );
+      }
+      if (expiring.length)
+        this.logger.log(`Sent ${expiring.length} expiry reminder(s)`);
+    } catch (err) {
+      this.logger.error('Expiry reminders failed', err);
+    }
+  }
+
+  private async assignMissingExpiry(): Promise<void> {
+    for (const listingType of Object.values(ListingType)) {
+      const expiresAt = new Date(
+        Date.now() + (await this.lifetimeDays(listingType)) * DAY_MS,
+      );
+      const result = await this.propertyModel.updateMany(
+        { isActive: true, listingType, expiresAt: { $exists: false } },
+        { $set: { expiresAt } },
+      );
+      if (result.modifiedCount > 0) {
+        this.logger.log(
+          `Assigned an expiry date to ${result.modifiedCount} legacy ${listingType} listing(s)`,
+        );
+      }
+    }
+  }
+
+  private emitUpdated(
+    property: LifecycleSource,
+    changedFields: string[],
+    actor?: User,
+  ): void {
+    this.eventEmitter
+      .emitAsync(
+        PropertyEvents.UPDATED,
+        new PropertyChangedEvent(
+          property._id.toString(),
+          property.ownerId.toString(),
+          actor?._id?.toString(),
+          property.city,
+          property.listingType,
+          property.approvalStatus,
+          changedFields,
+        ),
+      )
+      .catch((e) => this.logger.error('Listing lifecycle event failed', e));
+  }
+}
@@ -0,0 +1,121 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model, Types } from 'mongoose';
+
+import { Property, PropertyDocument } from './schemas/property.schema';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import {
+  ListingQuality,
+  ListingQualityInput,
+  computeListingQuality,
+} from './utils/listing-quality.util';
+
+/** Fields read by computeListingQuality — keep in sync with ListingQualityInput. */
+const QUALITY_FIELDS =
+  'ownerId images description amenities location virtualTourUrl tourType isStudentFriendly studentDetails';
+
+const RECOMPUTE_BATCH = 500;
+
+type QualitySource = ListingQualityInput & {
+  _id: Types.ObjectId;
+  ownerId: Types.ObjectId;
+};
+
+@Injectable()
+export class ListingQualityService {
+  private readonly logger = new Logger(ListingQualityService.name);
+
+  constructor(
+    @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+  ) {}
+
+  /** Recomputes and stores the quality score of one listing. */
+  async recompute(propertyId: string): Promise<ListingQuality | null> {
+    const property = await this.propertyModel
+      .findById(propertyId)
+      .select(QUALITY_FIELDS)
+      .lean<QualitySource>()
+      .exec();
+    if (!property) return null;
+
+    const rates = await this.loadResponseRates([property.ownerId]);
+    const quality = computeListingQuality(
+      property,
+      rates.get(property.ownerId.toString()),
+    );
+
+    await this.propertyModel.updateOne(
+      { _id: property._id },
+      { $set: { listingQuality: quality } },
+    );
+    return quality;
+  }
+
+  /**
+   * Nightly: owner response rates drift independently of the listing, and
+   * listings created before scoring existed need a first score.
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async recomputeAll(): Promise<void> {
+    try {
+      const cursor = this.propertyModel
+        .find({})
+        .select(QUALITY_FIELDS)
+        .lean<QualitySource[]>()
+        .cursor();
+
+      let batch: QualitySource[] = [];
+      let updated = 0;
+      for await (const doc of cursor) {
+        batch.push(doc as unknown as QualitySource);
+        if (batch.length >= RECOMPUTE_BATCH) {
+          updated += await this.writeBatch(batch);
+          batch = [];
+        }
+      }
+      if (batch.length) updated += await this.writeBatch(batch);
+
+      this.logger.log(`Listing quality recomputed for ${updated} properties`);
+    } catch (err) {
+      this.logger.error('Listing quality recompute failed', err);
+    }
+  }
+
+  private async writeBatch(batch: QualitySource[]): Promise<number> {
+    const rates = await this.loadResponseRates(batch.map((p) => p.ownerId));
+    await this.propertyModel.bulkWrite(
+      batch.map((p) => ({
+        updateOne: {
+          filter: { _id: p._id },
+          update: {
+            $set: {
+              listingQuality: computeListingQuality(
+                p,
+                rates.get(p.ownerId.toString()),
+              ),
+            },
+          },
+        },
+      })),
+    );
+    return batch.length;
+  }
+
+  private async loadResponseRates(
+    ownerIds: Types.ObjectId[],
+  ): Promise<Map<string, number | undefined>> {
+    const owners = await this.userModel
+      .find({ _id: { $in: ownerIds } })
+      .select('hostProfile.responseRate')
+      .lean<
+        { _id: Types.ObjectId; hostProfile?: { responseRate?: number } }[]
+      >()
+      .exec();
+
+    return new Map(
+      owners.map((o) => [o._id.toString(), o.hostProfile?.responseRate]),
+    );
+  }
+}
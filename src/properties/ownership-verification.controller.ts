@@ -0,0 +1,211 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { FastifyRequest } from 'fastify';
+import { Multipart } from '@fastify/multipart';
+
+import {
+  OwnershipVerificationService,
+  OwnershipDocumentUpload,
+} from './ownership-verification.service';
+import {
+  AddVerificationNoteDto,
+  MAX_OWNERSHIP_DOCUMENTS,
+  ReviewOwnershipDto,
+} from './dto/ownership-verification.dto';
+import {
+  OwnershipDocumentType,
+  OwnershipVerificationStatus,
+} from './schemas/ownership-verification.schema';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { RolesGuard, Roles } from '../auth/guards/roles.guard';
+import { User, UserRole } from '../users/schemas/user.schema';
+
+@ApiTags('Ownership Verification')
+@Controller('properties')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class OwnershipVerificationController {
+  constructor(
+    private readonly ownershipVerificationService: OwnershipVerificationService,
+  ) {}
+
+  // ─── Owner ──────────────────────────────────────────────────────────────────
+
+  @Get(':id/ownership')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Ownership documents of a sale listing and their review status',
+    description: 'Document links are signed and expire after 10 minutes.',
+  })
+  @ApiParam({ name: 'id', description: 'Property ID' })
+  async getOwnership(
+    @Param('id') id: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    const verification = await this.ownershipVerificationService.getForManager(
+      id,
+      req.user,
+    );
+    return { verification };
+  }
+
+  @Post(':id/ownership/documents')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Upload ownership documents (titre foncier, certificate of sale…)',
+    description: `Multipart. A \`documentType\` field (${Object.values(OwnershipDocumentType).join(', ')}) applies to the file that follows it. PDF, JPEG, PNG, WebP or HEIC; at most ${MAX_OWNERSHIP_DOCUMENTS} per listing. The listing goes to the admin verification queue.`,
+  })
+  @ApiParam({ name: 'id', description: 'Property ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Documents stored privately, review pending',
+  })
+  async uploadDocuments(
+    @Param('id') id: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    const files: OwnershipDocumentUpload[] = [];
+    let documentType = OwnershipDocumentType.OTHER;
+    for await (const part of req.parts() as AsyncIterable<Multipart>) {
+      if (part.type === 'field') {
+        if (part.fieldname === 'documentType')
+          documentType = String(part.value) as OwnershipDocumentType;
+        continue;
+      }
+      const chunks: Buffer[] = [];
+      for await (const chunk of part.file) {
+        chunks.push(Buffer.from(chunk));
+      }
+      files.push({
+        buffer: Buffer.concat(chunks),
+        mimetype: part.mimetype,
+        fileName: part.filename,
+        documentType,
+      });
+      documentType = OwnershipDocumentType.OTHER;
+    }
+    const verification =
+      await this.ownershipVerificationService.uploadDocuments(
+        id,
+        files,
+        req.user,
+      );
+    return { message: 'Documents submitted for verification', verification };
+  }
+
+  @Delete(':id/ownership/documents/:documentId')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Remove an ownership document' })
+  @ApiParam({ name: 'id', description: 'Property ID' })
+  @ApiParam({
+    name: 'documentId',
+    description: 'publicId of the document (URL-encoded)',
+  })
+  async deleteDocument(
+    @Param('id') id: string,
+    @Param('documentId') documentId: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    const verification = await this.ownershipVerificationService.deleteDocument(
+      id,
+      documentId,
+      req.user,
+    );
+    return { message: 'Document deleted', verification };
+  }
+
+  // ─── Admin ──────────────────────────────────────────────────────────────────
+
+  @Get('admin/ownership-verifications')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Admin: Ownership verification queue, oldest submission first',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: OwnershipVerificationStatus,
+    description: 'Default pending',
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async getQueue(
+    @Query('status') status?: OwnershipVerificationStatus,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.ownershipVerificationService.listQueue(
+      status,
+      page ? parseInt(page) : 1,
+      limit ? Math.min(parseInt(limit), 100) : 20,
+    );
+  }
+
+  @Get('admin/ownership-verifications/:verificationId')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Admin: An ownership file with its documents and notes',
+  })
+  @ApiParam({ name: 'verificationId', description: 'Verification ID' })
+  async getVerification(@Param('verificationId') verificationId: string) {
+    return this.ownershipVerificationService.findById(verificationId);
+  }
+
+  @Patch('admin/ownership-verifications/:verificationId/review')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Admin: Verify or reject ownership documents',
+    description:
+      'Verifying shows the ownership badge on the listing. Rejecting a verified file revokes it.',
+  })
+  @ApiParam({ name: 'verificationId', description: 'Verification ID' })
+  @ApiResponse({
+    status: 400,
+    description: 'The file is not in a reviewable state',
+  })
+  async review(
+    @Param('verificationId') verificationId: string,
+    @Body() dto: ReviewOwnershipDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.ownershipVerificationService.review(
+      verificationId,
+      dto,
+      req.user,
+    );
+  }
+
+  @Post('admin/ownership-verifications/:verificationId/notes')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Admin: Add an internal note to an ownership file' })
+  @ApiParam({ name: 'verificationId', description: 'Verification ID' })
+  async addNote(
+    @Param('verificationId') verificationId: string,
+    @Body() dto: AddVerificationNoteDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.ownershipVerificationService.addNote(
+      verificationId,
+      dto.text,
+      req.user,
+    );
+  }
+}
@@ -0,0 +1,573 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Model, Types } from 'mongoose';
+import { UploadApiResponse } from 'cloudinary';
+
+import {
+  ListingType,
+  Property,
+  PropertyDocument,
+} from './schemas/property.schema';
+import {
+  OwnershipDocumentFile,
+  OwnershipDocumentType,
+  OwnershipVerification,
+  OwnershipVerificationDocument,
+  OwnershipVerificationStatus,
+  VerificationNote,
+} from './schemas/ownership-verification.schema';
+import { PropertyChangedEvent, PropertyEvents } from './events/property.events';
+import {
+  MAX_OWNERSHIP_DOCUMENTS,
+  OWNERSHIP_DOCUMENT_MIME_TYPES,
+  ReviewOwnershipDto,
+} from './dto/ownership-verification.dto';
+import { User, UserDocument, UserRole } from '../users/schemas/user.schema';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/schemas/notification.schema';
+import {
+  uploadBufferToCloudinary,
+  deleteFromCloudinary,
+  signedDownloadUrl,
+} from '../utils/cloudinary';
+
+type ListingRef = Pick<
+  Property,
+  '_id' | 'title' | 'ownerId' | 'agentId' | 'city' | 'listingType'
+> & { approvalStatus: Property['approvalStatus'] };
+
+export interface OwnershipDocumentUpload {
+  buffer: Buffer;
+  mimetype: string;
+  fileName?: string;
+  documentType: OwnershipDocumentType;
+}
+
+/** A document with a short-lived signed link in place of a public URL. */
+export type OwnershipDocumentView = OwnershipDocumentFile & { url: string };
+
+export type OwnershipVerificationView = Omit<
+  OwnershipVerification,
+  'documents' | 'notes'
+> & {
+  documents: OwnershipDocumentView[];
+  notes?: VerificationNote[];
+};
+
+const LISTING_FIELDS =
+  'title ownerId agentId city listingType approvalStatus ownershipVerified';
+
+/** Signed document links stay valid this long. */
+const DOCUMENT_LINK_TTL_SECONDS = 10 * 60;
+
+/**
+ * Title and ownership documents for sale listings. Documents are uploaded as
+ * authenticated assets and only ever leave the API as signed links, to the
+ * listing's managers and admins. An admin decision sets the listing's
+ * `ownershipVerified` badge, independent of the `isVerified` flag.
+ */
+@Injectable()
+export class OwnershipVerificationService {
+  private readonly logger = new Logger(OwnershipVerificationService.name);
+
+  constructor(
+    @InjectModel(OwnershipVerification.name)
+    private verificationModel: Model<OwnershipVerificationDocument>,
+    @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private notificationsService: NotificationsService,
+    private eventEmitter: EventEmitter2,
+  ) {}
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // OWNER
+  // ════════════════════════════════════════════════════════════════════════════
+
+  async getForManager(
+    propertyId: string,
+    user: User,
+  ): Promise<OwnershipVerificationView | null> {
+    const listing = await this.loadListing(propertyId);
+    this.assertCanManage(listing, user);
+    const record = await this.verificationModel
+      .findOne({ propertyId: listing._id })
+      .lean<OwnershipVerification>()
+      .exec();
+    return record ? this.toView(record, user) : null;
+  }
+
+  /** Adds documents to the file and puts it (back) in the admin queue. */
+  async uploadDocuments(
+    propertyId: string,
+    files: OwnershipDocumentUpload[],
+    user: User,
+  ): Promise<OwnershipVerificationView> {
+    if (!files.length) throw new BadRequestException('No file uploaded');
+    const listing = await this.loadListing(propertyId);
+    this.assertCanManage(listing, user);
+    if (listing.listingType !== ListingType.SALE) {
+      throw new BadRequestException(
+        'Ownership verification is only available for sale listings',
+      );
+    }
+    for (const file of files) {
+      if (!OWNERSHIP_DOCUMENT_MIME_TYPES.includes(file.mimetype)) {
+        throw new BadRequestException(
+          `Unsupported file type ${file.mimetype}. Upload a PDF or a JPEG, PNG, WebP or HEIC image.`,
+        );
+      }
+      if (!Object.values(OwnershipDocumentType).includes(file.documentType)) {
+        throw new BadRequestException(
+          `Unknown documentType. Use one of: ${Object.values(OwnershipDocumentType).join(', ')}`,
+        );
+      }
+    }
+
+    const existing = await this.verificationModel
+      .findOne({ propertyId: listing._id })
+      .select('status documents')
+      .lean<Pick<OwnershipVerification, 'status' | 'documents'>>()
+      .exec();
+    if (existing?.status === OwnershipVerificationStatus.VERIFIED) {
+      throw new BadRequestException(
+        'Ownership is already verified. Contact support to replace the documents.',
+      );
+    }
+    if (
+      (existing?.documents.length ?? 0) + files.length >
+      MAX_OWNERSHIP_DOCUMENTS
+    ) {
+      throw new BadRequestException(
+        `A listing can have at most ${MAX_OWNERSHIP_DOCUMENTS} ownership documents`,
+      );
+    }
+
+    const documents = await Promise.all(
+      files.map(async (file): Promise<OwnershipDocumentFile> => {
+        const result = (await uploadBufferToCloudinary(file.buffer, {
+          folder: 'horohouse/ownership-documents',
+          resourceType: 'image',
+          type: 'authenticated',
+          overwrite: false,
+        })) as UploadApiResponse;
+        return {
+          publicId: result.public_id,
+          documentType: file.documentType,
+          format: result.format,
+          bytes: result.bytes,
+          uploadedAt: new Date(),
+          ...(file.fileName && { fileName: file.fileName }),
+        };
+      }),
+    );
+
+    const record = await this.verificationModel
+      .findOneAndUpdate(
+        { propertyId: listing._id },
+        {
+          $push: { documents: { $each: documents } },
+          $set: {
+            status: OwnershipVerificationStatus.PENDING,
+            submittedAt: new Date(),
+          },
+          $unset: { rejectionReason: '' },
+          $setOnInsert: { ownerId: listing.ownerId },
+        },
+        { upsert: true, new: true },
+      )
+      .lean<OwnershipVerification>()
+      .exec();
+
+    if (existing?.status !== OwnershipVerificationStatus.PENDING) {
+      this.notifyAdmins(listing).catch((e) =>
+        this.logger.warn(`Admin notification failed: ${e}`),
+      );
+    }
+    this.logger.log(
+      `${documents.length} ownership document(s) submitted for property ${propertyId} by ${user._id.toString()}`,
+    );
+    return this.toView(record, user);
+  }
+
+  /** Removes a document; a file left without documents leaves the queue. */
+  async deleteDocument(
+    propertyId: string,
+    documentId: string,
+    user: User,
+  ): Promise<OwnershipVerificationView | null> {
+    const listing = await this.loadListing(propertyId);
+    this.assertCanManage(listing, user);
+    const record = await this.verificationModel
+      .findOne({ propertyId: listing._id })
+      .lean<OwnershipVerification>()
+      .exec();
+    if (!record?.documents.some((d) => d.publicId === documentId))
+      throw new NotFoundException('Document not found');
+    if (
+      record.status === OwnershipVerificationStatus.VERIFIED &&
+      user.role !== UserRole.ADMIN
+    ) {
+      throw new BadRequestException(
+        'Documents of a verified listing cannot be removed',
+      );
+    }
+
+    await deleteFromCloudinary(documentId, 'image', 'authenticated').catch(
+      (e) => this.logger.warn(`Could not delete document ${documentId}: ${e}`),
+    );
+
+    if (record.documents.length === 1) {
+      await this.verificationModel.deleteOne({ _id: record._id });
+      if (record.status === OwnershipVerificationStatus.VERIFIED)
+        await this.setBadge(listing, false, user);
+      return null;
+    }
+    const updated = await this.verificationModel
+      .findByIdAndUpdate(
+        record._id,
+        { $pull: { documents: { publicId: documentId } } },
+        { new: true },
+      )
+      .lean<OwnershipVerification>()
+      .exec();
+    return this.toView(updated!, user);
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // ADMIN QUEUE & REVIEW
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /** Admin queue, oldest submission first. */
+  async listQueue(
+    status = OwnershipVerificationStatus.PENDING,
+    page = 1,
+    limit = 20,
+  ) {
+    const filter = { status };
+    const [records, total] = await Promise.all([
+      this.verificationModel
+        .find(filter)
+        .populate(
+          'propertyId',
+          'title city address type price images ownershipVerified',
+        )
+        .populate('ownerId', 'name email phoneNumber')
+        .sort({ submittedAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean<OwnershipVerification[]>()
+        .exec(),
+      this.verificationModel.countDocuments(filter),
+    ]);
+    return {
+      verifications: records.map((r) => this.withDownloadUrls(r)),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findById(verificationId: string): Promise<OwnershipVerificationView> {
+    const record = await this.verificationModel
+      .findById(this.toObjectId(verificationId, 'verification'))
+      .populate(
+        'propertyId',
+        'title city address type price images ownershipVerified',
+      )
+      .populate('ownerId', 'name email phoneNumber')
+      .populate('notes.authorId', 'name')
+      .lean<OwnershipVerification>()
+      .exec();
+    if (!record) throw new NotFoundException('Verification not found');
+    return this.withDownloadUrls(record);
+  }
+
+  /**
+   * Verifies a pending file, or rejects it. Rejecting a verified file revokes
+   * the listing's badge.
+   */
+  async review(
+    verificationId: string,
+    dto: ReviewOwnershipDto,
+    admin: User,
+  ): Promise<OwnershipVerificationView> {
+    const verifying = dto.decision === OwnershipVerificationStatus.VERIFIED;
+    if (!verifying && !dto.reason?.trim()) {
+      throw new BadRequestException(
+        'A rejection reason is required so the owner knows what to fix.',
+      );
+    }
+    const from = verifying
+      ? [OwnershipVerificationStatus.PENDING]
+      : [
+          OwnershipVerificationStatus.PENDING,
+          OwnershipVerificationStatus.VERIFIED,
+        ];
+
+    const note: VerificationNote = {
+      authorId: admin._id,
+      text: dto.note?.trim() || dto.reason?.trim() || '',
+      decision: dto.decision,
+      createdAt: new Date(),
+    };
+    const record = await this.verificationModel
+      .findOneAndUpdate(
+        {
+          _id: this.toObjectId(verificationId, 'verification'),
+          status: { $in: from },
+        },
+        {
+          $set: {
+            status: dto.decision,
+            reviewedBy: admin._id,
+            reviewedAt: new Date(),
+            ...(!verifying && { rejectionReason: dto.reason!.trim() }),
+          },
+          ...(verifying && { $unset: { rejectionReason: '' } }),
+          $push: { notes: note },
+        },
+        { new: true },
+      )
+      .lean<OwnershipVerification>()
+      .exec();
+    if (!record) {
+      const exists = await this.verificationModel.exists({
+        _id: verificationId,
+      });
+      if (!exists) throw new NotFoundException('Verification not found');
+      throw new BadRequestException(
+        verifying
+          ? 'Only pending files can be verified'
+          : 'Only pending or verified files can be rejected',
+      );
+    }
+
+    const listing = await this.loadListing(record.propertyId.toString());
+    await this.setBadge(listing, verifying, admin);
+    await this.notifyOwner(
+      record,
+      listing,
+      verifying ? 'Ownership verified' : 'Ownership verification update',
+      verifying
+        ? `The ownership documents of ${listing.title} were verified. Your listing now shows the verified ownership badge.`
+        : `The ownership documents of ${listing.title} were not accepted: ${dto.reason!.trim()}. Upload the missing or corrected documents to try again.`,
+    );
+    this.logger.log(
+      `Ownership of property ${listing._id.toString()} ${dto.decision} by ${admin._id.toString()}`,
+    );
+    return this.withDownloadUrls(record);
+  }
+
+  async addNote(
+    verificationId: string,
+    text: string,
+    admin: User,
+  ): Promise<OwnershipVerificationView> {
+    const note: VerificationNote = {
+      authorId: admin._id,
+      text: text.trim(),
+      createdAt: new Date(),
+    };
+    const record = await this.verificationModel
+      .findByIdAndUpdate(
+        this.toObjectId(verificationId, 'verification'),
+        { $push: { notes: note } },
+        { new: true },
+      )
+      .lean<OwnershipVerification>()
+      .exec();
+    if (!record) throw new NotFoundException('Verification not found');
+    return this.withDownloadUrls(record);
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // LISTING CHANGES
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * The listing now describes another plot or is no longer for sale: the
+   * documents have to be checked again before the badge can come back.
+   */
+  async reopen(propertyId: string, reason: string): Promise<void> {
+    const record = await this.verificationModel
+      .findOneAndUpdate(
+        {
+          propertyId: new Types.ObjectId(propertyId),
+          status: OwnershipVerificationStatus.VERIFIED,
+        },
+        {
+          $set: {
+            status: OwnershipVerificationStatus.PENDING,
+            submittedAt: new Date(),
+          },
+          $push: { notes: { text: reason, createdAt: new Date() } },
+        },
+        { new: true },
+      )
+      .lean<OwnershipVerification>()
+      .exec();
+    if (!record) return;
+
+    const listing = await this.loadListing(propertyId);
+    await this.propertyModel.updateOne(
+      { _id: listing._id },
+      {
+        $set: { ownershipVerified: false },
+        $unset: { ownershipVerifiedAt: '' },
+      },
+    );
+    this.emitBadgeChange(listing);
+    this.notifyAdmins(listing).catch((e) =>
+      this.logger.warn(`Admin notification failed: ${e}`),
+    );
+    this.logger.log(
+      `Ownership of property ${propertyId} back to review: ${reason}`,
+    );
+  }
+
+  /** The listing is gone: its documents go too. */
+  async removeForProperty(propertyId: string): Promise<void> {
+    const record = await this.verificationModel
+      .findOneAndDelete({ propertyId: new Types.ObjectId(propertyId) })
+      .lean<OwnershipVerification>()
+      .exec();
+    for (const doc of record?.documents ?? []) {
+      deleteFromCloudinary(doc.publicId, 'image', 'authenticated').catch((e) =>
+        this.logger.warn(`Could not delete document ${doc.publicId}: ${e}`),
+      );
+    }
+  }
+
+  // ─── Helpers ────────────────────────────────────────────────────────────────
+
+  private async loadListing(propertyId: string): Promise<ListingRef> {
+    const listing = await this.propertyModel
+      .findById(this.toObjectId(propertyId, 'property'))
+      .select(LISTING_FIELDS)
+      .lean<ListingRef>()
+      .exec();
+    if (!listing) throw new NotFoundException('Property not found');
+    return listing;
+  }
+
+  private assertCanManage(listing: ListingRef, user: User): void {
+    const isManager =
+      listing.ownerId.toString() === user._id.toString() ||
+      listing.agentId?.toString() === user._id.toString();
+    if (!isManager && user.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('You can only manage your own properties');
+    }
+  }
+
+  private async setBadge(
+    listing: ListingRef,
+    verified: boolean,
+    actor: User,
+  ): Promise<void> {
+    await this.propertyModel.updateOne(
+      { _id: listing._id },
+      verified
+        ? { $set: { ownershipVerified: true, ownershipVerifiedAt: new Date() } }
+        : {
+            $set: { ownershipVerified: false },
+            $unset: { ownershipVerifiedAt: '' },
+          },
+    );
+    this.emitBadgeChange(listing, actor);
+  }
+
+  private emitBadgeChange(listing: ListingRef, actor?: User): void {
+    this.eventEmitter
+      .emitAsync(
+        PropertyEvents.UPDATED,
+        new PropertyChangedEvent(
+          listing._id.toString(),
+          listing.ownerId.toString(),
+          actor?._id.toString(),
+          listing.city,
+          listing.listingType,
+          listing.approvalStatus,
+          ['ownershipVerified'],
+        ),
+      )
+      .catch((e) => this.logger.error('Ownership badge event failed', e));
+  }
+
+  /** Internal notes are for admins only. */
+  private toView(
+    record: OwnershipVerification,
+    user: User,
+  ): OwnershipVerificationView {
+    const view = this.withDownloadUrls(record);
+    if (user.role !== UserRole.ADMIN) delete view.notes;
+    return view;
+  }
+
+  private withDownloadUrls(
+    record: OwnershipVerification,
+  ): OwnershipVerificationView {
+    return {
+      ...record,
+      documents: record.documents.map((doc) => ({
+        ...doc,
+        url: signedDownloadUrl(
+          doc.publicId,
+          doc.format ?? 'jpg',
+          DOCUMENT_LINK_TTL_SECONDS,
+        ),
+      })),
+    };
+  }
+
+  private toObjectId(id: string, what: string): Types.ObjectId {
+    if (!Types.ObjectId.isValid(id))
+      throw new BadRequestException(`Invalid ${what} ID`);
+    return new Types.ObjectId(id);
+  }
+
+  private async notifyAdmins(listing: ListingRef): Promise<void> {
+    const admins = await this.userModel
+      .find({ role: UserRole.ADMIN, isActive: true })
+      .select('_id')
+      .lean<{ _id: Types.ObjectId }[]>()
+      .exec();
+    if (!admins.length) return;
+    await this.notificationsService.createBulk(
+      admins.map((a) => a._id.toString()),
+      {
+        type: NotificationType.OWNERSHIP_VERIFICATION,
+        title: 'Ownership documents to review',
+        message: `${listing.title} is waiting for ownership verification.`,
+        link: `/admin/ownership-verifications`,
+        metadata: { propertyId: listing._id.toString() },
+      },
+    );
+  }
+
+  private async notifyOwner(
+    record: OwnershipVerification,
+    listing: ListingRef,
+    title: string,
+    message: string,
+  ): Promise<void> {
+    await this.notificationsService.create({
+      userId: record.ownerId.toString(),
+      type: NotificationType.OWNERSHIP_VERIFICATION,
+      title,
+      message,
+      link: `/properties/${listing._id.toString()}`,
+      metadata: {
+        propertyId: listing._id.toString(),
+        verificationId: record._id.toString(),
+        status: record.status,
+      },
+    });
+  }
+}
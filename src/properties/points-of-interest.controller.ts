@@ -0,0 +1,147 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+
+import { PointsOfInterestService } from './points-of-interest.service';
+import {
+  CreatePointOfInterestDto,
+  ImportPointsOfInterestDto,
+  MAX_POI_IMPORT,
+  UpdatePointOfInterestDto,
+} from './dto/point-of-interest.dto';
+import { PoiCategory } from './schemas/point-of-interest.schema';
+import { POI_ENRICHMENT_RADIUS_METERS } from './utils/poi-proximity.util';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { RolesGuard, Roles, Public } from '../auth/guards/roles.guard';
+import { UserRole } from '../users/schemas/user.schema';
+
+@ApiTags('Points of Interest')
+@Controller('points-of-interest')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class PointsOfInterestController {
+  constructor(
+    private readonly pointsOfInterestService: PointsOfInterestService,
+  ) {}
+
+  @Get()
+  @Public()
+  @ApiOperation({
+    summary: 'List schools, hospitals, markets, campuses and transport hubs',
+  })
+  @ApiQuery({ name: 'city', required: false, type: String })
+  @ApiQuery({ name: 'category', required: false, enum: PoiCategory })
+  @ApiResponse({ status: 200, description: 'Active points of interest' })
+  async findAll(
+    @Query('city') city?: string,
+    @Query('category') category?: PoiCategory,
+  ) {
+    return this.pointsOfInterestService.findAll(city, category);
+  }
+
+  @Get('near')
+  @Public()
+  @ApiOperation({
+    summary: 'Points of interest around a location, nearest first',
+  })
+  @ApiQuery({ name: 'latitude', required: true, type: Number })
+  @ApiQuery({ name: 'longitude', required: true, type: Number })
+  @ApiQuery({
+    name: 'radius',
+    required: false,
+    type: Number,
+    description: `Metres (default 1000, max ${POI_ENRICHMENT_RADIUS_METERS})`,
+  })
+  @ApiQuery({ name: 'category', required: false, enum: PoiCategory })
+  @ApiResponse({
+    status: 200,
+    description: 'Places with their distanceMeters',
+  })
+  async findNear(
+    @Query('latitude') latitude: string,
+    @Query('longitude') longitude: string,
+    @Query('radius') radius?: string,
+    @Query('category') category?: PoiCategory,
+  ) {
+    const lat = parseFloat(latitude);
+    const lng = parseFloat(longitude);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+      throw new BadRequestException('latitude and longitude are required');
+    }
+    return this.pointsOfInterestService.findNear(
+      lat,
+      lng,
+      radius ? parseFloat(radius) : undefined,
+      category,
+    );
+  }
+
+  @Get(':id')
+  @Public()
+  @ApiOperation({ summary: 'Get a point of interest' })
+  @ApiParam({ name: 'id', description: 'Point of interest ID' })
+  @ApiResponse({ status: 404, description: 'Point of interest not found' })
+  async findOne(@Param('id') id: string) {
+    return this.pointsOfInterestService.findOne(id);
+  }
+
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Admin: Add a point of interest' })
+  @ApiResponse({ status: 201, description: 'Point of interest created' })
+  async create(@Body() dto: CreatePointOfInterestDto) {
+    return this.pointsOfInterestService.create(dto);
+  }
+
+  @Post('import')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Admin: Bulk load points of interest',
+    description: `Up to ${MAX_POI_IMPORT} places per call. Places are matched by externalId, or by name + category + city, and updated in place. Nearby listings are recomputed in the background.`,
+  })
+  @ApiResponse({ status: 200, description: 'Created and updated counts' })
+  async importMany(@Body() dto: ImportPointsOfInterestDto) {
+    return this.pointsOfInterestService.importMany(dto.places);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Admin: Update a point of interest' })
+  @ApiParam({ name: 'id', description: 'Point of interest ID' })
+  async update(@Param('id') id: string, @Body() dto: UpdatePointOfInterestDto) {
+    return this.pointsOfInterestService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Admin: Delete a point of interest' })
+  @ApiParam({ name: 'id', description: 'Point of interest ID' })
+  async remove(@Param('id') id: string) {
+    await this.pointsOfInterestService.remove(id);
+    return { message: 'Point of interest deleted successfully' };
+  }
+}
@@ -0,0 +1,360 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { AnyBulkWriteOperation, FilterQuery, Model, Types } from 'mongoose';
+
+import {
+  PointOfInterest,
+  PointOfInterestDocument,
+  PoiCategory,
+} from './schemas/point-of-interest.schema';
+import {
+  CreatePointOfInterestDto,
+  UpdatePointOfInterestDto,
+} from './dto/point-of-interest.dto';
+import { Property, PropertyDocument } from './schemas/property.schema';
+import {
+  NearestPoi,
+  PoiProximity,
+  POI_ENRICHMENT_RADIUS_METERS,
+  walkingMinutes,
+} from './utils/poi-proximity.util';
+
+const EARTH_RADIUS_METERS = 6_378_100;
+/** Listings recomputed per cron run. */
+const REFRESH_BATCH = 500;
+/** Places per stale-marking query ($or of $geoWithin circles). */
+const STALE_MARK_CHUNK = 100;
+
+type GeoPoint = [number, number];
+
+export interface PoiWithDistance extends PointOfInterest {
+  distanceMeters: number;
+}
+
+/**
+ * Points-of-interest dataset and the per-listing distances derived from it
+ * (Property.poiProximity, and the campus fields of studentDetails).
+ *
+ * Edits to the dataset only mark the listings around the changed places as
+ * stale; the refresh cron recomputes them in batches.
+ */
+@Injectable()
+export class PointsOfInterestService {
+  private readonly logger = new Logger(PointsOfInterestService.name);
+
+  constructor(
+    @InjectModel(PointOfInterest.name)
+    private poiModel: Model<PointOfInterestDocument>,
+    @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+  ) {}
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // DATASET
+  // ════════════════════════════════════════════════════════════════════════════
+
+  async create(dto: CreatePointOfInterestDto): Promise<PointOfInterest> {
+    const poi = await this.poiModel.create(this.toDocument(dto));
+    await this.markStaleAround([poi.location.coordinates]);
+    this.logger.log(
+      `Point of interest created: ${poi._id.toString()} (${poi.category} "${poi.name}")`,
+    );
+    return poi;
+  }
+
+  async update(
+    id: string,
+    dto: UpdatePointOfInterestDto,
+  ): Promise<PointOfInterest> {
+    this.assertValidId(id);
+    const before = await this.poiModel.findById(id).lean().exec();
+    if (!before) throw new NotFoundException('Point of interest not found');
+
+    const set: Partial<PointOfInterest> = {};
+    if (dto.name !== undefined) set.name = dto.name.trim();
+    if (dto.category !== undefined) set.category = dto.category;
+    if (dto.city !== undefined) set.city = dto.city.trim().toLowerCase();
+    if (dto.externalId !== undefined) set.externalId = dto.externalId;
+    if (dto.isActive !== undefined) set.isActive = dto.isActive;
+    if (dto.latitude !== undefined || dto.longitude !== undefined) {
+      const [lng, lat] = before.location.coordinates;
+      set.location = {
+        type: 'Point',
+        coordinates: [dto.longitude ?? lng, dto.latitude ?? lat],
+      };
+    }
+
+    const updated = await this.poiModel
+      .findByIdAndUpdate(id, { $set: set }, { new: true })
+      .lean<PointOfInterest>()
+      .exec();
+
+    // Listings near the old and the new position may both be affected
+    await this.markStaleAround([
+      before.location.coordinates,
+      updated!.location.coordinates,
+    ]);
+    return updated!;
+  }
+
+  async remove(id: string): Promise<void> {
+    this.assertValidId(id);
+    const deleted = await this.poiModel.findByIdAndDelete(id).lean().exec();
+    if (!deleted) throw new NotFoundException('Point of interest not found');
+    await this.markStaleAround([deleted.location.coordinates]);
+  }
+
+  /**
+   * Upserts a batch of places: by externalId when given, otherwise by
+   * name + category + city.
+   */
+  async importMany(
+    places: CreatePointOfInterestDto[],
+  ): Promise<{ created: number; updated: number }> {
+    const ops: AnyBulkWriteOperation<PointOfInterestDocument>[] = places.map(
+      (dto) => {
+        const doc = this.toDocument(dto);
+        const filter = doc.externalId
+          ? { externalId: doc.externalId }
+          : { name: doc.name, category: doc.category, city: doc.city };
+        return {
+          updateOne: { filter, update: { $set: doc }, upsert: true },
+        };
+      },
+    );
+
+    const result = await this.poiModel.bulkWrite(ops, { ordered: false });
+    await this.markStaleAround(
+      places.map((p): GeoPoint => [p.longitude, p.latitude]),
+    );
+
+    this.logger.log(
+      `Imported ${places.length} point(s) of interest: ${result.upsertedCount} created, ${result.modifiedCount} updated`,
+    );
+    return { created: result.upsertedCount, updated: result.modifiedCount };
+  }
+
+  findAll(city?: string, category?: PoiCategory): Promise<PointOfInterest[]> {
+    const query: FilterQuery<PointOfInterestDocument> = { isActive: true };
+    if (city) query.city = city.trim().toLowerCase();
+    if (category) query.category = category;
+
+    return this.poiModel
+      .find(query)
+      .sort({ city: 1, category: 1, name: 1 })
+      .lean<PointOfInterest[]>()
+      .exec();
+  }
+
+  async findOne(id: string): Promise<PointOfInterest> {
+    this.assertValidId(id);
+    const poi = await this.poiModel.findById(id).lean<PointOfInterest>().exec();
+    if (!poi) throw new NotFoundException('Point of interest not found');
+    return poi;
+  }
+
+  /** Active places around a point, nearest first. */
+  findNear(
+    latitude: number,
+    longitude: number,
+    radiusMeters = 1_000,
+    category?: PoiCategory,
+  ): Promise<PoiWithDistance[]> {
+    return this.poiModel
+      .aggregate<PoiWithDistance>([
+        {
+          $geoNear: {
+            near: { type: 'Point', coordinates: [longitude, latitude] },
+            distanceField: 'distanceMeters',
+            maxDistance: Math.min(radiusMeters, POI_ENRICHMENT_RADIUS_METERS),
+            query: { isActive: true, ...(category ? { category } : {}) },
+            spherical: true,
+            key: 'location',
+          },
+        },
+        { $limit: 100 },
+      ])
+      .exec();
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // LISTING ENRICHMENT
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Recomputes the nearest place of each category for one listing and, for
+   * student listings, fills the campus distance unless the owner entered it.
+   * Does not touch updatedAt: this is derived data, not an edit.
+   */
+  async enrichProperty(propertyId: string): Promise<void> {
+    const property = await this.propertyModel
+      .findById(propertyId)
+      .select('location isStudentFriendly studentDetails')
+      .lean()
+      .exec();
+    if (!property) return;
+
+    const coordinates = property.location?.coordinates;
+    if (!coordinates?.length) {
+      await this.propertyModel.updateOne(
+        { _id: property._id },
+        {
+          $set: { poiProximityComputedAt: new Date() },
+          $unset: { poiProximity: '' },
+        },
+        { timestamps: false },
+      );
+      return;
+    }
+
+    const proximity = await this.nearestByCategory(coordinates as GeoPoint);
+    const set: Record<string, unknown> = {
+      poiProximity: proximity,
+      poiProximityComputedAt: new Date(),
+    };
+    const unset: Record<string, ''> = {};
+
+    const details = property.studentDetails;
+    const ownerEntered =
+      details?.proximitySource === 'owner' ||
+      (details?.campusProximityMeters !== undefined &&
+        details?.proximitySource !== 'auto');
+    if (property.isStudentFriendly && details && !ownerEntered) {
+      const campus = proximity[PoiCategory.CAMPUS];
+      if (campus) {
+        set['studentDetails.campusProximityMeters'] = campus.distanceMeters;
+        set['studentDetails.nearestCampus'] = campus.name;
+        set['studentDetails.walkingMinutes'] = campus.walkingMinutes;
+        set['studentDetails.proximitySource'] = 'auto';
+      } else if (details.proximitySource === 'auto') {
+        // The campus it was measured against is gone or out of range
+        for (const field of [
+          'campusProximityMeters',
+          'nearestCampus',
+          'walkingMinutes',
+          'proximitySource',
+        ]) {
+          unset[`studentDetails.${field}`] = '';
+        }
+      }
+    }
+
+    await this.propertyModel.updateOne(
+      { _id: property._id },
+      { $set: set, ...(Object.keys(unset).length ? { $unset: unset } : {}) },
+      { timestamps: false },
+    );
+  }
+
+  /** Recomputes listings never enriched, or whose surroundings changed. */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async refreshStale(): Promise<void> {
+    try {
+      const stale = await this.propertyModel
+        .find({
+          poiProximityComputedAt: null,
+          'location.coordinates.0': { $exists: true },
+        })
+        .select('_id')
+        .limit(REFRESH_BATCH)
+        .lean()
+        .exec();
+
+      for (const { _id } of stale) {
+        await this.enrichProperty(_id.toString());
+      }
+      if (stale.length)
+        this.logger.log(
+          `Refreshed nearby places of ${stale.length} listing(s)`,
+        );
+    } catch (err) {
+      this.logger.error('Points-of-interest refresh failed', err);
+    }
+  }
+
+  // ─── Helpers ────────────────────────────────────────────────────────────────
+
+  private async nearestByCategory(
+    coordinates: GeoPoint,
+  ): Promise<PoiProximity> {
+    const nearest = await this.poiModel
+      .aggregate<{
+        _id: PoiCategory;
+        poiId: Types.ObjectId;
+        name: string;
+        distance: number;
+      }>([
+        {
+          // Output is sorted by distance, so $first below is the nearest
+          $geoNear: {
+            near: { type: 'Point', coordinates },
+            distanceField: 'distance',
+            maxDistance: POI_ENRICHMENT_RADIUS_METERS,
+            query: { isActive: true },
+            spherical: true,
+            key: 'location',
+          },
+        },
+        {
+          $group: {
+            _id: '$category',
+            poiId: { $first: '$_id' },
+            name: { $first: '$name' },
+            distance: { $first: '$distance' },
+          },
+        },
+      ])
+      .exec();
+
+    const proximity: PoiProximity = {};
+    for (const row of nearest) {
+      const distanceMeters = Math.round(row.distance);
+      const entry: NearestPoi = {
+        poiId: row.poiId,
+        name: row.name,
+        distanceMeters,
+        walkingMinutes: walkingMinutes(distanceMeters),
+      };
+      proximity[row._id] = entry;
+    }
+    return proximity;
+  }
+
+  /** Queues listings within enrichment range of these places for the refresh cron. */
+  private async markStaleAround(points: GeoPoint[]): Promise<void> {
+    const radians = POI_ENRICHMENT_RADIUS_METERS / EARTH_RADIUS_METERS;
+    for (let i = 0; i < points.length; i += STALE_MARK_CHUNK) {
+      const chunk = points.slice(i, i + STALE_MARK_CHUNK);
+      await this.propertyModel.updateMany(
+        {
+          $or: chunk.map((center) => ({
+            location: { $geoWithin: { $centerSphere: [center, radians] } },
+          })),
+        },
+        { $unset: { poiProximityComputedAt: '' } },
+        { timestamps: false },
+      );
+    }
+  }
+
+  private toDocument(dto: CreatePointOfInterestDto): Partial<PointOfInterest> {
+    return {
+      name: dto.name.trim(),
+      category: dto.category,
+      city: dto.city.trim().toLowerCase(),
+      location: { type: 'Point', coordinates: [dto.longitude, dto.latitude] },
+      ...(dto.externalId ? { externalId: dto.externalId.trim() } : {}),
+      isActive: dto.isActive ?? true,
+    };
+  }
+
+  private assertValidId(id: string): void {
+    if (!Types.ObjectId.isValid(id))
+      throw new BadRequestException('Invalid point of interest ID');
+  }
+}
@@ -0,0 +1,174 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model, Types } from 'mongoose';
+
+import { Property, PropertyDocument } from './schemas/property.schema';
+import {
+  PropertyPriceHistory,
+  PropertyPriceHistoryDocument,
+} from './schemas/property-price-history.schema';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/schemas/notification.schema';
+import { SavedSearchesService } from '../saved-searches/saved-searches.service';
+
+/** How long the "price reduced" badge stays on a listing. */
+export const PRICE_DROP_BADGE_DAYS = 30;
+
+@Injectable()
+export class PriceHistoryService {
+  private readonly logger = new Logger(PriceHistoryService.name);
+
+  constructor(
+    @InjectModel(PropertyPriceHistory.name)
+    private priceHistoryModel: Model<PropertyPriceHistoryDocument>,
+    @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private notificationsService: NotificationsService,
+    private savedSearchesService: SavedSearchesService,
+  ) {}
+
+  async record(
+    propertyId: string,
+    price: number,
+    currency: string,
+    previousPrice?: number,
+    actorId?: string,
+  ): Promise<PropertyPriceHistory> {
+    const changePercent =
+      previousPrice !== undefined && previousPrice > 0
+        ? Math.round(((price - previousPrice) / previousPrice) * 1000) / 10
+        : undefined;
+
+    return this.priceHistoryModel.create({
+      propertyId: new Types.ObjectId(propertyId),
+      price,
+      previousPrice,
+      changePercent,
+      currency,
+      changedBy: actorId ? new Types.ObjectId(actorId) : undefined,
+    });
+  }
+
+  async getHistory(propertyId: string) {
+    if (!Types.ObjectId.isValid(propertyId))
+      throw new BadRequestException('Invalid property ID');
+
+    const property = await this.propertyModel
+      .findById(propertyId)
+      .select('price currency priceDrop')
+      .lean()
+      .exec();
+    if (!property) throw new NotFoundException('Property not found');
+
+    const history = await this.priceHistoryModel
+      .find({ propertyId: new Types.ObjectId(propertyId) })
+      .select('price previousPrice changePercent currency createdAt')
+      .sort({ createdAt: -1 })
+      .lean()
+      .exec();
+
+    return {
+      propertyId,
+      currentPrice: property.price,
+      currency: property.currency ?? 'XAF',
+      priceDrop: property.priceDrop ?? null,
+      history: history.map((h) => ({
+        price: h.price,
+        previousPrice: h.previousPrice ?? null,
+        changePercent: h.changePercent ?? null,
+        currency: h.currency,
+        changedAt: h.createdAt,
+      })),
+    };
+  }
+
+  /**
+   * Tells users who favorited the listing, or whose saved search now matches
+   * it, that the price went down. Each user is notified once.
+   */
+  async notifyPriceDrop(
+    propertyId: string,
+    previousPrice: number,
+    price: number,
+    currency: string,
+  ): Promise<void> {
+    const property = await this.propertyModel
+      .findById(propertyId)
+      .select('title ownerId isActive')
+      .lean()
+      .exec();
+    if (!property?.isActive) return;
+
+    const [favoriters, searchers] = await Promise.all([
+      this.userModel
+        .find({ favorites: property._id })
+        .select('_id')
+        .lean()
+        .exec(),
+      this.savedSearchesService.matchProperty(propertyId),
+    ]);
+
+    const ownerId = property.ownerId.toString();
+    const favoriterIds = favoriters
+      .map((u) => u._id.toString())
+      .filter((id) => id !== ownerId);
+    const searcherIds = searchers.filter(
+      (id) => id !== ownerId && !favoriterIds.includes(id),
+    );
+
+    const percent = Math.round(((previousPrice - price) / previousPrice) * 100);
+    const base = {
+      type: NotificationType.PRICE_DROP,
+      title: 'Price drop',
+      link: `/properties/${propertyId}`,
+      metadata: {
+        propertyId,
+        propertyTitle: property.title,
+        previousPrice,
+        amount: price,
+        currency,
+      },
+    };
+
+    if (favoriterIds.length) {
+      await this.notificationsService.createBulk(favoriterIds, {
+        ...base,
+        message: `${property.title}, in your favorites, is now ${price} ${currency} (-${percent}%)`,
+      });
+    }
+    if (searcherIds.length) {
+      await this.notificationsService.createBulk(searcherIds, {
+        ...base,
+        message: `${property.title} now matches your saved search at ${price} ${currency} (-${percent}%)`,
+      });
+    }
+
+    this.logger.log(
+      `Price drop on ${propertyId}: notified ${favoriterIds.length} favoriter(s) and ${searcherIds.length} saved-search user(s)`,
+    );
+  }
+
+  /** Daily: retire "price reduced" badges older than PRICE_DROP_BADGE_DAYS. */
+  @Cron(CronExpression.EVERY_DAY_AT_4AM)
+  async expirePriceDropBadges(): Promise<void> {
+    const cutoff = new Date(Date.now() - PRICE_DROP_BADGE_DAYS * 86_400_000);
+    try {
+      const result = await this.propertyModel.updateMany(
+        { 'priceDrop.droppedAt': { $lt: cutoff } },
+        { $unset: { priceDrop: '' } },
+      );
+      if (result.modifiedCount > 0) {
+        this.logger.log(`Expired ${result.modifiedCount} price-drop badge(s)`);
+      }
+    } catch (err) {
+      this.logger.error('Price-drop badge expiry failed', err);
+    }
+  }
+}
@@ -4,6 +4,7 @@ import {
   Post,
   Body,
   Patch,
+  Put,
   Param,
   Delete,
   Query,
@@ -16,15 +17,23 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery, ApiParam } from '@nestjs/swagger';
 import { FastifyRequest } from 'fastify';
-import { MultipartFile } from '@fastify/multipart';
+import { Multipart, MultipartFile } from '@fastify/multipart';
 // Fastify multipart provides files on request via parts()
 
-import { PropertiesService, PropertySearchFilters, PropertySearchOptions } from './properties.service';
-import { CreatePropertyDto, UpdatePropertyDto, BlockDatesDto, UnblockDatesDto } from './dto/property.dto';
+import { PropertiesService, PropertySearchFilters, PropertySearchOptions, MAP_PIN_ZOOM_THRESHOLD } from './properties.service';
+import { CreatePropertyDto, UpdatePropertyDto, AutosavePropertyDto, BlockDatesDto, UnblockDatesDto } from './dto/property.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
 import { RolesGuard, Roles, Public } from '../auth/guards/roles.guard';
 import { User, UserRole } from '../users/schemas/user.schema';
-import { PropertyType, ListingType, ApprovalStatus, PricingUnit, CancellationPolicy } from './schemas/property.schema';
+import { PropertyType, ListingType, ApprovalStatus, PricingUnit, CancellationPolicy, DuplicateStatus, LandTitleStatus, ZoningType, RoadAccess, PowerPhase } from './schemas/property.schema';
+import { PriceHistoryService } from './price-history.service';
+import { ListingLifecycleService } from './listing-lifecycle.service';
+import { PropertyRevisionService } from './property-revision.service';
+import { PropertyMediaService, FloorPlanUpload } from './property-media.service';
+import { SetRoomsDto, TagImageDto, ReorderImagesDto } from './dto/property-media.dto';
+import { parsePolygonParam } from './utils/geo.util';
+import { parseNearPoiParam } from './utils/poi-proximity.util';
+import { parseTypeAttributeParams } from './utils/property-attributes.util';
 
 // DTOs for API documentation
 class CreatePropertyRequestDto {
@@ -63,7 +72,13 @@ class UpdatePropertyRequestDto extends CreatePropertyRequestDto {
 export class PropertiesController {
   private readonly logger = new Logger(PropertiesController.name);
 
-  constructor(private readonly propertiesService: PropertiesService) { }
+  constructor(
+    private readonly propertiesService: PropertiesService,
+    private readonly priceHistoryService: PriceHistoryService,
+    private readonly listingLifecycleService: ListingLifecycleService,
+    private readonly propertyRevisionService: PropertyRevisionService,
+    private readonly propertyMediaService: PropertyMediaService,
+  ) { }
 
   @Post()
   @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
@@ -94,15 +109,30 @@ export class PropertiesController {
   @ApiQuery({ name: 'latitude', required: false, type: Number, description: 'Latitude for location search' })
   @ApiQuery({ name: 'longitude', required: false, type: Number, description: 'Longitude for location search' })
   @ApiQuery({ name: 'radius', required: false, type: Number, description: 'Search radius in kilometers' })
-  @ApiQuery({ name: 'sortBy', required: false, type: String, description: 'Sort by field' })
+  @ApiQuery({ name: 'sortBy', required: false, type: String, description: 'Sort by field, or "recommended" (default: featured, then listing quality, then newest)' })
   @ApiQuery({ name: 'sortOrder', required: false, enum: ['asc', 'desc'], description: 'Sort order' })
   @ApiResponse({ status: 200, description: 'Properties retrieved successfully' })
   @ApiQuery({ name: 'isInstantBookable', required: false, type: Boolean })
   @ApiQuery({ name: 'minGuests', required: false, type: Number })
-  @ApiQuery({ name: 'cancellationPolicy', required: false, enum: CancellationPolicy })
+  @ApiQuery({ name: 'cancellationPolicy', required: false, enum: CancellationPolicy, description: 'Built-in policy; listings with a custom policy are not matched' })
   @ApiQuery({ name: 'pricingUnit', required: false, enum: PricingUnit })
   @ApiQuery({ name: 'checkIn', required: false, type: String, description: 'ISO date — filters available properties' })
   @ApiQuery({ name: 'checkOut', required: false, type: String, description: 'ISO date — filters available properties' })
+  @ApiQuery({ name: 'facets', required: false, type: Boolean, description: 'Include facet counts computed against the same filters' })
+  @ApiQuery({ name: 'polygon', required: false, type: String, description: 'JSON array of {lat, lng} points drawn on the map' })
+  @ApiQuery({ name: 'areaId', required: false, type: String, description: 'Named search area (see GET /search-areas)' })
+  @ApiQuery({ name: 'nearPoi', required: false, type: String, description: 'Comma-separated category:metres, e.g. "market:500,campus:1000" (see GET /points-of-interest)' })
+  @ApiQuery({ name: 'displayCurrency', required: false, type: String, description: 'Adds displayPrice in this currency (see GET /exchange-rates); minPrice/maxPrice are read in it too' })
+  @ApiQuery({ name: 'landTitleStatus', required: false, type: String, description: `Land: comma-separated title statuses (${Object.values(LandTitleStatus).join(', ')})` })
+  @ApiQuery({ name: 'zoning', required: false, type: String, description: `Land: comma-separated zonings (${Object.values(ZoningType).join(', ')})` })
+  @ApiQuery({ name: 'roadAccess', required: false, type: String, description: `Land: comma-separated road access (${Object.values(RoadAccess).join(', ')})` })
+  @ApiQuery({ name: 'minPlotArea', required: false, type: Number, description: 'Land: minimum plot area in m²' })
+  @ApiQuery({ name: 'maxPlotArea', required: false, type: Number, description: 'Land: maximum plot area in m²' })
+  @ApiQuery({ name: 'minFrontage', required: false, type: Number, description: 'Commercial: minimum street frontage in metres' })
+  @ApiQuery({ name: 'hasLoadingDock', required: false, type: Boolean, description: 'Commercial: has a loading dock' })
+  @ApiQuery({ name: 'powerPhase', required: false, enum: PowerPhase, description: 'Commercial: electrical supply' })
+  @ApiQuery({ name: 'minCommercialParking', required: false, type: Number, description: 'Commercial: minimum parking spaces' })
+  @ApiQuery({ name: 'ownershipVerified', required: false, type: Boolean, description: 'Only listings whose ownership documents were verified' })
 
 
   async findAll(
@@ -129,7 +159,11 @@ export class PropertiesController {
       pricingUnit: query.pricingUnit,
       checkIn: query.checkIn ? new Date(query.checkIn) : undefined,
       checkOut: query.checkOut ? new Date(query.checkOut) : undefined,
-
+      areaId: query.areaId,
+      nearPoi: query.nearPoi ? parseNearPoiParam(query.nearPoi) : undefined,
+      typeAttributes: parseTypeAttributeParams(query),
+      ownershipVerified: query.ownershipVerified === 'true' || undefined,
+      priceCurrency: query.displayCurrency,
     };
 
     // Handle bounding box search
@@ -141,11 +175,18 @@ export class PropertiesController {
       }
     }
 
+    // Handle draw-on-map search
+    if (query.polygon) {
+      filters.polygon = parsePolygonParam(query.polygon);
+    }
+
     const options: PropertySearchOptions = {
       page: query.page ? parseInt(query.page) : 1,
       limit: query.limit ? parseInt(query.limit) : 20,
-      sortBy: query.sortBy || 'createdAt',
+      sortBy: query.sortBy || 'recommended',
       sortOrder: query.sortOrder || 'desc',
+      includeFacets: query.facets === 'true',
+      displayCurrency: query.displayCurrency,
     };
 
     return this.propertiesService.findAll(filters, options, req.user);
@@ -179,6 +220,55 @@ export class PropertiesController {
     return this.propertiesService.findNearby(lat, lng, radiusKm, maxResults, req?.user);
   }
 
+  @Get('map/clusters')
+  @Public()
+  @ApiOperation({ summary: 'Cluster property pins for a map viewport' })
+  @ApiQuery({ name: 'bounds', required: true, type: String, description: 'JSON {northeast: {lat, lng}, southwest: {lat, lng}}' })
+  @ApiQuery({ name: 'zoom', required: true, type: Number, description: `Map zoom level (0-22). From ${MAP_PIN_ZOOM_THRESHOLD} on, individual pins are returned` })
+  @ApiQuery({ name: 'minPrice', required: false, type: Number })
+  @ApiQuery({ name: 'maxPrice', required: false, type: Number })
+  @ApiQuery({ name: 'propertyType', required: false, enum: PropertyType })
+  @ApiQuery({ name: 'listingType', required: false, enum: ListingType })
+  @ApiQuery({ name: 'city', required: false, type: String })
+  @ApiQuery({ name: 'bedrooms', required: false, type: Number })
+  @ApiQuery({ name: 'polygon', required: false, type: String, description: 'JSON array of {lat, lng} points drawn on the map' })
+  @ApiQuery({ name: 'areaId', required: false, type: String, description: 'Named search area (see GET /search-areas)' })
+  @ApiQuery({ name: 'priceCurrency', required: false, type: String, description: 'Currency of minPrice/maxPrice (default XAF)' })
+  @ApiResponse({ status: 200, description: 'Clusters (count, centroid, price range) and single pins' })
+  @ApiResponse({ status: 400, description: 'Invalid bounds or zoom' })
+  async getMapClusters(@Query() query: any) {
+    let bounds: PropertySearchFilters['bounds'];
+    try {
+      bounds = query.bounds ? JSON.parse(query.bounds) : undefined;
+    } catch (error) {
+      throw new BadRequestException('Invalid bounds format');
+    }
+    if (!bounds?.northeast || !bounds?.southwest) {
+      throw new BadRequestException('bounds with northeast and southwest corners is required');
+    }
+
+    const zoom = parseFloat(query.zoom);
+    if (isNaN(zoom) || zoom < 0 || zoom > 22) {
+      throw new BadRequestException('zoom must be a number between 0 and 22');
+    }
+
+    const filters: PropertySearchFilters = {
+      minPrice: query.minPrice ? parseFloat(query.minPrice) : undefined,
+      maxPrice: query.maxPrice ? parseFloat(query.maxPrice) : undefined,
+      propertyType: query.propertyType,
+      listingType: query.listingType,
+      city: query.city,
+      bedrooms: query.bedrooms ? parseInt(query.bedrooms) : undefined,
+      amenities: query.amenities ? query.amenities.split(',') : undefined,
+      polygon: query.polygon ? parsePolygonParam(query.polygon) : undefined,
+      areaId: query.areaId,
+      nearPoi: query.nearPoi ? parseNearPoiParam(query.nearPoi) : undefined,
+      priceCurrency: query.priceCurrency,
+    };
+
+    return this.propertiesService.getMapClusters(bounds, zoom, filters);
+  }
+
   @Get('search')
   @Public()
   @ApiOperation({ summary: 'Text search properties' })
@@ -189,6 +279,12 @@ export class PropertiesController {
   @ApiQuery({ name: 'propertyType', required: false, enum: PropertyType })
   @ApiQuery({ name: 'minPrice', required: false, type: Number })
   @ApiQuery({ name: 'maxPrice', required: false, type: Number })
+  @ApiQuery({ name: 'facets', required: false, type: Boolean, description: 'Include facet counts for the matched listings' })
+  @ApiQuery({ name: 'fuzzy', required: false, type: Boolean, description: 'Typo- and accent-tolerant matching with FR/EN synonyms. Used automatically when the exact search finds nothing' })
+  @ApiQuery({ name: 'polygon', required: false, type: String, description: 'JSON array of {lat, lng} points drawn on the map' })
+  @ApiQuery({ name: 'areaId', required: false, type: String, description: 'Named search area (see GET /search-areas)' })
+  @ApiQuery({ name: 'nearPoi', required: false, type: String, description: 'Comma-separated category:metres, e.g. "market:500"' })
+  @ApiQuery({ name: 'displayCurrency', required: false, type: String, description: 'Adds displayPrice in this currency (see GET /exchange-rates); minPrice/maxPrice are read in it too' })
   @ApiResponse({ status: 200, description: 'Search results' })
   @ApiResponse({ status: 400, description: 'Search query is required' })
   async searchByText(
@@ -204,16 +300,42 @@ export class PropertiesController {
       propertyType: query.propertyType,
       minPrice: query.minPrice ? parseFloat(query.minPrice) : undefined,
       maxPrice: query.maxPrice ? parseFloat(query.maxPrice) : undefined,
+      polygon: query.polygon ? parsePolygonParam(query.polygon) : undefined,
+      areaId: query.areaId,
+      nearPoi: query.nearPoi ? parseNearPoiParam(query.nearPoi) : undefined,
+      priceCurrency: query.displayCurrency,
     };
 
     const options: PropertySearchOptions = {
       page: query.page ? parseInt(query.page) : 1,
       limit: query.limit ? parseInt(query.limit) : 20,
+      includeFacets: query.facets === 'true',
+      fuzzy: query.fuzzy === 'true',
+      displayCurrency: query.displayCurrency,
     };
 
     return this.propertiesService.searchByText(query.q, filters, options, req.user);
   }
 
+  @Get('suggest')
+  @Public()
+  @ApiOperation({ summary: 'Autocomplete: suggest cities, neighborhoods and listings while typing' })
+  @ApiQuery({ name: 'q', required: true, type: String, description: 'Partial query, e.g. "yaound" or "apartement bas"' })
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Max suggestions per group (default: 5, max: 10)' })
+  @ApiQuery({ name: 'city', required: false, type: String, description: 'Restrict suggestions to a city' })
+  @ApiResponse({ status: 200, description: 'Suggestions grouped by cities, neighborhoods and properties' })
+  async suggest(
+    @Query('q') q: string,
+    @Query('limit') limit?: string,
+    @Query('city') city?: string,
+  ) {
+    if (!q) {
+      throw new BadRequestException('Query (q) is required');
+    }
+    const max = Math.min(limit ? parseInt(limit) || 5 : 5, 10);
+    return this.propertiesService.suggest(q, max, city);
+  }
+
   @Get('most-viewed')
   @Public()
   @ApiOperation({ summary: 'Get most viewed properties' })
@@ -265,6 +387,7 @@ export class PropertiesController {
   @ApiQuery({ name: 'listingType', required: false, enum: ListingType })
   @ApiQuery({ name: 'city', required: false, type: String })
   @ApiQuery({ name: 'search', required: false, type: String })
+  @ApiQuery({ name: 'duplicateStatus', required: false, enum: DuplicateStatus, description: 'Only listings flagged by duplicate detection (original listing is populated)' })
   @ApiQuery({ name: 'page', required: false, type: Number })
   @ApiQuery({ name: 'limit', required: false, type: Number })
   @ApiQuery({ name: 'sortBy', required: false, type: String })
@@ -281,6 +404,7 @@ export class PropertiesController {
       city: query.city,
       search: query.search,
       ownerId: query.ownerId,
+      duplicateStatus: query.duplicateStatus as DuplicateStatus | undefined,
     };
     const options = {
       page: query.page ? parseInt(query.page) : 1,
@@ -318,6 +442,53 @@ export class PropertiesController {
     return this.propertiesService.rejectProperty(id, body.reason, req.user);
   }
 
+  // ─── Revisions of approved listings ─────────────────────────────────────────
+
+  @Get('admin/revisions')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Admin: Pending edits of approved listings, oldest first, with their field diff' })
+  @ApiBearerAuth()
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Revision queue retrieved' })
+  async getRevisionQueue(
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.propertyRevisionService.listQueue(
+      page ? parseInt(page) : 1,
+      limit ? Math.min(parseInt(limit), 100) : 20,
+    );
+  }
+
+  @Patch('revisions/:revisionId/approve')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Admin: Apply a pending revision to the live listing' })
+  @ApiBearerAuth()
+  @ApiParam({ name: 'revisionId', description: 'Revision ID' })
+  @ApiResponse({ status: 200, description: 'Revision approved and applied' })
+  @ApiResponse({ status: 400, description: 'Revision is no longer pending' })
+  async approveRevision(
+    @Param('revisionId') revisionId: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.propertiesService.approveRevision(revisionId, req.user);
+  }
+
+  @Patch('revisions/:revisionId/reject')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Admin: Reject a pending revision (the live listing is unchanged)' })
+  @ApiBearerAuth()
+  @ApiParam({ name: 'revisionId', description: 'Revision ID' })
+  @ApiResponse({ status: 200, description: 'Revision rejected' })
+  async rejectRevision(
+    @Param('revisionId') revisionId: string,
+    @Body() body: { reason?: string },
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.propertyRevisionService.reject(revisionId, body?.reason, req.user);
+  }
+
   @Get('short-term')
   @Public()
   @ApiOperation({ summary: 'Browse short-term / hospitality listings (hotels, vacation rentals, etc.)' })
@@ -329,7 +500,7 @@ export class PropertiesController {
   @ApiQuery({ name: 'propertyType', required: false, enum: PropertyType })
   @ApiQuery({ name: 'isInstantBookable', required: false, type: Boolean })
   @ApiQuery({ name: 'minGuests', required: false, type: Number })
-  @ApiQuery({ name: 'cancellationPolicy', required: false, enum: CancellationPolicy })
+  @ApiQuery({ name: 'cancellationPolicy', required: false, enum: CancellationPolicy, description: 'Built-in policy; listings with a custom policy are not matched' })
   @ApiQuery({ name: 'pricingUnit', required: false, enum: PricingUnit })
   @ApiQuery({ name: 'checkIn', required: false, type: String, description: 'ISO date' })
   @ApiQuery({ name: 'checkOut', required: false, type: String, description: 'ISO date' })
@@ -338,6 +509,7 @@ export class PropertiesController {
   @ApiQuery({ name: 'radius', required: false, type: Number, description: 'km' })
   @ApiQuery({ name: 'sortBy', required: false, type: String })
   @ApiQuery({ name: 'sortOrder', required: false, enum: ['asc', 'desc'] })
+  @ApiQuery({ name: 'displayCurrency', required: false, type: String, description: 'Adds displayPrice in this currency (see GET /exchange-rates); minPrice/maxPrice are read in it too' })
   @ApiResponse({ status: 200, description: 'Paginated short-term listings' })
   async getShortTermListings(@Query() query: any) {
     const filters = {
@@ -356,12 +528,14 @@ export class PropertiesController {
       radius: query.radius ? parseFloat(query.radius) : undefined,
       checkIn: query.checkIn ? new Date(query.checkIn) : undefined,
       checkOut: query.checkOut ? new Date(query.checkOut) : undefined,
+      priceCurrency: query.displayCurrency,
     };
     const options = {
       page: query.page ? parseInt(query.page) : 1,
       limit: query.limit ? parseInt(query.limit) : 20,
       sortBy: query.sortBy || 'createdAt',
       sortOrder: query.sortOrder || 'desc',
+      displayCurrency: query.displayCurrency,
     };
     return this.propertiesService.getShortTermListings(filters, options);
   }
@@ -440,13 +614,15 @@ export class PropertiesController {
   @Public()
   @ApiOperation({ summary: 'Get property by ID' })
   @ApiParam({ name: 'id', description: 'Property ID' })
+  @ApiQuery({ name: 'displayCurrency', required: false, type: String, description: 'Adds displayPrice in this currency (see GET /exchange-rates)' })
   @ApiResponse({ status: 200, description: 'Property found' })
   @ApiResponse({ status: 404, description: 'Property not found' })
   async findOne(
     @Param('id') id: string,
     @Req() req: FastifyRequest & { user?: User },
+    @Query('displayCurrency') displayCurrency?: string,
   ) {
-    return this.propertiesService.findOne(id, req.user);
+    return this.propertiesService.findOne(id, req.user, displayCurrency);
   }
 
   @Patch(':id')
@@ -527,6 +703,69 @@ export class PropertiesController {
     return this.propertiesService.getMyProperties(filters, options, userId);
   }
 
+  @Post(':id/renew')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Renew a listing for another full lifetime (brings expired listings back online)' })
+  @ApiBearerAuth()
+  @ApiParam({ name: 'id', description: 'Property ID' })
+  @ApiResponse({ status: 200, description: 'Listing renewed' })
+  @ApiResponse({ status: 400, description: 'Listing is not approved' })
+  async renewProperty(
+    @Param('id') id: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    const property = await this.listingLifecycleService.renew(id, req.user);
+    return { message: 'Listing renewed', property };
+  }
+
+  // ─── Drafts & revisions ─────────────────────────────────────────────────────
+
+  @Patch(':id/autosave')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Autosave a draft listing (no moderation, no notifications)' })
+  @ApiBearerAuth()
+  @ApiParam({ name: 'id', description: 'Property ID' })
+  @ApiResponse({ status: 200, description: 'Draft saved; returns the new autosaveSeq' })
+  @ApiResponse({ status: 400, description: 'Listing is not a draft' })
+  @ApiResponse({ status: 409, description: 'Draft was saved from another session in the meantime' })
+  async autosaveDraft(
+    @Param('id') id: string,
+    @Body() dto: AutosavePropertyDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.propertiesService.autosaveDraft(id, dto, req.user);
+  }
+
+  @Post(':id/submit')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Submit a draft listing for approval' })
+  @ApiBearerAuth()
+  @ApiParam({ name: 'id', description: 'Property ID' })
+  @ApiResponse({ status: 200, description: 'Draft submitted' })
+  @ApiResponse({ status: 400, description: 'Listing is not a draft or is incomplete' })
+  async submitDraft(
+    @Param('id') id: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    const property = await this.propertiesService.submitDraft(id, req.user);
+    return { message: 'Listing submitted', property };
+  }
+
+  @Get(':id/revisions')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Edit history of a listing (pending, approved and rejected revisions)' })
+  @ApiBearerAuth()
+  @ApiParam({ name: 'id', description: 'Property ID' })
+  @ApiResponse({ status: 200, description: 'Revisions retrieved, newest first' })
+  async getRevisions(
+    @Param('id') id: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.propertyRevisionService.history(id, req.user);
+  }
+
   @Patch(':id/feature')
   @Roles(UserRole.ADMIN)
   @ApiOperation({ summary: 'Toggle property featured status (Admin only)' })
@@ -645,6 +884,16 @@ export class PropertiesController {
     return this.propertiesService.getSimilarProperties(id, maxResults);
   }
 
+  @Get(':id/price-history')
+  @Public()
+  @ApiOperation({ summary: 'Get the price history of a property, newest first' })
+  @ApiParam({ name: 'id', description: 'Property ID' })
+  @ApiResponse({ status: 200, description: 'Current price, active price drop and past prices' })
+  @ApiResponse({ status: 404, description: 'Property not found' })
+  async getPriceHistory(@Param('id') id: string) {
+    return this.priceHistoryService.getHistory(id);
+  }
+
   @Post(':id/images')
   @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
   @ApiOperation({ summary: 'Upload property images' })
@@ -718,4 +967,125 @@ export class PropertiesController {
     const property = await this.propertiesService.deleteVideo(id, videoId, (req as any).user);
     return { message: 'Video deleted successfully', property };
   }
+
+  // ─── Rooms, floor plans & photo organisation ───────────────────────────────
+
+  @Get(':id/media')
+  @Public()
+  @ApiOperation({ summary: 'Photos grouped by room, floor plans and cover photo' })
+  @ApiParam({ name: 'id', description: 'Property ID' })
+  @ApiQuery({ name: 'room', required: false, type: String, description: 'Room key (bedroom-2) or type (kitchen)' })
+  @ApiResponse({ status: 200, description: 'Listing media' })
+  @ApiResponse({ status: 404, description: 'Property not found' })
+  async getMedia(
+    @Param('id') id: string,
+    @Query('room') room?: string,
+  ) {
+    return this.propertyMediaService.getMedia(id, room);
+  }
+
+  @Post(':id/floor-plans')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Upload floor plans',
+    description: 'Optional `label` and `level` fields apply to the file that follows them.',
+  })
+  @ApiBearerAuth()
+  @ApiParam({ name: 'id', description: 'Property ID' })
+  async uploadFloorPlans(
+    @Param('id') id: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    const files: FloorPlanUpload[] = [];
+    let details: Omit<FloorPlanUpload, 'buffer'> = {};
+    for await (const part of req.parts() as AsyncIterable<Multipart>) {
+      if (part.type === 'field') {
+        if (part.fieldname === 'label') details.label = String(part.value).trim() || undefined;
+        if (part.fieldname === 'level') {
+          const level = parseInt(String(part.value), 10);
+          if (Number.isNaN(level)) throw new BadRequestException('level must be an integer');
+          details.level = level;
+        }
+        continue;
+      }
+      const chunks: Buffer[] = [];
+      for await (const chunk of part.file) {
+        chunks.push(Buffer.from(chunk));
+      }
+      files.push({ buffer: Buffer.concat(chunks), ...details });
+      details = {};
+    }
+    const media = await this.propertyMediaService.uploadFloorPlans(id, files, req.user);
+    return { message: 'Floor plans uploaded successfully', media };
+  }
+
+  @Delete(':id/floor-plans/:floorPlanId')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Delete a floor plan' })
+  @ApiBearerAuth()
+  @ApiParam({ name: 'floorPlanId', description: 'publicId of the floor plan (URL-encoded)' })
+  async deleteFloorPlan(
+    @Param('id') id: string,
+    @Param('floorPlanId') floorPlanId: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    const media = await this.propertyMediaService.deleteFloorPlan(id, floorPlanId, req.user);
+    return { message: 'Floor plan deleted successfully', media };
+  }
+
+  @Put(':id/rooms')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Set the rooms of a listing',
+    description: 'Replaces the whole list. Photos tagged to a room that is left out lose their tag.',
+  })
+  @ApiBearerAuth()
+  @ApiParam({ name: 'id', description: 'Property ID' })
+  async setRooms(
+    @Param('id') id: string,
+    @Body() dto: SetRoomsDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.propertyMediaService.setRooms(id, dto.rooms, req.user);
+  }
+
+  @Patch(':id/images/order')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Reorder property images' })
+  @ApiBearerAuth()
+  @ApiParam({ name: 'id', description: 'Property ID' })
+  async reorderImages(
+    @Param('id') id: string,
+    @Body() dto: ReorderImagesDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.propertyMediaService.reorderImages(id, dto.publicIds, req.user);
+  }
+
+  @Patch(':id/images/:imageId/cover')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Use an image as the cover photo' })
+  @ApiBearerAuth()
+  @ApiParam({ name: 'imageId', description: 'publicId of the image (URL-encoded)' })
+  async setCoverImage(
+    @Param('id') id: string,
+    @Param('imageId') imageId: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.propertyMediaService.setCover(id, imageId, req.user);
+  }
+
+  @Patch(':id/images/:imageId')
+  @Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Tag an image to a room and/or change its caption' })
+  @ApiBearerAuth()
+  @ApiParam({ name: 'imageId', description: 'publicId of the image (URL-encoded)' })
+  async tagImage(
+    @Param('id') id: string,
+    @Param('imageId') imageId: string,
+    @Body() dto: TagImageDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.propertyMediaService.tagImage(id, imageId, dto, req.user);
+  }
 }
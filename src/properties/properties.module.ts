@@ -6,14 +6,60 @@ import { InquiryService } from './inquiry.service';
 import { InquiryController } from './inquiry.controller';
 import { ComparisonService } from './comparison.service';
 import { ComparisonController } from './comparison.controller';
+import { SearchAreasService } from './search-areas.service';
+import { SearchAreasController } from './search-areas.controller';
 import { Property, PropertySchema } from './schemas/property.schema';
 import { Inquiry, InquirySchema } from './schemas/inquiry.schema';
 import { Comparison, ComparisonSchema } from './schemas/comparison.schema';
+import { SearchArea, SearchAreaSchema } from './schemas/search-area.schema';
 import { User, UserSchema } from '../users/schemas/user.schema';
 import { HistoryModule } from '../history/history.module';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { UserInteractionsModule } from '../user-interactions/user-interactions.module';
 import { WatermarkService } from 'src/watermark/watermark.service';
+import { PropertyCacheListener } from './listeners/property-cache.listener';
+import { PropertyQualityListener } from './listeners/property-quality.listener';
+import { ListingQualityService } from './listing-quality.service';
+import { PropertyDuplicateListener } from './listeners/property-duplicate.listener';
+import { DuplicateDetectionService } from './duplicate-detection.service';
+import { PropertyPriceListener } from './listeners/property-price.listener';
+import { PriceHistoryService } from './price-history.service';
+import {
+  PropertyPriceHistory,
+  PropertyPriceHistorySchema,
+} from './schemas/property-price-history.schema';
+import { SavedSearchesModule } from '../saved-searches/saved-searches.module';
+import { PropertyImportService } from './property-import.service';
+import { PropertyImportController } from './property-import.controller';
+import {
+  PropertyImportJob,
+  PropertyImportJobSchema,
+} from './schemas/property-import.schema';
+import { PaymentsModule } from '../payments/payments.module';
+import { ListingLifecycleService } from './listing-lifecycle.service';
+import { SystemSettingsModule } from '../system-settings/system-settings.module';
+import { GeocodingModule } from '../geocoding/geocoding.module';
+import { CurrencyModule } from '../currency/currency.module';
+import { PropertyRevisionService } from './property-revision.service';
+import { PointsOfInterestService } from './points-of-interest.service';
+import { PointsOfInterestController } from './points-of-interest.controller';
+import { PropertyPoiListener } from './listeners/property-poi.listener';
+import { PropertyMediaService } from './property-media.service';
+import { OwnershipVerificationService } from './ownership-verification.service';
+import { OwnershipVerificationController } from './ownership-verification.controller';
+import { PropertyOwnershipListener } from './listeners/property-ownership.listener';
+import {
+  PointOfInterest,
+  PointOfInterestSchema,
+} from './schemas/point-of-interest.schema';
+import {
+  PropertyRevision,
+  PropertyRevisionSchema,
+} from './schemas/property-revision.schema';
+import {
+  OwnershipVerification,
+  OwnershipVerificationSchema,
+} from './schemas/ownership-verification.schema';
 
 @Module({
   imports: [
@@ -21,14 +67,46 @@ import { WatermarkService } from 'src/watermark/watermark.service';
       { name: Property.name, schema: PropertySchema },
       { name: Inquiry.name, schema: InquirySchema },
       { name: Comparison.name, schema: ComparisonSchema },
+      { name: SearchArea.name, schema: SearchAreaSchema },
       { name: User.name, schema: UserSchema },
+      { name: PropertyPriceHistory.name, schema: PropertyPriceHistorySchema },
+      { name: PropertyImportJob.name, schema: PropertyImportJobSchema },
+      { name: PropertyRevision.name, schema: PropertyRevisionSchema },
+      { name: PointOfInterest.name, schema: PointOfInterestSchema },
+      { name: OwnershipVerification.name, schema: OwnershipVerificationSchema },
     ]),
     HistoryModule,
     NotificationsModule,
     UserInteractionsModule,
+    SavedSearchesModule,
+    PaymentsModule,
+    SystemSettingsModule,
+    GeocodingModule,
+    CurrencyModule,
   ],
-  controllers: [PropertiesController, InquiryController, ComparisonController],
-  providers: [PropertiesService, InquiryService, ComparisonService, WatermarkService],
-  exports: [PropertiesService, InquiryService, ComparisonService],
+  controllers: [PropertiesController, InquiryController, ComparisonController, SearchAreasController, PropertyImportController, PointsOfInterestController, OwnershipVerificationController],
+  providers: [
+    PropertiesService,
+    InquiryService,
+    ComparisonService,
+    WatermarkService,
+    PropertyCacheListener,
+    SearchAreasService,
+    ListingQualityService,
+    PropertyQualityListener,
+    DuplicateDetectionService,
+    PropertyDuplicateListener,
+    PriceHistoryService,
+    PropertyPriceListener,
+    PropertyImportService,
+    ListingLifecycleService,
+    PropertyRevisionService,
+    PointsOfInterestService,
+    PropertyPoiListener,
+    PropertyMediaService,
+    OwnershipVerificationService,
+    PropertyOwnershipListener,
+  ],
+  exports: [PropertiesService, InquiryService, ComparisonService, SearchAreasService],
 })
 export class PropertiesModule {}
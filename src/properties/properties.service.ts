@@ -3,12 +3,13 @@ import {
   NotFoundException,
   ForbiddenException,
   BadRequestException,
+  ConflictException,
   Logger,
   OnModuleInit,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types } from 'mongoose';
-import axios from 'axios';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Model, PipelineStage, Types } from 'mongoose';
 import { uploadBufferToCloudinary, deleteFromCloudinary } from '../utils/cloudinary';
 import { WatermarkService } from '../watermark/watermark.service';
 
@@ -21,13 +22,43 @@ import {
   ListingType,
   PricingUnit,
   CancellationPolicy,
+  DuplicateStatus,
+  PropertyImages,
+  PropertyMediaItem,
 } from './schemas/property.schema';
 import { User, UserRole, UserDocument } from '../users/schemas/user.schema';
 import { HistoryService } from '../history/history.service';
 import { ActivityType } from '../history/schemas/history.schema';
 import { UserInteractionsService } from '../user-interactions/user-interactions.service';
 import { InteractionType, InteractionSource } from '../user-interactions/schemas/user-interaction.schema';
-import { BlockDatesDto, UnblockDatesDto, CreatePropertyDto, UpdatePropertyDto } from './dto/property.dto';
+import { BlockDatesDto, UnblockDatesDto, CreatePropertyDto, UpdatePropertyDto, AutosavePropertyDto } from './dto/property.dto';
+import { CacheService } from '../cache/cache.service';
+import {
+  PropertyEvents,
+  PropertyEventName,
+  PropertyChangedEvent,
+  PropertyPriceChangedEvent,
+} from './events/property.events';
+import { PropertyCacheKeys, cachePrefixesFor } from './listeners/property-cache.listener';
+import { SearchAreasService } from './search-areas.service';
+import { ListingLifecycleService } from './listing-lifecycle.service';
+import { GeocodingService } from '../geocoding/geocoding.service';
+import { ExchangeRatesService } from '../currency/exchange-rates.service';
+import { PropertyRevisionService } from './property-revision.service';
+import { PropertyRevision } from './schemas/property-revision.schema';
+import { GeoJsonPolygon, viewportFilter } from './utils/geo.util';
+import { computeImageHash } from './utils/image-hash.util';
+import { MATERIAL_FIELDS, splitMaterialChanges } from './utils/property-diff.util';
+import { PoiDistanceFilter, poiDistanceQuery } from './utils/poi-proximity.util';
+import { TypeAttributeFilters, resolveTypeDetails, typeAttributesQuery } from './utils/property-attributes.util';
+import { BASE_CURRENCY } from '../currency/utils/currency-conversion.util';
+import {
+  buildPropertySearchIndex,
+  buildFuzzyQueryPlan,
+  fuzzyMatchScore,
+  normalizeSearchText,
+  tokenizeSearchText,
+} from './utils/search-text.util';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -47,12 +78,30 @@ export interface PropertySearchFilters {
     northeast: { lat: number; lng: number };
     southwest: { lat: number; lng: number };
   };
+  /** Custom shape drawn on the map. Takes precedence over radius and bounds. */
+  polygon?: GeoJsonPolygon;
+  /** Named SearchArea; resolved to its boundary polygon when no polygon is given. */
+  areaId?: string;
   isInstantBookable?: boolean;
   minGuests?: number;
+  /** Built-in policy. Listings under a host's custom policy are not matched. */
   cancellationPolicy?: CancellationPolicy;
   pricingUnit?: PricingUnit;
   checkIn?: Date;
   checkOut?: Date;
+  /** "Within X m of a market / campus…", against the precomputed poiProximity. */
+  nearPoi?: PoiDistanceFilter[];
+  /** Land (title, zoning, plot size) and commercial (frontage, power…) attributes. */
+  typeAttributes?: TypeAttributeFilters;
+  /** Only sale listings whose title documents were checked by an admin. */
+  ownershipVerified?: boolean;
+  /** Currency minPrice/maxPrice are given in (default XAF). */
+  priceCurrency?: string;
+  /**
+   * minPrice/maxPrice converted to every listing currency; set by
+   * resolvePriceRange so the query builders stay synchronous.
+   */
+  priceQuery?: Record<string, unknown>;
 }
 
 export interface PropertySearchOptions {
@@ -61,23 +110,121 @@ export interface PropertySearchOptions {
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
   includeInactive?: boolean;
+  /** When true, facet counts are computed alongside the result page. */
+  includeFacets?: boolean;
+  /** Text search only: use the typo/accent-tolerant trigram matcher instead of $text. */
+  fuzzy?: boolean;
+  /** Adds `displayPrice` converted to this currency to every listing. */
+  displayCurrency?: string;
+}
+
+export interface SearchSuggestions {
+  cities: { value: string; count: number }[];
+  neighborhoods: { value: string; city: string; count: number }[];
+  properties: { _id: string; title: string; city: string; neighborhood?: string; slug?: string }[];
+}
+
+/** Minimum average per-word trigram overlap for a fuzzy match. */
+const FUZZY_MIN_SCORE = 0.5;
+const SUGGEST_MIN_SCORE = 0.6;
+const SEARCH_INDEX_BACKFILL_BATCH = 500;
+const SUGGEST_CACHE_TTL_MS = 5 * 60_000;
+
+/**
+ * Default feed order: featured first, then by listing-quality tier, newest
+ * first within a tier so fresh listings are not buried by older complete ones.
+ */
+const RECOMMENDED_SORT = { isFeatured: -1, 'listingQuality.tier': -1, createdAt: -1 } as const;
+
+export interface FacetBucket<T = string> {
+  value: T;
+  count: number;
+}
+
+export interface PriceFacetBucket {
+  min: number;
+  max: number;
+  count: number;
+}
+
+/**
+ * Counts per filter value, computed against the same filters as the result
+ * page so the UI can render "Douala (124)" before the user clicks.
+ */
+export interface PropertyFacets {
+  propertyType: FacetBucket[];
+  listingType: FacetBucket[];
+  city: FacetBucket[];
+  neighborhood: FacetBucket[];
+  /** 0–4 are exact counts; "5+" groups everything above. */
+  bedrooms: FacetBucket[];
+  price: PriceFacetBucket[];
+  amenities: Record<string, number>;
+  waterSource: FacetBucket[];
+  electricityBackup: FacetBucket[];
+}
+
+/** Boolean flags on Property.amenities that are counted in the amenities facet. */
+const AMENITY_FACET_FLAGS = [
+  'hasGarden',
+  'hasPool',
+  'hasGym',
+  'hasSecurity',
+  'hasElevator',
+  'hasBalcony',
+  'hasAirConditioning',
+  'hasInternet',
+  'hasGenerator',
+  'furnished',
+] as const;
+
+const FACET_VALUE_LIMIT = 20;
+const PRICE_HISTOGRAM_BUCKETS = 8;
+
+// ─── Map clustering ───────────────────────────────────────────────────────────
+
+export interface MapCluster {
+  count: number;
+  centroid: { lat: number; lng: number };
+  minPrice: number;
+  maxPrice: number;
 }
 
-// ─── Cache Entry ──────────────────────────────────────────────────────────────
+export interface MapPin {
+  _id: string;
+  title: string;
+  price: number;
+  currency?: string;
+  type: PropertyType;
+  listingType: ListingType;
+  lat: number;
+  lng: number;
+  image?: string;
+}
 
-interface CacheEntry<T> {
-  data: T;
-  expiresAt: number;
+export interface MapClusterResult {
+  zoom: number;
+  mode: 'clusters' | 'pins';
+  total: number;
+  clusters: MapCluster[];
+  pins: MapPin[];
 }
 
+/** From this zoom level on, individual pins are returned instead of clusters. */
+export const MAP_PIN_ZOOM_THRESHOLD = 15;
+/** Approximate on-screen cluster cell size, in pixels of a 256px web-mercator tile. */
+const MAP_CLUSTER_CELL_PX = 64;
+const MAP_MAX_PINS = 500;
+const MAP_MAX_CLUSTERS = 1000;
+const MAP_CACHE_TTL_MS = 60_000;
+
 // ─── Service ──────────────────────────────────────────────────────────────────
 
 @Injectable()
 export class PropertiesService implements OnModuleInit {
   private readonly logger = new Logger(PropertiesService.name);
 
-  // ── In-memory TTL cache (replace with Redis in production) ────────────────
-  private readonly cache = new Map<string, CacheEntry<any>>();
+  // ── Cache TTLs (store is pluggable — see CacheModule) ─────────────────────
   private readonly CACHE_TTL_MS = 60_000; // 1 minute default
   private readonly POPULAR_CITIES_TTL_MS = 5 * 60_000; // 5 minutes
   private readonly FEATURED_TTL_MS = 2 * 60_000; // 2 minutes
@@ -87,13 +234,22 @@ export class PropertiesService implements OnModuleInit {
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     private historyService: HistoryService,
     private userInteractionsService: UserInteractionsService,
-    private watermarkService: WatermarkService
+    private watermarkService: WatermarkService,
+    private cacheService: CacheService,
+    private eventEmitter: EventEmitter2,
+    private searchAreasService: SearchAreasService,
+    private listingLifecycleService: ListingLifecycleService,
+    private propertyRevisionService: PropertyRevisionService,
+    private geocodingService: GeocodingService,
+    private exchangeRatesService: ExchangeRatesService,
   ) { }
 
   // ── Ensure DB indexes exist on startup ────────────────────────────────────
 
   async onModuleInit(): Promise<void> {
     await this.ensureIndexes();
+    // Listings created before fuzzy search existed — runs in the background
+    this.backfillSearchIndex().catch((e) => this.logger.error('Search index backfill failed', e));
   }
 
   /**
@@ -136,6 +292,9 @@ export class PropertiesService implements OnModuleInit {
 
         // Slug lookups
         col.createIndex({ slug: 1 }, { unique: true, sparse: true, background: true } as any),
+
+        // Fuzzy search / autocomplete
+        col.createIndex({ searchGrams: 1 }, { background: true } as any),
       ]);
 
       this.logger.log('✅ Property indexes ensured');
@@ -144,28 +303,65 @@ export class PropertiesService implements OnModuleInit {
     }
   }
 
-  // ════════════════════════════════════════════════════════════════════════════
-  // CACHE HELPERS
-  // ════════════════════════════════════════════════════════════════════════════
+  private async backfillSearchIndex(): Promise<void> {
+    const cursor = this.propertyModel
+      .find({ searchGrams: { $exists: false } })
+      .select('title city neighborhood keywords')
+      .lean()
+      .cursor();
 
-  private cacheGet<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
-    if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
-      return null;
+    let ops: any[] = [];
+    let updated = 0;
+    for await (const doc of cursor) {
+      ops.push({
+        updateOne: { filter: { _id: doc._id }, update: { $set: buildPropertySearchIndex(doc as any) } },
+      });
+      if (ops.length >= SEARCH_INDEX_BACKFILL_BATCH) {
+        await this.propertyModel.bulkWrite(ops);
+        updated += ops.length;
+        ops = [];
+      }
     }
-    return entry.data as T;
+    if (ops.length) {
+      await this.propertyModel.bulkWrite(ops);
+      updated += ops.length;
+    }
+    if (updated) this.logger.log(`Search index backfilled for ${updated} properties`);
   }
 
-  private cacheSet<T>(key: string, data: T, ttlMs = this.CACHE_TTL_MS): void {
-    this.cache.set(key, { data, expiresAt: Date.now() + ttlMs });
-  }
+  // ════════════════════════════════════════════════════════════════════════════
+  // EVENTS
+  // ════════════════════════════════════════════════════════════════════════════
 
-  private cacheInvalidate(pattern: string): void {
-    for (const key of this.cache.keys()) {
-      if (key.startsWith(pattern)) this.cache.delete(key);
-    }
+  /**
+   * Drops the cached lists the change affects, then emits a lifecycle event
+   * for the other listeners. The invalidation is awaited so a client reading
+   * right after its own write never gets a stale list; listener failures are
+   * logged and never bubble into the request.
+   */
+  private async emitPropertyEvent(
+    name: PropertyEventName,
+    property: any,
+    actor?: User,
+    changedFields: string[] = [],
+  ): Promise<void> {
+    await this.cacheService
+      .invalidate(...cachePrefixesFor(name))
+      .catch((e) => this.logger.error(`Cache invalidation after ${name} failed`, e));
+
+    const event = new PropertyChangedEvent(
+      property._id.toString(),
+      (property.ownerId?._id ?? property.ownerId)?.toString(),
+      actor?._id?.toString(),
+      property.city,
+      property.listingType,
+      property.approvalStatus,
+      changedFields,
+    );
+
+    this.eventEmitter
+      .emitAsync(name, event)
+      .catch((e) => this.logger.error(`Listener for ${name} failed`, e));
   }
 
   // ════════════════════════════════════════════════════════════════════════════
@@ -174,12 +370,25 @@ export class PropertiesService implements OnModuleInit {
 
   async create(createPropertyDto: CreatePropertyDto, user: User): Promise<Property> {
     try {
-      const { latitude, longitude, ...restDto } = createPropertyDto;
+      const { latitude: givenLatitude, longitude: givenLongitude, ...restDto } = createPropertyDto;
+      if (restDto.currency) restDto.currency = await this.exchangeRatesService.assertSupported(restDto.currency);
+      let latitude = givenLatitude;
+      let longitude = givenLongitude;
 
       if (latitude !== undefined && longitude !== undefined) {
         if (!this.isValidCoordinate(latitude, longitude)) {
           throw new BadRequestException('Invalid coordinates provided');
         }
+      } else if (createPropertyDto.address || createPropertyDto.neighborhood) {
+        // No pin dropped: place the listing from its address (gazetteer first, offline)
+        const geocoded = await this.geocodingService.geocode({
+          address: createPropertyDto.address,
+          neighborhood: createPropertyDto.neighborhood,
+          city: createPropertyDto.city,
+          country: createPropertyDto.country ?? 'Cameroon',
+        });
+        latitude = geocoded?.latitude;
+        longitude = geocoded?.longitude;
       }
 
       const locationData =
@@ -197,18 +406,37 @@ export class PropertiesService implements OnModuleInit {
       if (createPropertyDto.listingType === ListingType.SHORT_TERM) {
         this.validateShortTermFields(createPropertyDto);
       }
+      Object.assign(createPropertyDto, resolveTypeDetails(createPropertyDto.type, createPropertyDto));
+
+      // Drafts are saved as-is and only enter moderation once submitted
+      const isDraft = createPropertyDto.status === PropertyStatus.DRAFT;
+
+      // Admin listings skip moderation, so they go live (or get scheduled) right away
+      const schedule = await this.listingLifecycleService.resolveSchedule(
+        createPropertyDto.listingType,
+        createPropertyDto,
+        user,
+      );
+      const publication = isAdmin && !isDraft
+        ? await this.listingLifecycleService.goLiveFields({ listingType: createPropertyDto.listingType, ...schedule })
+        : { isActive: false };
+
+      const keywords = this.generateKeywords(createPropertyDto);
 
       const property = new this.propertyModel({
         ...restDto,
         ...locationData,
+        ...buildPropertySearchIndex({ ...createPropertyDto, keywords }),
         latitude,
         longitude,
         ownerId: user._id,
         agentId: user.role === UserRole.AGENT ? user._id : undefined,
         slug: this.generateSlug(createPropertyDto.title),
-        keywords: this.generateKeywords(createPropertyDto),
-        approvalStatus: isAdmin ? ApprovalStatus.APPROVED : ApprovalStatus.PENDING,
-        isActive: isAdmin,
+        keywords,
+        approvalStatus: isAdmin && !isDraft ? ApprovalStatus.APPROVED : ApprovalStatus.PENDING,
+        ...(isDraft ? { availability: PropertyStatus.DRAFT } : {}),
+        ...schedule,
+        ...publication,
         pricingUnit: createPropertyDto.pricingUnit ?? PricingUnit.NIGHTLY,
         minNights: createPropertyDto.minNights ?? 1,
         maxNights: createPropertyDto.maxNights ?? 365,
@@ -225,10 +453,7 @@ export class PropertiesService implements OnModuleInit {
 
       const savedProperty = await property.save();
 
-      // Invalidate caches that may now be stale
-      this.cacheInvalidate('popular_cities');
-      this.cacheInvalidate('recent_');
-      this.cacheInvalidate('featured_');
+      await this.emitPropertyEvent(PropertyEvents.CREATED, savedProperty, user);
 
       this.logger.log(
         `Property created: ${savedProperty._id} by user ${user._id} (approvalStatus: ${savedProperty.approvalStatus})`,
@@ -249,7 +474,13 @@ export class PropertiesService implements OnModuleInit {
     filters: PropertySearchFilters = {},
     options: PropertySearchOptions = {},
     user?: User,
-  ): Promise<{ properties: Property[]; total: number; page: number; totalPages: number }> {
+  ): Promise<{
+    properties: Property[];
+    total: number;
+    page: number;
+    totalPages: number;
+    facets?: PropertyFacets;
+  }> {
     try {
       const {
         page = 1,
@@ -257,11 +488,17 @@ export class PropertiesService implements OnModuleInit {
         sortBy = 'createdAt',
         sortOrder = 'desc',
         includeInactive = false,
+        includeFacets = false,
       } = options;
 
+      filters = await this.resolvePriceRange(await this.resolveSearchArea(filters));
+
       const skip = (page - 1) * limit;
       const query = this.buildBaseListQuery(filters, includeInactive);
-      const sort: any = { [sortBy]: sortOrder === 'asc' ? 1 : -1 };
+      const sort: any =
+        sortBy === 'recommended'
+          ? RECOMMENDED_SORT
+          : { [sortBy]: sortOrder === 'asc' ? 1 : -1 };
 
       // Availability sub-query runs in parallel with the main queries
       const availabilityPromise =
@@ -274,8 +511,8 @@ export class PropertiesService implements OnModuleInit {
         query._id = { $nin: bookedIds };
       }
 
-      // Main query + count in parallel — both use .lean() to skip hydration
-      const [properties, total] = await Promise.all([
+      // Main query + count (+ facets) in parallel — all use .lean() to skip hydration
+      const [properties, total, facets] = await Promise.all([
         this.propertyModel
           .find(query)
           .select(this.listingProjection())
@@ -287,6 +524,7 @@ export class PropertiesService implements OnModuleInit {
           .lean()  // ← skip Mongoose document hydration
           .exec(),
         this.propertyModel.countDocuments(query),
+        includeFacets ? this.computeFacets(query) : Promise.resolve(undefined),
       ]);
 
       // ── Fire-and-forget analytics (don't block the response) ──────────────
@@ -294,7 +532,13 @@ export class PropertiesService implements OnModuleInit {
         this.fireAnalytics(user, filters, total);
       }
 
-      return { properties: properties as unknown as Property[], total, page, totalPages: Math.ceil(total / limit) };
+      return {
+        properties: (await this.withDisplayPrice(properties, options.displayCurrency)) as unknown as Property[],
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+        ...(facets ? { facets } : {}),
+      };
     } catch (error) {
       this.logger.error('Error finding properties:', error);
       throw error;
@@ -365,11 +609,144 @@ export class PropertiesService implements OnModuleInit {
     }
   }
 
+  // ════════════════════════════════════════════════════════════════════════════
+  // MAP CLUSTERS
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Aggregates the listings inside a map viewport into grid clusters sized for
+   * the zoom level. Past MAP_PIN_ZOOM_THRESHOLD (or when a cell holds a single
+   * listing) individual pins are returned with a minimal projection.
+   */
+  async getMapClusters(
+    bounds: NonNullable<PropertySearchFilters['bounds']>,
+    zoom: number,
+    filters: PropertySearchFilters = {},
+  ): Promise<MapClusterResult> {
+    const z = Math.max(0, Math.min(22, Math.floor(zoom)));
+    filters = await this.resolvePriceRange(await this.resolveSearchArea(filters));
+
+    const cacheKey = `${PropertyCacheKeys.MAP_CLUSTERS}${z}:${JSON.stringify({ bounds, filters })}`;
+    const cached = await this.cacheService.get<MapClusterResult>(cacheKey);
+    if (cached) return cached;
+
+    // Radius search does not apply to a viewport; $near also cannot be aggregated
+    const { polygon, ...rest } = filters;
+    const query = this.buildBaseListQuery({ ...rest, bounds: undefined, radius: undefined }, false);
+    query.$and = [...(query.$and ?? []), viewportFilter(bounds)];
+    // A drawn or named area narrows the viewport further
+    if (polygon) {
+      query.$and.push({ location: { $geoWithin: { $geometry: polygon } } });
+    }
+
+    const result = z >= MAP_PIN_ZOOM_THRESHOLD
+      ? await this.loadMapPins(query, z)
+      : await this.loadMapClusters(query, z);
+
+    await this.cacheService.set(cacheKey, result, MAP_CACHE_TTL_MS);
+    return result;
+  }
+
+  private async loadMapPins(query: any, zoom: number): Promise<MapClusterResult> {
+    const [docs, total] = await Promise.all([
+      this.propertyModel
+        .find(query)
+        .select('title price currency type listingType location images')
+        .sort({ isFeatured: -1, createdAt: -1 })
+        .limit(MAP_MAX_PINS)
+        .lean()
+        .exec(),
+      this.propertyModel.countDocuments(query),
+    ]);
+
+    return { zoom, mode: 'pins', total, clusters: [], pins: docs.map((d) => this.toMapPin(d)) };
+  }
+
+  private async loadMapClusters(query: any, zoom: number): Promise<MapClusterResult> {
+    // Degrees of longitude covered by one cluster cell at this zoom
+    const cell = (360 / Math.pow(2, zoom)) * (MAP_CLUSTER_CELL_PX / 256);
+
+    // Counted apart from the groups, which stop at MAP_MAX_CLUSTERS
+    const [{ groups, total: counted }]: { groups: any[]; total: { n: number }[] }[] = await this.propertyModel.aggregate([
+      { $match: query },
+      {
+        $facet: {
+          total: [{ $count: 'n' }],
+          groups: [
+            {
+              $project: {
+                title: 1,
+                price: 1,
+                currency: 1,
+                type: 1,
+                listingType: 1,
+                images: { $slice: ['$images', 1] },
+                lng: { $arrayElemAt: ['$location.coordinates', 0] },
+                lat: { $arrayElemAt: ['$location.coordinates', 1] },
+              },
+            },
+            {
+              $group: {
+                _id: {
+                  x: { $floor: { $divide: ['$lng', cell] } },
+                  y: { $floor: { $divide: ['$lat', cell] } },
+                },
+                count: { $sum: 1 },
+                lng: { $avg: '$lng' },
+                lat: { $avg: '$lat' },
+                minPrice: { $min: '$price' },
+                maxPrice: { $max: '$price' },
+                sample: { $first: '$$ROOT' },
+              },
+            },
+            { $sort: { count: -1 } },
+            { $limit: MAP_MAX_CLUSTERS },
+          ],
+        },
+      },
+    ]);
+
+    const clusters: MapCluster[] = [];
+    const pins: MapPin[] = [];
+    const total = counted[0]?.n ?? 0;
+
+    for (const g of groups) {
+      if (g.count === 1) {
+        pins.push(this.toMapPin({ ...g.sample, location: { coordinates: [g.sample.lng, g.sample.lat] } }));
+      } else {
+        clusters.push({
+          count: g.count,
+          centroid: { lat: g.lat, lng: g.lng },
+          minPrice: g.minPrice,
+          maxPrice: g.maxPrice,
+        });
+      }
+    }
+
+    return { zoom, mode: 'clusters', total, clusters, pins };
+  }
+
+  private toMapPin(doc: any): MapPin {
+    const [lng, lat] = doc.location?.coordinates ?? [];
+    const image = doc.images?.find((img: any) => img.isMain) ?? doc.images?.[0];
+    return {
+      _id: doc._id.toString(),
+      title: doc.title,
+      price: doc.price,
+      currency: doc.currency,
+      type: doc.type,
+      listingType: doc.listingType,
+      lat,
+      lng,
+      image: image?.url,
+    };
+  }
+
   // ════════════════════════════════════════════════════════════════════════════
   // FIND ONE
   // ════════════════════════════════════════════════════════════════════════════
 
-  async findOne(id: string, user?: User): Promise<Property> {
+  async findOne(id: string, user?: User, displayCurrency?: string): Promise<Property> {
     try {
       if (!Types.ObjectId.isValid(id)) {
         throw new BadRequestException(`Invalid property ID format: ${id}`);
@@ -426,7 +803,8 @@ export class PropertiesService implements OnModuleInit {
           .catch((e) => this.logger.error('Interaction track failed', e));
       }
 
-      return property as unknown as Property;
+      const [displayed] = await this.withDisplayPrice([property as { price?: number; currency?: string }], displayCurrency);
+      return displayed as unknown as Property;
     } catch (error) {
       this.logger.error(`Error finding property ${id}:`, error);
       throw error;
@@ -442,7 +820,7 @@ export class PropertiesService implements OnModuleInit {
       // Fetch only the fields we need for the permission check — not the full document
       const property = await this.propertyModel
         .findById(id)
-        .select('ownerId agentId title description city type')
+        .select('ownerId agentId title description city type listingType neighborhood keywords price currency publishAt approvalStatus')
         .lean()
         .exec();
 
@@ -456,6 +834,27 @@ export class PropertiesService implements OnModuleInit {
         throw new ForbiddenException('You can only update your own properties');
       }
 
+      if (updatePropertyDto.currency) {
+        updatePropertyDto.currency = await this.exchangeRatesService.assertSupported(updatePropertyDto.currency);
+      }
+      if (updatePropertyDto.type || updatePropertyDto.landDetails || updatePropertyDto.commercialDetails) {
+        Object.assign(
+          updatePropertyDto,
+          resolveTypeDetails(updatePropertyDto.type ?? property.type, updatePropertyDto, property.type),
+        );
+      }
+
+      // Approved listings keep serving their approved content: material edits
+      // become a revision for moderation, the rest is applied right away
+      let pendingRevision: PropertyRevision | null = null;
+      if (this.propertyRevisionService.requiresReview(property, user)) {
+        const { material, immediate } = splitMaterialChanges(updatePropertyDto);
+        if (Object.keys(material).length) {
+          pendingRevision = await this.propertyRevisionService.stage(id, material, user);
+        }
+        updatePropertyDto = immediate as UpdatePropertyDto;
+      }
+
       if (
         updatePropertyDto.latitude !== undefined &&
         updatePropertyDto.longitude !== undefined
@@ -478,8 +877,62 @@ export class PropertiesService implements OnModuleInit {
         } as any);
       }
 
+      if (
+        updatePropertyDto.keywords ||
+        updatePropertyDto.title ||
+        updatePropertyDto.city ||
+        updatePropertyDto.neighborhood !== undefined
+      ) {
+        Object.assign(
+          updatePropertyDto,
+          buildPropertySearchIndex({
+            title: updatePropertyDto.title ?? (property as any).title,
+            city: updatePropertyDto.city ?? (property as any).city,
+            neighborhood: updatePropertyDto.neighborhood ?? (property as any).neighborhood,
+            keywords: updatePropertyDto.keywords ?? (property as any).keywords,
+          }),
+        );
+      }
+
+      // Price changes: maintain the "price reduced" badge; history is recorded by listeners
+      const previousPrice: number = (property as any).price;
+      const priceChanged = updatePropertyDto.price !== undefined && updatePropertyDto.price !== previousPrice;
+      const priceUpdate = !priceChanged
+        ? {}
+        : updatePropertyDto.price! < previousPrice
+          ? {
+            priceDrop: {
+              previousPrice,
+              percent: Math.round(((previousPrice - updatePropertyDto.price!) / previousPrice) * 1000) / 10,
+              droppedAt: new Date(),
+            },
+          }
+          : { $unset: { priceDrop: '' } };
+
+      let scheduleUpdate = {};
+      if (updatePropertyDto.publishAt !== undefined || updatePropertyDto.expiresAt !== undefined) {
+        const schedule = await this.listingLifecycleService.resolveSchedule(
+          updatePropertyDto.listingType ?? (property as any).listingType,
+          {
+            publishAt: updatePropertyDto.publishAt ?? (property as any).publishAt,
+            expiresAt: updatePropertyDto.expiresAt,
+          },
+          user,
+        );
+        // A new expiry date deserves a new reminder
+        scheduleUpdate = schedule.expiresAt ? { ...schedule, $unset: { expiryReminderSentAt: '' } } : schedule;
+      }
+
+      // Both may clear a field: keep every $unset, not just the last one spread
+      const { $unset: scheduleUnset, ...scheduleSet } = scheduleUpdate as { $unset?: Record<string, ''> };
+      const { $unset: priceUnset, ...priceSet } = priceUpdate as { $unset?: Record<string, ''> };
+      const $unset = { ...scheduleUnset, ...priceUnset };
       const updatedProperty = await this.propertyModel
-        .findByIdAndUpdate(id, updatePropertyDto, { new: true })
+        .findByIdAndUpdate(
+          id,
+          { ...updatePropertyDto, ...scheduleSet, ...priceSet, ...(Object.keys($unset).length ? { $unset } : {}) },
+          { new: true },
+        )
         .populate('ownerId', 'name email phoneNumber')
         .populate('agentId', 'name email phoneNumber agency')
         .lean()
@@ -487,12 +940,27 @@ export class PropertiesService implements OnModuleInit {
 
       if (!updatedProperty) throw new NotFoundException('Property not found after update');
 
-      // Invalidate relevant caches
-      this.cacheInvalidate(`similar_${id}`);
-      this.cacheInvalidate('featured_');
+      // Nothing applied when the whole edit went to a revision
+      if (Object.keys(updatePropertyDto).length) {
+        await this.emitPropertyEvent(PropertyEvents.UPDATED, updatedProperty, user, Object.keys(updatePropertyDto));
+      }
+      if (priceChanged) {
+        this.eventEmitter
+          .emitAsync(
+            PropertyEvents.PRICE_CHANGED,
+            new PropertyPriceChangedEvent(
+              id,
+              previousPrice,
+              updatedProperty.price,
+              updatedProperty.currency ?? 'XAF',
+              user._id.toString(),
+            ),
+          )
+          .catch((e) => this.logger.error(`Listener for ${PropertyEvents.PRICE_CHANGED} failed`, e));
+      }
 
       this.logger.log(`Property updated: ${id} by user ${user._id}`);
-      return updatedProperty as unknown as Property;
+      return (pendingRevision ? { ...updatedProperty, pendingRevision } : updatedProperty) as unknown as Property;
     } catch (error) {
       this.logger.error(`Error updating property ${id}:`, error);
       throw error;
@@ -511,6 +979,7 @@ export class PropertiesService implements OnModuleInit {
       city?: string;
       ownerId?: string;
       search?: string;
+      duplicateStatus?: DuplicateStatus;
     } = {},
     options: PropertySearchOptions = {},
   ): Promise<{ properties: Property[]; total: number; page: number; totalPages: number }> {
@@ -519,10 +988,13 @@ export class PropertiesService implements OnModuleInit {
 
     const query: any = {};
     if (filters.approvalStatus) query.approvalStatus = filters.approvalStatus;
+    // Drafts are still being written — keep them out of the moderation queue
+    if (filters.approvalStatus === ApprovalStatus.PENDING) query.availability = { $ne: PropertyStatus.DRAFT };
     if (filters.propertyType) query.type = filters.propertyType;
     if (filters.listingType) query.listingType = filters.listingType;
     if (filters.city) query.city = filters.city.trim().toLowerCase();
     if (filters.ownerId) query.ownerId = new Types.ObjectId(filters.ownerId);
+    if (filters.duplicateStatus) query['duplicateFlag.status'] = filters.duplicateStatus;
     if (filters.search) {
       query.$or = [
         { title: { $regex: filters.search, $options: 'i' } },
@@ -538,6 +1010,12 @@ export class PropertiesService implements OnModuleInit {
         .find(query)
         .populate('ownerId', 'name email phoneNumber profilePicture role agency')
         .populate('agentId', 'name email profilePicture agency')
+        // Link flagged reposts to the listing they appear to copy
+        .populate({
+          path: 'duplicateFlag.originalId',
+          model: Property.name,
+          select: 'title slug city address price images ownerId approvalStatus createdAt',
+        })
         .sort(sort)
         .skip(skip)
         .limit(limit)
@@ -550,14 +1028,30 @@ export class PropertiesService implements OnModuleInit {
   }
 
   async approveProperty(id: string, admin: User): Promise<Property> {
-    const property = await this.propertyModel.findById(id).select('_id').lean().exec();
+    const property = await this.propertyModel
+      .findById(id)
+      .select('_id duplicateFlag listingType publishAt publishedAt expiresAt availability')
+      .lean()
+      .exec();
     if (!property) throw new NotFoundException('Property not found');
     if (admin.role !== UserRole.ADMIN) throw new ForbiddenException('Only admins can approve properties');
+    if (property.availability === PropertyStatus.DRAFT) {
+      throw new BadRequestException('Draft listings must be submitted before they can be approved');
+    }
+
+    // Listings with a future publish date stay hidden until the scheduler publishes them
+    const publication = await this.listingLifecycleService.goLiveFields(property);
+
+    // Approving a suspected repost means the admin judged it genuine
+    const dismissDuplicate =
+      property.duplicateFlag?.status === DuplicateStatus.SUSPECTED
+        ? { 'duplicateFlag.status': DuplicateStatus.DISMISSED }
+        : {};
 
     const updated = await this.propertyModel
       .findByIdAndUpdate(
         id,
-        { approvalStatus: ApprovalStatus.APPROVED, isActive: true, $unset: { rejectionReason: '' } },
+        { approvalStatus: ApprovalStatus.APPROVED, ...publication, ...dismissDuplicate, $unset: { rejectionReason: '' } },
         { new: true },
       )
       .populate('ownerId', 'name email phoneNumber')
@@ -565,14 +1059,13 @@ export class PropertiesService implements OnModuleInit {
       .lean()
       .exec();
 
-    this.cacheInvalidate('featured_');
-    this.cacheInvalidate('recent_');
+    await this.emitPropertyEvent(PropertyEvents.APPROVED, updated, admin);
     this.logger.log(`Property ${id} approved by admin ${admin._id}`);
     return updated as unknown as Property;
   }
 
   async rejectProperty(id: string, reason: string | undefined, admin: User): Promise<Property> {
-    const property = await this.propertyModel.findById(id).select('_id').lean().exec();
+    const property = await this.propertyModel.findById(id).select('_id duplicateFlag').lean().exec();
     if (!property) throw new NotFoundException('Property not found');
     if (admin.role !== UserRole.ADMIN) throw new ForbiddenException('Only admins can reject properties');
 
@@ -583,6 +1076,9 @@ export class PropertiesService implements OnModuleInit {
           approvalStatus: ApprovalStatus.REJECTED,
           isActive: false,
           ...(reason ? { rejectionReason: reason } : {}),
+          ...(property.duplicateFlag?.status === DuplicateStatus.SUSPECTED
+            ? { 'duplicateFlag.status': DuplicateStatus.CONFIRMED }
+            : {}),
         },
         { new: true },
       )
@@ -591,10 +1087,132 @@ export class PropertiesService implements OnModuleInit {
       .lean()
       .exec();
 
+    await this.emitPropertyEvent(PropertyEvents.REJECTED, updated, admin);
     this.logger.log(`Property ${id} rejected by admin ${admin._id}. Reason: ${reason ?? 'none'}`);
     return updated as unknown as Property;
   }
 
+  // ════════════════════════════════════════════════════════════════════════════
+  // REVISIONS  (moderated edits of approved listings)
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /** Applies a pending revision through the regular update path, so listeners see a normal edit. */
+  async approveRevision(revisionId: string, admin: User): Promise<Property> {
+    if (admin.role !== UserRole.ADMIN) throw new ForbiddenException('Only admins can approve revisions');
+
+    const revision = await this.propertyRevisionService.getPendingById(revisionId);
+    const propertyId = revision.propertyId.toString();
+    const before = await this.propertyModel.findById(propertyId).select('images floorPlans videos').lean().exec();
+    if (!before) throw new NotFoundException('Property not found');
+
+    const updated = await this.update(propertyId, revision.changes as UpdatePropertyDto, admin);
+    await this.propertyRevisionService.markApproved(revision, before, admin);
+    return updated;
+  }
+
+  /** Photos or videos of the pending revision, if it touches them. */
+  private async stagedMedia<T extends PropertyImages | PropertyMediaItem>(
+    propertyId: string,
+    field: 'images' | 'videos',
+  ): Promise<T[] | undefined> {
+    const pending = await this.propertyRevisionService.getPending(propertyId);
+    return pending?.changes[field] as T[] | undefined;
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // DRAFTS
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Saves a draft without side effects (no events, no re-indexing) so it can
+   * be called on every keystroke pause. Pass the `autosaveSeq` last returned
+   * to detect a newer save from another tab or device.
+   */
+  async autosaveDraft(
+    id: string,
+    dto: AutosavePropertyDto,
+    user: User,
+  ): Promise<{ autosaveSeq: number; autosavedAt: Date }> {
+    if (!Types.ObjectId.isValid(id)) throw new BadRequestException('Invalid property ID');
+
+    const property = await this.propertyModel.findById(id).select('ownerId agentId availability autosaveSeq').lean().exec();
+    if (!property) throw new NotFoundException('Property not found');
+    this.assertCanManage(property as unknown as Property, user);
+    if (property.availability !== PropertyStatus.DRAFT) {
+      throw new BadRequestException('Only draft listings can be autosaved');
+    }
+
+    // Status and moderation flags are not draft content
+    const { autosaveSeq: expectedSeq, ...changes } = dto;
+    for (const key of ['availability', 'isVerified', 'isFeatured', 'isActive'] as const) delete changes[key];
+    const set: Record<string, unknown> = { ...changes, autosavedAt: new Date() };
+    if (changes.city) set.city = changes.city.trim().toLowerCase();
+    if (changes.latitude !== undefined && changes.longitude !== undefined) {
+      if (!this.isValidCoordinate(changes.latitude, changes.longitude)) {
+        throw new BadRequestException('Invalid coordinates provided');
+      }
+      set.location = { type: 'Point', coordinates: [changes.longitude, changes.latitude] };
+    }
+    const saved = await this.propertyModel
+      .findOneAndUpdate(
+        {
+          _id: id,
+          availability: PropertyStatus.DRAFT,
+          ...(expectedSeq !== undefined ? { autosaveSeq: expectedSeq } : {}),
+        },
+        { $set: set, $inc: { autosaveSeq: 1 } },
+        { new: true, runValidators: true },
+      )
+      .select('autosaveSeq autosavedAt')
+      .lean()
+      .exec();
+
+    if (!saved) {
+      throw new ConflictException('This draft was saved from another session — reload it before saving again');
+    }
+    return { autosaveSeq: saved.autosaveSeq, autosavedAt: saved.autosavedAt! };
+  }
+
+  /** Sends a draft to moderation (admins publish directly). */
+  async submitDraft(id: string, user: User): Promise<Property> {
+    if (!Types.ObjectId.isValid(id)) throw new BadRequestException('Invalid property ID');
+
+    const property = await this.propertyModel.findById(id).lean().exec();
+    if (!property) throw new NotFoundException('Property not found');
+    this.assertCanManage(property as unknown as Property, user);
+    if (property.availability !== PropertyStatus.DRAFT) {
+      throw new BadRequestException('This listing is not a draft');
+    }
+    if (property.listingType === ListingType.SHORT_TERM) {
+      this.validateShortTermFields(property);
+    }
+
+    // Autosave skips indexing, so catch up now
+    const keywords = this.generateKeywords(property as any);
+    const isAdmin = user.role === UserRole.ADMIN;
+    const publication = isAdmin ? await this.listingLifecycleService.goLiveFields(property) : {};
+
+    const submitted = await this.propertyModel
+      .findByIdAndUpdate(
+        id,
+        {
+          availability: PropertyStatus.ACTIVE,
+          approvalStatus: isAdmin ? ApprovalStatus.APPROVED : ApprovalStatus.PENDING,
+          keywords,
+          ...buildPropertySearchIndex({ ...property, keywords }),
+          ...publication,
+        },
+        { new: true },
+      )
+      .lean()
+      .exec();
+
+    // Listeners (quality, duplicates, caches) treat it as a full edit
+    await this.emitPropertyEvent(PropertyEvents.UPDATED, submitted, user, [...MATERIAL_FIELDS, 'availability', 'approvalStatus']);
+    this.logger.log(`Draft ${id} submitted by user ${user._id}`);
+    return submitted as unknown as Property;
+  }
+
   // ════════════════════════════════════════════════════════════════════════════
   // DELETE
   // ════════════════════════════════════════════════════════════════════════════
@@ -603,7 +1221,7 @@ export class PropertiesService implements OnModuleInit {
     try {
       const property = await this.propertyModel
         .findById(id)
-        .select('ownerId')
+        .select('ownerId city listingType approvalStatus')
         .lean()
         .exec();
 
@@ -617,8 +1235,7 @@ export class PropertiesService implements OnModuleInit {
       }
 
       await this.propertyModel.findByIdAndDelete(id);
-      this.cacheInvalidate(`similar_${id}`);
-      this.cacheInvalidate('popular_cities');
+      await this.emitPropertyEvent(PropertyEvents.DELETED, property, user);
       this.logger.log(`Property deleted: ${id} by user ${user._id}`);
     } catch (error) {
       this.logger.error(`Error deleting property ${id}:`, error);
@@ -641,6 +1258,12 @@ export class PropertiesService implements OnModuleInit {
 
   const uploads = await Promise.all(
     files.map(async (file, index) => {
+      // Hash the original: the watermark would otherwise make every photo look alike
+      const phash = await computeImageHash(file.buffer).catch((e) => {
+        this.logger.warn(`Could not hash image ${index} of property ${propertyId}: ${e}`);
+        return undefined;
+      });
+
       // Apply watermark before uploading
       const watermarkedBuffer = await this.watermarkService.applyWatermark(file.buffer);
 
@@ -651,12 +1274,20 @@ export class PropertiesService implements OnModuleInit {
         resourceType: 'image',
         transformation: [{ quality: 'auto', fetch_format: 'auto' }],
       });
-      return { url: result.secure_url, publicId: result.public_id };
+      return { url: result.secure_url, publicId: result.public_id, width: result.width, height: result.height, phash };
     }),
   );
 
+  // New photos on an approved listing are shown once the revision is approved
+  if (this.propertyRevisionService.requiresReview(property, user)) {
+    const base = (await this.stagedMedia<PropertyImages>(propertyId, 'images')) ?? property.images ?? [];
+    const pendingRevision = await this.propertyRevisionService.stage(propertyId, { images: [...base, ...uploads] }, user);
+    return { ...property.toObject(), pendingRevision } as unknown as Property;
+  }
+
   (property.images as any) = [...((property.images as any) || []), ...uploads];
   await property.save();
+  await this.emitPropertyEvent(PropertyEvents.UPDATED, property, user, ['images']);
   return property;
 }
 
@@ -665,11 +1296,28 @@ export class PropertiesService implements OnModuleInit {
     if (!property) throw new NotFoundException('Property not found');
     this.assertCanManage(property, user);
 
+    if (this.propertyRevisionService.requiresReview(property, user)) {
+      const live: PropertyImages[] = property.images ?? [];
+      const base = (await this.stagedMedia<PropertyImages>(propertyId, 'images')) ?? live;
+      if (!base.some((img) => img.publicId === imagePublicId)) throw new NotFoundException('Image not found');
+
+      // A photo that never went live can be deleted now; live ones go when the revision is approved
+      if (!live.some((img) => img.publicId === imagePublicId)) await deleteFromCloudinary(imagePublicId, 'image');
+
+      const pendingRevision = await this.propertyRevisionService.stage(
+        propertyId,
+        { images: base.filter((img) => img.publicId !== imagePublicId) },
+        user,
+      );
+      return { ...property.toObject(), pendingRevision } as unknown as Property;
+    }
+
     await deleteFromCloudinary(imagePublicId, 'image');
     (property.images as any) = ((property.images as any) || []).filter(
       (img: any) => img.publicId !== imagePublicId,
     );
     await property.save();
+    await this.emitPropertyEvent(PropertyEvents.UPDATED, property, user, ['images']);
     return property;
   }
 
@@ -695,8 +1343,16 @@ export class PropertiesService implements OnModuleInit {
       }),
     );
 
+    // New videos on an approved listing are shown once the revision is approved
+    if (this.propertyRevisionService.requiresReview(property, user)) {
+      const base = (await this.stagedMedia<PropertyMediaItem>(propertyId, 'videos')) ?? property.videos ?? [];
+      const pendingRevision = await this.propertyRevisionService.stage(propertyId, { videos: [...base, ...uploads] }, user);
+      return { ...property.toObject(), pendingRevision } as unknown as Property;
+    }
+
     (property as any).videos = [...(((property as any).videos) || []), ...uploads];
     await property.save();
+    await this.emitPropertyEvent(PropertyEvents.UPDATED, property, user, ['videos']);
     return property;
   }
 
@@ -705,11 +1361,28 @@ export class PropertiesService implements OnModuleInit {
     if (!property) throw new NotFoundException('Property not found');
     this.assertCanManage(property, user);
 
+    if (this.propertyRevisionService.requiresReview(property, user)) {
+      const live: PropertyMediaItem[] = property.videos ?? [];
+      const base = (await this.stagedMedia<PropertyMediaItem>(propertyId, 'videos')) ?? live;
+      if (!base.some((vid) => vid.publicId === videoPublicId)) throw new NotFoundException('Video not found');
+
+      // A video that never went live can be deleted now; live ones go when the revision is approved
+      if (!live.some((vid) => vid.publicId === videoPublicId)) await deleteFromCloudinary(videoPublicId, 'video');
+
+      const pendingRevision = await this.propertyRevisionService.stage(
+        propertyId,
+        { videos: base.filter((vid) => vid.publicId !== videoPublicId) },
+        user,
+      );
+      return { ...property.toObject(), pendingRevision } as unknown as Property;
+    }
+
     await deleteFromCloudinary(videoPublicId, 'video');
     (property as any).videos = ((property as any).videos || []).filter(
       (vid: any) => vid.publicId !== videoPublicId,
     );
     await property.save();
+    await this.emitPropertyEvent(PropertyEvents.UPDATED, property, user, ['videos']);
     return property;
   }
 
@@ -718,8 +1391,8 @@ export class PropertiesService implements OnModuleInit {
   // ════════════════════════════════════════════════════════════════════════════
 
   async getMostViewed(limit = 10): Promise<Property[]> {
-    const key = `most_viewed_${limit}`;
-    const cached = this.cacheGet<Property[]>(key);
+    const key = `${PropertyCacheKeys.MOST_VIEWED}${limit}`;
+    const cached = await this.cacheService.get<Property[]>(key);
     if (cached) return cached;
 
     const result = await this.propertyModel
@@ -732,13 +1405,13 @@ export class PropertiesService implements OnModuleInit {
       .lean()
       .exec() as unknown as Property[];
 
-    this.cacheSet(key, result, this.CACHE_TTL_MS);
+    await this.cacheService.set(key, result, this.CACHE_TTL_MS);
     return result;
   }
 
   async getRecent(limit = 10): Promise<Property[]> {
-    const key = `recent_${limit}`;
-    const cached = this.cacheGet<Property[]>(key);
+    const key = `${PropertyCacheKeys.RECENT}${limit}`;
+    const cached = await this.cacheService.get<Property[]>(key);
     if (cached) return cached;
 
     const result = await this.propertyModel
@@ -751,13 +1424,13 @@ export class PropertiesService implements OnModuleInit {
       .lean()
       .exec() as unknown as Property[];
 
-    this.cacheSet(key, result, this.CACHE_TTL_MS);
+    await this.cacheService.set(key, result, this.CACHE_TTL_MS);
     return result;
   }
 
   async getFeatured(limit = 10): Promise<Property[]> {
-    const key = `featured_${limit}`;
-    const cached = this.cacheGet<Property[]>(key);
+    const key = `${PropertyCacheKeys.FEATURED}${limit}`;
+    const cached = await this.cacheService.get<Property[]>(key);
     if (cached) return cached;
 
     const result = await this.propertyModel
@@ -770,13 +1443,13 @@ export class PropertiesService implements OnModuleInit {
       .lean()
       .exec() as unknown as Property[];
 
-    this.cacheSet(key, result, this.FEATURED_TTL_MS);
+    await this.cacheService.set(key, result, this.FEATURED_TTL_MS);
     return result;
   }
 
   async getPopularCities(limit = 10): Promise<Array<{ city: string; count: number }>> {
-    const key = `popular_cities_${limit}`;
-    const cached = this.cacheGet<Array<{ city: string; count: number }>>(key);
+    const key = `${PropertyCacheKeys.POPULAR_CITIES}${limit}`;
+    const cached = await this.cacheService.get<Array<{ city: string; count: number }>>(key);
     if (cached) return cached;
 
     const result = await this.propertyModel.aggregate([
@@ -787,7 +1460,7 @@ export class PropertiesService implements OnModuleInit {
       { $project: { _id: 0, city: '$_id', count: 1 } },
     ]);
 
-    this.cacheSet(key, result, this.POPULAR_CITIES_TTL_MS);
+    await this.cacheService.set(key, result, this.POPULAR_CITIES_TTL_MS);
     return result;
   }
 
@@ -796,8 +1469,8 @@ export class PropertiesService implements OnModuleInit {
   // ════════════════════════════════════════════════════════════════════════════
 
   async getSimilarProperties(propertyId: string, limit = 6): Promise<Property[]> {
-    const cacheKey = `similar_${propertyId}_${limit}`;
-    const cached = this.cacheGet<Property[]>(cacheKey);
+    const cacheKey = `${PropertyCacheKeys.SIMILAR}${propertyId}:${limit}`;
+    const cached = await this.cacheService.get<Property[]>(cacheKey);
     if (cached) return cached;
 
     try {
@@ -908,7 +1581,7 @@ export class PropertiesService implements OnModuleInit {
       }
 
       const result = merged.slice(0, limit) as unknown as Property[];
-      this.cacheSet(cacheKey, result, this.CACHE_TTL_MS);
+      await this.cacheService.set(cacheKey, result, this.CACHE_TTL_MS);
       return result;
     } catch (error) {
       if (error instanceof NotFoundException || error instanceof BadRequestException) throw error;
@@ -1001,7 +1674,8 @@ export class PropertiesService implements OnModuleInit {
       const [properties, total] = await Promise.all([
         this.propertyModel
           .find(query)
-          .select(this.listingProjection())
+          // Owners see their quality score and what is missing
+          .select({ ...this.listingProjection(), listingQuality: 1 })
           .populate('ownerId', 'name email phoneNumber profilePicture')
           .populate('agentId', 'name email phoneNumber profilePicture agency')
           .sort(sort)
@@ -1024,38 +1698,6 @@ export class PropertiesService implements OnModuleInit {
     }
   }
 
-  // ════════════════════════════════════════════════════════════════════════════
-  // GEOCODING
-  // ════════════════════════════════════════════════════════════════════════════
-
-  async geocodeAddress(
-    address: string,
-    city?: string,
-    country?: string,
-  ): Promise<{ latitude: number; longitude: number } | null> {
-    try {
-      const query = [address, city, country].filter(Boolean).join(', ');
-      const response = await axios.get('https://nominatim.openstreetmap.org/search', {
-        params: { q: query, format: 'json', limit: 1 },
-        headers: { 'User-Agent': 'HoroHouse-Backend/1.0' },
-        timeout: 5000, // ← prevent hanging geocode requests
-      });
-
-      if (response.data?.length > 0) {
-        return {
-          latitude: parseFloat(response.data[0].lat),
-          longitude: parseFloat(response.data[0].lon),
-        };
-      }
-
-      this.logger.warn(`Geocoding returned no results for: ${query}`);
-      return null;
-    } catch (error) {
-      this.logger.error('Geocoding failed:', error);
-      return null;
-    }
-  }
-
   // ════════════════════════════════════════════════════════════════════════════
   // TEXT SEARCH
   // ════════════════════════════════════════════════════════════════════════════
@@ -1067,6 +1709,12 @@ export class PropertiesService implements OnModuleInit {
     user?: User,
   ) {
     try {
+      filters = await this.resolvePriceRange(await this.resolveSearchArea(filters));
+
+      if (options.fuzzy) {
+        return await this.fuzzySearch(searchText, filters, options, user);
+      }
+
       const query: any = {
         $text: { $search: searchText },
         isActive: true,
@@ -1081,7 +1729,7 @@ export class PropertiesService implements OnModuleInit {
           ? { score: { $meta: 'textScore' } }
           : { [sortBy]: options.sortOrder === 'asc' ? 1 : -1 };
 
-      const [properties, total] = await Promise.all([
+      const [properties, total, facets] = await Promise.all([
         this.propertyModel
           .find(query, { score: { $meta: 'textScore' } })
           .select(this.listingProjection())
@@ -1092,27 +1740,206 @@ export class PropertiesService implements OnModuleInit {
           .limit(limit)
           .lean(),
         this.propertyModel.countDocuments(query),
+        options.includeFacets ? this.computeFacets(query) : Promise.resolve(undefined),
       ]);
 
-      if (user) {
-        this.historyService
-          .logActivity({
-            userId: user._id,
-            activityType: ActivityType.SEARCH,
-            searchQuery: searchText,
-            searchFilters: filters,
-            resultsCount: total,
-          })
-          .catch((e) => this.logger.error('History log failed', e));
+      // $text misses accents, partial words and typos — retry with the fuzzy matcher
+      if (total === 0) {
+        return await this.fuzzySearch(searchText, filters, options, user);
       }
 
-      return { properties, total, page, totalPages: Math.ceil(total / limit) };
+      this.logSearch(searchText, filters, total, user);
+
+      return {
+        mode: 'text' as const,
+        properties: await this.withDisplayPrice(properties, options.displayCurrency),
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+        ...(facets ? { facets } : {}),
+      };
     } catch (error) {
       this.logger.error('Text search failed:', error);
       throw error;
     }
   }
 
+  /**
+   * Typo- and accent-tolerant search over the trigram index. Each query word
+   * (or any of its FR/EN synonyms) is scored by the share of its trigrams found
+   * on the listing; the listing score is the average over query words.
+   */
+  private async fuzzySearch(
+    searchText: string,
+    filters: PropertySearchFilters,
+    options: PropertySearchOptions,
+    user?: User,
+  ) {
+    const plan = buildFuzzyQueryPlan(searchText);
+    if (!plan.length) throw new BadRequestException('Search query is too short');
+
+    const { page = 1, limit = 20 } = options;
+    const skip = (page - 1) * limit;
+
+    const query: any = {
+      isActive: true,
+      availability: PropertyStatus.ACTIVE,
+      ...this.buildFilterQuery(filters),
+      searchGrams: { $in: [...new Set(plan.flat(2))] },
+    };
+
+    const scoringStages: PipelineStage[] = [
+      {
+        $addFields: {
+          fuzzyScore: {
+            $avg: {
+              $map: {
+                input: { $literal: plan },
+                as: 'word',
+                in: {
+                  $max: {
+                    $map: {
+                      input: '$$word',
+                      as: 'variant',
+                      in: {
+                        $divide: [
+                          { $size: { $setIntersection: ['$$variant', '$searchGrams'] } },
+                          { $max: [{ $size: '$$variant' }, 1] },
+                        ],
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      { $match: { fuzzyScore: { $gte: FUZZY_MIN_SCORE } } },
+    ];
+
+    const [[result], facets] = await Promise.all([
+      this.propertyModel.aggregate([
+        { $match: this.toAggregationMatch(query) },
+        ...scoringStages,
+        {
+          $facet: {
+            properties: [
+              { $sort: { fuzzyScore: -1, isFeatured: -1, createdAt: -1 } },
+              { $skip: skip },
+              { $limit: limit },
+              { $project: { ...this.listingProjection(), fuzzyScore: 1 } },
+            ],
+            total: [{ $count: 'count' }],
+          },
+        },
+      ]),
+      options.includeFacets ? this.computeFacets(query, scoringStages) : Promise.resolve(undefined),
+    ]);
+
+    const properties = await this.propertyModel.populate(result.properties, [
+      { path: 'ownerId', select: 'name profilePicture' },
+      { path: 'agentId', select: 'name profilePicture agency' },
+    ]);
+    const total: number = result.total[0]?.count ?? 0;
+
+    this.logSearch(searchText, filters, total, user);
+
+    return {
+      mode: 'fuzzy' as const,
+      properties: await this.withDisplayPrice(properties as unknown as Property[], options.displayCurrency),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+      ...(facets ? { facets } : {}),
+    };
+  }
+
+  private logSearch(searchText: string, filters: PropertySearchFilters, total: number, user?: User): void {
+    if (!user) return;
+    this.historyService
+      .logActivity({
+        userId: user._id,
+        activityType: ActivityType.SEARCH,
+        searchQuery: searchText,
+        searchFilters: filters,
+        resultsCount: total,
+      })
+      .catch((e) => this.logger.error('History log failed', e));
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // AUTOCOMPLETE
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Search-as-you-type suggestions: matching cities, neighborhoods and listing
+   * titles. The last word is treated as a prefix; accents and typos are tolerated.
+   */
+  async suggest(text: string, limit = 5, city?: string): Promise<SearchSuggestions> {
+    const normalized = normalizeSearchText(text);
+    if (tokenizeSearchText(normalized).length === 0) {
+      return { cities: [], neighborhoods: [], properties: [] };
+    }
+
+    const cacheKey = `${PropertyCacheKeys.SUGGEST}${city ?? ''}:${limit}:${normalized}`;
+    return this.cacheService.wrap(cacheKey, SUGGEST_CACHE_TTL_MS, async () => {
+      const plan = buildFuzzyQueryPlan(normalized);
+      const match: any = {
+        isActive: true,
+        approvalStatus: ApprovalStatus.APPROVED,
+        availability: PropertyStatus.ACTIVE,
+        searchGrams: { $in: [...new Set(plan.flat(2))] },
+      };
+      if (city) match.city = city.trim().toLowerCase();
+
+      const [result] = await this.propertyModel.aggregate([
+        { $match: match },
+        // Cheap pre-ranking by raw gram overlap before the JS re-score
+        { $addFields: { overlap: { $size: { $setIntersection: ['$searchGrams', match.searchGrams.$in] } } } },
+        { $sort: { overlap: -1, viewsCount: -1 } },
+        { $limit: 200 },
+        {
+          $facet: {
+            cities: [{ $group: { _id: '$city', count: { $sum: 1 } } }],
+            neighborhoods: [
+              { $match: { neighborhood: { $nin: [null, ''] } } },
+              { $group: { _id: { city: '$city', neighborhood: '$neighborhood' }, count: { $sum: 1 } } },
+            ],
+            properties: [{ $project: { title: 1, city: 1, neighborhood: 1, slug: 1 } }],
+          },
+        },
+      ]);
+
+      const rank = <T>(items: T[], label: (item: T) => string, weight: (item: T) => number = () => 0) =>
+        items
+          .map((item) => ({ item, score: fuzzyMatchScore(normalized, label(item)) }))
+          .filter((r) => r.score >= SUGGEST_MIN_SCORE)
+          .sort((a, b) => b.score - a.score || weight(b.item) - weight(a.item))
+          .slice(0, limit)
+          .map((r) => r.item);
+
+      return {
+        cities: rank(result.cities as any[], (c) => c._id, (c) => c.count).map((c) => ({
+          value: c._id,
+          count: c.count,
+        })),
+        neighborhoods: rank(result.neighborhoods as any[], (n) => n._id.neighborhood, (n) => n.count).map((n) => ({
+          value: n._id.neighborhood,
+          city: n._id.city,
+          count: n.count,
+        })),
+        properties: rank(result.properties as any[], (p) => p.title).map((p) => ({
+          _id: p._id.toString(),
+          title: p.title,
+          city: p.city,
+          neighborhood: p.neighborhood,
+          slug: p.slug,
+        })),
+      };
+    });
+  }
+
   // ════════════════════════════════════════════════════════════════════════════
   // SHORT-TERM LISTINGS
   // ════════════════════════════════════════════════════════════════════════════
@@ -1132,8 +1959,9 @@ export class PropertiesService implements OnModuleInit {
       latitude?: number;
       longitude?: number;
       radius?: number;
+      priceCurrency?: string;
     } = {},
-    options: { page?: number; limit?: number; sortBy?: string; sortOrder?: 'asc' | 'desc' } = {},
+    options: { page?: number; limit?: number; sortBy?: string; sortOrder?: 'asc' | 'desc'; displayCurrency?: string } = {},
   ): Promise<{ properties: Property[]; total: number; page: number; totalPages: number }> {
     const { page = 1, limit = 20, sortBy = 'createdAt', sortOrder = 'desc' } = options;
     const skip = (page - 1) * limit;
@@ -1148,13 +1976,18 @@ export class PropertiesService implements OnModuleInit {
     if (filters.city) query.city = filters.city.trim().toLowerCase();
     if (filters.propertyType) query.type = filters.propertyType;
     if (filters.pricingUnit) query.pricingUnit = filters.pricingUnit;
-    if (filters.cancellationPolicy) query.cancellationPolicy = filters.cancellationPolicy;
+    if (filters.cancellationPolicy) {
+      // A custom policy replaces the built-in one, so such listings never match
+      query.cancellationPolicy = filters.cancellationPolicy;
+      query.cancellationPolicyId = null;
+    }
     if (filters.isInstantBookable !== undefined) query.isInstantBookable = filters.isInstantBookable;
     if (filters.minGuests) query['shortTermAmenities.maxGuests'] = { $gte: filters.minGuests };
     if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
-      query.price = {};
-      if (filters.minPrice !== undefined) query.price.$gte = filters.minPrice;
-      if (filters.maxPrice !== undefined) query.price.$lte = filters.maxPrice;
+      Object.assign(
+        query,
+        await this.exchangeRatesService.priceFilter(filters.minPrice, filters.maxPrice, filters.priceCurrency ?? BASE_CURRENCY),
+      );
     }
     if (filters.latitude && filters.longitude && filters.radius) {
       query.location = {
@@ -1190,7 +2023,12 @@ export class PropertiesService implements OnModuleInit {
       this.propertyModel.countDocuments(query),
     ]);
 
-    return { properties: properties as unknown as Property[], total, page, totalPages: Math.ceil(total / limit) };
+    return {
+      properties: (await this.withDisplayPrice(properties, options.displayCurrency)) as unknown as Property[],
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
   }
 
   // ════════════════════════════════════════════════════════════════════════════
@@ -1323,6 +2161,8 @@ export class PropertiesService implements OnModuleInit {
       title: 1,
       slug: 1,
       price: 1,
+      currency: 1,
+      priceDrop: 1,
       pricingUnit: 1,
       type: 1,
       listingType: 1,
@@ -1332,9 +2172,12 @@ export class PropertiesService implements OnModuleInit {
       images: 1,
       amenities: 1,
       shortTermAmenities: 1,
+      landDetails: 1,
+      commercialDetails: 1,
       isInstantBookable: 1,
       cancellationPolicy: 1,
       isFeatured: 1,
+      ownershipVerified: 1,
       viewsCount: 1,
       location: 1,
       latitude: 1,
@@ -1342,6 +2185,9 @@ export class PropertiesService implements OnModuleInit {
       approvalStatus: 1,
       isActive: 1,
       availability: 1,
+      publishAt: 1,
+      expiresAt: 1,
+      poiProximity: 1,
       ownerId: 1,
       agentId: 1,
       createdAt: 1,
@@ -1360,7 +2206,7 @@ export class PropertiesService implements OnModuleInit {
       query.availability = PropertyStatus.ACTIVE;
     }
 
-    if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    if (!filters.priceQuery && (filters.minPrice !== undefined || filters.maxPrice !== undefined)) {
       query.price = {};
       if (filters.minPrice !== undefined) query.price.$gte = filters.minPrice;
       if (filters.maxPrice !== undefined) query.price.$lte = filters.maxPrice;
@@ -1373,10 +2219,18 @@ export class PropertiesService implements OnModuleInit {
     if (filters.amenities?.length) {
       query.$and = filters.amenities.map((a) => ({ [`amenities.${a}`]: true }));
     }
+    if (filters.priceQuery) query.$and = [...(query.$and ?? []), filters.priceQuery];
     if (filters.isInstantBookable !== undefined) query.isInstantBookable = filters.isInstantBookable;
     if (filters.pricingUnit) query.pricingUnit = filters.pricingUnit;
-    if (filters.cancellationPolicy) query.cancellationPolicy = filters.cancellationPolicy;
+    if (filters.cancellationPolicy) {
+      // A custom policy replaces the built-in one, so such listings never match
+      query.cancellationPolicy = filters.cancellationPolicy;
+      query.cancellationPolicyId = null;
+    }
     if (filters.minGuests) query['shortTermAmenities.maxGuests'] = { $gte: filters.minGuests };
+    if (filters.nearPoi?.length) Object.assign(query, poiDistanceQuery(filters.nearPoi));
+    if (filters.typeAttributes) Object.assign(query, typeAttributesQuery(filters.typeAttributes));
+    if (filters.ownershipVerified) query.ownershipVerified = true;
 
     // Geospatial
     if (filters.latitude && filters.longitude) {
@@ -1400,13 +2254,51 @@ export class PropertiesService implements OnModuleInit {
         },
       };
     }
+    if (filters.polygon) {
+      query.location = { $geoWithin: { $geometry: filters.polygon } };
+    }
 
     return query;
   }
 
+  /**
+   * Swaps a named areaId for its boundary polygon so the query builders only
+   * ever deal with GeoJSON.
+   */
+  private async resolveSearchArea(filters: PropertySearchFilters): Promise<PropertySearchFilters> {
+    if (!filters.areaId || filters.polygon) return filters;
+    const polygon = await this.searchAreasService.getBoundary(filters.areaId);
+    return { ...filters, polygon };
+  }
+
+  /**
+   * Converts minPrice/maxPrice, given in priceCurrency, into per-currency
+   * bounds so listings priced in EUR or USD are compared fairly with XAF ones.
+   */
+  private async resolvePriceRange(filters: PropertySearchFilters): Promise<PropertySearchFilters> {
+    if (filters.minPrice === undefined && filters.maxPrice === undefined) return filters;
+    const priceQuery = await this.exchangeRatesService.priceFilter(
+      filters.minPrice,
+      filters.maxPrice,
+      filters.priceCurrency ?? BASE_CURRENCY,
+    );
+    return { ...filters, priceQuery };
+  }
+
+  /** Adds `displayPrice` when a display currency was requested. */
+  private async withDisplayPrice<T extends { price?: number; currency?: string }>(
+    listings: T[],
+    displayCurrency?: string,
+  ): Promise<T[]> {
+    if (!displayCurrency) return listings;
+    return this.exchangeRatesService.withDisplayPrice(listings, displayCurrency);
+  }
+
   private buildFilterQuery(filters: PropertySearchFilters): any {
     const query: any = {};
-    if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    if (filters.priceQuery) {
+      query.$and = [filters.priceQuery];
+    } else if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
       query.price = {};
       if (filters.minPrice !== undefined) query.price.$gte = filters.minPrice;
       if (filters.maxPrice !== undefined) query.price.$lte = filters.maxPrice;
@@ -1416,9 +2308,103 @@ export class PropertiesService implements OnModuleInit {
     if (filters.city) query.city = filters.city.trim().toLowerCase();
     if (filters.bedrooms) query['amenities.bedrooms'] = { $gte: filters.bedrooms };
     if (filters.bathrooms) query['amenities.bathrooms'] = { $gte: filters.bathrooms };
+    if (filters.polygon) query.location = { $geoWithin: { $geometry: filters.polygon } };
+    if (filters.nearPoi?.length) Object.assign(query, poiDistanceQuery(filters.nearPoi));
+    if (filters.typeAttributes) Object.assign(query, typeAttributesQuery(filters.typeAttributes));
+    if (filters.ownershipVerified) query.ownershipVerified = true;
     return query;
   }
 
+  /**
+   * Runs a single $facet aggregation over the documents matched by a list
+   * query. $near is not allowed inside aggregations, so a radius filter is
+   * rewritten to the equivalent $geoWithin/$centerSphere first.
+   */
+  private async computeFacets(listQuery: any, scoringStages: PipelineStage[] = []): Promise<PropertyFacets> {
+    const match = this.toAggregationMatch(listQuery);
+    const countBy = (field: string, limit = FACET_VALUE_LIMIT): PipelineStage.FacetPipelineStage[] => [
+      { $match: { [field.slice(1)]: { $nin: [null, ''] } } },
+      { $group: { _id: field, count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $limit: limit },
+      { $project: { _id: 0, value: '$_id', count: 1 } },
+    ];
+
+    const [result] = await this.propertyModel.aggregate([
+      { $match: match },
+      ...scoringStages,
+      {
+        $facet: {
+          propertyType: countBy('$type'),
+          listingType: countBy('$listingType'),
+          city: countBy('$city'),
+          neighborhood: countBy('$neighborhood'),
+          bedrooms: [
+            { $group: { _id: { $min: [{ $ifNull: ['$amenities.bedrooms', 0] }, 5] }, count: { $sum: 1 } } },
+            { $sort: { _id: 1 } },
+            { $project: { _id: 0, value: '$_id', count: 1 } },
+          ],
+          price: [
+            { $match: { price: { $type: 'number' } } },
+            { $bucketAuto: { groupBy: '$price', buckets: PRICE_HISTOGRAM_BUCKETS } },
+            { $project: { _id: 0, min: '$_id.min', max: '$_id.max', count: 1 } },
+          ],
+          amenities: [
+            {
+              $group: {
+                _id: null,
+                ...Object.fromEntries(
+                  AMENITY_FACET_FLAGS.map((flag) => [
+                    flag,
+                    { $sum: { $cond: [{ $eq: [`$amenities.${flag}`, true] }, 1, 0] } },
+                  ]),
+                ),
+              },
+            },
+            { $project: { _id: 0 } },
+          ],
+          waterSource: countBy('$studentDetails.waterSource'),
+          electricityBackup: countBy('$studentDetails.electricityBackup'),
+        },
+      },
+    ]);
+
+    const amenityCounts = result?.amenities?.[0] ?? {};
+
+    return {
+      propertyType: result?.propertyType ?? [],
+      listingType: result?.listingType ?? [],
+      city: result?.city ?? [],
+      neighborhood: result?.neighborhood ?? [],
+      bedrooms: (result?.bedrooms ?? []).map((b: FacetBucket<number>) => ({
+        value: b.value >= 5 ? '5+' : String(b.value),
+        count: b.count,
+      })),
+      price: result?.price ?? [],
+      amenities: Object.fromEntries(AMENITY_FACET_FLAGS.map((flag) => [flag, amenityCounts[flag] ?? 0])),
+      waterSource: result?.waterSource ?? [],
+      electricityBackup: result?.electricityBackup ?? [],
+    };
+  }
+
+  /**
+   * Makes a find() filter usable as an aggregation $match stage.
+   */
+  private toAggregationMatch(listQuery: any): any {
+    const near = listQuery.location?.$near;
+    if (!near) return listQuery;
+
+    const EARTH_RADIUS_METERS = 6_378_100;
+    return {
+      ...listQuery,
+      location: {
+        $geoWithin: {
+          $centerSphere: [near.$geometry.coordinates, near.$maxDistance / EARTH_RADIUS_METERS],
+        },
+      },
+    };
+  }
+
   /**
    * Fire-and-forget analytics helper — response is never blocked.
    */
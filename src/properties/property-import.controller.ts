@@ -0,0 +1,131 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+  Header,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { FastifyRequest } from 'fastify';
+import { MultipartFile } from '@fastify/multipart';
+
+import {
+  PropertyImportService,
+  MAX_IMPORT_FILE_BYTES,
+  MAX_IMPORT_ROWS,
+} from './property-import.service';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { RolesGuard, Roles } from '../auth/guards/roles.guard';
+import { User, UserRole } from '../users/schemas/user.schema';
+
+@ApiTags('Property Import')
+@Controller('properties/import')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.HOST, UserRole.AGENT, UserRole.LANDLORD, UserRole.ADMIN)
+@ApiBearerAuth()
+export class PropertyImportController {
+  constructor(private readonly propertyImportService: PropertyImportService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Import listings from a CSV or XLSX file',
+    description: `Up to ${MAX_IMPORT_ROWS} rows. Rows are validated like POST /properties and processed in the background; poll the job for the per-row report.`,
+  })
+  @ApiQuery({
+    name: 'dryRun',
+    required: false,
+    type: Boolean,
+    description: 'Validate and geocode only — nothing is created',
+  })
+  @ApiResponse({ status: 202, description: 'Import job queued' })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing, unreadable or oversized file',
+  })
+  async import(
+    @Req() req: FastifyRequest & { user: User },
+    @Query('dryRun') dryRun?: string,
+  ) {
+    let upload: { buffer: Buffer; fileName: string } | undefined;
+
+    const parts = req.parts({ limits: { fileSize: MAX_IMPORT_FILE_BYTES } });
+    for await (const part of parts as AsyncIterable<MultipartFile>) {
+      if (part.type === 'file' && !upload) {
+        const chunks: Buffer[] = [];
+        for await (const chunk of part.file) {
+          chunks.push(Buffer.from(chunk));
+        }
+        if (part.file.truncated) {
+          throw new BadRequestException(
+            `File is larger than ${MAX_IMPORT_FILE_BYTES / 1024 / 1024} MB`,
+          );
+        }
+        upload = { buffer: Buffer.concat(chunks), fileName: part.filename };
+      }
+    }
+    if (!upload) throw new BadRequestException('No file uploaded');
+
+    const job = await this.propertyImportService.startImport(
+      upload.buffer,
+      upload.fileName,
+      req.user,
+      dryRun === 'true',
+    );
+    return {
+      message: 'Import queued',
+      jobId: job._id,
+      totalRows: job.totalRows,
+    };
+  }
+
+  @Get('template')
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header(
+    'Content-Disposition',
+    'attachment; filename="horohouse-import-template.csv"',
+  )
+  @ApiOperation({
+    summary: 'Download the CSV template with the expected columns',
+  })
+  getTemplate() {
+    return this.propertyImportService.getTemplateCsv();
+  }
+
+  @Get('jobs')
+  @ApiOperation({ summary: 'List my recent import jobs (without row details)' })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async listJobs(
+    @Req() req: FastifyRequest & { user: User },
+    @Query('limit') limit?: string,
+  ) {
+    const max = Math.min(parseInt(limit ?? '20') || 20, 100);
+    return this.propertyImportService.listJobs(req.user, max);
+  }
+
+  @Get('jobs/:jobId')
+  @ApiOperation({ summary: 'Get an import job with its per-row report' })
+  @ApiParam({ name: 'jobId', description: 'Import job ID' })
+  @ApiResponse({ status: 404, description: 'Import job not found' })
+  async getJob(
+    @Param('jobId') jobId: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.propertyImportService.getJob(jobId, req.user);
+  }
+}
@@ -0,0 +1,578 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Readable } from 'stream';
+import { Workbook } from 'exceljs';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+
+import { PropertiesService } from './properties.service';
+import { CreatePropertyDto } from './dto/property.dto';
+import {
+  ImportJobStatus,
+  ImportRowResult,
+  ImportRowStatus,
+  PropertyImportJob,
+  PropertyImportJobDocument,
+} from './schemas/property-import.schema';
+import { ListingType } from './schemas/property.schema';
+import { User, UserDocument, UserRole } from '../users/schemas/user.schema';
+import { SubscriptionsService } from '../payments/services/subscriptions.service';
+import { GeocodingService } from '../geocoding/geocoding.service';
+
+// ─── Template ─────────────────────────────────────────────────────────────────
+
+type ColumnKind = 'string' | 'number' | 'boolean' | 'list';
+
+interface ImportColumn {
+  header: string;
+  /** Dotted path into CreatePropertyDto. */
+  path: string;
+  kind: ColumnKind;
+  example: string;
+}
+
+/** Spreadsheet columns, in template order. Headers are matched case-insensitively. */
+export const IMPORT_COLUMNS: ImportColumn[] = [
+  {
+    header: 'title',
+    path: 'title',
+    kind: 'string',
+    example: 'Appartement 3 pièces à Bonapriso',
+  },
+  {
+    header: 'description',
+    path: 'description',
+    kind: 'string',
+    example: 'Bel appartement lumineux, proche des commerces.',
+  },
+  { header: 'type', path: 'type', kind: 'string', example: 'apartment' },
+  {
+    header: 'listingType',
+    path: 'listingType',
+    kind: 'string',
+    example: 'rent',
+  },
+  { header: 'price', path: 'price', kind: 'number', example: '250000' },
+  { header: 'currency', path: 'currency', kind: 'string', example: 'XAF' },
+  { header: 'pricingUnit', path: 'pricingUnit', kind: 'string', example: '' },
+  { header: 'city', path: 'city', kind: 'string', example: 'Douala' },
+  {
+    header: 'address',
+    path: 'address',
+    kind: 'string',
+    example: 'Rue Njo-Njo',
+  },
+  {
+    header: 'neighborhood',
+    path: 'neighborhood',
+    kind: 'string',
+    example: 'Bonapriso',
+  },
+  { header: 'state', path: 'state', kind: 'string', example: 'Littoral' },
+  { header: 'country', path: 'country', kind: 'string', example: 'Cameroon' },
+  { header: 'latitude', path: 'latitude', kind: 'number', example: '' },
+  { header: 'longitude', path: 'longitude', kind: 'number', example: '' },
+  {
+    header: 'bedrooms',
+    path: 'amenities.bedrooms',
+    kind: 'number',
+    example: '2',
+  },
+  {
+    header: 'bathrooms',
+    path: 'amenities.bathrooms',
+    kind: 'number',
+    example: '1',
+  },
+  {
+    header: 'parkingSpaces',
+    path: 'amenities.parkingSpaces',
+    kind: 'number',
+    example: '1',
+  },
+  {
+    header: 'furnished',
+    path: 'amenities.furnished',
+    kind: 'boolean',
+    example: 'no',
+  },
+  {
+    header: 'hasGenerator',
+    path: 'amenities.hasGenerator',
+    kind: 'boolean',
+    example: 'yes',
+  },
+  {
+    header: 'hasSecurity',
+    path: 'amenities.hasSecurity',
+    kind: 'boolean',
+    example: 'yes',
+  },
+  {
+    header: 'hasInternet',
+    path: 'amenities.hasInternet',
+    kind: 'boolean',
+    example: 'no',
+  },
+  {
+    header: 'hasAirConditioning',
+    path: 'amenities.hasAirConditioning',
+    kind: 'boolean',
+    example: 'no',
+  },
+  { header: 'area', path: 'area', kind: 'number', example: '85' },
+  {
+    header: 'depositAmount',
+    path: 'depositAmount',
+    kind: 'number',
+    example: '500000',
+  },
+  {
+    header: 'contactPhone',
+    path: 'contactPhone',
+    kind: 'string',
+    example: '+237690000000',
+  },
+  { header: 'contactEmail', path: 'contactEmail', kind: 'string', example: '' },
+  {
+    header: 'virtualTourUrl',
+    path: 'virtualTourUrl',
+    kind: 'string',
+    example: '',
+  },
+  {
+    header: 'nearbyAmenities',
+    path: 'nearbyAmenities',
+    kind: 'list',
+    example: 'école; marché',
+  },
+];
+
+export const MAX_IMPORT_ROWS = 500;
+export const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
+
+/** Progress is persisted every N rows so the status endpoint stays current. */
+const PROGRESS_FLUSH_EVERY = 10;
+
+const TRUE_VALUES = new Set(['yes', 'oui', 'true', '1', 'y', 'x']);
+const FALSE_VALUES = new Set(['no', 'non', 'false', '0', 'n', '']);
+
+interface ParsedRow {
+  row: number;
+  values: Record<string, string>;
+}
+
+@Injectable()
+export class PropertyImportService {
+  private readonly logger = new Logger(PropertyImportService.name);
+
+  constructor(
+    @InjectModel(PropertyImportJob.name)
+    private importJobModel: Model<PropertyImportJobDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private propertiesService: PropertiesService,
+    private subscriptionsService: SubscriptionsService,
+    private geocodingService: GeocodingService,
+  ) {}
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // JOBS
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Reads the file up-front (so an unreadable upload fails the request) and
+   * processes the rows in the background. Poll getJob() for the report.
+   */
+  async startImport(
+    buffer: Buffer,
+    fileName: string,
+    user: User,
+    dryRun: boolean,
+  ): Promise<PropertyImportJob> {
+    if (buffer.length > MAX_IMPORT_FILE_BYTES) {
+      throw new BadRequestException(
+        `File is larger than ${MAX_IMPORT_FILE_BYTES / 1024 / 1024} MB`,
+      );
+    }
+
+    const rows = await this.readRows(buffer, fileName);
+    if (rows.length === 0)
+      throw new BadRequestException('The file contains no data rows');
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(
+        `At most ${MAX_IMPORT_ROWS} rows can be imported at once (got ${rows.length})`,
+      );
+    }
+
+    const job = await this.importJobModel.create({
+      ownerId: user._id,
+      fileName,
+      dryRun,
+      totalRows: rows.length,
+    });
+
+    this.processJob(job._id, rows, user, dryRun).catch((e) =>
+      this.logger.error(`Import job ${job._id.toString()} crashed`, e),
+    );
+
+    this.logger.log(
+      `Import job ${job._id.toString()} queued by ${user._id.toString()}: ${rows.length} rows${dryRun ? ' (dry-run)' : ''}`,
+    );
+    return job;
+  }
+
+  async getJob(jobId: string, user: User): Promise<PropertyImportJob> {
+    if (!Types.ObjectId.isValid(jobId))
+      throw new BadRequestException('Invalid import job ID');
+
+    const job = await this.importJobModel
+      .findById(jobId)
+      .lean<PropertyImportJob>()
+      .exec();
+    if (!job) throw new NotFoundException('Import job not found');
+    if (
+      user.role !== UserRole.ADMIN &&
+      job.ownerId.toString() !== user._id.toString()
+    ) {
+      throw new ForbiddenException('You can only view your own imports');
+    }
+    return job;
+  }
+
+  listJobs(user: User, limit = 20): Promise<PropertyImportJob[]> {
+    return this.importJobModel
+      .find({ ownerId: user._id })
+      .select('-rows')
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .lean<PropertyImportJob[]>()
+      .exec();
+  }
+
+  /** CSV template with the expected headers and one example row. */
+  getTemplateCsv(): string {
+    const escape = (v: string) =>
+      /[",\n;]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+    return [
+      IMPORT_COLUMNS.map((c) => c.header).join(','),
+      IMPORT_COLUMNS.map((c) => escape(c.example)).join(','),
+    ].join('\n');
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // PROCESSING
+  // ════════════════════════════════════════════════════════════════════════════
+
+  private async processJob(
+    jobId: Types.ObjectId,
+    rows: ParsedRow[],
+    user: User,
+    dryRun: boolean,
+  ): Promise<void> {
+    await this.importJobModel.updateOne(
+      { _id: jobId },
+      { status: ImportJobStatus.PROCESSING, startedAt: new Date() },
+    );
+
+    try {
+      const owner = await this.userModel.findById(user._id).lean<User>().exec();
+      if (!owner) throw new Error('Owner account no longer exists');
+
+      // Admins are not metered; a plan limit of -1 means unlimited. An owner
+      // already over their plan (e.g. after a downgrade) has nothing left.
+      const usage =
+        owner.role === UserRole.ADMIN
+          ? { canUse: true, remaining: -1, limit: -1 }
+          : await this.subscriptionsService.checkUsageLimit(
+              owner._id.toString(),
+              'listings',
+            );
+      const unlimited = usage.limit === -1;
+      let remaining = usage.canUse ? Math.max(0, usage.remaining) : 0;
+
+      const results: ImportRowResult[] = [];
+      for (const parsed of rows) {
+        const { result, dto } = await this.validateRow(parsed);
+
+        if (dto) {
+          if (!unlimited && remaining === 0) {
+            result.status = ImportRowStatus.SKIPPED;
+            result.errors.push('Listing limit of your plan reached');
+          } else if (dryRun) {
+            result.status = ImportRowStatus.VALID;
+            remaining--;
+          } else {
+            await this.createRow(result, dto, owner);
+            if (result.status === ImportRowStatus.CREATED) remaining--;
+          }
+        }
+
+        results.push(result);
+        if (results.length % PROGRESS_FLUSH_EVERY === 0) {
+          await this.flushProgress(jobId, results);
+        }
+      }
+
+      await this.flushProgress(jobId, results, {
+        status: ImportJobStatus.COMPLETED,
+        finishedAt: new Date(),
+      });
+      this.logger.log(`Import job ${jobId.toString()} completed`);
+    } catch (err) {
+      await this.importJobModel.updateOne(
+        { _id: jobId },
+        {
+          status: ImportJobStatus.FAILED,
+          error: err instanceof Error ? err.message : String(err),
+          finishedAt: new Date(),
+        },
+      );
+      this.logger.error(`Import job ${jobId.toString()} failed`, err);
+    }
+  }
+
+  /**
+   * Maps a spreadsheet row onto CreatePropertyDto and runs the same validation
+   * the create endpoint does. Missing coordinates are geocoded from the address.
+   */
+  private async validateRow(
+    parsed: ParsedRow,
+  ): Promise<{ result: ImportRowResult; dto?: CreatePropertyDto }> {
+    const errors: string[] = [];
+    const invalid = new Set<string>();
+    const plain: Record<string, unknown> = {};
+
+    for (const column of IMPORT_COLUMNS) {
+      const raw = parsed.values[column.header.toLowerCase()];
+      if (raw === undefined || raw.trim() === '') continue;
+
+      const value = this.coerce(raw.trim(), column.kind);
+      if (value === undefined) {
+        invalid.add(column.path.split('.')[0]);
+        errors.push(`${column.header}: "${raw}" is not a valid ${column.kind}`);
+        continue;
+      }
+      this.setPath(plain, column.path, value);
+    }
+
+    const result: ImportRowResult = {
+      row: parsed.row,
+      status: ImportRowStatus.ERROR,
+      title: typeof plain.title === 'string' ? plain.title : undefined,
+      errors,
+      warnings: [],
+    };
+
+    const dto = plainToInstance(CreatePropertyDto, plain);
+    const validationErrors = await validate(dto, {
+      whitelist: true,
+      forbidNonWhitelisted: true,
+    });
+    // Cells that failed to parse were already reported above
+    errors.push(
+      ...this.flattenValidationErrors(
+        validationErrors.filter((e) => !invalid.has(e.property)),
+      ),
+    );
+
+    if (dto.listingType === ListingType.SHORT_TERM) {
+      try {
+        this.propertiesService.validateShortTermFields(dto);
+      } catch (err) {
+        errors.push((err as Error).message);
+      }
+    }
+
+    if ((dto.latitude === undefined) !== (dto.longitude === undefined)) {
+      errors.push('latitude and longitude must be provided together');
+    }
+
+    if (errors.length) return { result };
+
+    if (dto.latitude === undefined && dto.address) {
+      const coords = await this.geocodingService.geocode({
+        address: dto.address,
+        neighborhood: dto.neighborhood,
+        city: dto.city,
+        country: dto.country ?? 'Cameroon',
+      });
+      if (coords) {
+        dto.latitude = coords.latitude;
+        dto.longitude = coords.longitude;
+        result.geocoded = true;
+        if (coords.precision === 'city') {
+          result.warnings!.push(
+            'Only the city could be located; the map pin is at the city centre',
+          );
+        }
+      } else {
+        result.geocoded = false;
+        result.warnings!.push(
+          'Address could not be geocoded; the listing will have no map location',
+        );
+      }
+    }
+
+    return { result, dto };
+  }
+
+  private async createRow(
+    result: ImportRowResult,
+    dto: CreatePropertyDto,
+    owner: User,
+  ): Promise<void> {
+    try {
+      const property = await this.propertiesService.create(dto, owner);
+      result.status = ImportRowStatus.CREATED;
+      result.propertyId = property._id;
+
+      if (owner.role !== UserRole.ADMIN) {
+        await this.subscriptionsService.incrementUsage(
+          owner._id.toString(),
+          'listings',
+        );
+      }
+    } catch (err) {
+      result.status = ImportRowStatus.ERROR;
+      result.errors.push(
+        err instanceof Error ? err.message : 'Could not create the listing',
+      );
+    }
+  }
+
+  private async flushProgress(
+    jobId: Types.ObjectId,
+    results: ImportRowResult[],
+    extra: Partial<PropertyImportJob> = {},
+  ): Promise<void> {
+    const count = (status: ImportRowStatus) =>
+      results.filter((r) => r.status === status).length;
+
+    await this.importJobModel.updateOne(
+      { _id: jobId },
+      {
+        ...extra,
+        rows: results,
+        processedRows: results.length,
+        createdCount:
+          count(ImportRowStatus.CREATED) + count(ImportRowStatus.VALID),
+        errorCount: count(ImportRowStatus.ERROR),
+        skippedCount: count(ImportRowStatus.SKIPPED),
+      },
+    );
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // PARSING
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /** Reads the first worksheet; keys are lower-cased header names. */
+  private async readRows(
+    buffer: Buffer,
+    fileName: string,
+  ): Promise<ParsedRow[]> {
+    const workbook = new Workbook();
+    try {
+      if (/\.csv$/i.test(fileName)) {
+        // Keep every cell as text: "+237…" phone numbers must not become numbers
+        await workbook.csv.read(Readable.from(buffer), {
+          map: (value: string) => value,
+        });
+      } else if (/\.xlsx$/i.test(fileName)) {
+        await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+      } else {
+        throw new BadRequestException(
+          'Only .csv and .xlsx files are supported',
+        );
+      }
+    } catch (err) {
+      if (err instanceof BadRequestException) throw err;
+      throw new BadRequestException('The file could not be read');
+    }
+
+    const sheet = workbook.worksheets[0];
+    if (!sheet) return [];
+
+    const headers: string[] = [];
+    sheet.getRow(1).eachCell((cell, col) => {
+      headers[col] = cell.text.trim().toLowerCase();
+    });
+
+    const known = new Set(IMPORT_COLUMNS.map((c) => c.header.toLowerCase()));
+    const unknown = headers.filter((h) => h && !known.has(h));
+    if (unknown.length) {
+      throw new BadRequestException(
+        `Unknown column(s): ${unknown.join(', ')}. Download the template for the expected headers.`,
+      );
+    }
+
+    const rows: ParsedRow[] = [];
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return;
+      const values: Record<string, string> = {};
+      row.eachCell((cell, col) => {
+        if (headers[col]) values[headers[col]] = cell.text;
+      });
+      if (Object.values(values).some((v) => v.trim() !== '')) {
+        rows.push({ row: rowNumber, values });
+      }
+    });
+    return rows;
+  }
+
+  private coerce(raw: string, kind: ColumnKind): unknown {
+    switch (kind) {
+      case 'number': {
+        const n = Number(raw.replace(/\s/g, '').replace(',', '.'));
+        return Number.isFinite(n) ? n : undefined;
+      }
+      case 'boolean': {
+        const v = raw.toLowerCase();
+        if (TRUE_VALUES.has(v)) return true;
+        if (FALSE_VALUES.has(v)) return false;
+        return undefined;
+      }
+      case 'list':
+        return raw
+          .split(/[;,]/)
+          .map((s) => s.trim())
+          .filter(Boolean);
+      default:
+        return raw;
+    }
+  }
+
+  private setPath(
+    target: Record<string, unknown>,
+    path: string,
+    value: unknown,
+  ) {
+    const keys = path.split('.');
+    let node = target;
+    for (const key of keys.slice(0, -1)) {
+      node = (node[key] ??= {}) as Record<string, unknown>;
+    }
+    node[keys[keys.length - 1]] = value;
+  }
+
+  private flattenValidationErrors(
+    errors: ValidationError[],
+    prefix = '',
+  ): string[] {
+    return errors.flatMap((e) => {
+      const path = prefix ? `${prefix}.${e.property}` : e.property;
+      // class-validator messages already start with the property name
+      const own = Object.values(e.constraints ?? {}).map((m) =>
+        prefix ? `${prefix}.${m}` : m,
+      );
+      return [...own, ...this.flattenValidationErrors(e.children ?? [], path)];
+    });
+  }
+}
@@ -0,0 +1,382 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Model, Types } from 'mongoose';
+import { UploadApiResponse } from 'cloudinary';
+
+import {
+  ApprovalStatus,
+  Property,
+  PropertyDocument,
+  PropertyFloorPlan,
+  PropertyImages,
+  PropertyRoom,
+} from './schemas/property.schema';
+import { PropertyRevision } from './schemas/property-revision.schema';
+import { PropertyChangedEvent, PropertyEvents } from './events/property.events';
+import { PropertyRevisionService } from './property-revision.service';
+import {
+  MAX_FLOOR_PLANS,
+  RoomDto,
+  TagImageDto,
+} from './dto/property-media.dto';
+import {
+  GroupedMedia,
+  buildRooms,
+  coverImage,
+  groupImagesByRoom,
+  matchesRoom,
+  reorderImages,
+  selectCover,
+  untagMissingRooms,
+} from './utils/property-media.util';
+import { User, UserRole } from '../users/schemas/user.schema';
+import { WatermarkService } from '../watermark/watermark.service';
+import {
+  uploadBufferToCloudinary,
+  deleteFromCloudinary,
+} from '../utils/cloudinary';
+
+const MEDIA_FIELDS =
+  'images floorPlans rooms ownerId agentId city listingType approvalStatus';
+
+type MediaSource = Pick<
+  Property,
+  | '_id'
+  | 'images'
+  | 'floorPlans'
+  | 'rooms'
+  | 'ownerId'
+  | 'agentId'
+  | 'city'
+  | 'listingType'
+  | 'approvalStatus'
+>;
+
+type MediaChanges = Partial<Pick<Property, 'images' | 'floorPlans' | 'rooms'>>;
+
+/** Public view of a listing's photos, organised by room. */
+export interface PropertyMedia extends GroupedMedia {
+  cover: PropertyImages | null;
+  floorPlans: PropertyFloorPlan[];
+}
+
+/** What the owner is editing: the pending revision's media when there is one. */
+export interface EditableMedia {
+  images: PropertyImages[];
+  floorPlans: PropertyFloorPlan[];
+  rooms: PropertyRoom[];
+  pendingRevision?: PropertyRevision | null;
+}
+
+export interface FloorPlanUpload {
+  buffer: Buffer;
+  label?: string;
+  level?: number;
+}
+
+/**
+ * Structured listing media: floor plans, rooms with their dimensions, photos
+ * tagged to a room, photo order and the cover photo. Like photo uploads,
+ * changes to an approved listing wait for moderation.
+ */
+@Injectable()
+export class PropertyMediaService {
+  private readonly logger = new Logger(PropertyMediaService.name);
+
+  constructor(
+    @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+    private propertyRevisionService: PropertyRevisionService,
+    private watermarkService: WatermarkService,
+    private eventEmitter: EventEmitter2,
+  ) {}
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // PUBLIC
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Photos grouped by room, plus floor plans and cover. `room` narrows the
+   * result to a room key (`bedroom-2`) or every room of a type (`kitchen`).
+   */
+  async getMedia(propertyId: string, room?: string): Promise<PropertyMedia> {
+    this.assertId(propertyId);
+    const property = await this.propertyModel
+      .findOne({
+        _id: new Types.ObjectId(propertyId),
+        isActive: true,
+        approvalStatus: ApprovalStatus.APPROVED,
+      })
+      .select('images floorPlans rooms')
+      .lean<Pick<Property, 'images' | 'floorPlans' | 'rooms'>>()
+      .exec();
+    if (!property) throw new NotFoundException('Property not found');
+
+    const images = property.images ?? [];
+    const rooms = property.rooms ?? [];
+    const grouped = groupImagesByRoom(
+      images,
+      room ? rooms.filter((r) => matchesRoom(r, room)) : rooms,
+    );
+    return {
+      cover: coverImage(images),
+      floorPlans: property.floorPlans ?? [],
+      rooms: grouped.rooms,
+      // Untagged photos say nothing about the requested room
+      untagged: room ? [] : grouped.untagged,
+    };
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // FLOOR PLANS
+  // ════════════════════════════════════════════════════════════════════════════
+
+  async uploadFloorPlans(
+    propertyId: string,
+    files: FloorPlanUpload[],
+    user: User,
+  ): Promise<EditableMedia> {
+    if (!files.length) throw new BadRequestException('No file uploaded');
+    const { property, media } = await this.loadEditable(propertyId, user);
+    if (media.floorPlans.length + files.length > MAX_FLOOR_PLANS) {
+      throw new BadRequestException(
+        `A listing can have at most ${MAX_FLOOR_PLANS} floor plans`,
+      );
+    }
+
+    const uploads = await Promise.all(
+      files.map(async (file, index): Promise<PropertyFloorPlan> => {
+        const watermarked = await this.watermarkService.applyWatermark(
+          file.buffer,
+        );
+        const result = (await uploadBufferToCloudinary(watermarked, {
+          publicId: `property_${propertyId}_plan_${Date.now()}_${index}`,
+          folder: 'horohouse/properties/floor-plans',
+          resourceType: 'image',
+          transformation: [{ quality: 'auto', fetch_format: 'auto' }],
+        })) as UploadApiResponse;
+        return {
+          url: result.secure_url,
+          publicId: result.public_id,
+          width: result.width,
+          height: result.height,
+          ...(file.label && { label: file.label }),
+          ...(file.level !== undefined && { level: file.level }),
+        };
+      }),
+    );
+
+    return this.apply(
+      property,
+      media,
+      { floorPlans: [...media.floorPlans, ...uploads] },
+      user,
+    );
+  }
+
+  async deleteFloorPlan(
+    propertyId: string,
+    floorPlanId: string,
+    user: User,
+  ): Promise<EditableMedia> {
+    const { property, media, review } = await this.loadEditable(
+      propertyId,
+      user,
+    );
+    if (!media.floorPlans.some((p) => p.publicId === floorPlanId))
+      throw new NotFoundException('Floor plan not found');
+
+    // A plan that never went live can go now; live ones go on approval
+    const live = (property.floorPlans ?? []).some(
+      (p) => p.publicId === floorPlanId,
+    );
+    if (!review || !live) {
+      await deleteFromCloudinary(floorPlanId, 'image').catch((e) =>
+        this.logger.warn(`Could not delete floor plan ${floorPlanId}: ${e}`),
+      );
+    }
+
+    // Rooms drawn on the plan stay, without their position
+    const rooms = media.rooms.map((room) => {
+      if (room.floorPlanId !== floorPlanId) return room;
+      const unplaced = { ...room };
+      delete unplaced.floorPlanId;
+      delete unplaced.marker;
+      return unplaced;
+    });
+    return this.apply(
+      property,
+      media,
+      {
+        floorPlans: media.floorPlans.filter((p) => p.publicId !== floorPlanId),
+        rooms,
+      },
+      user,
+    );
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // ROOMS & PHOTOS
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /** Replaces the room list; photos of removed rooms lose their tag. */
+  async setRooms(
+    propertyId: string,
+    inputs: RoomDto[],
+    user: User,
+  ): Promise<EditableMedia> {
+    const { property, media } = await this.loadEditable(propertyId, user);
+    const rooms = buildRooms(inputs, media.floorPlans);
+    return this.apply(
+      property,
+      media,
+      { rooms, images: untagMissingRooms(media.images, rooms) },
+      user,
+    );
+  }
+
+  async tagImage(
+    propertyId: string,
+    imageId: string,
+    dto: TagImageDto,
+    user: User,
+  ): Promise<EditableMedia> {
+    const { property, media } = await this.loadEditable(propertyId, user);
+    if (!media.images.some((i) => i.publicId === imageId))
+      throw new NotFoundException('Image not found');
+    if (dto.roomKey && !media.rooms.some((r) => r.key === dto.roomKey)) {
+      throw new BadRequestException(`Unknown room "${dto.roomKey}"`);
+    }
+
+    const images = media.images.map((image) => {
+      if (image.publicId !== imageId) return image;
+      const tagged: PropertyImages = { ...image };
+      if (dto.caption !== undefined) tagged.caption = dto.caption;
+      if (dto.roomKey) tagged.roomKey = dto.roomKey;
+      else if (dto.roomKey !== undefined) delete tagged.roomKey;
+      return tagged;
+    });
+    return this.apply(property, media, { images }, user);
+  }
+
+  async reorderImages(
+    propertyId: string,
+    publicIds: string[],
+    user: User,
+  ): Promise<EditableMedia> {
+    const { property, media } = await this.loadEditable(propertyId, user);
+    return this.apply(
+      property,
+      media,
+      { images: reorderImages(media.images, publicIds) },
+      user,
+    );
+  }
+
+  async setCover(
+    propertyId: string,
+    imageId: string,
+    user: User,
+  ): Promise<EditableMedia> {
+    const { property, media } = await this.loadEditable(propertyId, user);
+    return this.apply(
+      property,
+      media,
+      { images: selectCover(media.images, imageId) },
+      user,
+    );
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Loads the listing for its manager. On listings under moderation the
+   * pending revision's media is the starting point, so successive edits
+   * build on each other instead of on the live listing.
+   */
+  private async loadEditable(
+    propertyId: string,
+    user: User,
+  ): Promise<{ property: MediaSource; media: EditableMedia; review: boolean }> {
+    this.assertId(propertyId);
+    const property = await this.propertyModel
+      .findById(propertyId)
+      .select(MEDIA_FIELDS)
+      .lean<MediaSource>()
+      .exec();
+    if (!property) throw new NotFoundException('Property not found');
+
+    const isManager =
+      property.ownerId.toString() === user._id.toString() ||
+      property.agentId?.toString() === user._id.toString();
+    if (!isManager && user.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('You can only manage your own properties');
+    }
+
+    const review = this.propertyRevisionService.requiresReview(property, user);
+    const staged = review
+      ? ((await this.propertyRevisionService.getPending(propertyId))
+          ?.changes as MediaChanges | undefined)
+      : undefined;
+    return {
+      property,
+      review,
+      media: {
+        images: staged?.images ?? property.images ?? [],
+        floorPlans: staged?.floorPlans ?? property.floorPlans ?? [],
+        rooms: staged?.rooms ?? property.rooms ?? [],
+      },
+    };
+  }
+
+  private async apply(
+    property: MediaSource,
+    media: EditableMedia,
+    changes: MediaChanges,
+    user: User,
+  ): Promise<EditableMedia> {
+    const result = { ...media, ...changes };
+
+    if (this.propertyRevisionService.requiresReview(property, user)) {
+      const pendingRevision = await this.propertyRevisionService.stage(
+        property._id.toString(),
+        changes,
+        user,
+      );
+      return { ...result, pendingRevision };
+    }
+
+    await this.propertyModel.updateOne(
+      { _id: property._id },
+      { $set: changes },
+    );
+    this.eventEmitter
+      .emitAsync(
+        PropertyEvents.UPDATED,
+        new PropertyChangedEvent(
+          property._id.toString(),
+          property.ownerId.toString(),
+          user._id.toString(),
+          property.city,
+          property.listingType,
+          property.approvalStatus,
+          Object.keys(changes),
+        ),
+      )
+      .catch((e) => this.logger.error('Property media event failed', e));
+    return result;
+  }
+
+  private assertId(propertyId: string): void {
+    if (!Types.ObjectId.isValid(propertyId))
+      throw new BadRequestException('Invalid property ID');
+  }
+}
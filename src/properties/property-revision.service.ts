@@ -0,0 +1,349 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+
+import {
+  ApprovalStatus,
+  Property,
+  PropertyDocument,
+  PropertyFloorPlan,
+  PropertyImages,
+  PropertyMediaItem,
+} from './schemas/property.schema';
+import {
+  PropertyRevision,
+  PropertyRevisionDocument,
+  RevisionStatus,
+} from './schemas/property-revision.schema';
+import { MATERIAL_FIELDS, diffFields } from './utils/property-diff.util';
+import { User, UserRole } from '../users/schemas/user.schema';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/schemas/notification.schema';
+import { deleteFromCloudinary } from '../utils/cloudinary';
+
+type LiveListing = Record<string, unknown> & {
+  _id: Types.ObjectId;
+  title: string;
+  ownerId: Types.ObjectId;
+  agentId?: Types.ObjectId;
+  version?: number;
+  images?: PropertyImages[];
+  floorPlans?: PropertyFloorPlan[];
+  videos?: PropertyMediaItem[];
+};
+
+type UploadedMedia = Pick<LiveListing, 'images' | 'floorPlans' | 'videos'>;
+type UploadedFile = { publicId: string };
+
+/** Fields holding files stored in Cloudinary, keyed by `publicId`. */
+const UPLOADED_MEDIA_FIELDS = ['images', 'floorPlans', 'videos'] as const;
+type UploadedMediaField = (typeof UPLOADED_MEDIA_FIELDS)[number];
+
+/** Moderation of material edits to approved listings. */
+@Injectable()
+export class PropertyRevisionService {
+  private readonly logger = new Logger(PropertyRevisionService.name);
+
+  constructor(
+    @InjectModel(PropertyRevision.name)
+    private revisionModel: Model<PropertyRevisionDocument>,
+    @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  /** Approved listings edited by their owner or agent go through moderation. */
+  requiresReview(
+    property: { approvalStatus?: ApprovalStatus },
+    user: User,
+  ): boolean {
+    return (
+      property.approvalStatus === ApprovalStatus.APPROVED &&
+      user.role !== UserRole.ADMIN
+    );
+  }
+
+  getPending(propertyId: string): Promise<PropertyRevision | null> {
+    return this.revisionModel
+      .findOne({
+        propertyId: new Types.ObjectId(propertyId),
+        status: RevisionStatus.PENDING,
+      })
+      .lean<PropertyRevision>()
+      .exec();
+  }
+
+  /**
+   * Merges the edit into the listing's pending revision (creating it if
+   * needed) and recomputes the diff against the live listing. Fields edited
+   * back to their live value drop out; an empty revision is withdrawn.
+   */
+  async stage(
+    propertyId: string,
+    changes: Record<string, unknown>,
+    user: User,
+  ): Promise<PropertyRevision | null> {
+    const live = await this.loadLive(propertyId);
+    const pending = await this.getPending(propertyId);
+
+    const merged = { ...(pending?.changes ?? {}), ...changes };
+    const diff = diffFields(live, merged);
+    const changedRoots = new Set(diff.map((d) => d.field.split('.')[0]));
+    const effective = Object.fromEntries(
+      Object.entries(merged).filter(([key]) => changedRoots.has(key)),
+    );
+
+    if (!diff.length) {
+      if (pending) await this.withdraw(pending);
+      return null;
+    }
+
+    const revision = await this.revisionModel
+      .findOneAndUpdate(
+        { propertyId: live._id, status: RevisionStatus.PENDING },
+        {
+          $set: { changes: effective, diff, submittedBy: user._id },
+          $setOnInsert: {
+            ownerId: live.ownerId,
+            baseVersion: live.version ?? 1,
+          },
+        },
+        { upsert: true, new: true },
+      )
+      .lean<PropertyRevision>()
+      .exec();
+
+    await this.propertyModel.updateOne(
+      { _id: live._id },
+      { $set: { pendingRevisionId: revision._id } },
+    );
+
+    this.logger.log(
+      `Revision ${revision._id.toString()} of property ${propertyId} staged by ${user._id.toString()}: ${[...changedRoots].join(', ')}`,
+    );
+    return revision;
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // QUEUE & HISTORY
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /** Admin queue, oldest edit first. */
+  async listQueue(page = 1, limit = 20) {
+    const filter = { status: RevisionStatus.PENDING };
+    const [revisions, total] = await Promise.all([
+      this.revisionModel
+        .find(filter)
+        .populate('propertyId', 'title city images approvalStatus version')
+        .populate('submittedBy', 'name email phoneNumber role')
+        .sort({ updatedAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      this.revisionModel.countDocuments(filter),
+    ]);
+    return { revisions, total, page, totalPages: Math.ceil(total / limit) };
+  }
+
+  async history(propertyId: string, user: User): Promise<PropertyRevision[]> {
+    const live = await this.loadLive(propertyId);
+    const canView =
+      user.role === UserRole.ADMIN ||
+      live.ownerId.toString() === user._id.toString() ||
+      live.agentId?.toString() === user._id.toString();
+    if (!canView) {
+      throw new ForbiddenException('You can only view your own listings');
+    }
+
+    return this.revisionModel
+      .find({ propertyId: live._id })
+      .sort({ createdAt: -1 })
+      .lean<PropertyRevision[]>()
+      .exec();
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // REVIEW
+  // ════════════════════════════════════════════════════════════════════════════
+
+  async getPendingById(revisionId: string): Promise<PropertyRevision> {
+    if (!Types.ObjectId.isValid(revisionId)) {
+      throw new BadRequestException('Invalid revision ID');
+    }
+    const revision = await this.revisionModel
+      .findById(revisionId)
+      .lean<PropertyRevision>()
+      .exec();
+    if (!revision) throw new NotFoundException('Revision not found');
+    if (revision.status !== RevisionStatus.PENDING) {
+      throw new BadRequestException(`Revision is already ${revision.status}`);
+    }
+    return revision;
+  }
+
+  /**
+   * Called once the revision's changes have been applied to the listing.
+   * Deletes photos, floor plans and videos the revision removed from the live
+   * listing.
+   */
+  async markApproved(
+    revision: PropertyRevision,
+    previous: UploadedMedia,
+    admin: User,
+  ): Promise<void> {
+    await this.revisionModel.updateOne(
+      { _id: revision._id },
+      {
+        $set: {
+          status: RevisionStatus.APPROVED,
+          reviewedBy: admin._id,
+          reviewedAt: new Date(),
+        },
+      },
+    );
+    const property = await this.propertyModel
+      .findByIdAndUpdate(
+        revision.propertyId,
+        { $inc: { version: 1 }, $unset: { pendingRevisionId: '' } },
+        { new: true },
+      )
+      .select('title version')
+      .lean()
+      .exec();
+
+    for (const field of UPLOADED_MEDIA_FIELDS) {
+      const staged = revision.changes[field] as UploadedFile[] | undefined;
+      if (!Array.isArray(staged)) continue;
+      const kept = new Set(staged.map((i) => i.publicId));
+      const before: UploadedFile[] = previous[field] ?? [];
+      this.deleteMedia(
+        field,
+        before.filter((i) => !kept.has(i.publicId)),
+      );
+    }
+
+    await this.notifyOwner(
+      revision,
+      'Changes approved',
+      `Your changes to ${property?.title ?? 'your listing'} are now live.`,
+    );
+    this.logger.log(
+      `Revision ${revision._id.toString()} approved by ${admin._id.toString()} (property v${property?.version})`,
+    );
+  }
+
+  async reject(
+    revisionId: string,
+    reason: string | undefined,
+    admin: User,
+  ): Promise<PropertyRevision> {
+    const revision = await this.getPendingById(revisionId);
+    const live = await this.loadLive(revision.propertyId.toString());
+
+    const rejected = await this.revisionModel
+      .findByIdAndUpdate(
+        revision._id,
+        {
+          $set: {
+            status: RevisionStatus.REJECTED,
+            reviewedBy: admin._id,
+            reviewedAt: new Date(),
+            ...(reason ? { rejectionReason: reason } : {}),
+          },
+        },
+        { new: true },
+      )
+      .lean<PropertyRevision>()
+      .exec();
+    await this.propertyModel.updateOne(
+      { _id: live._id },
+      { $unset: { pendingRevisionId: '' } },
+    );
+
+    // Files uploaded for this revision only are no longer referenced
+    for (const field of UPLOADED_MEDIA_FIELDS) {
+      this.deleteMedia(field, this.stagedOnlyMedia(revision, live, field));
+    }
+
+    await this.notifyOwner(
+      revision,
+      'Changes rejected',
+      `Your changes to ${live.title} were not approved${reason ? `: ${reason}` : '.'} The listing is unchanged.`,
+    );
+    this.logger.log(
+      `Revision ${revisionId} rejected by ${admin._id.toString()}. Reason: ${reason ?? 'none'}`,
+    );
+    return rejected!;
+  }
+
+  // ─── Helpers ────────────────────────────────────────────────────────────────
+
+  private async loadLive(propertyId: string): Promise<LiveListing> {
+    if (!Types.ObjectId.isValid(propertyId)) {
+      throw new BadRequestException('Invalid property ID');
+    }
+    const live = await this.propertyModel
+      .findById(propertyId)
+      .select([...MATERIAL_FIELDS, 'ownerId', 'agentId', 'version'].join(' '))
+      .lean<LiveListing>()
+      .exec();
+    if (!live) throw new NotFoundException('Property not found');
+    return live;
+  }
+
+  /** The edit was undone field by field: drop the revision altogether. */
+  private async withdraw(pending: PropertyRevision): Promise<void> {
+    await this.revisionModel.deleteOne({ _id: pending._id });
+    await this.propertyModel.updateOne(
+      { _id: pending.propertyId },
+      { $unset: { pendingRevisionId: '' } },
+    );
+  }
+
+  private stagedOnlyMedia(
+    revision: PropertyRevision,
+    live: LiveListing,
+    field: UploadedMediaField,
+  ): UploadedFile[] {
+    const staged = revision.changes[field] as UploadedFile[] | undefined;
+    if (!Array.isArray(staged)) return [];
+    const before: UploadedFile[] = live[field] ?? [];
+    const liveIds = new Set(before.map((i) => i.publicId));
+    return staged.filter((i) => !liveIds.has(i.publicId));
+  }
+
+  private deleteMedia(field: UploadedMediaField, files: UploadedFile[]): void {
+    const resourceType = field === 'videos' ? 'video' : 'image';
+    for (const file of files) {
+      deleteFromCloudinary(file.publicId, resourceType).catch((e) =>
+        this.logger.warn(
+          `Could not delete ${resourceType} ${file.publicId}: ${e}`,
+        ),
+      );
+    }
+  }
+
+  private async notifyOwner(
+    revision: PropertyRevision,
+    title: string,
+    message: string,
+  ): Promise<void> {
+    await this.notificationsService.create({
+      userId: revision.ownerId.toString(),
+      type: NotificationType.PROPERTY_UPDATE,
+      title,
+      message,
+      link: `/properties/${revision.propertyId.toString()}`,
+      metadata: {
+        propertyId: revision.propertyId.toString(),
+        revisionId: revision._id.toString(),
+      },
+    });
+  }
+}
@@ -0,0 +1,96 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type OwnershipVerificationDocument = OwnershipVerification & Document;
+
+export enum OwnershipDocumentType {
+  TITRE_FONCIER = 'titre_foncier',
+  CERTIFICATE_OF_SALE = 'certificate_of_sale',
+  NOTARIAL_DEED = 'notarial_deed',
+  SUBDIVISION_PLAN = 'subdivision_plan',
+  OTHER = 'other',
+}
+
+export enum OwnershipVerificationStatus {
+  PENDING = 'pending',
+  VERIFIED = 'verified',
+  REJECTED = 'rejected',
+}
+
+/**
+ * A file proving ownership. Stored as an authenticated Cloudinary asset:
+ * there is no public URL, only short-lived signed links for the owner and
+ * admins.
+ */
+export interface OwnershipDocumentFile {
+  publicId: string;
+  documentType: OwnershipDocumentType;
+  fileName?: string;
+  format?: string;
+  bytes?: number;
+  uploadedAt: Date;
+}
+
+/**
+ * Admin-only remark on the file, optionally recording a decision. Notes
+ * without an author are written by the system (e.g. the plot was edited).
+ */
+export interface VerificationNote {
+  authorId?: Types.ObjectId;
+  text: string;
+  decision?: OwnershipVerificationStatus;
+  createdAt: Date;
+}
+
+/**
+ * Ownership documents of a sale listing and their review. Kept out of the
+ * Property document so listing queries can never return them; the listing
+ * only carries the resulting `ownershipVerified` badge.
+ */
+@Schema({ timestamps: true })
+export class OwnershipVerification {
+  _id!: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Property', required: true, unique: true })
+  propertyId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  ownerId: Types.ObjectId;
+
+  @Prop({
+    type: String,
+    enum: Object.values(OwnershipVerificationStatus),
+    default: OwnershipVerificationStatus.PENDING,
+  })
+  status: OwnershipVerificationStatus;
+
+  @Prop({ type: [Object], default: [] })
+  documents: OwnershipDocumentFile[];
+
+  @Prop({ type: [Object], default: [] })
+  notes: VerificationNote[];
+
+  /** Last time documents were (re)submitted for review. */
+  @Prop()
+  submittedAt?: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  reviewedBy?: Types.ObjectId;
+
+  @Prop()
+  reviewedAt?: Date;
+
+  /** Shown to the owner, unlike the notes. */
+  @Prop()
+  rejectionReason?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const OwnershipVerificationSchema = SchemaFactory.createForClass(
+  OwnershipVerification,
+);
+
+OwnershipVerificationSchema.index({ status: 1, submittedAt: 1 }); // admin queue
+OwnershipVerificationSchema.index({ ownerId: 1 });
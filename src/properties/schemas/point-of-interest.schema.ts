@@ -0,0 +1,62 @@
+import { Prop, Schema, SchemaFactory, raw } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type PointOfInterestDocument = PointOfInterest & Document;
+
+export enum PoiCategory {
+  SCHOOL = 'school',
+  HOSPITAL = 'hospital',
+  MARKET = 'market',
+  CAMPUS = 'campus',
+  /** Taxi ranks, moto-taxi stands and bus/agency stations. */
+  TRANSPORT_HUB = 'transport_hub',
+}
+
+/**
+ * A place listings are measured against (market, campus gate, taxi rank…).
+ * Loaded by admins, one by one or through the bulk import.
+ */
+@Schema({ timestamps: true })
+export class PointOfInterest {
+  _id!: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop({ type: String, enum: Object.values(PoiCategory), required: true })
+  category: PoiCategory;
+
+  @Prop({ required: true, trim: true, lowercase: true })
+  city: string;
+
+  @Prop(
+    raw({
+      type: { type: String, enum: ['Point'], required: true },
+      coordinates: { type: [Number], required: true },
+    }),
+  )
+  location: { type: 'Point'; coordinates: [number, number] };
+
+  /** Identifier in the source dataset (e.g. an OSM node id); makes re-imports idempotent. */
+  @Prop({ trim: true })
+  externalId?: string;
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const PointOfInterestSchema =
+  SchemaFactory.createForClass(PointOfInterest);
+
+PointOfInterestSchema.index({ location: '2dsphere', category: 1 });
+PointOfInterestSchema.index({ city: 1, category: 1, name: 1 });
+PointOfInterestSchema.index(
+  { externalId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { externalId: { $type: 'string' } },
+  },
+);
@@ -0,0 +1,99 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type PropertyImportJobDocument = PropertyImportJob & Document;
+
+// ─── Enums ────────────────────────────────────────────────────────────────────
+
+export enum ImportJobStatus {
+  QUEUED = 'queued',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+export enum ImportRowStatus {
+  VALID = 'valid', // dry-run: would be created
+  CREATED = 'created',
+  ERROR = 'error',
+  SKIPPED = 'skipped', // listing quota reached
+}
+
+// ─── Sub-documents ────────────────────────────────────────────────────────────
+
+export interface ImportRowResult {
+  /** 1-based spreadsheet row number, header included — matches what the user sees. */
+  row: number;
+  status: ImportRowStatus;
+  title?: string;
+  errors: string[];
+  /** Non-blocking problems, e.g. an address that could not be geocoded. */
+  warnings?: string[];
+  /** Set when coordinates were filled in from the address. */
+  geocoded?: boolean;
+  propertyId?: Types.ObjectId;
+}
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+
+/**
+ * A bulk listing import from a CSV/XLSX file. Rows are processed in the
+ * background; the per-row report is stored here for the owner to review.
+ */
+@Schema({ timestamps: true })
+export class PropertyImportJob {
+  _id!: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  ownerId: Types.ObjectId;
+
+  @Prop({ required: true })
+  fileName: string;
+
+  @Prop({ default: false })
+  dryRun: boolean;
+
+  @Prop({
+    type: String,
+    enum: Object.values(ImportJobStatus),
+    default: ImportJobStatus.QUEUED,
+  })
+  status: ImportJobStatus;
+
+  @Prop({ default: 0 })
+  totalRows: number;
+
+  @Prop({ default: 0 })
+  processedRows: number;
+
+  /** Dry-run: rows that would be created. */
+  @Prop({ default: 0 })
+  createdCount: number;
+
+  @Prop({ default: 0 })
+  errorCount: number;
+
+  @Prop({ default: 0 })
+  skippedCount: number;
+
+  @Prop({ type: [Object], default: [] })
+  rows: ImportRowResult[];
+
+  /** Job-level failure (unreadable file, …). Row problems go in `rows`. */
+  @Prop()
+  error?: string;
+
+  @Prop()
+  startedAt?: Date;
+
+  @Prop()
+  finishedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const PropertyImportJobSchema =
+  SchemaFactory.createForClass(PropertyImportJob);
+
+PropertyImportJobSchema.index({ ownerId: 1, createdAt: -1 });
@@ -0,0 +1,40 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type PropertyPriceHistoryDocument = PropertyPriceHistory & Document;
+
+/**
+ * One entry per price a listing has had, starting with its creation price.
+ * Kept in its own collection so Property documents don't grow unbounded.
+ */
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class PropertyPriceHistory {
+  _id!: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Property', required: true })
+  propertyId: Types.ObjectId;
+
+  @Prop({ required: true })
+  price: number;
+
+  /** Absent on the first entry. */
+  @Prop()
+  previousPrice?: number;
+
+  /** Signed change relative to previousPrice, e.g. -12.5 for a 12.5 % drop. */
+  @Prop()
+  changePercent?: number;
+
+  @Prop({ default: 'XAF' })
+  currency: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  changedBy?: Types.ObjectId;
+
+  createdAt: Date;
+}
+
+export const PropertyPriceHistorySchema =
+  SchemaFactory.createForClass(PropertyPriceHistory);
+
+PropertyPriceHistorySchema.index({ propertyId: 1, createdAt: -1 });
@@ -0,0 +1,74 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import type { FieldChange } from '../utils/property-diff.util';
+
+export type PropertyRevisionDocument = PropertyRevision & Document;
+
+export enum RevisionStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
+
+/**
+ * Material edits to an approved listing, waiting for moderation. The listing
+ * keeps serving its approved content until the revision is approved. There
+ * is at most one pending revision per listing; later edits merge into it.
+ */
+@Schema({ timestamps: true })
+export class PropertyRevision {
+  _id!: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Property', required: true })
+  propertyId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  ownerId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  submittedBy: Types.ObjectId;
+
+  /** Property.version the edit was made against. */
+  @Prop({ required: true })
+  baseVersion: number;
+
+  @Prop({
+    type: String,
+    enum: Object.values(RevisionStatus),
+    default: RevisionStatus.PENDING,
+  })
+  status: RevisionStatus;
+
+  /** Proposed values, in UpdatePropertyDto shape. */
+  @Prop({ type: Object, required: true })
+  changes: Record<string, any>;
+
+  /** Field-level diff against the live listing, for the admin queue. */
+  @Prop({ type: [Object], default: [] })
+  diff: FieldChange[];
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  reviewedBy?: Types.ObjectId;
+
+  @Prop()
+  reviewedAt?: Date;
+
+  @Prop()
+  rejectionReason?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const PropertyRevisionSchema =
+  SchemaFactory.createForClass(PropertyRevision);
+
+PropertyRevisionSchema.index({ propertyId: 1, createdAt: -1 });
+PropertyRevisionSchema.index({ status: 1, updatedAt: 1 }); // admin queue
+PropertyRevisionSchema.index(
+  { propertyId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { status: RevisionStatus.PENDING },
+  },
+);
@@ -1,5 +1,8 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import type { ListingQuality } from '../utils/listing-quality.util';
+import type { PoiProximity } from '../utils/poi-proximity.util';
+import { PoiCategory } from './point-of-interest.schema';
 
 export type PropertyDocument = Property & Document;
 
@@ -33,6 +36,7 @@ export enum PropertyStatus {
   RENTED = 'rented',
   PENDING = 'pending',
   DRAFT = 'draft',
+  EXPIRED = 'expired', // lifetime ran out — renew to put it back online
 }
 
 export enum ApprovalStatus {
@@ -60,6 +64,51 @@ export enum CancellationPolicy {
   NO_REFUND = 'no_refund',
 }
 
+// ─── Land & commercial enums ──────────────────────────────────────────────────
+
+/** Property types that carry `landDetails`. */
+export const LAND_PROPERTY_TYPES: readonly PropertyType[] = [PropertyType.LAND];
+
+/** Property types that carry `commercialDetails`. */
+export const COMMERCIAL_PROPERTY_TYPES: readonly PropertyType[] = [
+  PropertyType.COMMERCIAL,
+  PropertyType.OFFICE,
+  PropertyType.SHOP,
+  PropertyType.WAREHOUSE,
+];
+
+export enum LandTitleStatus {
+  /** Registered title deed — the only fully secure status */
+  TITRE_FONCIER = 'titre_foncier',
+  /** Parcel of a subdivided plot still covered by the mother title */
+  TITRE_MERE = 'titre_mere',
+  /** Title application filed, not yet issued */
+  IN_PROGRESS = 'in_progress',
+  /** Customary land, held by attestation from the chiefdom */
+  CUSTOMARY = 'customary',
+  NONE = 'none',
+}
+
+export enum ZoningType {
+  RESIDENTIAL = 'residential',
+  COMMERCIAL = 'commercial',
+  INDUSTRIAL = 'industrial',
+  AGRICULTURAL = 'agricultural',
+  MIXED = 'mixed',
+}
+
+export enum RoadAccess {
+  PAVED = 'paved',
+  LATERITE = 'laterite',
+  FOOTPATH = 'footpath',
+  NONE = 'none',
+}
+
+export enum PowerPhase {
+  SINGLE = 'single',
+  THREE = 'three',
+}
+
 // ─── Student-specific enums (NEW) ────────────────────────────────────────────
 
 export enum WaterSource {
@@ -146,6 +195,37 @@ export interface ShortTermAmenities {
   dailyHousekeeping?: boolean;
 }
 
+/** Plot attributes; only for LAND_PROPERTY_TYPES. */
+export interface LandDetails {
+  titleStatus?: LandTitleStatus;
+  /** Number of the titre foncier, when issued */
+  titleNumber?: string;
+  zoning?: ZoningType;
+  roadAccess?: RoadAccess;
+  plotWidthM?: number;
+  plotDepthM?: number;
+  /** Defaults to width × depth */
+  plotAreaSqm?: number;
+  isFenced?: boolean;
+  isFlat?: boolean;
+  hasWaterConnection?: boolean;
+  hasElectricityConnection?: boolean;
+}
+
+/** Premises attributes; only for COMMERCIAL_PROPERTY_TYPES. */
+export interface CommercialDetails {
+  /** Street frontage of the premises */
+  frontageM?: number;
+  hasLoadingDock?: boolean;
+  powerPhase?: PowerPhase;
+  /** Subscribed electrical capacity */
+  powerKva?: number;
+  parkingSpaces?: number;
+  ceilingHeightM?: number;
+  hasGoodsLift?: boolean;
+  zoning?: ZoningType;
+}
+
 /**
  * Student-specific property details (NEW).
  * Only populated when isStudentFriendly === true.
@@ -161,6 +241,11 @@ export interface StudentDetails {
   walkingMinutes?: number;
   /** Estimated taxi/moto time in minutes */
   taxiMinutes?: number;
+  /**
+   * `auto` when the three fields above were filled from the campus dataset;
+   * those are refreshed when the listing moves, owner-entered values never are.
+   */
+  proximitySource?: 'auto' | 'owner';
 
   // ── Infrastructure (critical for Cameroon) ────────────────────────────────
   waterSource?: WaterSource;
@@ -209,6 +294,58 @@ export interface PropertyImages {
   publicId: string;
   caption?: string;
   isMain?: boolean;
+  width?: number;
+  height?: number;
+  /** Perceptual hash of the original upload — used for duplicate detection. */
+  phash?: string;
+  /** `PropertyRoom.key` of the room the photo shows. */
+  roomKey?: string;
+}
+
+// ─── Rooms & floor plans ──────────────────────────────────────────────────────
+
+export enum RoomType {
+  LIVING_ROOM = 'living_room',
+  BEDROOM = 'bedroom',
+  KITCHEN = 'kitchen',
+  BATHROOM = 'bathroom',
+  DINING_ROOM = 'dining_room',
+  OFFICE = 'office',
+  LAUNDRY = 'laundry',
+  STORAGE = 'storage',
+  GARAGE = 'garage',
+  BALCONY = 'balcony',
+  TERRACE = 'terrace',
+  GARDEN = 'garden',
+  POOL = 'pool',
+  EXTERIOR = 'exterior',
+  OTHER = 'other',
+}
+
+export interface PropertyRoom {
+  /** Stable slug photos are tagged with, e.g. `bedroom-1`. Survives renames. */
+  key: string;
+  type: RoomType;
+  /** Shown to visitors, e.g. "Bedroom 1". */
+  label: string;
+  /** 0 = ground floor, negative for basements. */
+  level?: number;
+  widthM?: number;
+  lengthM?: number;
+  areaSqm?: number;
+  /** Floor plan the room is drawn on and its marker, in % of the plan's size. */
+  floorPlanId?: string;
+  marker?: { x: number; y: number };
+}
+
+export interface PropertyFloorPlan {
+  url: string;
+  publicId: string;
+  /** e.g. "Ground floor". */
+  label?: string;
+  level?: number;
+  width?: number;
+  height?: number;
 }
 
 export interface PropertyMediaItem {
@@ -217,6 +354,30 @@ export interface PropertyMediaItem {
   caption?: string;
 }
 
+export enum DuplicateStatus {
+  SUSPECTED = 'suspected',
+  DISMISSED = 'dismissed',   // admin approved the listing anyway
+  CONFIRMED = 'confirmed',   // admin rejected it as a repost
+}
+
+export interface DuplicateFlag {
+  /** The older listing this one appears to copy. */
+  originalId: Types.ObjectId;
+  status: DuplicateStatus;
+  /** 0–1, sum of the matched signals' weights. */
+  score: number;
+  reasons: string[];
+  detectedAt: Date;
+}
+
+/** Set when the price is lowered; drives the "price reduced" badge. */
+export interface PriceDrop {
+  previousPrice: number;
+  /** Positive percentage, e.g. 12.5 */
+  percent: number;
+  droppedAt: Date;
+}
+
 export interface UnavailableDateRange {
   from: Date;
   to: Date;
@@ -237,6 +398,9 @@ export class Property {
   @Prop({ required: true })
   price: number;
 
+  @Prop({ type: Object })
+  priceDrop?: PriceDrop;
+
   @Prop({ default: 'XAF' })
   currency?: string;
 
@@ -296,6 +460,12 @@ export class Property {
   @Prop({ type: [Object], default: [] })
   videos: PropertyMediaItem[];
 
+  @Prop({ type: [Object], default: [] })
+  floorPlans: PropertyFloorPlan[];
+
+  @Prop({ type: [Object], default: [] })
+  rooms: PropertyRoom[];
+
   // ── Standard amenities (long-term) ───────────────────────────────────────
 
   @Prop({ type: Object, default: {} })
@@ -353,6 +523,10 @@ export class Property {
   })
   cancellationPolicy: CancellationPolicy;
 
+  /** A host's custom policy; when set it applies instead of cancellationPolicy. */
+  @Prop({ type: Types.ObjectId, ref: 'HostCancellationPolicy' })
+  cancellationPolicyId?: Types.ObjectId;
+
   @Prop({ default: 0, min: 0 })
   advanceNoticeDays: number;
 
@@ -379,6 +553,7 @@ export class Property {
       nearestCampus: { type: String },
       walkingMinutes: { type: Number },
       taxiMinutes: { type: Number },
+      proximitySource: { type: String, enum: ['auto', 'owner'] },
       waterSource: { type: String, enum: Object.values(WaterSource) },
       electricityBackup: { type: String, enum: Object.values(ElectricityBackup) },
       furnishingStatus: { type: String, enum: Object.values(FurnishingStatus) },
@@ -404,6 +579,41 @@ export class Property {
   })
   studentDetails?: StudentDetails;
 
+  // ── Land & commercial ─────────────────────────────────────────────────────
+
+  @Prop({
+    type: {
+      titleStatus: { type: String, enum: Object.values(LandTitleStatus) },
+      titleNumber: { type: String, trim: true },
+      zoning: { type: String, enum: Object.values(ZoningType) },
+      roadAccess: { type: String, enum: Object.values(RoadAccess) },
+      plotWidthM: { type: Number },
+      plotDepthM: { type: Number },
+      plotAreaSqm: { type: Number },
+      isFenced: { type: Boolean },
+      isFlat: { type: Boolean },
+      hasWaterConnection: { type: Boolean },
+      hasElectricityConnection: { type: Boolean },
+    },
+    default: null,
+  })
+  landDetails?: LandDetails;
+
+  @Prop({
+    type: {
+      frontageM: { type: Number },
+      hasLoadingDock: { type: Boolean },
+      powerPhase: { type: String, enum: Object.values(PowerPhase) },
+      powerKva: { type: Number },
+      parkingSpaces: { type: Number },
+      ceilingHeightM: { type: Number },
+      hasGoodsLift: { type: Boolean },
+      zoning: { type: String, enum: Object.values(ZoningType) },
+    },
+    default: null,
+  })
+  commercialDetails?: CommercialDetails;
+
   // ── Owner / agent ─────────────────────────────────────────────────────────
 
   @Prop({ type: Types.ObjectId, ref: 'User', required: true })
@@ -453,6 +663,11 @@ export class Property {
   @Prop()
   slug?: string;
 
+  // Trigrams of the normalized title/city/neighborhood/keywords words, for
+  // typo-tolerant search. Internal — never returned to clients.
+  @Prop({ type: [String], default: [], select: false })
+  searchGrams: string[];
+
   @Prop({ type: [String], default: [] })
   nearbyAmenities: string[];
 
@@ -487,12 +702,57 @@ export class Property {
   @Prop({ default: false })
   isVerified: boolean;
 
+  /** Title documents checked by an admin (sale listings, see OwnershipVerification). */
+  @Prop({ default: false })
+  ownershipVerified: boolean;
+
+  @Prop()
+  ownershipVerifiedAt?: Date;
+
   @Prop({ default: false })
   isFeatured: boolean;
 
   @Prop({ default: false })
   isActive: boolean;
 
+  // ── Publication window ────────────────────────────────────────────────────
+
+  /** Go-live date chosen by the owner. Absent = as soon as approved. */
+  @Prop()
+  publishAt?: Date;
+
+  /** When the listing actually went live (first time). */
+  @Prop()
+  publishedAt?: Date;
+
+  /** Taken offline at this date unless renewed. */
+  @Prop()
+  expiresAt?: Date;
+
+  @Prop()
+  expiryReminderSentAt?: Date;
+
+  /** What availability was when the listing expired; renewing restores it. */
+  @Prop({ type: String, enum: Object.values(PropertyStatus) })
+  availabilityBeforeExpiry?: PropertyStatus;
+
+  // ── Versioning ────────────────────────────────────────────────────────────
+
+  /** Incremented each time a moderated edit is approved. */
+  @Prop({ default: 1 })
+  version: number;
+
+  /** Material edits awaiting moderation; the live fields stay as approved. */
+  @Prop({ type: Types.ObjectId, ref: 'PropertyRevision' })
+  pendingRevisionId?: Types.ObjectId;
+
+  /** Draft autosave counter — clients send it back to detect stale tabs. */
+  @Prop({ default: 0 })
+  autosaveSeq: number;
+
+  @Prop()
+  autosavedAt?: Date;
+
   // ── Ratings ───────────────────────────────────────────────────────────────
 
   @Prop({ default: 0 })
@@ -522,6 +782,29 @@ export class Property {
   @Prop({ default: 0 })
   tourViews: number;          // lightweight analytics counter
 
+  // ── Listing quality ───────────────────────────────────────────────────────
+  // Maintained by ListingQualityService; shown to owners with the missing items.
+
+  @Prop({ type: Object })
+  listingQuality?: ListingQuality;
+
+  // ── Duplicate detection ───────────────────────────────────────────────────
+
+  @Prop({ select: false })
+  normalizedAddress?: string;
+
+  @Prop({ type: Object })
+  duplicateFlag?: DuplicateFlag;
+
+  // ── Points of interest ────────────────────────────────────────────────────
+  // Nearest market, campus, taxi rank… Maintained by PointsOfInterestService.
+
+  @Prop({ type: Object })
+  poiProximity?: PoiProximity;
+
+  @Prop()
+  poiProximityComputedAt?: Date;
+
   // ── Timestamps ────────────────────────────────────────────────────────────
 
   createdAt: Date;
@@ -545,6 +828,9 @@ PropertySchema.index({
   keywords: 'text',
 });
 
+// Fuzzy search / autocomplete
+PropertySchema.index({ searchGrams: 1 });
+
 // Common filter combinations (existing)
 PropertySchema.index({ city: 1, type: 1, listingType: 1 });
 PropertySchema.index({ price: 1, city: 1 });
@@ -567,9 +853,24 @@ PropertySchema.index({ isStudentFriendly: 1, 'studentDetails.campusProximityMete
 PropertySchema.index({ isStudentFriendly: 1, 'studentDetails.isStudentApproved': 1 });
 // Filter by water source and electricity backup
 PropertySchema.index({ 'studentDetails.waterSource': 1 });
+// Land & commercial search filters
+PropertySchema.index({ type: 1, 'landDetails.titleStatus': 1, 'landDetails.plotAreaSqm': 1 });
+PropertySchema.index({ type: 1, 'commercialDetails.frontageM': 1 });
 PropertySchema.index({ 'studentDetails.electricityBackup': 1 });
 // Colocation: find properties with available beds
 PropertySchema.index({ isStudentFriendly: 1, 'studentDetails.availableBeds': 1 });
 // Price per person search
 PropertySchema.index({ isStudentFriendly: 1, 'studentDetails.pricePerPersonMonthly': 1 });
-PropertySchema.index({ tourType: 1, isActive: 1 }); // tour browse filter
\ No newline at end of file
+PropertySchema.index({ tourType: 1, isActive: 1 }); // tour browse filter
+PropertySchema.index({ isFeatured: -1, 'listingQuality.tier': -1, createdAt: -1 }); // "recommended" sort
+PropertySchema.index({ city: 1, normalizedAddress: 1 }); // duplicate detection
+PropertySchema.index({ 'images.phash': 1 });
+PropertySchema.index({ 'duplicateFlag.status': 1, createdAt: -1 }); // admin duplicate queue
+PropertySchema.index({ ownerId: 1, updatedAt: 1, _id: 1 }); // syndication feeds (incremental pulls)
+PropertySchema.index({ updatedAt: 1, _id: 1 });
+PropertySchema.index({ isActive: 1, expiresAt: 1 }); // expiry cron and reminders
+PropertySchema.index({ approvalStatus: 1, publishAt: 1 }, { partialFilterExpression: { publishAt: { $exists: true } } }); // scheduled publish
+PropertySchema.index({ poiProximityComputedAt: 1 }); // nearby-places refresh cron
+for (const category of Object.values(PoiCategory)) {
+  PropertySchema.index({ [`poiProximity.${category}.distanceMeters`]: 1 }, { sparse: true }); // "within X m of" filters
+}
@@ -0,0 +1,46 @@
+import { model } from 'mongoose';
+import { SearchArea, SearchAreaSchema } from './search-area.schema';
+
+describe('SearchAreaSchema', () => {
+  const SearchAreaModel = model(SearchArea.name, SearchAreaSchema);
+  const square = {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [9.7, 4.0],
+        [9.8, 4.0],
+        [9.8, 4.1],
+        [9.7, 4.1],
+        [9.7, 4.0],
+      ],
+    ],
+  };
+
+  it('builds with a GeoJSON boundary and its 2dsphere index', () => {
+    expect(SearchAreaSchema.path('boundary.type')).toBeDefined();
+    expect(SearchAreaSchema.path('boundary.coordinates')).toBeDefined();
+    expect(SearchAreaSchema.indexes()).toContainEqual([
+      { boundary: '2dsphere' },
+      expect.anything(),
+    ]);
+  });
+
+  it('accepts a polygon and requires the boundary', () => {
+    const area = new SearchAreaModel({
+      name: 'Bonapriso',
+      city: 'Douala',
+      slug: 'douala-bonapriso',
+      boundary: square,
+    });
+    expect(area.validateSync()).toBeUndefined();
+
+    const missing = new SearchAreaModel({
+      name: 'Akwa',
+      city: 'Douala',
+      slug: 'douala-akwa',
+    });
+    expect(Object.keys(missing.validateSync()?.errors ?? {})).toContain(
+      'boundary.type',
+    );
+  });
+});
@@ -0,0 +1,43 @@
+import { Prop, Schema, SchemaFactory, raw } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { GeoJsonPolygon } from '../utils/geo.util';
+
+export type SearchAreaDocument = SearchArea & Document;
+
+/**
+ * A named map polygon (neighborhood, quarter, campus zone) that users can pick
+ * instead of drawing their own shape. Maintained by admins.
+ */
+@Schema({ timestamps: true })
+export class SearchArea {
+  _id!: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop({ required: true, trim: true, lowercase: true })
+  city: string;
+
+  @Prop({ required: true, unique: true })
+  slug: string;
+
+  /** Required through its own fields: a nested `required` breaks the schema. */
+  @Prop(
+    raw({
+      type: { type: String, enum: ['Polygon'], required: true },
+      coordinates: { type: [[[Number]]], required: true },
+    }),
+  )
+  boundary: GeoJsonPolygon;
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const SearchAreaSchema = SchemaFactory.createForClass(SearchArea);
+
+SearchAreaSchema.index({ boundary: '2dsphere' });
+SearchAreaSchema.index({ city: 1, isActive: 1, name: 1 });
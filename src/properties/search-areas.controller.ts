@@ -0,0 +1,90 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+
+import { SearchAreasService } from './search-areas.service';
+import {
+  CreateSearchAreaDto,
+  UpdateSearchAreaDto,
+} from './dto/search-area.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { RolesGuard, Roles, Public } from '../auth/guards/roles.guard';
+import { UserRole } from '../users/schemas/user.schema';
+
+@ApiTags('Search Areas')
+@Controller('search-areas')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class SearchAreasController {
+  constructor(private readonly searchAreasService: SearchAreasService) {}
+
+  @Get()
+  @Public()
+  @ApiOperation({
+    summary: 'List named neighborhood polygons usable as a search area',
+  })
+  @ApiQuery({ name: 'city', required: false, type: String })
+  @ApiResponse({ status: 200, description: 'Active search areas' })
+  async findAll(@Query('city') city?: string) {
+    return this.searchAreasService.findAll(city);
+  }
+
+  @Get(':id')
+  @Public()
+  @ApiOperation({ summary: 'Get a search area with its boundary polygon' })
+  @ApiParam({ name: 'id', description: 'Search area ID' })
+  @ApiResponse({ status: 404, description: 'Search area not found' })
+  async findOne(@Param('id') id: string) {
+    return this.searchAreasService.findOne(id);
+  }
+
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Admin: Create a named search area' })
+  @ApiResponse({ status: 201, description: 'Search area created' })
+  @ApiResponse({
+    status: 409,
+    description: 'An area with this name already exists in the city',
+  })
+  async create(@Body() dto: CreateSearchAreaDto) {
+    return this.searchAreasService.create(dto);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Admin: Update a search area' })
+  @ApiParam({ name: 'id', description: 'Search area ID' })
+  async update(@Param('id') id: string, @Body() dto: UpdateSearchAreaDto) {
+    return this.searchAreasService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Admin: Delete a search area' })
+  @ApiParam({ name: 'id', description: 'Search area ID' })
+  async remove(@Param('id') id: string) {
+    await this.searchAreasService.remove(id);
+    return { message: 'Search area deleted successfully' };
+  }
+}
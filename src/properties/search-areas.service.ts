@@ -0,0 +1,119 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types, UpdateQuery } from 'mongoose';
+
+import { SearchArea, SearchAreaDocument } from './schemas/search-area.schema';
+import {
+  CreateSearchAreaDto,
+  UpdateSearchAreaDto,
+} from './dto/search-area.dto';
+import { GeoJsonPolygon, toGeoJsonPolygon } from './utils/geo.util';
+
+@Injectable()
+export class SearchAreasService {
+  private readonly logger = new Logger(SearchAreasService.name);
+
+  constructor(
+    @InjectModel(SearchArea.name)
+    private searchAreaModel: Model<SearchAreaDocument>,
+  ) {}
+
+  async create(dto: CreateSearchAreaDto): Promise<SearchArea> {
+    const city = dto.city.trim().toLowerCase();
+    const slug = this.generateSlug(city, dto.name);
+
+    const exists = await this.searchAreaModel.exists({ slug });
+    if (exists)
+      throw new ConflictException(
+        `A search area named "${dto.name}" already exists in ${city}`,
+      );
+
+    const area = await this.searchAreaModel.create({
+      name: dto.name.trim(),
+      city,
+      slug,
+      boundary: toGeoJsonPolygon(dto.boundary),
+      isActive: dto.isActive ?? true,
+    });
+
+    this.logger.log(`Search area created: ${area._id.toString()} (${slug})`);
+    return area;
+  }
+
+  async update(id: string, dto: UpdateSearchAreaDto): Promise<SearchArea> {
+    this.assertValidId(id);
+
+    const update: UpdateQuery<SearchAreaDocument> = {};
+    if (dto.name !== undefined) update.name = dto.name.trim();
+    if (dto.city !== undefined) update.city = dto.city.trim().toLowerCase();
+    if (dto.boundary !== undefined)
+      update.boundary = toGeoJsonPolygon(dto.boundary);
+    if (dto.isActive !== undefined) update.isActive = dto.isActive;
+
+    const updated = await this.searchAreaModel
+      .findByIdAndUpdate(id, update, { new: true })
+      .lean()
+      .exec();
+    if (!updated) throw new NotFoundException('Search area not found');
+    return updated as unknown as SearchArea;
+  }
+
+  async remove(id: string): Promise<void> {
+    this.assertValidId(id);
+    const deleted = await this.searchAreaModel.findByIdAndDelete(id).exec();
+    if (!deleted) throw new NotFoundException('Search area not found');
+  }
+
+  findAll(city?: string): Promise<SearchArea[]> {
+    const query: FilterQuery<SearchAreaDocument> = { isActive: true };
+    if (city) query.city = city.trim().toLowerCase();
+
+    return this.searchAreaModel
+      .find(query)
+      .sort({ city: 1, name: 1 })
+      .lean<SearchArea[]>()
+      .exec();
+  }
+
+  async findOne(id: string): Promise<SearchArea> {
+    this.assertValidId(id);
+    const area = await this.searchAreaModel.findById(id).lean().exec();
+    if (!area) throw new NotFoundException('Search area not found');
+    return area as unknown as SearchArea;
+  }
+
+  /** Boundary polygon of an active area, for use in $geoWithin queries. */
+  async getBoundary(id: string): Promise<GeoJsonPolygon> {
+    this.assertValidId(id);
+    const area = await this.searchAreaModel
+      .findOne({ _id: new Types.ObjectId(id), isActive: true })
+      .select('boundary')
+      .lean<Pick<SearchArea, 'boundary'>>()
+      .exec();
+
+    if (!area) throw new NotFoundException('Search area not found');
+    return area.boundary;
+  }
+
+  private assertValidId(id: string): void {
+    if (!Types.ObjectId.isValid(id))
+      throw new BadRequestException('Invalid search area ID');
+  }
+
+  private generateSlug(city: string, name: string): string {
+    return `${city}-${name}`
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9\s-]/g, '')
+      .trim()
+      .replace(/\s+/g, '-')
+      .replace(/-+/g, '-');
+  }
+}
@@ -0,0 +1,69 @@
+import { viewportFilter } from './geo.util';
+
+describe('viewportFilter', () => {
+  const box = (south: number, west: number, north: number, east: number) => ({
+    southwest: { lat: south, lng: west },
+    northeast: { lat: north, lng: east },
+  });
+  const ringOf = (filter: Record<string, unknown>) =>
+    (
+      filter.location as {
+        $geoWithin: { $geometry: { coordinates: number[][][] } };
+      }
+    ).$geoWithin.$geometry.coordinates[0];
+
+  it('turns a city viewport into one closed rectangle', () => {
+    const ring = ringOf(viewportFilter(box(3.9, 9.6, 4.2, 9.9)));
+
+    expect(ring).toEqual([
+      [9.6, 3.9],
+      [9.9, 3.9],
+      [9.9, 4.2],
+      [9.6, 4.2],
+      [9.6, 3.9],
+    ]);
+  });
+
+  it('splits a viewport crossing the antimeridian', () => {
+    const filter = viewportFilter(box(-20, 170, -10, -170)) as {
+      $or: Record<string, unknown>[];
+    };
+
+    expect(filter.$or.map(ringOf).map((ring) => ring.slice(0, 2))).toEqual([
+      [
+        [170, -20],
+        [180, -20],
+      ],
+      [
+        [-180, -20],
+        [-170, -20],
+      ],
+    ]);
+  });
+
+  it('wraps longitudes a panned map reports past 180', () => {
+    const filter = viewportFilter(box(0, 175, 10, 200)) as {
+      $or: Record<string, unknown>[];
+    };
+
+    expect(ringOf(filter.$or[1])[1]).toEqual([-160, 0]);
+  });
+
+  it('matches latitudes only when zoomed out to the world', () => {
+    expect(viewportFilter(box(-90, -180, 90, 180))).toEqual({
+      'location.coordinates.1': { $gte: -85, $lte: 85 },
+    });
+    expect(viewportFilter(box(-60, -540, 70, 540))).toEqual({
+      'location.coordinates.1': { $gte: -60, $lte: 70 },
+    });
+    expect(viewportFilter(box(-10, -100, 10, 100))).toHaveProperty([
+      'location.coordinates.1',
+    ]);
+  });
+
+  it('rejects an empty viewport', () => {
+    expect(() => viewportFilter(box(4, 9.6, 4, 9.9))).toThrow(
+      'Empty map viewport',
+    );
+  });
+});
@@ -0,0 +1,155 @@
+import { BadRequestException } from '@nestjs/common';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/** GeoJSON Polygon — a single outer ring of [lng, lat] positions, closed. */
+export interface GeoJsonPolygon {
+  type: 'Polygon';
+  coordinates: [number, number][][];
+}
+
+export const MAX_POLYGON_VERTICES = 200;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Converts a user-drawn shape (list of map vertices) into a closed GeoJSON
+ * polygon usable with $geoWithin/$geometry. Throws BadRequestException when
+ * the shape is not a valid simple ring.
+ */
+export function toGeoJsonPolygon(points: LatLng[]): GeoJsonPolygon {
+  if (!Array.isArray(points) || points.length < 3) {
+    throw new BadRequestException('A polygon needs at least 3 points');
+  }
+
+  const ring: [number, number][] = points.map((p, i) => {
+    const lat = Number(p?.lat);
+    const lng = Number(p?.lng);
+    if (
+      !Number.isFinite(lat) ||
+      !Number.isFinite(lng) ||
+      lat < -90 ||
+      lat > 90 ||
+      lng < -180 ||
+      lng > 180
+    ) {
+      throw new BadRequestException(`Invalid polygon point at index ${i}`);
+    }
+    return [lng, lat];
+  });
+
+  const [firstLng, firstLat] = ring[0];
+  const [lastLng, lastLat] = ring[ring.length - 1];
+  if (firstLng !== lastLng || firstLat !== lastLat) {
+    ring.push([firstLng, firstLat]);
+  }
+
+  // Closed ring: 4 positions minimum (triangle + closing point)
+  if (ring.length < 4) {
+    throw new BadRequestException('A polygon needs at least 3 distinct points');
+  }
+  if (ring.length - 1 > MAX_POLYGON_VERTICES) {
+    throw new BadRequestException(
+      `A polygon can have at most ${MAX_POLYGON_VERTICES} points`,
+    );
+  }
+
+  return { type: 'Polygon', coordinates: [ring] };
+}
+
+/** Web-mercator maps stop here; a ring through a pole is degenerate. */
+export const MAX_MAP_LATITUDE = 85;
+
+/** Viewports wider than this are matched on latitude only. */
+export const MAX_VIEWPORT_LNG_SPAN = 180;
+
+/** Longitude moved into [-180, 180], as maps report it past a wrap-around. */
+function wrapLng(lng: number): number {
+  if (lng >= -180 && lng <= 180) return lng;
+  const wrapped = ((((lng + 180) % 360) + 360) % 360) - 180;
+  return wrapped === -180 && lng > 0 ? 180 : wrapped;
+}
+
+function rectangle(
+  south: number,
+  west: number,
+  north: number,
+  east: number,
+): GeoJsonPolygon {
+  return toGeoJsonPolygon([
+    { lat: south, lng: west },
+    { lat: south, lng: east },
+    { lat: north, lng: east },
+    { lat: north, lng: west },
+  ]);
+}
+
+/**
+ * Turns a map viewport into a Mongo filter on `field`. Unlike $box this works
+ * against the 2dsphere index on Property.location. A viewport crossing the
+ * antimeridian is split in two; one spanning half the globe or more (zoomed
+ * out to the world) cannot be a GeoJSON polygon, so only its latitudes are
+ * matched.
+ */
+export function viewportFilter(
+  bounds: { northeast: LatLng; southwest: LatLng },
+  field = 'location',
+): Record<string, unknown> {
+  const { northeast: ne, southwest: sw } = bounds;
+  const values = [ne.lat, ne.lng, sw.lat, sw.lng].map(Number);
+  if (!values.every(Number.isFinite)) {
+    throw new BadRequestException('Invalid map bounds');
+  }
+
+  const clampLat = (lat: number) =>
+    Math.max(-MAX_MAP_LATITUDE, Math.min(MAX_MAP_LATITUDE, lat));
+  const south = clampLat(Math.min(sw.lat, ne.lat));
+  const north = clampLat(Math.max(sw.lat, ne.lat));
+  if (north === south) throw new BadRequestException('Empty map viewport');
+
+  const rawSpan = ne.lng - sw.lng;
+  const west = wrapLng(sw.lng);
+  const east = wrapLng(ne.lng);
+  const span = rawSpan >= 360 ? 360 : (((east - west) % 360) + 360) % 360;
+
+  if (rawSpan >= 360 || span >= MAX_VIEWPORT_LNG_SPAN) {
+    return { [`${field}.coordinates.1`]: { $gte: south, $lte: north } };
+  }
+  if (span === 0) throw new BadRequestException('Empty map viewport');
+
+  const within = (polygon: GeoJsonPolygon) => ({
+    [field]: { $geoWithin: { $geometry: polygon } },
+  });
+  if (west < east) return within(rectangle(south, west, north, east));
+  return {
+    $or: [
+      within(rectangle(south, west, north, 180)),
+      within(rectangle(south, -180, north, east)),
+    ],
+  };
+}
+
+/** Inverse of toGeoJsonPolygon — drops the closing point. */
+export function fromGeoJsonPolygon(polygon: GeoJsonPolygon): LatLng[] {
+  const ring = polygon.coordinates[0] ?? [];
+  return ring.slice(0, -1).map(([lng, lat]) => ({ lat, lng }));
+}
+
+/**
+ * Parses the `polygon` query-string parameter: a JSON array of {lat, lng}
+ * points, as sent by the map drawing tool.
+ */
+export function parsePolygonParam(raw: string): GeoJsonPolygon {
+  let points: LatLng[];
+  try {
+    points = JSON.parse(raw) as LatLng[];
+  } catch {
+    throw new BadRequestException('Invalid polygon format');
+  }
+  return toGeoJsonPolygon(points);
+}
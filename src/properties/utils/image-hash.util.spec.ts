@@ -0,0 +1,39 @@
+import * as sharp from 'sharp';
+import { computeImageHash, hammingDistance } from './image-hash.util';
+
+/** Synthetic photo: diagonal gradient, optionally mirrored. */
+function gradient(width: number, height: number, mirrored = false) {
+  const pixels = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx = mirrored ? width - 1 - x : x;
+      pixels[y * width + x] = Math.round(((gx + y) / (width + height)) * 255);
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 1 } })
+    .jpeg()
+    .toBuffer();
+}
+
+describe('image hash', () => {
+  it('is stable across resizing and re-encoding', async () => {
+    const original = await gradient(400, 300);
+    const resized = await sharp(original)
+      .resize(200, 150)
+      .jpeg({ quality: 40 })
+      .toBuffer();
+
+    const a = await computeImageHash(original);
+    const b = await computeImageHash(resized);
+
+    expect(a).toHaveLength(16);
+    expect(hammingDistance(a, b)).toBeLessThanOrEqual(6);
+  });
+
+  it('tells different images apart', async () => {
+    const a = await computeImageHash(await gradient(400, 300));
+    const b = await computeImageHash(await gradient(400, 300, true));
+
+    expect(hammingDistance(a, b)).toBeGreaterThan(20);
+  });
+});
@@ -0,0 +1,48 @@
+import * as sharp from 'sharp';
+
+/** 64-bit difference hash, as 16 hex chars. */
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * Perceptual "difference hash" of an image: survives re-encoding, resizing,
+ * light compression and watermarks, unlike a byte checksum. Two photos of
+ * the same listing are near-identical when hammingDistance() is small.
+ */
+export async function computeImageHash(buffer: Buffer): Promise<string> {
+  const pixels = await sharp(buffer)
+    .rotate()
+    .grayscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = '';
+  for (let row = 0; row < HASH_HEIGHT; row++) {
+    let nibble = 0;
+    for (let col = 0; col < HASH_WIDTH - 1; col++) {
+      const left = pixels[row * HASH_WIDTH + col];
+      const right = pixels[row * HASH_WIDTH + col + 1];
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      if (col % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+/** Number of differing bits between two hashes of equal length. */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Number.MAX_SAFE_INTEGER;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
@@ -0,0 +1,59 @@
+import { computeListingQuality } from './listing-quality.util';
+
+describe('computeListingQuality', () => {
+  const complete = {
+    images: Array.from({ length: 6 }, () => ({ width: 1600, height: 1200 })),
+    description: 'x'.repeat(400),
+    amenities: {
+      bedrooms: 3,
+      bathrooms: 2,
+      parkingSpaces: 1,
+      hasInternet: true,
+      hasSecurity: true,
+    },
+    location: { coordinates: [9.7, 4.05] },
+    virtualTourUrl: 'https://example.com/tour',
+  };
+
+  it('gives a complete listing full marks', () => {
+    const quality = computeListingQuality(complete, 95);
+
+    expect(quality.score).toBe(100);
+    expect(quality.tier).toBe(5);
+    expect(quality.missing).toEqual([]);
+  });
+
+  it('lists missing items, biggest gain first', () => {
+    const quality = computeListingQuality({
+      ...complete,
+      images: [{ width: 640 }],
+      virtualTourUrl: undefined,
+    });
+
+    expect(quality.score).toBeLessThan(100);
+    expect(quality.missing.map((m) => m.check)).toEqual([
+      'photos',
+      'photo_resolution',
+      'virtual_tour',
+    ]);
+  });
+
+  it('only checks student details on student listings', () => {
+    const regular = computeListingQuality(complete);
+    const student = computeListingQuality({
+      ...complete,
+      isStudentFriendly: true,
+      studentDetails: { nearestCampus: 'UB' },
+    });
+
+    expect(regular.missing).toEqual([]);
+    expect(student.missing[0].check).toBe('student_details');
+  });
+
+  it('ignores the response rate when the owner has none', () => {
+    expect(computeListingQuality(complete).score).toBe(100);
+    expect(computeListingQuality(complete, 40).missing[0].check).toBe(
+      'response_rate',
+    );
+  });
+});
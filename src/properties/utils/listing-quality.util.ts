@@ -0,0 +1,173 @@
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type ListingQualityCheck =
+  | 'photos'
+  | 'photo_resolution'
+  | 'description'
+  | 'amenities'
+  | 'coordinates'
+  | 'virtual_tour'
+  | 'student_details'
+  | 'response_rate';
+
+export interface ListingQualityIssue {
+  check: ListingQualityCheck;
+  /** Points the listing would gain by fixing this item. */
+  points: number;
+  message: string;
+}
+
+export interface ListingQuality {
+  /** 0–100, normalized over the checks that apply to this listing. */
+  score: number;
+  /** score / 20, floored (0–5). Coarse enough to let recency break ties when ranking. */
+  tier: number;
+  missing: ListingQualityIssue[];
+  computedAt: Date;
+}
+
+export interface ListingQualityInput {
+  images?: { width?: number; height?: number }[];
+  description?: string;
+  amenities?: Record<string, unknown>;
+  location?: { coordinates?: number[] };
+  virtualTourUrl?: string;
+  tourType?: string;
+  isStudentFriendly?: boolean;
+  studentDetails?: Record<string, unknown>;
+}
+
+// ─── Thresholds ───────────────────────────────────────────────────────────────
+
+export const QUALITY_TARGET_PHOTOS = 5;
+export const QUALITY_MIN_PHOTO_WIDTH = 1024;
+export const QUALITY_TARGET_DESCRIPTION_LENGTH = 300;
+export const QUALITY_TARGET_AMENITIES = 5;
+export const QUALITY_TARGET_RESPONSE_RATE = 80;
+
+const WEIGHTS: Record<ListingQualityCheck, number> = {
+  photos: 20,
+  photo_resolution: 10,
+  description: 15,
+  amenities: 10,
+  coordinates: 10,
+  virtual_tour: 10,
+  student_details: 15,
+  response_rate: 10,
+};
+
+const STUDENT_DETAIL_FIELDS = [
+  'nearestCampus',
+  'campusProximityMeters',
+  'waterSource',
+  'electricityBackup',
+  'furnishingStatus',
+  'genderRestriction',
+  'totalBeds',
+];
+
+// ─── Scoring ──────────────────────────────────────────────────────────────────
+
+/**
+ * Scores how complete and attractive a listing is and lists what the owner
+ * can do to improve it. `ownerResponseRate` is the owner's host response rate
+ * (0–100); when unknown the check does not apply.
+ */
+export function computeListingQuality(
+  property: ListingQualityInput,
+  ownerResponseRate?: number | null,
+): ListingQuality {
+  let earned = 0;
+  let possible = 0;
+  const missing: ListingQualityIssue[] = [];
+
+  // Adds `ratio` (0..1) of the check's weight; the remainder goes to `missing`
+  const score = (
+    check: ListingQualityCheck,
+    ratio: number,
+    message: string,
+  ) => {
+    const weight = WEIGHTS[check];
+    const gained = Math.round(weight * Math.max(0, Math.min(1, ratio)));
+    possible += weight;
+    earned += gained;
+    if (gained < weight)
+      missing.push({ check, points: weight - gained, message });
+  };
+
+  const images = property.images ?? [];
+  score(
+    'photos',
+    images.length / QUALITY_TARGET_PHOTOS,
+    `Add at least ${QUALITY_TARGET_PHOTOS} photos (currently ${images.length})`,
+  );
+
+  // Photos uploaded before dimensions were recorded are given the benefit of the doubt
+  const lowRes = images.filter(
+    (img) => img.width && img.width < QUALITY_MIN_PHOTO_WIDTH,
+  ).length;
+  if (images.length) {
+    score(
+      'photo_resolution',
+      1 - lowRes / images.length,
+      `Replace ${lowRes} low-resolution photo(s) with images at least ${QUALITY_MIN_PHOTO_WIDTH}px wide`,
+    );
+  }
+
+  const descriptionLength = property.description?.trim().length ?? 0;
+  score(
+    'description',
+    descriptionLength / QUALITY_TARGET_DESCRIPTION_LENGTH,
+    `Write a description of at least ${QUALITY_TARGET_DESCRIPTION_LENGTH} characters (currently ${descriptionLength})`,
+  );
+
+  const filledAmenities = Object.values(property.amenities ?? {}).filter(
+    (v) => v !== undefined && v !== null && v !== false && v !== 0,
+  ).length;
+  score(
+    'amenities',
+    filledAmenities / QUALITY_TARGET_AMENITIES,
+    `Fill in at least ${QUALITY_TARGET_AMENITIES} amenities (bedrooms, bathrooms, parking, internet…)`,
+  );
+
+  score(
+    'coordinates',
+    property.location?.coordinates?.length === 2 ? 1 : 0,
+    'Pin the exact location on the map',
+  );
+
+  score(
+    'virtual_tour',
+    property.virtualTourUrl || property.tourType ? 1 : 0,
+    'Add a virtual tour',
+  );
+
+  if (property.isStudentFriendly) {
+    const details = property.studentDetails ?? {};
+    const empty = STUDENT_DETAIL_FIELDS.filter(
+      (f) =>
+        details[f] === undefined || details[f] === null || details[f] === '',
+    );
+    score(
+      'student_details',
+      1 - empty.length / STUDENT_DETAIL_FIELDS.length,
+      `Complete the student details: ${empty.join(', ')}`,
+    );
+  }
+
+  if (ownerResponseRate !== undefined && ownerResponseRate !== null) {
+    score(
+      'response_rate',
+      ownerResponseRate / QUALITY_TARGET_RESPONSE_RATE,
+      `Reply to inquiries faster — your response rate is ${ownerResponseRate}% (target ${QUALITY_TARGET_RESPONSE_RATE}%)`,
+    );
+  }
+
+  const normalized = possible ? Math.round((earned / possible) * 100) : 0;
+  return {
+    score: normalized,
+    tier: Math.floor(normalized / 20),
+    missing: missing.sort((a, b) => b.points - a.points),
+    computedAt: new Date(),
+  };
+}
@@ -0,0 +1,37 @@
+import {
+  parseNearPoiParam,
+  poiDistanceQuery,
+  walkingMinutes,
+} from './poi-proximity.util';
+import { PoiCategory } from '../schemas/point-of-interest.schema';
+
+describe('poi proximity util', () => {
+  it('rounds walking time up, with a one-minute floor', () => {
+    expect(walkingMinutes(0)).toBe(1);
+    expect(walkingMinutes(800)).toBe(10);
+    expect(walkingMinutes(801)).toBe(11);
+  });
+
+  it('parses the nearPoi parameter and rejects bad input', () => {
+    expect(parseNearPoiParam('market:500, campus:1000')).toEqual([
+      { category: PoiCategory.MARKET, withinMeters: 500 },
+      { category: PoiCategory.CAMPUS, withinMeters: 1000 },
+    ]);
+    expect(() => parseNearPoiParam('beach:500')).toThrow(/Unknown place/);
+    expect(() => parseNearPoiParam('market:abc')).toThrow(/between/);
+    expect(() => parseNearPoiParam('market:20000')).toThrow(/between/);
+  });
+
+  it('keeps the stricter distance when a category is repeated', () => {
+    expect(
+      poiDistanceQuery([
+        { category: PoiCategory.MARKET, withinMeters: 800 },
+        { category: PoiCategory.HOSPITAL, withinMeters: 2000 },
+        { category: PoiCategory.MARKET, withinMeters: 500 },
+      ]),
+    ).toEqual({
+      'poiProximity.market.distanceMeters': { $lte: 500 },
+      'poiProximity.hospital.distanceMeters': { $lte: 2000 },
+    });
+  });
+});
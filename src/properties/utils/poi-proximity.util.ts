@@ -0,0 +1,86 @@
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { PoiCategory } from '../schemas/point-of-interest.schema';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface NearestPoi {
+  poiId: Types.ObjectId;
+  name: string;
+  /** Straight-line distance from the listing. */
+  distanceMeters: number;
+  walkingMinutes: number;
+}
+
+/** Nearest place of each category within POI_ENRICHMENT_RADIUS_METERS. */
+export type PoiProximity = Partial<Record<PoiCategory, NearestPoi>>;
+
+/** "Within `withinMeters` of a `category`" search filter. */
+export interface PoiDistanceFilter {
+  category: PoiCategory;
+  withinMeters: number;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/**
+ * Places further away are not recorded on the listing, so distance filters
+ * cannot go beyond this either.
+ */
+export const POI_ENRICHMENT_RADIUS_METERS = 5_000;
+
+/** About 4.8 km/h, a relaxed walking pace. */
+export const WALKING_METERS_PER_MINUTE = 80;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+export function walkingMinutes(distanceMeters: number): number {
+  return Math.max(1, Math.ceil(distanceMeters / WALKING_METERS_PER_MINUTE));
+}
+
+/**
+ * Parses the `nearPoi` query parameter, e.g. `market:500,campus:1000`.
+ * Throws BadRequestException on unknown categories or distances out of range.
+ */
+export function parseNearPoiParam(raw: string): PoiDistanceFilter[] {
+  const categories = Object.values(PoiCategory) as string[];
+
+  return raw
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const [category, meters] = part.split(':').map((s) => s.trim());
+      if (!categories.includes(category)) {
+        throw new BadRequestException(
+          `Unknown place category "${category}" (expected one of ${categories.join(', ')})`,
+        );
+      }
+      const withinMeters = Number(meters);
+      if (
+        !Number.isFinite(withinMeters) ||
+        withinMeters <= 0 ||
+        withinMeters > POI_ENRICHMENT_RADIUS_METERS
+      ) {
+        throw new BadRequestException(
+          `Distance for "${category}" must be between 1 and ${POI_ENRICHMENT_RADIUS_METERS} metres`,
+        );
+      }
+      return { category: category as PoiCategory, withinMeters };
+    });
+}
+
+/** Mongo conditions on the precomputed Property.poiProximity distances. */
+export function poiDistanceQuery(
+  filters: PoiDistanceFilter[],
+): Record<string, { $lte: number }> {
+  const query: Record<string, { $lte: number }> = {};
+  for (const { category, withinMeters } of filters) {
+    const field = `poiProximity.${category}.distanceMeters`;
+    // The same category twice keeps the stricter distance
+    query[field] = {
+      $lte: Math.min(withinMeters, query[field]?.$lte ?? Infinity),
+    };
+  }
+  return query;
+}
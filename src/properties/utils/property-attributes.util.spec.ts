@@ -0,0 +1,79 @@
+import {
+  parseTypeAttributeParams,
+  resolveTypeDetails,
+  typeAttributesQuery,
+} from './property-attributes.util';
+import {
+  LandTitleStatus,
+  PowerPhase,
+  PropertyType,
+  ZoningType,
+} from '../schemas/property.schema';
+
+describe('property attributes util', () => {
+  it('accepts attribute sets only for their property types', () => {
+    expect(
+      resolveTypeDetails(PropertyType.LAND, {
+        landDetails: {
+          titleStatus: LandTitleStatus.TITRE_FONCIER,
+          titleNumber: '1234/Wouri',
+          plotWidthM: 20,
+          plotDepthM: 25,
+        },
+      }).landDetails?.plotAreaSqm,
+    ).toBe(500);
+    expect(() =>
+      resolveTypeDetails(PropertyType.VILLA, {
+        landDetails: { zoning: ZoningType.RESIDENTIAL },
+      }),
+    ).toThrow(/land listings/);
+    expect(() =>
+      resolveTypeDetails(PropertyType.LAND, {
+        commercialDetails: { frontageM: 8 },
+      }),
+    ).toThrow(/commercialDetails/);
+    expect(() =>
+      resolveTypeDetails(PropertyType.LAND, {
+        landDetails: {
+          titleStatus: LandTitleStatus.CUSTOMARY,
+          titleNumber: '42',
+        },
+      }),
+    ).toThrow(/titleNumber/);
+  });
+
+  it('clears the previous attribute set when the type changes', () => {
+    expect(
+      resolveTypeDetails(
+        PropertyType.SHOP,
+        { commercialDetails: { powerPhase: PowerPhase.THREE } },
+        PropertyType.LAND,
+      ),
+    ).toEqual({
+      commercialDetails: { powerPhase: PowerPhase.THREE },
+      landDetails: null,
+    });
+    expect(
+      resolveTypeDetails(PropertyType.LAND, {}, PropertyType.LAND),
+    ).toEqual({});
+  });
+
+  it('parses query filters into listing query fields', () => {
+    const filters = parseTypeAttributeParams({
+      landTitleStatus: 'titre_foncier,titre_mere',
+      minPlotArea: '400',
+      hasLoadingDock: 'true',
+      powerPhase: 'three',
+    });
+    expect(typeAttributesQuery(filters!)).toEqual({
+      'landDetails.titleStatus': { $in: ['titre_foncier', 'titre_mere'] },
+      'landDetails.plotAreaSqm': { $gte: 400 },
+      'commercialDetails.hasLoadingDock': true,
+      'commercialDetails.powerPhase': 'three',
+    });
+    expect(parseTypeAttributeParams({ city: 'douala' })).toBeUndefined();
+    expect(() => parseTypeAttributeParams({ zoning: 'lunar' })).toThrow(
+      /Unknown zoning/,
+    );
+  });
+});
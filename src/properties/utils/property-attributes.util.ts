@@ -0,0 +1,176 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  COMMERCIAL_PROPERTY_TYPES,
+  CommercialDetails,
+  LAND_PROPERTY_TYPES,
+  LandDetails,
+  LandTitleStatus,
+  PowerPhase,
+  PropertyType,
+  RoadAccess,
+  ZoningType,
+} from '../schemas/property.schema';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface TypeDetails {
+  landDetails?: LandDetails | null;
+  commercialDetails?: CommercialDetails | null;
+}
+
+/** Land and commercial search filters; each only matches listings of its kind. */
+export interface TypeAttributeFilters {
+  landTitleStatus?: LandTitleStatus[];
+  zoning?: ZoningType[];
+  roadAccess?: RoadAccess[];
+  minPlotArea?: number;
+  maxPlotArea?: number;
+  minFrontage?: number;
+  hasLoadingDock?: boolean;
+  powerPhase?: PowerPhase;
+  minCommercialParking?: number;
+}
+
+/** Title statuses that come with a title number. */
+const TITLED = [LandTitleStatus.TITRE_FONCIER, LandTitleStatus.TITRE_MERE];
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+/**
+ * Checks the attribute sets sent for a listing against its type and fills in
+ * derived values. When the type changes, the set of the previous kind is
+ * cleared (returned as null) so a former plot does not keep its land title.
+ */
+export function resolveTypeDetails(
+  type: PropertyType | undefined,
+  details: TypeDetails,
+  previousType?: PropertyType,
+): TypeDetails {
+  const isLand = !!type && LAND_PROPERTY_TYPES.includes(type);
+  const isCommercial = !!type && COMMERCIAL_PROPERTY_TYPES.includes(type);
+  const resolved: TypeDetails = {};
+
+  if (details.landDetails) {
+    if (!isLand)
+      throw new BadRequestException(
+        'landDetails only applies to land listings',
+      );
+    const land = { ...details.landDetails };
+    if (land.titleNumber && !TITLED.includes(land.titleStatus!)) {
+      throw new BadRequestException(
+        'titleNumber requires titleStatus titre_foncier or titre_mere',
+      );
+    }
+    if (land.plotAreaSqm === undefined && land.plotWidthM && land.plotDepthM) {
+      land.plotAreaSqm = Math.round(land.plotWidthM * land.plotDepthM);
+    }
+    resolved.landDetails = land;
+  }
+
+  if (details.commercialDetails) {
+    if (!isCommercial)
+      throw new BadRequestException(
+        `commercialDetails only applies to ${COMMERCIAL_PROPERTY_TYPES.join(', ')} listings`,
+      );
+    resolved.commercialDetails = { ...details.commercialDetails };
+  }
+
+  if (type && previousType && type !== previousType) {
+    if (!isLand) resolved.landDetails = null;
+    if (!isCommercial) resolved.commercialDetails = null;
+  }
+  return resolved;
+}
+
+// ─── Search ───────────────────────────────────────────────────────────────────
+
+function parseList<T extends string>(
+  raw: string | undefined,
+  allowed: Record<string, T>,
+  name: string,
+): T[] | undefined {
+  if (!raw) return undefined;
+  const values = Object.values(allowed);
+  const list = raw.split(',').map((v) => v.trim().toLowerCase());
+  const unknown = list.filter((v) => !values.includes(v as T));
+  if (unknown.length) {
+    throw new BadRequestException(
+      `Unknown ${name} "${unknown.join(', ')}". Use one of: ${values.join(', ')}`,
+    );
+  }
+  return list as T[];
+}
+
+function parseNumber(raw: string | undefined, name: string) {
+  if (raw === undefined || raw === '') return undefined;
+  const value = parseFloat(raw);
+  if (!Number.isFinite(value) || value < 0)
+    throw new BadRequestException(`${name} must be a positive number`);
+  return value;
+}
+
+/** Reads the land/commercial filters of a listing query string. */
+export function parseTypeAttributeParams(
+  query: Record<string, string | undefined>,
+): TypeAttributeFilters | undefined {
+  const filters: TypeAttributeFilters = {
+    landTitleStatus: parseList(
+      query.landTitleStatus,
+      LandTitleStatus,
+      'landTitleStatus',
+    ),
+    zoning: parseList(query.zoning, ZoningType, 'zoning'),
+    roadAccess: parseList(query.roadAccess, RoadAccess, 'roadAccess'),
+    minPlotArea: parseNumber(query.minPlotArea, 'minPlotArea'),
+    maxPlotArea: parseNumber(query.maxPlotArea, 'maxPlotArea'),
+    minFrontage: parseNumber(query.minFrontage, 'minFrontage'),
+    hasLoadingDock:
+      query.hasLoadingDock !== undefined
+        ? query.hasLoadingDock === 'true'
+        : undefined,
+    powerPhase: parseList(query.powerPhase, PowerPhase, 'powerPhase')?.[0],
+    minCommercialParking: parseNumber(
+      query.minCommercialParking,
+      'minCommercialParking',
+    ),
+  };
+  const given = Object.entries(filters).filter(([, v]) => v !== undefined);
+  return given.length
+    ? (Object.fromEntries(given) as TypeAttributeFilters)
+    : undefined;
+}
+
+/** Mongo fields for the filters, to merge into a listing query. */
+export function typeAttributesQuery(
+  filters: TypeAttributeFilters,
+): Record<string, unknown> {
+  const query: Record<string, unknown> = {};
+  const range = (min?: number, max?: number) => ({
+    ...(min !== undefined && { $gte: min }),
+    ...(max !== undefined && { $lte: max }),
+  });
+
+  if (filters.landTitleStatus?.length)
+    query['landDetails.titleStatus'] = { $in: filters.landTitleStatus };
+  if (filters.zoning?.length)
+    query['landDetails.zoning'] = { $in: filters.zoning };
+  if (filters.roadAccess?.length)
+    query['landDetails.roadAccess'] = { $in: filters.roadAccess };
+  if (filters.minPlotArea !== undefined || filters.maxPlotArea !== undefined)
+    query['landDetails.plotAreaSqm'] = range(
+      filters.minPlotArea,
+      filters.maxPlotArea,
+    );
+
+  if (filters.minFrontage !== undefined)
+    query['commercialDetails.frontageM'] = range(filters.minFrontage);
+  if (filters.hasLoadingDock !== undefined)
+    query['commercialDetails.hasLoadingDock'] = filters.hasLoadingDock;
+  if (filters.powerPhase)
+    query['commercialDetails.powerPhase'] = filters.powerPhase;
+  if (filters.minCommercialParking !== undefined)
+    query['commercialDetails.parkingSpaces'] = range(
+      filters.minCommercialParking,
+    );
+  return query;
+}
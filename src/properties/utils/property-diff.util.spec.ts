@@ -0,0 +1,46 @@
+import { diffFields, splitMaterialChanges } from './property-diff.util';
+
+describe('property diff', () => {
+  it('separates material edits from immediate ones', () => {
+    const { material, immediate } = splitMaterialChanges({
+      title: 'New title',
+      price: 150000,
+      contactPhone: '+237690000000',
+      isInstantBookable: true,
+      description: undefined,
+    });
+
+    expect(material).toEqual({ title: 'New title', price: 150000 });
+    expect(immediate).toEqual({
+      contactPhone: '+237690000000',
+      isInstantBookable: true,
+    });
+  });
+
+  it('reports changed fields only, nested objects per sub-field', () => {
+    const live = {
+      title: 'Studio Bastos',
+      price: 100000,
+      amenities: { bedrooms: 1, furnished: false },
+      images: [{ url: 'a.jpg', publicId: 'a' }],
+    };
+
+    const diff = diffFields(live, {
+      title: 'Studio Bastos',
+      price: 90000,
+      amenities: { bedrooms: 1, furnished: true },
+      images: [{ publicId: 'a', url: 'a.jpg' }],
+    });
+
+    expect(diff).toEqual([
+      { field: 'price', before: 100000, after: 90000 },
+      { field: 'amenities.furnished', before: false, after: true },
+    ]);
+  });
+
+  it('treats missing live values as null', () => {
+    expect(diffFields({}, { virtualTourUrl: 'https://tour' })).toEqual([
+      { field: 'virtualTourUrl', before: null, after: 'https://tour' },
+    ]);
+  });
+});
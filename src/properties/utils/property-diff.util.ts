@@ -0,0 +1,110 @@
+// ─── Material fields ──────────────────────────────────────────────────────────
+
+/**
+ * Edits to these fields change what a renter or buyer sees about the listing,
+ * so on an approved listing they wait for moderation. Everything else
+ * (contact details, availability, booking settings…) is applied immediately.
+ */
+export const MATERIAL_FIELDS: readonly string[] = [
+  'title',
+  'description',
+  'price',
+  'currency',
+  'pricingUnit',
+  'type',
+  'listingType',
+  'address',
+  'city',
+  'neighborhood',
+  'state',
+  'country',
+  'latitude',
+  'longitude',
+  'amenities',
+  'landDetails',
+  'commercialDetails',
+  'area',
+  'images',
+  'videos',
+  'floorPlans',
+  'rooms',
+  'virtualTourUrl',
+  'videoUrl',
+];
+
+const MATERIAL = new Set(MATERIAL_FIELDS);
+
+export function splitMaterialChanges<T extends object>(
+  changes: T,
+): { material: Partial<T>; immediate: Partial<T> } {
+  const material: Partial<T> = {};
+  const immediate: Partial<T> = {};
+  for (const [key, value] of Object.entries(changes) as [
+    keyof T,
+    T[keyof T],
+  ][]) {
+    if (value === undefined) continue;
+    (MATERIAL.has(key as string) ? material : immediate)[key] = value;
+  }
+  return { material, immediate };
+}
+
+// ─── Diff ─────────────────────────────────────────────────────────────────────
+
+export interface FieldChange {
+  /** Dotted path, e.g. `amenities.bedrooms`. */
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/** Stable serialisation: key order and Date vs ISO string do not matter. */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) => {
+    if (v && typeof v === 'object' && !Array.isArray(v)) {
+      return Object.fromEntries(
+        Object.entries(v as Record<string, unknown>).sort(([a], [b]) =>
+          a.localeCompare(b),
+        ),
+      );
+    }
+    return v;
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+/**
+ * Field-level diff of proposed changes against the live listing. Nested
+ * objects (amenities) are compared per sub-field; arrays (images) as a whole.
+ * Fields whose proposed value equals the live one are left out.
+ */
+export function diffFields(
+  live: Record<string, unknown>,
+  changes: Record<string, unknown>,
+  prefix = '',
+): FieldChange[] {
+  const diff: FieldChange[] = [];
+  for (const [key, after] of Object.entries(changes)) {
+    if (after === undefined) continue;
+    const field = prefix ? `${prefix}.${key}` : key;
+    const before = live?.[key];
+
+    if (
+      isPlainObject(after) &&
+      (before === undefined || isPlainObject(before))
+    ) {
+      diff.push(...diffFields(before ?? {}, after, field));
+    } else if (canonical(before) !== canonical(after)) {
+      diff.push({ field, before: before ?? null, after });
+    }
+  }
+  return diff;
+}
@@ -0,0 +1,66 @@
+import {
+  buildRooms,
+  groupImagesByRoom,
+  reorderImages,
+  selectCover,
+  untagMissingRooms,
+} from './property-media.util';
+import { PropertyImages, RoomType } from '../schemas/property.schema';
+
+const photo = (publicId: string, roomKey?: string): PropertyImages => ({
+  url: `https://cdn.example/${publicId}.jpg`,
+  publicId,
+  roomKey,
+});
+
+describe('property media util', () => {
+  it('numbers unlabelled rooms per type and keeps existing keys', () => {
+    const rooms = buildRooms(
+      [
+        { type: RoomType.BEDROOM, widthM: 3, lengthM: 3.5 },
+        { type: RoomType.BEDROOM, key: 'master', label: 'Master bedroom' },
+        { type: RoomType.KITCHEN },
+        { type: RoomType.LIVING_ROOM, label: 'Séjour' },
+      ],
+      [],
+    );
+    expect(rooms.map((r) => [r.key, r.label])).toEqual([
+      ['bedroom-1', 'Bedroom 1'],
+      ['master', 'Master bedroom'],
+      ['kitchen', 'Kitchen'],
+      ['sejour', 'Séjour'],
+    ]);
+    expect(rooms[0].areaSqm).toBe(10.5);
+    expect(() =>
+      buildRooms([{ type: RoomType.OFFICE, floorPlanId: 'nope' }], []),
+    ).toThrow(/Unknown floor plan/);
+  });
+
+  it('groups photos by room and drops tags of removed rooms', () => {
+    const rooms = buildRooms([{ type: RoomType.KITCHEN }], []);
+    const images = untagMissingRooms(
+      [photo('a', 'kitchen'), photo('b', 'bedroom-1'), photo('c')],
+      rooms,
+    );
+    expect(images[1].roomKey).toBeUndefined();
+
+    const grouped = groupImagesByRoom(images, rooms);
+    expect(grouped.rooms[0].images.map((i) => i.publicId)).toEqual(['a']);
+    expect(grouped.untagged.map((i) => i.publicId)).toEqual(['b', 'c']);
+  });
+
+  it('reorders only complete permutations and flags a single cover', () => {
+    const images = [photo('a'), photo('b'), photo('c')];
+    expect(
+      reorderImages(images, ['c', 'a', 'b']).map((i) => i.publicId),
+    ).toEqual(['c', 'a', 'b']);
+    expect(() => reorderImages(images, ['a', 'b'])).toThrow();
+    expect(() => reorderImages(images, ['a', 'a', 'b'])).toThrow();
+
+    const covered = selectCover(
+      [{ ...photo('a'), isMain: true }, photo('b')],
+      'b',
+    );
+    expect(covered.map((i) => i.isMain)).toEqual([false, true]);
+  });
+});
@@ -0,0 +1,172 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import {
+  PropertyFloorPlan,
+  PropertyImages,
+  PropertyRoom,
+  RoomType,
+} from '../schemas/property.schema';
+import { normalizeSearchText } from './search-text.util';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** A room as sent by the owner; key, label and area are filled in if missing. */
+export type RoomInput = Omit<PropertyRoom, 'key' | 'label'> & {
+  key?: string;
+  label?: string;
+};
+
+export interface RoomMedia {
+  room: PropertyRoom;
+  images: PropertyImages[];
+}
+
+export interface GroupedMedia {
+  rooms: RoomMedia[];
+  /** Photos not tagged to any room (façade shots, older uploads…). */
+  untagged: PropertyImages[];
+}
+
+// ─── Rooms ────────────────────────────────────────────────────────────────────
+
+/** "Chambre d'ami" → "chambre-d-ami". */
+export function roomKeyFromLabel(label: string): string {
+  return normalizeSearchText(label).replace(/ /g, '-');
+}
+
+function roomTypeLabel(type: RoomType): string {
+  const words = type.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Normalises the room list of a listing. Rooms keep the key they were sent
+ * with so photo tags survive a rename; new rooms get one derived from their
+ * label. Unlabelled rooms are numbered per type ("Bedroom 1", "Bedroom 2").
+ */
+export function buildRooms(
+  inputs: RoomInput[],
+  floorPlans: PropertyFloorPlan[],
+): PropertyRoom[] {
+  const planIds = new Set(floorPlans.map((p) => p.publicId));
+  const typeCounts = new Map<RoomType, number>();
+  for (const input of inputs) {
+    typeCounts.set(input.type, (typeCounts.get(input.type) ?? 0) + 1);
+  }
+
+  const keys = new Set<string>();
+  for (const input of inputs) {
+    if (!input.key) continue;
+    if (keys.has(input.key))
+      throw new BadRequestException(`Duplicate room key "${input.key}"`);
+    keys.add(input.key);
+  }
+
+  const seen = new Map<RoomType, number>();
+  return inputs.map((input) => {
+    if (input.floorPlanId && !planIds.has(input.floorPlanId)) {
+      throw new BadRequestException(
+        `Unknown floor plan "${input.floorPlanId}"`,
+      );
+    }
+
+    const index = (seen.get(input.type) ?? 0) + 1;
+    seen.set(input.type, index);
+    const label =
+      input.label?.trim() ||
+      (typeCounts.get(input.type)! > 1
+        ? `${roomTypeLabel(input.type)} ${index}`
+        : roomTypeLabel(input.type));
+
+    let key = input.key;
+    if (!key) {
+      const base = roomKeyFromLabel(label) || input.type;
+      key = base;
+      for (let n = 2; keys.has(key); n++) key = `${base}-${n}`;
+      keys.add(key);
+    }
+
+    const areaSqm =
+      input.areaSqm ??
+      (input.widthM && input.lengthM
+        ? Math.round(input.widthM * input.lengthM * 10) / 10
+        : undefined);
+
+    return {
+      ...input,
+      key,
+      label,
+      ...(areaSqm !== undefined && { areaSqm }),
+    };
+  });
+}
+
+/** Clears tags pointing at rooms that no longer exist. */
+export function untagMissingRooms(
+  images: PropertyImages[],
+  rooms: PropertyRoom[],
+): PropertyImages[] {
+  const keys = new Set(rooms.map((r) => r.key));
+  return images.map((image) => {
+    if (!image.roomKey || keys.has(image.roomKey)) return image;
+    const untagged = { ...image };
+    delete untagged.roomKey;
+    return untagged;
+  });
+}
+
+/** A room query matches either a room key (`bedroom-2`) or a type (`kitchen`). */
+export function matchesRoom(room: PropertyRoom, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  return room.key === q || room.type === (q as RoomType);
+}
+
+export function groupImagesByRoom(
+  images: PropertyImages[],
+  rooms: PropertyRoom[],
+): GroupedMedia {
+  const keys = new Set(rooms.map((r) => r.key));
+  return {
+    rooms: rooms.map((room) => ({
+      room,
+      images: images.filter((i) => i.roomKey === room.key),
+    })),
+    untagged: images.filter((i) => !i.roomKey || !keys.has(i.roomKey)),
+  };
+}
+
+// ─── Ordering & cover ─────────────────────────────────────────────────────────
+
+/** Reorders photos; `publicIds` must list every photo exactly once. */
+export function reorderImages(
+  images: PropertyImages[],
+  publicIds: string[],
+): PropertyImages[] {
+  const byId = new Map(images.map((i) => [i.publicId, i]));
+  if (
+    publicIds.length !== images.length ||
+    new Set(publicIds).size !== publicIds.length ||
+    publicIds.some((id) => !byId.has(id))
+  ) {
+    throw new BadRequestException(
+      'The new order must list every photo of the listing exactly once',
+    );
+  }
+  return publicIds.map((id) => byId.get(id)!);
+}
+
+export function selectCover(
+  images: PropertyImages[],
+  publicId: string,
+): PropertyImages[] {
+  if (!images.some((i) => i.publicId === publicId))
+    throw new NotFoundException('Image not found');
+  return images.map((image) => ({
+    ...image,
+    isMain: image.publicId === publicId,
+  }));
+}
+
+/** The chosen cover, else the first photo. */
+export function coverImage(images: PropertyImages[]): PropertyImages | null {
+  return images.find((i) => i.isMain) ?? images[0] ?? null;
+}
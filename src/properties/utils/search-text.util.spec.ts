@@ -0,0 +1,44 @@
+import {
+  buildFuzzyQueryPlan,
+  buildPropertySearchIndex,
+  fuzzyMatchScore,
+  normalizeSearchText,
+} from './search-text.util';
+
+describe('search-text util', () => {
+  it('strips accents and punctuation', () => {
+    expect(normalizeSearchText('  Yaoundé — Bastos, Étage 2 ')).toBe(
+      'yaounde bastos etage 2',
+    );
+  });
+
+  it('matches prefixes, accents and typos', () => {
+    expect(fuzzyMatchScore('yaoun', 'Yaoundé')).toBe(1);
+    expect(fuzzyMatchScore('Yaounde', 'Yaoundé')).toBe(1);
+    expect(fuzzyMatchScore('apartement', 'appartement')).toBeGreaterThan(0.8);
+    expect(fuzzyMatchScore('douala', 'yaounde')).toBeLessThan(0.3);
+  });
+
+  it('expands bilingual synonyms in the query plan', () => {
+    const [maison] = buildFuzzyQueryPlan('maison');
+    const { searchGrams } = buildPropertySearchIndex({ title: 'Nice house' });
+    const indexed = new Set(searchGrams);
+
+    // One variant per synonym; the "house" variant is fully indexed
+    expect(maison).toHaveLength(4);
+    expect(maison.some((v) => v.every((g) => indexed.has(g)))).toBe(true);
+  });
+
+  it('indexes title, city, neighborhood and keywords', () => {
+    const { searchGrams } = buildPropertySearchIndex({
+      title: 'Studio',
+      city: 'Buea',
+      neighborhood: 'Molyko',
+      keywords: ['meublé'],
+    });
+
+    expect(searchGrams).toEqual(
+      expect.arrayContaining(['stu', 'bue', 'mol', 'ble']),
+    );
+  });
+});
@@ -0,0 +1,143 @@
+// ─── Synonyms ─────────────────────────────────────────────────────────────────
+
+/**
+ * Bilingual (FR/EN) equivalence groups. Every term is stored in normalized
+ * form (lowercase, no diacritics) — see normalizeSearchText.
+ */
+export const SEARCH_SYNONYM_GROUPS: string[][] = [
+  ['maison', 'house', 'home', 'villa'],
+  ['chambre', 'bedroom', 'room', 'piece'],
+  ['studio', 'studette'],
+  ['appartement', 'apartment', 'appart', 'flat'],
+  ['terrain', 'land', 'plot', 'parcelle'],
+  ['bureau', 'office'],
+  ['boutique', 'magasin', 'shop', 'store'],
+  ['meuble', 'furnished'],
+  ['location', 'rent', 'louer', 'rental'],
+  ['vente', 'sale', 'vendre', 'buy'],
+  ['piscine', 'pool'],
+  ['cuisine', 'kitchen'],
+  ['douche', 'salle de bain', 'bathroom'],
+];
+
+const SYNONYM_INDEX: Map<string, string[]> = new Map(
+  SEARCH_SYNONYM_GROUPS.flatMap((group) =>
+    group.map((term) => [term, group] as [string, string[]]),
+  ),
+);
+
+/** Max keywords folded into the gram index — keeps the multikey index small. */
+const MAX_INDEXED_KEYWORDS = 50;
+const MIN_TOKEN_LENGTH = 2;
+
+// ─── Normalization ────────────────────────────────────────────────────────────
+
+/**
+ * Lowercases, strips diacritics ("Yaoundé" → "yaounde") and replaces
+ * punctuation with spaces.
+ */
+export function normalizeSearchText(text: string): string {
+  return (text ?? '')
+    .toString()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function tokenizeSearchText(text: string): string[] {
+  return normalizeSearchText(text)
+    .split(' ')
+    .filter((t) => t.length >= MIN_TOKEN_LENGTH);
+}
+
+/**
+ * Character trigrams of a single token. Tokens are left-padded so that short
+ * words and word prefixes still produce grams; `closed` adds the trailing pad
+ * used for indexed (complete) words only, so query prefixes such as "yaoun"
+ * still fully match "yaounde".
+ */
+export function tokenTrigrams(token: string, closed = true): string[] {
+  const padded = `  ${token}${closed ? ' ' : ''}`;
+  const grams: string[] = [];
+  for (let i = 0; i + 3 <= padded.length; i++)
+    grams.push(padded.slice(i, i + 3));
+  return [...new Set(grams)];
+}
+
+/** Synonyms of a normalized token, including the token itself. */
+export function expandSynonyms(token: string): string[] {
+  return SYNONYM_INDEX.get(token) ?? [token];
+}
+
+// ─── Indexing ─────────────────────────────────────────────────────────────────
+
+export interface PropertySearchIndex {
+  searchGrams: string[];
+}
+
+/**
+ * Builds the fuzzy-search index stored on a property from its title, city,
+ * neighborhood and keywords.
+ */
+export function buildPropertySearchIndex(property: {
+  title?: string;
+  city?: string;
+  neighborhood?: string;
+  keywords?: string[];
+}): PropertySearchIndex {
+  const tokens = new Set<string>();
+  for (const source of [property.title, property.city, property.neighborhood]) {
+    if (source) tokenizeSearchText(source).forEach((t) => tokens.add(t));
+  }
+  for (const keyword of (property.keywords ?? []).slice(
+    0,
+    MAX_INDEXED_KEYWORDS,
+  )) {
+    tokenizeSearchText(keyword).forEach((t) => tokens.add(t));
+  }
+
+  const grams = new Set<string>();
+  tokens.forEach((t) => tokenTrigrams(t).forEach((g) => grams.add(g)));
+
+  return { searchGrams: [...grams] };
+}
+
+// ─── Querying ─────────────────────────────────────────────────────────────────
+
+/**
+ * One entry per query word: the trigram sets of the word and each of its
+ * synonyms. A document matches a word when any variant's grams overlap.
+ */
+export type FuzzyQueryPlan = string[][][];
+
+export function buildFuzzyQueryPlan(query: string): FuzzyQueryPlan {
+  return tokenizeSearchText(query).map((token) =>
+    expandSynonyms(token).map((variant) => [
+      // Multi-word synonyms ("salle de bain") contribute all their grams
+      ...new Set(
+        tokenizeSearchText(variant).flatMap((part) =>
+          tokenTrigrams(part, variant !== token),
+        ),
+      ),
+    ]),
+  );
+}
+
+/**
+ * Share of the query's trigrams found in the candidate (0..1). Asymmetric on
+ * purpose: a typed prefix ("yaoun") scores 1 against the full word.
+ */
+export function fuzzyMatchScore(query: string, candidate: string): number {
+  const queryGrams = new Set(
+    tokenizeSearchText(query).flatMap((t) => tokenTrigrams(t, false)),
+  );
+  const candidateGrams = new Set(
+    tokenizeSearchText(candidate).flatMap((t) => tokenTrigrams(t)),
+  );
+  if (!queryGrams.size) return 0;
+  let shared = 0;
+  queryGrams.forEach((g) => candidateGrams.has(g) && shared++);
+  return shared / queryGrams.size;
+}
@@ -1,6 +1,21 @@
-import { IsString, IsOptional, IsNumber, IsEnum, IsBoolean, IsArray, ValidateNested, Min, Max } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsEnum,
+  IsBoolean,
+  IsArray,
+  IsMongoId,
+  ValidateNested,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Min,
+  Max,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 import { SearchFrequency } from '../schemas/saved-search.schema';
+import { LatLngDto } from '../../properties/dto/search-area.dto';
+import { MAX_POLYGON_VERTICES } from '../../properties/utils/geo.util';
 
 export class SearchCriteriaDto {
   @IsOptional()
@@ -60,6 +75,18 @@ export class SearchCriteriaDto {
   @IsNumber()
   @Min(0)
   radius?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(3)
+  @ArrayMaxSize(MAX_POLYGON_VERTICES)
+  @ValidateNested({ each: true })
+  @Type(() => LatLngDto)
+  polygon?: LatLngDto[];
+
+  @IsOptional()
+  @IsMongoId()
+  areaId?: string;
 }
 
 export class CreateSavedSearchDto {
@@ -5,6 +5,7 @@ import { SavedSearchesController } from './saved-searches.controller';
 import { SavedSearch, SavedSearchSchema } from './schemas/saved-search.schema';
 import { User, UserSchema } from '../users/schemas/user.schema';
 import { Property, PropertySchema } from '../properties/schemas/property.schema';
+import { SearchArea, SearchAreaSchema } from '../properties/schemas/search-area.schema';
 import { EmailModule } from '../email/email.module';
 
 @Module({
@@ -13,6 +14,7 @@ import { EmailModule } from '../email/email.module';
       { name: SavedSearch.name, schema: SavedSearchSchema },
       { name: User.name, schema: UserSchema },
       { name: Property.name, schema: PropertySchema },
+      { name: SearchArea.name, schema: SearchAreaSchema },
     ]),
     EmailModule,
   ],
@@ -6,6 +6,8 @@ import { Cron, CronExpression } from '@nestjs/schedule';
 import { SavedSearch, SavedSearchDocument, SearchFrequency } from './schemas/saved-search.schema';
 import { User, UserDocument } from '../users/schemas/user.schema';
 import { Property, PropertyDocument } from '../properties/schemas/property.schema';
+import { SearchArea, SearchAreaDocument } from '../properties/schemas/search-area.schema';
+import { fromGeoJsonPolygon, toGeoJsonPolygon } from '../properties/utils/geo.util';
 import { EmailService } from '../email/email.service';
 import { CreateSavedSearchDto, UpdateSavedSearchDto } from './dto/saved-search.dto';
 
@@ -17,6 +19,7 @@ export class SavedSearchesService {
     @InjectModel(SavedSearch.name) private savedSearchModel: Model<SavedSearchDocument>,
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+    @InjectModel(SearchArea.name) private searchAreaModel: Model<SearchAreaDocument>,
     private emailService: EmailService,
   ) {}
 
@@ -37,6 +40,8 @@ export class SavedSearchesService {
         throw new BadRequestException('Maximum number of saved searches (10) reached. Please delete an existing search to create a new one.');
       }
 
+      await this.resolveSearchArea(createDto.searchCriteria);
+
       // Get initial results count
       const resultsCount = await this.getMatchingPropertiesCount(createDto.searchCriteria);
 
@@ -177,6 +182,7 @@ export class SavedSearchesService {
 
       // Update results count if criteria changed
       if (updateDto.searchCriteria) {
+        await this.resolveSearchArea(updateDto.searchCriteria);
         const resultsCount = await this.getMatchingPropertiesCount(updateDto.searchCriteria);
         updateDto['resultsCount'] = resultsCount;
       }
@@ -386,6 +392,53 @@ export class SavedSearchesService {
     }
   }
 
+  /**
+   * Finds active saved searches the given property currently matches (e.g.
+   * after a price drop brought it into range) and queues it as a new match
+   * for their next digest. Returns the owning user IDs.
+   */
+  async matchProperty(propertyId: string): Promise<string[]> {
+    const property = await this.propertyModel
+      .findById(propertyId)
+      .select('listingType type')
+      .lean()
+      .exec();
+    if (!property) return [];
+
+    // Cheap pre-filter on exact-match criteria before running each query
+    const searches = await this.savedSearchModel
+      .find({
+        isActive: true,
+        notificationFrequency: { $ne: SearchFrequency.NEVER },
+        'searchCriteria.listingType': { $in: [null, property.listingType] },
+        'searchCriteria.propertyType': { $in: [null, property.type] },
+      })
+      .select('userId searchCriteria')
+      .lean()
+      .exec();
+
+    const matched: string[] = [];
+    for (const search of searches) {
+      try {
+        const hit = await this.propertyModel.exists({
+          ...this.buildPropertyQuery(search.searchCriteria),
+          _id: property._id,
+        });
+        if (!hit) continue;
+
+        await this.savedSearchModel.updateOne(
+          { _id: search._id },
+          { $addToSet: { newMatchingProperties: property._id } },
+        );
+        matched.push(search.userId.toString());
+      } catch (error) {
+        this.logger.error(`Error matching property ${propertyId} against search ${search._id}:`, error);
+      }
+    }
+
+    return [...new Set(matched)];
+  }
+
   /**
    * Update new matching properties for a saved search
    */
@@ -422,6 +475,28 @@ export class SavedSearchesService {
     }
   }
 
+  /**
+   * Copies a named SearchArea's boundary into the criteria so alerts keep
+   * matching the exact shape the user picked, even if the area is edited later.
+   */
+  private async resolveSearchArea(criteria: SavedSearch['searchCriteria']): Promise<void> {
+    if (criteria.polygon?.length) {
+      // Validates the shape up-front so a bad polygon never gets persisted
+      toGeoJsonPolygon(criteria.polygon);
+      return;
+    }
+    if (!criteria.areaId) return;
+
+    const area = await this.searchAreaModel
+      .findOne({ _id: new Types.ObjectId(criteria.areaId), isActive: true })
+      .select('boundary')
+      .lean()
+      .exec();
+    if (!area) throw new NotFoundException('Search area not found');
+
+    criteria.polygon = fromGeoJsonPolygon(area.boundary);
+  }
+
   /**
    * Get count of matching properties
    */
@@ -486,8 +561,10 @@ private buildPropertyQuery(criteria: any): any {
     query.$and = amenityQueries;
   }
 
-  // Geospatial search
-  if (criteria.latitude && criteria.longitude && criteria.radius) {
+  // Geospatial search — a saved polygon wins over center + radius
+  if (criteria.polygon?.length) {
+    query.location = { $geoWithin: { $geometry: toGeoJsonPolygon(criteria.polygon) } };
+  } else if (criteria.latitude && criteria.longitude && criteria.radius) {
     query.location = {
       $near: {
         $geometry: {
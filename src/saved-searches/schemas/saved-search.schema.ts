@@ -36,6 +36,10 @@ export class SavedSearch {
     latitude?: number;
     longitude?: number;
     radius?: number;
+    /** Map shape the search is restricted to (drawn or copied from a SearchArea). */
+    polygon?: { lat: number; lng: number }[];
+    /** SearchArea the polygon was taken from, if any. */
+    areaId?: string;
   };
 
   // Email notification settings
@@ -6,6 +6,7 @@ import {
   Logger,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Model, Types } from 'mongoose';
 
 import {
@@ -21,6 +22,10 @@ import {
 } from './dto/student-property.dto';
 import { NotificationsService } from '../notifications/notifications.service';
 import { NotificationType } from '../notifications/schemas/notification.schema';
+import {
+  PropertyChangedEvent,
+  PropertyEvents,
+} from '../properties/events/property.events';
 
 @Injectable()
 export class StudentPropertiesService {
@@ -32,6 +37,7 @@ export class StudentPropertiesService {
     @InjectModel(User.name)
     private userModel: Model<UserDocument>,
     private notificationsService: NotificationsService,
+    private eventEmitter: EventEmitter2,
   ) {}
 
   // ══════════════════════════════════════════════════════════════════════════
@@ -248,6 +254,8 @@ export class StudentPropertiesService {
       )
       .exec();
 
+    // Campus distance is filled from the points-of-interest dataset when left empty
+    this.emitStudentDetailsChanged(updated!, requestingUser);
     this.logger.log(`✅ Property ${propertyId} marked as student-friendly`);
     return updated!;
   }
@@ -283,10 +291,31 @@ export class StudentPropertiesService {
       )
       .exec();
 
+    this.emitStudentDetailsChanged(updated!, requestingUser);
     this.logger.log(`Property ${propertyId} removed from student programme`);
     return updated!;
   }
 
+  private emitStudentDetailsChanged(
+    property: Property,
+    actor: { _id: Types.ObjectId },
+  ): void {
+    this.eventEmitter
+      .emitAsync(
+        PropertyEvents.UPDATED,
+        new PropertyChangedEvent(
+          property._id.toString(),
+          property.ownerId.toString(),
+          actor._id.toString(),
+          property.city,
+          property.listingType,
+          property.approvalStatus,
+          ['isStudentFriendly', 'studentDetails'],
+        ),
+      )
+      .catch((e) => this.logger.error('Student details event failed', e));
+  }
+
   // ══════════════════════════════════════════════════════════════════════════
   // ADMIN — Student-Approved badge
   // ══════════════════════════════════════════════════════════════════════════
@@ -0,0 +1,17 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsMongoId, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreateFeedPartnerDto {
+  @ApiProperty({ example: 'Facebook home listings catalog' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Admins only: restrict the key to this owner. Omit for a platform-wide key. Other roles always get a key for their own listings.',
+  })
+  @IsOptional()
+  @IsMongoId()
+  ownerId?: string;
+}
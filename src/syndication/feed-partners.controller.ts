@@ -0,0 +1,70 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Req,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { FastifyRequest } from 'fastify';
+
+import { SyndicationService } from './syndication.service';
+import { CreateFeedPartnerDto } from './dto/feed-partner.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { RolesGuard, Roles } from '../auth/guards/roles.guard';
+import { User, UserRole } from '../users/schemas/user.schema';
+
+@ApiTags('Syndication Feeds')
+@ApiBearerAuth()
+@Controller('feeds/partners')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.AGENT, UserRole.LANDLORD, UserRole.HOST, UserRole.ADMIN)
+export class FeedPartnersController {
+  constructor(private readonly syndicationService: SyndicationService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Issue a feed API key for a partner portal',
+    description:
+      'Admins can issue platform-wide keys; other roles get a key for their own listings. The key is only shown in this response.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Partner created, API key returned',
+  })
+  async create(
+    @Body() dto: CreateFeedPartnerDto,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    return this.syndicationService.createPartner(dto, req.user);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List feed partners (admins see all)' })
+  async list(@Req() req: FastifyRequest & { user: User }) {
+    return this.syndicationService.listPartners(req.user);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke a feed API key' })
+  @ApiParam({ name: 'id', description: 'Feed partner ID' })
+  @ApiResponse({ status: 404, description: 'Feed partner not found' })
+  async revoke(
+    @Param('id') id: string,
+    @Req() req: FastifyRequest & { user: User },
+  ) {
+    await this.syndicationService.revokePartner(id, req.user);
+  }
+}
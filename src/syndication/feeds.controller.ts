@@ -0,0 +1,127 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+  BadRequestException,
+  applyDecorators,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { FastifyReply } from 'fastify';
+
+import {
+  SyndicationService,
+  FEED_DEFAULT_LIMIT,
+  FEED_MAX_LIMIT,
+} from './syndication.service';
+import { FeedApiKeyGuard, FeedRequest } from './guards/feed-api-key.guard';
+import { toHomeListingsXml } from './utils/feed-format.util';
+
+@ApiTags('Syndication Feeds')
+@ApiSecurity('api_key')
+@Controller('feeds')
+@UseGuards(FeedApiKeyGuard)
+export class FeedsController {
+  constructor(private readonly syndicationService: SyndicationService) {}
+
+  @Get('properties')
+  @ApiOperation({
+    summary: 'Platform-wide listing feed (platform API keys only)',
+  })
+  @FeedQueryDocs()
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  @ApiResponse({ status: 403, description: 'Key is scoped to one owner' })
+  async platformFeed(
+    @Req() req: FeedRequest,
+    @Res({ passthrough: true }) reply: FastifyReply,
+    @Query() query: Record<string, string | undefined>,
+  ) {
+    return this.render(req, reply, query);
+  }
+
+  @Get('owners/:ownerId/properties')
+  @ApiOperation({ summary: "One owner's listing feed" })
+  @ApiParam({ name: 'ownerId', description: 'Owner (user) ID' })
+  @FeedQueryDocs()
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  @ApiResponse({ status: 403, description: 'Key belongs to another owner' })
+  async ownerFeed(
+    @Param('ownerId') ownerId: string,
+    @Req() req: FeedRequest,
+    @Res({ passthrough: true }) reply: FastifyReply,
+    @Query() query: Record<string, string | undefined>,
+  ) {
+    return this.render(req, reply, query, ownerId);
+  }
+
+  private async render(
+    req: FeedRequest,
+    reply: FastifyReply,
+    query: Record<string, string | undefined>,
+    ownerId?: string,
+  ) {
+    const format = query.format ?? 'json';
+    if (format !== 'json' && format !== 'xml') {
+      throw new BadRequestException('format must be json or xml');
+    }
+
+    let since: Date | undefined;
+    if (query.since) {
+      since = new Date(query.since);
+      if (isNaN(since.getTime())) {
+        throw new BadRequestException('since must be an ISO 8601 date');
+      }
+    }
+
+    const page = await this.syndicationService.getFeed(req.feedPartner, {
+      ownerId,
+      since,
+      cursor: query.cursor,
+      limit: query.limit ? parseInt(query.limit) || undefined : undefined,
+    });
+
+    if (format === 'xml') {
+      void reply.header('Content-Type', 'application/xml; charset=utf-8');
+      return toHomeListingsXml(page, 'HoroHouse listings');
+    }
+    return page;
+  }
+}
+
+function FeedQueryDocs() {
+  return applyDecorators(
+    ApiQuery({ name: 'format', required: false, enum: ['json', 'xml'] }),
+    ApiQuery({
+      name: 'since',
+      required: false,
+      description:
+        'ISO date. Only listings changed after it, including removed ones. Omit for a full snapshot.',
+    }),
+    ApiQuery({
+      name: 'cursor',
+      required: false,
+      description: 'nextCursor from the previous page',
+    }),
+    ApiQuery({
+      name: 'limit',
+      required: false,
+      type: Number,
+      description: `Default ${FEED_DEFAULT_LIMIT}, max ${FEED_MAX_LIMIT}`,
+    }),
+    ApiQuery({
+      name: 'api_key',
+      required: false,
+      description: 'Alternative to the X-API-Key header',
+    }),
+  );
+}
@@ -0,0 +1,37 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { FastifyRequest } from 'fastify';
+import { SyndicationService } from '../syndication.service';
+import { FeedPartner } from '../schemas/feed-partner.schema';
+
+export type FeedRequest = FastifyRequest & { feedPartner: FeedPartner };
+
+/**
+ * Authenticates partner feed pulls. The key is read from the `X-API-Key`
+ * header, or from `api_key` in the query string for catalog fetchers that
+ * can only be given a URL.
+ */
+@Injectable()
+export class FeedApiKeyGuard implements CanActivate {
+  constructor(private readonly syndicationService: SyndicationService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const req = context.switchToHttp().getRequest<FeedRequest>();
+    const header = req.headers['x-api-key'];
+    const apiKey =
+      (Array.isArray(header) ? header[0] : header) ??
+      (req.query as Record<string, string | undefined>)?.api_key;
+
+    if (!apiKey) throw new UnauthorizedException('API key required');
+
+    const partner = await this.syndicationService.authenticate(apiKey);
+    if (!partner) throw new UnauthorizedException('Invalid or revoked API key');
+
+    req.feedPartner = partner;
+    return true;
+  }
+}
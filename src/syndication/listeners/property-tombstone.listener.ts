@@ -0,0 +1,21 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { SyndicationService } from '../syndication.service';
+import {
+  PropertyChangedEvent,
+  PropertyEvents,
+} from '../../properties/events/property.events';
+
+/** Leaves a tombstone so incremental feeds can report deleted listings. */
+@Injectable()
+export class PropertyTombstoneListener {
+  constructor(private readonly syndicationService: SyndicationService) {}
+
+  @OnEvent(PropertyEvents.DELETED)
+  async handleDeleted(event: PropertyChangedEvent): Promise<void> {
+    await this.syndicationService.recordDeletion(
+      event.propertyId,
+      event.ownerId,
+    );
+  }
+}
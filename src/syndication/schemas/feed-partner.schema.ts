@@ -0,0 +1,51 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type FeedPartnerDocument = FeedPartner & Document;
+
+/**
+ * A partner portal or catalog (Facebook, Google, an aggregator…) allowed to
+ * pull our listing feed. Each partner has its own API key; only its SHA-256
+ * hash is stored.
+ */
+@Schema({ timestamps: true })
+export class FeedPartner {
+  _id!: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  /**
+   * Restricts the key to one owner's listings. Absent for platform-wide keys,
+   * which only admins can issue.
+   */
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  ownerId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  /** First characters of the key, shown in the UI to tell keys apart. */
+  @Prop({ required: true })
+  keyPrefix: string;
+
+  @Prop({ required: true, select: false })
+  keyHash: string;
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop()
+  lastUsedAt?: Date;
+
+  @Prop({ default: 0 })
+  requestCount: number;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const FeedPartnerSchema = SchemaFactory.createForClass(FeedPartner);
+
+FeedPartnerSchema.index({ keyHash: 1 }, { unique: true });
+FeedPartnerSchema.index({ ownerId: 1, createdAt: -1 });
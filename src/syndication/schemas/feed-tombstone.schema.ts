@@ -0,0 +1,30 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type FeedTombstoneDocument = FeedTombstone & Document;
+
+/** How long deleted listings are reported to incremental (`since`) pulls. */
+export const FEED_TOMBSTONE_TTL_DAYS = 90;
+
+/**
+ * Listings are hard-deleted, so incremental feeds would never learn that a
+ * listing is gone. A tombstone is kept for FEED_TOMBSTONE_TTL_DAYS instead.
+ */
+@Schema({ timestamps: { createdAt: 'deletedAt', updatedAt: false } })
+export class FeedTombstone {
+  @Prop({ type: Types.ObjectId, required: true })
+  propertyId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  ownerId?: Types.ObjectId;
+
+  deletedAt: Date;
+}
+
+export const FeedTombstoneSchema = SchemaFactory.createForClass(FeedTombstone);
+
+FeedTombstoneSchema.index({ ownerId: 1, deletedAt: 1 });
+FeedTombstoneSchema.index(
+  { deletedAt: 1 },
+  { expireAfterSeconds: FEED_TOMBSTONE_TTL_DAYS * 86_400 },
+);
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SyndicationService } from './syndication.service';
+import { FeedsController } from './feeds.controller';
+import { FeedPartnersController } from './feed-partners.controller';
+import { FeedApiKeyGuard } from './guards/feed-api-key.guard';
+import { PropertyTombstoneListener } from './listeners/property-tombstone.listener';
+import { FeedPartner, FeedPartnerSchema } from './schemas/feed-partner.schema';
+import {
+  FeedTombstone,
+  FeedTombstoneSchema,
+} from './schemas/feed-tombstone.schema';
+import {
+  Property,
+  PropertySchema,
+} from '../properties/schemas/property.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: FeedPartner.name, schema: FeedPartnerSchema },
+      { name: FeedTombstone.name, schema: FeedTombstoneSchema },
+      { name: Property.name, schema: PropertySchema },
+    ]),
+  ],
+  controllers: [FeedsController, FeedPartnersController],
+  providers: [SyndicationService, FeedApiKeyGuard, PropertyTombstoneListener],
+  exports: [SyndicationService],
+})
+export class SyndicationModule {}
@@ -0,0 +1,319 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import * as crypto from 'crypto';
+
+import {
+  FeedPartner,
+  FeedPartnerDocument,
+} from './schemas/feed-partner.schema';
+import {
+  FeedTombstone,
+  FeedTombstoneDocument,
+} from './schemas/feed-tombstone.schema';
+import { CreateFeedPartnerDto } from './dto/feed-partner.dto';
+import {
+  FeedListing,
+  FeedPage,
+  decodeFeedCursor,
+  encodeFeedCursor,
+} from './utils/feed-format.util';
+import {
+  ApprovalStatus,
+  ListingType,
+  Property,
+  PropertyDocument,
+} from '../properties/schemas/property.schema';
+import { User, UserRole } from '../users/schemas/user.schema';
+
+export const FEED_DEFAULT_LIMIT = 500;
+export const FEED_MAX_LIMIT = 1000;
+const FEED_KEY_PREFIX = 'hhf_';
+
+const FEED_PROJECTION = {
+  title: 1,
+  description: 1,
+  slug: 1,
+  type: 1,
+  listingType: 1,
+  price: 1,
+  currency: 1,
+  pricingUnit: 1,
+  address: 1,
+  neighborhood: 1,
+  city: 1,
+  state: 1,
+  country: 1,
+  location: 1,
+  amenities: 1,
+  area: 1,
+  images: 1,
+  isActive: 1,
+  approvalStatus: 1,
+  updatedAt: 1,
+};
+
+export interface FeedQuery {
+  ownerId?: string;
+  since?: Date;
+  cursor?: string;
+  limit?: number;
+}
+
+@Injectable()
+export class SyndicationService {
+  private readonly logger = new Logger(SyndicationService.name);
+
+  constructor(
+    @InjectModel(FeedPartner.name)
+    private partnerModel: Model<FeedPartnerDocument>,
+    @InjectModel(FeedTombstone.name)
+    private tombstoneModel: Model<FeedTombstoneDocument>,
+    @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+    private configService: ConfigService,
+  ) {}
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // PARTNERS & API KEYS
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /** Returns the plain API key once; only its hash is stored. */
+  async createPartner(
+    dto: CreateFeedPartnerDto,
+    user: User,
+  ): Promise<{ partner: FeedPartner; apiKey: string }> {
+    const isAdmin = user.role === UserRole.ADMIN;
+    const ownerId = isAdmin
+      ? dto.ownerId
+        ? new Types.ObjectId(dto.ownerId)
+        : undefined
+      : user._id;
+
+    const apiKey = FEED_KEY_PREFIX + crypto.randomBytes(24).toString('hex');
+    const created = await this.partnerModel.create({
+      name: dto.name,
+      ownerId,
+      createdBy: user._id,
+      keyPrefix: apiKey.slice(0, FEED_KEY_PREFIX.length + 6),
+      keyHash: this.hashKey(apiKey),
+    });
+
+    // Re-read so the select:false hash is left out of the response
+    const partner = (await this.partnerModel
+      .findById(created._id)
+      .lean<FeedPartner>()
+      .exec())!;
+
+    this.logger.log(
+      `Feed partner "${dto.name}" created by ${user._id.toString()} (${ownerId ? `owner ${ownerId.toString()}` : 'platform-wide'})`,
+    );
+    return { partner, apiKey };
+  }
+
+  listPartners(user: User): Promise<FeedPartner[]> {
+    const filter = user.role === UserRole.ADMIN ? {} : { ownerId: user._id };
+    return this.partnerModel
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .lean<FeedPartner[]>()
+      .exec();
+  }
+
+  async revokePartner(id: string, user: User): Promise<void> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid partner ID');
+    }
+    const partner = await this.partnerModel.findById(id).exec();
+    if (!partner) throw new NotFoundException('Feed partner not found');
+    if (
+      user.role !== UserRole.ADMIN &&
+      partner.ownerId?.toString() !== user._id.toString()
+    ) {
+      throw new ForbiddenException('You can only revoke your own feed keys');
+    }
+
+    partner.isActive = false;
+    await partner.save();
+    this.logger.log(`Feed partner ${id} revoked by ${user._id.toString()}`);
+  }
+
+  /** Resolves an API key to its active partner, or null. */
+  async authenticate(apiKey: string): Promise<FeedPartner | null> {
+    if (!apiKey.startsWith(FEED_KEY_PREFIX)) return null;
+
+    const partner = await this.partnerModel
+      .findOne({ keyHash: this.hashKey(apiKey), isActive: true })
+      .lean<FeedPartner>()
+      .exec();
+    if (!partner) return null;
+
+    this.partnerModel
+      .updateOne(
+        { _id: partner._id },
+        { $set: { lastUsedAt: new Date() }, $inc: { requestCount: 1 } },
+      )
+      .exec()
+      .catch((e) => this.logger.error('Failed to record feed access', e));
+
+    return partner;
+  }
+
+  private hashKey(apiKey: string): string {
+    return crypto.createHash('sha256').update(apiKey).digest('hex');
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // FEED
+  // ════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * One page of the feed, oldest change first.
+   *
+   * Without `since` this is a full snapshot of live listings. With `since`,
+   * everything changed after that date is returned: live listings as
+   * `active`, and unpublished or deleted ones as `removed`.
+   */
+  async getFeed(partner: FeedPartner, query: FeedQuery): Promise<FeedPage> {
+    this.assertScope(partner, query.ownerId);
+
+    const limit = Math.min(
+      Math.max(query.limit ?? FEED_DEFAULT_LIMIT, 1),
+      FEED_MAX_LIMIT,
+    );
+    const ownerId = query.ownerId
+      ? new Types.ObjectId(query.ownerId)
+      : undefined;
+
+    const filter: Record<string, any> = {};
+    if (ownerId) filter.ownerId = ownerId;
+    if (query.since) {
+      filter.updatedAt = { $gt: query.since };
+    } else {
+      filter.isActive = true;
+      filter.approvalStatus = ApprovalStatus.APPROVED;
+    }
+
+    if (query.cursor) {
+      const position = decodeFeedCursor(query.cursor);
+      if (!position) throw new BadRequestException('Invalid cursor');
+      filter.$or = [
+        { updatedAt: { $gt: position.updatedAt } },
+        {
+          updatedAt: position.updatedAt,
+          _id: { $gt: new Types.ObjectId(position.id) },
+        },
+      ];
+    }
+
+    const properties = await this.propertyModel
+      .find(filter)
+      .select(FEED_PROJECTION)
+      .sort({ updatedAt: 1, _id: 1 })
+      .limit(limit + 1)
+      .lean<Property[]>()
+      .exec();
+
+    const hasMore = properties.length > limit;
+    const page = hasMore ? properties.slice(0, limit) : properties;
+    const listings = page.map((p) => this.toFeedListing(p));
+
+    // Deletions are reported once, on the first page of an incremental pull
+    if (query.since && !query.cursor) {
+      const tombstones = await this.tombstoneModel
+        .find({
+          deletedAt: { $gt: query.since },
+          ...(ownerId ? { ownerId } : {}),
+        })
+        .lean<FeedTombstone[]>()
+        .exec();
+      listings.unshift(
+        ...tombstones.map(
+          (t): FeedListing => ({
+            id: t.propertyId.toString(),
+            status: 'removed',
+            updatedAt: t.deletedAt.toISOString(),
+          }),
+        ),
+      );
+    }
+
+    const last = page[page.length - 1];
+    return {
+      generatedAt: new Date().toISOString(),
+      listings,
+      nextCursor: hasMore
+        ? encodeFeedCursor(last.updatedAt, last._id.toString())
+        : undefined,
+    };
+  }
+
+  async recordDeletion(propertyId: string, ownerId?: string): Promise<void> {
+    await this.tombstoneModel.create({
+      propertyId: new Types.ObjectId(propertyId),
+      ownerId: ownerId ? new Types.ObjectId(ownerId) : undefined,
+    });
+  }
+
+  /** Owner-scoped keys can only read their owner's feed. */
+  private assertScope(partner: FeedPartner, ownerId?: string): void {
+    if (ownerId && !Types.ObjectId.isValid(ownerId)) {
+      throw new BadRequestException('Invalid owner ID');
+    }
+    if (partner.ownerId && partner.ownerId.toString() !== ownerId) {
+      throw new ForbiddenException(
+        'This API key only gives access to its owner feed',
+      );
+    }
+  }
+
+  private toFeedListing(p: Property): FeedListing {
+    const live = p.isActive && p.approvalStatus === ApprovalStatus.APPROVED;
+    const base = { id: p._id.toString(), updatedAt: p.updatedAt.toISOString() };
+    if (!live) return { ...base, status: 'removed' };
+
+    const frontendUrl =
+      this.configService.get<string>('FRONTEND_URL') ?? 'http://localhost:3000';
+    const [longitude, latitude] = p.location?.coordinates ?? [];
+    const { bedrooms, bathrooms, ...flags } = p.amenities ?? {};
+
+    return {
+      ...base,
+      status: 'active',
+      title: p.title,
+      description: p.description,
+      url: `${frontendUrl}/properties/${p._id.toString()}`,
+      listingType: p.listingType,
+      propertyType: p.type,
+      price: p.price,
+      currency: p.currency ?? 'XAF',
+      pricingUnit:
+        p.listingType === ListingType.SHORT_TERM ? p.pricingUnit : undefined,
+      address: {
+        street: p.address,
+        neighborhood: p.neighborhood,
+        city: p.city,
+        region: p.state,
+        country: p.country ?? 'Cameroon',
+      },
+      latitude,
+      longitude,
+      bedrooms,
+      bathrooms,
+      area: p.area,
+      amenities: Object.entries(flags)
+        .filter(([, value]) => value === true)
+        .map(([name]) => name),
+      // Catalogs use the first image as the listing thumbnail
+      images: [...(p.images ?? [])]
+        .sort((a, b) => Number(!!b.isMain) - Number(!!a.isMain))
+        .map((img) => ({ url: img.url, caption: img.caption })),
+    };
+  }
+}
@@ -0,0 +1,56 @@
+import { ListingType } from '../../properties/schemas/property.schema';
+import {
+  FeedPage,
+  decodeFeedCursor,
+  encodeFeedCursor,
+  toHomeListingsXml,
+} from './feed-format.util';
+
+describe('feed format', () => {
+  const page: FeedPage = {
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    listings: [
+      {
+        id: 'a1',
+        status: 'active',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+        title: 'Villa <Bonapriso> & jardin',
+        listingType: ListingType.SALE,
+        price: 90000000,
+        currency: 'XAF',
+        address: { street: 'Rue Njo-Njo', city: 'douala' },
+        images: [{ url: 'https://cdn.example/1.jpg' }],
+      },
+      { id: 'b2', status: 'removed', updatedAt: '2026-01-02T00:00:00.000Z' },
+    ],
+  };
+
+  it('renders home-listings XML with escaped values', () => {
+    const xml = toHomeListingsXml(page, 'HoroHouse listings');
+
+    expect(xml).toContain('<name>Villa &lt;Bonapriso&gt; &amp; jardin</name>');
+    expect(xml).toContain('<availability>for_sale</availability>');
+    expect(xml).toContain('<price>90000000 XAF</price>');
+    expect(xml).toContain('<component name="addr1">Rue Njo-Njo</component>');
+    expect(xml).toContain('<url>https://cdn.example/1.jpg</url>');
+  });
+
+  it('reports removed listings as off market without details', () => {
+    const xml = toHomeListingsXml(page, 'HoroHouse listings');
+    const removed = xml.slice(xml.indexOf('<home_listing_id>b2'));
+
+    expect(removed).toContain('<availability>off_market</availability>');
+    expect(removed).not.toContain('<name>');
+  });
+
+  it('round-trips cursors and rejects garbage', () => {
+    const at = new Date('2026-03-04T05:06:07.000Z');
+    const cursor = encodeFeedCursor(at, '65a1b2c3d4e5f6a7b8c9d0e1');
+
+    expect(decodeFeedCursor(cursor)).toEqual({
+      updatedAt: at,
+      id: '65a1b2c3d4e5f6a7b8c9d0e1',
+    });
+    expect(decodeFeedCursor('not-a-cursor')).toBeNull();
+  });
+});
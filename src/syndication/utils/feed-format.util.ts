@@ -0,0 +1,161 @@
+import { ListingType } from '../../properties/schemas/property.schema';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Partner-facing shape of a listing, shared by the XML and JSON feeds. */
+export interface FeedListing {
+  id: string;
+  /** `removed` entries only appear in incremental (`since`) pulls. */
+  status: 'active' | 'removed';
+  updatedAt: string;
+  title?: string;
+  description?: string;
+  url?: string;
+  listingType?: ListingType;
+  propertyType?: string;
+  price?: number;
+  currency?: string;
+  /** Short-term listings only: nightly, weekly or monthly. */
+  pricingUnit?: string;
+  address?: {
+    street?: string;
+    neighborhood?: string;
+    city?: string;
+    region?: string;
+    country?: string;
+  };
+  latitude?: number;
+  longitude?: number;
+  bedrooms?: number;
+  bathrooms?: number;
+  /** Square metres. */
+  area?: number;
+  /** Names of the amenities that are present, e.g. `hasGenerator`. */
+  amenities?: string[];
+  images?: { url: string; caption?: string }[];
+}
+
+export interface FeedPage {
+  generatedAt: string;
+  listings: FeedListing[];
+  /** Pass back as `cursor` to fetch the next page; absent on the last page. */
+  nextCursor?: string;
+}
+
+// ─── XML ──────────────────────────────────────────────────────────────────────
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function element(
+  name: string,
+  value: string | number | undefined,
+  indent: string,
+): string {
+  if (value === undefined || value === '') return '';
+  return `${indent}<${name}>${escapeXml(String(value))}</${name}>\n`;
+}
+
+function availability(listing: FeedListing): string {
+  if (listing.status === 'removed') return 'off_market';
+  return listing.listingType === ListingType.SALE ? 'for_sale' : 'for_rent';
+}
+
+/**
+ * Serialises a feed page in the home-listings XML format read by the
+ * Facebook and Google real-estate catalogs (`<listings><listing>…`).
+ */
+export function toHomeListingsXml(page: FeedPage, title: string): string {
+  const out: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>\n',
+    '<listings>\n',
+    element('title', title, '  '),
+    element('generated_at', page.generatedAt, '  '),
+    element('next_cursor', page.nextCursor, '  '),
+  ];
+
+  for (const l of page.listings) {
+    out.push('  <listing>\n');
+    out.push(element('home_listing_id', l.id, '    '));
+    out.push(element('availability', availability(l), '    '));
+    out.push(element('updated_time', l.updatedAt, '    '));
+
+    if (l.status === 'active') {
+      out.push(element('name', l.title, '    '));
+      out.push(element('description', l.description, '    '));
+      out.push(element('url', l.url, '    '));
+
+      if (l.address) {
+        out.push('    <address format="simple">\n');
+        const components: [string, string | undefined][] = [
+          ['addr1', l.address.street],
+          ['city', l.address.city],
+          ['region', l.address.region],
+          ['country', l.address.country],
+        ];
+        for (const [name, value] of components) {
+          if (value) {
+            out.push(
+              `      <component name="${name}">${escapeXml(value)}</component>\n`,
+            );
+          }
+        }
+        out.push('    </address>\n');
+        out.push(element('neighborhood', l.address.neighborhood, '    '));
+      }
+
+      out.push(element('latitude', l.latitude, '    '));
+      out.push(element('longitude', l.longitude, '    '));
+      out.push(element('property_type', l.propertyType, '    '));
+      out.push(element('listing_type', l.listingType, '    '));
+      if (l.price !== undefined) {
+        out.push(element('price', `${l.price} ${l.currency ?? 'XAF'}`, '    '));
+      }
+      out.push(element('pricing_unit', l.pricingUnit, '    '));
+      out.push(element('num_beds', l.bedrooms, '    '));
+      out.push(element('num_baths', l.bathrooms, '    '));
+      if (l.area) {
+        out.push(element('area_size', l.area, '    '));
+        out.push(element('area_unit', 'sq_m', '    '));
+      }
+      for (const amenity of l.amenities ?? []) {
+        out.push(element('amenity', amenity, '    '));
+      }
+      for (const image of l.images ?? []) {
+        out.push('    <image>\n');
+        out.push(element('url', image.url, '      '));
+        out.push(element('tag', image.caption, '      '));
+        out.push('    </image>\n');
+      }
+    }
+
+    out.push('  </listing>\n');
+  }
+
+  out.push('</listings>\n');
+  return out.join('');
+}
+
+// ─── Cursor ───────────────────────────────────────────────────────────────────
+
+/** Opaque position in the (updatedAt, _id) ordering of the feed. */
+export function encodeFeedCursor(updatedAt: Date, id: string): string {
+  return Buffer.from(`${updatedAt.toISOString()}|${id}`).toString('base64url');
+}
+
+export function decodeFeedCursor(
+  cursor: string,
+): { updatedAt: Date; id: string } | null {
+  const [iso, id] = Buffer.from(cursor, 'base64url').toString().split('|');
+  const updatedAt = new Date(iso);
+  if (!id || !/^[a-f0-9]{24}$/.test(id) || isNaN(updatedAt.getTime())) {
+    return null;
+  }
+  return { updatedAt, id };
+}
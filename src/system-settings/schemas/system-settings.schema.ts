@@ -33,6 +33,19 @@ class FeatureFlags {
     enableBooking: boolean;
 }
 
+/** Default number of days a listing stays online before it expires, per ListingType. */
+@Schema({ _id: false })
+export class ListingLifetimes {
+    @Prop({ default: 180, min: 1 })
+    sale: number;
+
+    @Prop({ default: 60, min: 1 })
+    rent: number;
+
+    @Prop({ default: 365, min: 1 })
+    short_term: number;
+}
+
 @Schema({ timestamps: true })
 export class SystemSettings {
     @Prop({ default: 'HoroHouse' })
@@ -62,6 +75,13 @@ export class SystemSettings {
     @Prop({ type: FeatureFlags, default: () => ({}) })
     featureFlags: FeatureFlags;
 
+    @Prop({ type: ListingLifetimes, default: () => ({}) })
+    listingLifetimeDays: ListingLifetimes;
+
+    /** Owners are reminded this many days before their listing expires. */
+    @Prop({ default: 7, min: 1 })
+    listingExpiryReminderDays: number;
+
     @Prop({ default: 'v1.0.0' })
     version: string;
 }
@@ -35,13 +35,15 @@ export function uploadBufferToCloudinary(
     resourceType = 'auto',
     overwrite = true,
     transformation,
-    
+    type = 'upload',
   }: {
     publicId?: string;
     folder?: string;
     resourceType?: 'image' | 'video' | 'raw' | 'auto';
     overwrite?: boolean;
     transformation?: any;
+    /** 'authenticated' assets have no public URL, see signedDownloadUrl. */
+    type?: 'upload' | 'authenticated';
   },
 ): Promise<any> {
   return new Promise((resolve, reject) => {
@@ -52,6 +54,7 @@ export function uploadBufferToCloudinary(
         overwrite,
         resource_type: resourceType,
         transformation,
+        type,
       },
       (error, result) => {
         if (error) return reject(error);
@@ -63,6 +66,19 @@ export function uploadBufferToCloudinary(
   });
 }
 
-export function deleteFromCloudinary(publicId: string, resourceType: 'image' | 'video' | 'raw' | 'auto' = 'image'): Promise<any> {
-  return cloudinary.uploader.destroy(publicId, { resource_type: resourceType });
+export function deleteFromCloudinary(
+  publicId: string,
+  resourceType: 'image' | 'video' | 'raw' | 'auto' = 'image',
+  type: 'upload' | 'authenticated' = 'upload',
+): Promise<any> {
+  return cloudinary.uploader.destroy(publicId, { resource_type: resourceType, type });
+}
+
+// Time-limited download link for an authenticated image asset
+export function signedDownloadUrl(publicId: string, format: string, expiresInSeconds = 600): string {
+  return cloudinary.utils.private_download_url(publicId, format, {
+    resource_type: 'image',
+    type: 'authenticated',
+    expires_at: Math.floor(Date.now() / 1000) + expiresInSeconds,
+  });
 }